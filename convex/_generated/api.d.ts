@@ -10,22 +10,52 @@
 
 import type * as activities from "../activities.js";
 import type * as agentSessions from "../agentSessions.js";
+import type * as aliases from "../aliases.js";
 import type * as ai from "../ai.js";
 import type * as analytics from "../analytics.js";
 import type * as anam from "../anam.js";
+import type * as bulkUpdates from "../bulkUpdates.js";
+import type * as callExtraction from "../callExtraction.js";
+import type * as callLogging from "../callLogging.js";
+import type * as changeJournal from "../changeJournal.js";
 import type * as conversations from "../conversations.js";
+import type * as crm from "../crm.js";
 import type * as crons from "../crons.js";
+import type * as dateResolver from "../dateResolver.js";
+import type * as dealAlerts from "../dealAlerts.js";
 import type * as dealCoach from "../dealCoach.js";
+import type * as disambiguation from "../disambiguation.js";
 import type * as http from "../http.js";
+import type * as hubspot from "../hubspot.js";
+import type * as llm from "../llm.js";
+import type * as llmAnthropic from "../llmAnthropic.js";
+import type * as llmConfig from "../llmConfig.js";
+import type * as llmMetrics from "../llmMetrics.js";
+import type * as llmOpenAI from "../llmOpenAI.js";
+import type * as llmStub from "../llmStub.js";
 import type * as orgCredentials from "../orgCredentials.js";
 import type * as orgMetadata from "../orgMetadata.js";
+import type * as orgPromptContext from "../orgPromptContext.js";
+import type * as pendingActions from "../pendingActions.js";
+import type * as recommendations from "../recommendations.js";
 import type * as recordings from "../recordings.js";
+import type * as redaction from "../redaction.js";
+import type * as redactionPolicy from "../redactionPolicy.js";
+import type * as reports from "../reports.js";
+import type * as responseModel from "../responseModel.js";
+import type * as responseRenderers from "../responseRenderers.js";
 import type * as salesforce from "../salesforce.js";
+import type * as salesforceCache from "../salesforceCache.js";
+import type * as salesforceComposite from "../salesforceComposite.js";
+import type * as salesforceErrors from "../salesforceErrors.js";
+import type * as salesforceOrg from "../salesforceOrg.js";
 import type * as sendblue from "../sendblue.js";
 import type * as slack from "../slack.js";
 import type * as slackAuth from "../slackAuth.js";
 import type * as slackBlocks from "../slackBlocks.js";
 import type * as slackCommands from "../slackCommands.js";
+import type * as soqlAggregate from "../soqlAggregate.js";
+import type * as soqlValidator from "../soqlValidator.js";
 import type * as textMessages from "../textMessages.js";
 import type * as twilio from "../twilio.js";
 import type * as users from "../users.js";
@@ -39,22 +69,52 @@ import type {
 declare const fullApi: ApiFromModules<{
   activities: typeof activities;
   agentSessions: typeof agentSessions;
+  aliases: typeof aliases;
   ai: typeof ai;
   analytics: typeof analytics;
   anam: typeof anam;
+  bulkUpdates: typeof bulkUpdates;
+  callExtraction: typeof callExtraction;
+  callLogging: typeof callLogging;
+  changeJournal: typeof changeJournal;
   conversations: typeof conversations;
+  crm: typeof crm;
   crons: typeof crons;
+  dateResolver: typeof dateResolver;
+  dealAlerts: typeof dealAlerts;
   dealCoach: typeof dealCoach;
+  disambiguation: typeof disambiguation;
   http: typeof http;
+  hubspot: typeof hubspot;
+  llm: typeof llm;
+  llmAnthropic: typeof llmAnthropic;
+  llmConfig: typeof llmConfig;
+  llmMetrics: typeof llmMetrics;
+  llmOpenAI: typeof llmOpenAI;
+  llmStub: typeof llmStub;
   orgCredentials: typeof orgCredentials;
   orgMetadata: typeof orgMetadata;
+  orgPromptContext: typeof orgPromptContext;
+  pendingActions: typeof pendingActions;
+  recommendations: typeof recommendations;
   recordings: typeof recordings;
+  redaction: typeof redaction;
+  redactionPolicy: typeof redactionPolicy;
+  reports: typeof reports;
+  responseModel: typeof responseModel;
+  responseRenderers: typeof responseRenderers;
   salesforce: typeof salesforce;
+  salesforceCache: typeof salesforceCache;
+  salesforceComposite: typeof salesforceComposite;
+  salesforceErrors: typeof salesforceErrors;
+  salesforceOrg: typeof salesforceOrg;
   sendblue: typeof sendblue;
   slack: typeof slack;
   slackAuth: typeof slackAuth;
   slackBlocks: typeof slackBlocks;
   slackCommands: typeof slackCommands;
+  soqlAggregate: typeof soqlAggregate;
+  soqlValidator: typeof soqlValidator;
   textMessages: typeof textMessages;
   twilio: typeof twilio;
   users: typeof users;
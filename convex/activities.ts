@@ -1,5 +1,7 @@
 import { v } from "convex/values";
+import { FilterBuilder, NamedTableInfo } from "convex/server";
 import { mutation, query, internalMutation } from "./_generated/server";
+import { DataModel, Id } from "./_generated/dataModel";
 
 // Activity types for the real-time feed
 const activityType = v.union(
@@ -55,6 +57,7 @@ export const logActivityInternal = internalMutation({
     recordName: v.optional(v.string()),
     recordType: v.optional(v.string()),
     conversationId: v.optional(v.string()),
+    userId: v.optional(v.id("users")),
   },
   returns: v.id("agentActivities"),
   handler: async (ctx, args) => {
@@ -94,13 +97,22 @@ export const clearExpiredActivities = internalMutation({
 // QUERIES (For dashboard subscription)
 // ============================================================================
 
+// Activities logged for a user stay out of everyone else's feed
+function visibleTo(q: FilterBuilder<NamedTableInfo<DataModel, "agentActivities">>, userId?: Id<"users">) {
+  return userId
+    ? q.or(q.eq(q.field("userId"), undefined), q.eq(q.field("userId"), userId))
+    : q.eq(q.field("userId"), undefined);
+}
+
 /**
  * Get recent activities for real-time feed
- * Dashboard subscribes to this for live updates
+ * Dashboard subscribes to this for live updates - shared activities, plus the
+ * signed-in user's own when userId is given
  */
 export const getRecentActivities = query({
   args: {
     limit: v.optional(v.number()),
+    userId: v.optional(v.id("users")),
   },
   returns: v.array(
     v.object({
@@ -113,6 +125,7 @@ export const getRecentActivities = query({
       recordName: v.optional(v.string()),
       recordType: v.optional(v.string()),
       conversationId: v.optional(v.string()),
+      userId: v.optional(v.id("users")),
       timestamp: v.number(),
       expiresAt: v.number(),
     })
@@ -122,6 +135,7 @@ export const getRecentActivities = query({
       .query("agentActivities")
       .withIndex("by_timestamp")
       .order("desc")
+      .filter((q) => visibleTo(q, args.userId))
       .take(args.limit || 20);
 
     return activities;
@@ -132,7 +146,9 @@ export const getRecentActivities = query({
  * Get the latest activity (for showing current status)
  */
 export const getLatestActivity = query({
-  args: {},
+  args: {
+    userId: v.optional(v.id("users")),
+  },
   returns: v.union(
     v.null(),
     v.object({
@@ -145,15 +161,17 @@ export const getLatestActivity = query({
       recordName: v.optional(v.string()),
       recordType: v.optional(v.string()),
       conversationId: v.optional(v.string()),
+      userId: v.optional(v.id("users")),
       timestamp: v.number(),
       expiresAt: v.number(),
     })
   ),
-  handler: async (ctx) => {
+  handler: async (ctx, args) => {
     const activity = await ctx.db
       .query("agentActivities")
       .withIndex("by_timestamp")
       .order("desc")
+      .filter((q) => visibleTo(q, args.userId))
       .first();
 
     return activity;
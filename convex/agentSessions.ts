@@ -2,10 +2,47 @@ import { v } from "convex/values";
 import {
   query,
   mutation,
+  internalAction,
   internalMutation,
   internalQuery,
 } from "./_generated/server";
+import { internal } from "./_generated/api";
 import { Id } from "./_generated/dataModel";
+import { resolveLLM } from "./llm";
+import { maskPii } from "./redaction";
+import { loadRedactionPolicy } from "./redactionPolicy";
+
+// Roll older turns into contextSummary once unsummarized history passes this
+const SUMMARIZE_AFTER_TOKENS = 4000;
+
+// Turns always kept verbatim when summarizing
+const KEEP_RECENT_MESSAGES = 6;
+
+// Records remembered per session for "that deal" / "him" style references
+const MAX_RECENT_RECORDS = 10;
+
+export interface SessionRecord {
+  id: string;
+  type: string;
+  name: string;
+}
+
+/**
+ * Cross-channel continuity window for a user, or null when they haven't opted in
+ */
+export function continuityWindowMs(
+  user: { crossChannelWindowMinutes?: number } | null
+): number | null {
+  const minutes = user?.crossChannelWindowMinutes;
+  return minutes && minutes > 0 ? minutes * 60 * 1000 : null;
+}
+
+/**
+ * Rough token estimate (~4 characters per token) - good enough for budgeting
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
 
 // ============================================================================
 // SESSION MANAGEMENT
@@ -15,6 +52,10 @@ import { Id } from "./_generated/dataModel";
  * Get or create an active session for a user
  * If user has an active session within the timeout window, return it
  * Otherwise create a new session
+ *
+ * Users who opted into cross-channel continuity get one shared session:
+ * their most recent shared session on any channel is continued if it was
+ * active within their window.
  */
 export const getOrCreateSession = mutation({
   args: {
@@ -23,22 +64,59 @@ export const getOrCreateSession = mutation({
       v.literal("web"),
       v.literal("voice"),
       v.literal("sms"),
+      v.literal("slack"),
       v.literal("api")
     ),
     sourceConversationId: v.optional(v.string()),
     sourceTextConversationId: v.optional(v.id("textConversations")),
+    // false keeps this conversation out of the shared session (e.g. public Slack channels)
+    shareAcrossChannels: v.optional(v.boolean()),
   },
   handler: async (ctx, args) => {
     const now = Date.now();
     const sessionTimeoutMs = 30 * 60 * 1000; // 30 minutes
 
+    const user = await ctx.db.get("users", args.userId);
+    const windowMs = continuityWindowMs(user);
+    if (windowMs && args.shareAcrossChannels !== false) {
+      const sharedSessions = await ctx.db
+        .query("agentSessions")
+        .withIndex("by_user_active", (q) =>
+          q.eq("userId", args.userId).eq("status", "active")
+        )
+        .filter((q) => q.eq(q.field("shared"), true))
+        .collect();
+      const latest = sharedSessions.sort((a, b) => b.lastMessageAt - a.lastMessageAt)[0];
+
+      if (latest && now - latest.lastMessageAt < windowMs) {
+        return latest;
+      }
+
+      const sessionId = await ctx.db.insert("agentSessions", {
+        userId: args.userId,
+        channel: args.channel,
+        sourceConversationId: args.sourceConversationId,
+        sourceTextConversationId: args.sourceTextConversationId,
+        shared: true,
+        status: "active",
+        createdAt: now,
+        lastMessageAt: now,
+        messageCount: 0,
+        expiresAt: now + Math.max(windowMs, sessionTimeoutMs),
+      });
+
+      return await ctx.db.get("agentSessions", sessionId);
+    }
+
     // Look for active session for this user on this channel
     const existingSession = await ctx.db
       .query("agentSessions")
       .withIndex("by_user_active", (q) =>
         q.eq("userId", args.userId).eq("status", "active")
       )
-      .filter((q) => q.eq(q.field("channel"), args.channel))
+      .filter((q) =>
+        q.and(q.eq(q.field("channel"), args.channel), q.neq(q.field("shared"), true))
+      )
       .first();
 
     // If session exists and hasn't expired, return it
@@ -80,6 +158,7 @@ export const getActiveSession = query({
       v.literal("web"),
       v.literal("voice"),
       v.literal("sms"),
+      v.literal("slack"),
       v.literal("api")
     )),
   },
@@ -245,6 +324,7 @@ export const addMessageInternal = internalMutation({
 
 /**
  * Get messages for a session (for AI context)
+ * Each message carries the channel it came from - shared sessions mix channels
  */
 export const getSessionMessages = query({
   args: {
@@ -302,6 +382,221 @@ export const getMessagesForContext = query({
   },
 });
 
+/**
+ * Everything the assistant needs to continue a session: the rolled-up summary,
+ * recent records, and the turns that haven't been summarized yet
+ */
+export const getAssistantContext = internalQuery({
+  args: {
+    sessionId: v.id("agentSessions"),
+    messageLimit: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const session = await ctx.db.get("agentSessions", args.sessionId);
+    if (!session) {
+      return null;
+    }
+
+    const messages = await ctx.db
+      .query("agentMessages")
+      .withIndex("by_session", (q) => q.eq("sessionId", args.sessionId))
+      .order("desc")
+      .filter((q) => q.neq(q.field("summarized"), true))
+      .take(args.messageLimit || 20);
+
+    return {
+      userId: session.userId,
+      shared: session.shared === true,
+      contextSummary: session.contextSummary,
+      recentRecords: session.salesforceContext?.recentRecords || [],
+      lastResult: session.salesforceContext?.lastResult,
+      messages: messages.reverse(),
+    };
+  },
+});
+
+/**
+ * Persist one assistant turn (user message + reply) and fold the records it
+ * touched into the session's recentRecords. Schedules a summary rollup when
+ * the unsummarized history gets long.
+ */
+export const recordTurn = internalMutation({
+  args: {
+    sessionId: v.id("agentSessions"),
+    channel: v.union(
+      v.literal("web"),
+      v.literal("voice"),
+      v.literal("sms"),
+      v.literal("slack"),
+      v.literal("api")
+    ),
+    userMessage: v.string(),
+    assistantMessage: v.string(),
+    toolCalls: v.optional(v.array(v.object({
+      toolName: v.string(),
+      input: v.any(),
+      output: v.optional(v.any()),
+      success: v.boolean(),
+    }))),
+    referencedRecords: v.optional(v.array(v.object({
+      id: v.string(),
+      type: v.string(),
+      name: v.string(),
+    }))),
+    lastResult: v.optional(v.string()), // Summary of the turn's last read, if any
+  },
+  handler: async (ctx, args) => {
+    const session = await ctx.db.get("agentSessions", args.sessionId);
+    if (!session) {
+      throw new Error("Session not found");
+    }
+
+    const now = Date.now();
+    const { storage } = await loadRedactionPolicy(ctx, session.userId);
+    const userMessage = maskPii(args.userMessage, storage);
+    const assistantMessage = maskPii(args.assistantMessage, storage);
+    const userTokens = estimateTokens(userMessage);
+    const assistantTokens = estimateTokens(assistantMessage);
+
+    await ctx.db.insert("agentMessages", {
+      sessionId: args.sessionId,
+      userId: session.userId,
+      role: "user",
+      content: userMessage,
+      timestamp: now,
+      channel: args.channel,
+      tokenCount: userTokens,
+    });
+    await ctx.db.insert("agentMessages", {
+      sessionId: args.sessionId,
+      userId: session.userId,
+      role: "assistant",
+      content: assistantMessage,
+      timestamp: now,
+      channel: args.channel,
+      tokenCount: assistantTokens,
+      toolCalls: args.toolCalls,
+      referencedRecords: args.referencedRecords,
+    });
+
+    // Most recent first, one entry per record
+    const recentRecords: SessionRecord[] = [];
+    for (const record of [
+      ...(args.referencedRecords || []),
+      ...(session.salesforceContext?.recentRecords || []),
+    ]) {
+      if (!recentRecords.some((r) => r.id === record.id)) {
+        recentRecords.push(record);
+      }
+    }
+
+    // Shared sessions live as long as the user's continuity window
+    let timeoutMs = 30 * 60 * 1000;
+    if (session.shared) {
+      const user = await ctx.db.get("users", session.userId);
+      timeoutMs = Math.max(timeoutMs, continuityWindowMs(user) || 0);
+    }
+
+    await ctx.db.patch("agentSessions", args.sessionId, {
+      lastMessageAt: now,
+      messageCount: session.messageCount + 2,
+      tokenCount: (session.tokenCount || 0) + userTokens + assistantTokens,
+      expiresAt: now + timeoutMs,
+      salesforceContext: {
+        ...session.salesforceContext,
+        recentRecords: recentRecords.slice(0, MAX_RECENT_RECORDS),
+        lastResult: args.lastResult
+          ? { summary: maskPii(args.lastResult, storage), channel: args.channel, timestamp: now }
+          : session.salesforceContext?.lastResult,
+      },
+    });
+
+    const unsummarized = await ctx.db
+      .query("agentMessages")
+      .withIndex("by_session", (q) => q.eq("sessionId", args.sessionId))
+      .filter((q) => q.neq(q.field("summarized"), true))
+      .collect();
+    const pendingTokens = unsummarized.reduce(
+      (sum, m) => sum + (m.tokenCount ?? estimateTokens(m.content)),
+      0
+    );
+    if (pendingTokens > SUMMARIZE_AFTER_TOKENS && unsummarized.length > KEEP_RECENT_MESSAGES) {
+      await ctx.scheduler.runAfter(0, internal.agentSessions.summarizeSession, {
+        sessionId: args.sessionId,
+      });
+    }
+  },
+});
+
+/**
+ * Roll older turns into contextSummary so long sessions stay within budget
+ */
+export const summarizeSession = internalAction({
+  args: { sessionId: v.id("agentSessions") },
+  handler: async (ctx, args) => {
+    const context = await ctx.runQuery(internal.agentSessions.getAssistantContext, {
+      sessionId: args.sessionId,
+      messageLimit: 200,
+    });
+    if (!context || context.messages.length <= KEEP_RECENT_MESSAGES) return;
+
+    const older = context.messages.slice(0, -KEEP_RECENT_MESSAGES);
+    const transcript = older
+      .map((m) => `${m.role === "user" ? "User" : "Assistant"}: ${m.content}`)
+      .join("\n");
+
+    let llm;
+    try {
+      llm = await resolveLLM(ctx, "sessionSummary", context.userId);
+    } catch (error: any) {
+      console.error("LLM provider is not configured:", error.message);
+      return;
+    }
+
+    const response = await llm.provider.chat({
+      model: llm.settings.model,
+      maxTokens: llm.settings.maxTokens,
+      temperature: llm.settings.temperature,
+      feature: "sessionSummary",
+      messages: [{
+        role: "user",
+        content: `Summarize this CRM assistant conversation so it can be continued later. Keep record names and Salesforce Ids, what was created or changed, and any open questions. Under 150 words, plain text.
+${context.contextSummary ? `\nEarlier summary:\n${context.contextSummary}\n` : ""}
+Conversation:
+${transcript}`,
+      }],
+    });
+
+    const summary = response.text.trim();
+    if (!summary) return;
+
+    await ctx.runMutation(internal.agentSessions.applySummary, {
+      sessionId: args.sessionId,
+      contextSummary: summary,
+      messageIds: older.map((m) => m._id),
+    });
+  },
+});
+
+/**
+ * Store a rolled-up summary and mark the turns it covers
+ */
+export const applySummary = internalMutation({
+  args: {
+    sessionId: v.id("agentSessions"),
+    contextSummary: v.string(),
+    messageIds: v.array(v.id("agentMessages")),
+  },
+  handler: async (ctx, args) => {
+    await ctx.db.patch("agentSessions", args.sessionId, {
+      contextSummary: args.contextSummary,
+    });
+    for (const messageId of args.messageIds) {
+      await ctx.db.patch("agentMessages", messageId, { summarized: true });
+    }
+  },
+});
+
 // ============================================================================
 // SESSION LIFECYCLE
 // ============================================================================
@@ -404,6 +699,47 @@ export const cleanupExpiredSessions = internalMutation({
 // CONTEXT HELPERS
 // ============================================================================
 
+// Words that point at a kind of record ("that deal", "the same account")
+const REFERENCE_NOUNS: Record<string, string> = {
+  deal: "Opportunity",
+  opportunity: "Opportunity",
+  opp: "Opportunity",
+  account: "Account",
+  company: "Account",
+  customer: "Account",
+  contact: "Contact",
+  person: "Contact",
+  lead: "Lead",
+  case: "Case",
+  ticket: "Case",
+  task: "Task",
+};
+
+const PRONOUNS = new Set(["it", "that", "this", "them", "him", "her", "that one", "this one"]);
+
+/**
+ * Resolve "that deal", "it" or "him" to the most recent matching record.
+ * Returns null if the phrase isn't a reference or nothing recent matches.
+ */
+export function resolveRecordReference(
+  phrase: string,
+  recentRecords: SessionRecord[],
+  objectType?: string
+): SessionRecord | null {
+  const normalized = phrase.toLowerCase().replace(/[^a-z ]/g, "").replace(/\s+/g, " ").trim();
+
+  let type: string | undefined;
+  if (PRONOUNS.has(normalized)) {
+    type = objectType;
+  } else {
+    const match = normalized.match(/^(?:that|this|the same|same|the) (\w+)$/);
+    if (!match || !REFERENCE_NOUNS[match[1]]) return null;
+    type = REFERENCE_NOUNS[match[1]];
+  }
+
+  return recentRecords.find((r) => !type || r.type === type) || null;
+}
+
 /**
  * Get full session context for AI (session + messages + Salesforce context)
  */
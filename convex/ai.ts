@@ -1,7 +1,41 @@
-import { v } from "convex/values";
-import { action } from "./_generated/server";
+import { v, ObjectType } from "convex/values";
+import { action, ActionCtx } from "./_generated/server";
 import { api, internal } from "./_generated/api";
-import Anthropic from "@anthropic-ai/sdk";
+import { Doc, Id } from "./_generated/dataModel";
+import { buildSoqlSchema, validateSoql, SoqlSchema } from "./soqlValidator";
+import {
+  assistantChannel,
+  AssistantChannel,
+  ConfirmationMode,
+  ExecutedAction,
+  FieldChange,
+  WriteOperation,
+  parseConfirmationReply,
+  requiresConfirmation,
+} from "./pendingActions";
+import { matchChoice, resolveRecord, RecordResolution } from "./disambiguation";
+import { resolveRecordReference, SessionRecord } from "./agentSessions";
+import { LLMMessage, LLMProvider, LLMSettings, LLMSystemBlock, LLMTool, resolveLLM } from "./llm";
+import { buildDateContext, describeNow, resolveDateFields, resolveDatePhrase, DateContext } from "./dateResolver";
+import { buildOrgPromptFragments, selectOrgContext, OrgContext, OrgContextMode, PromptFragment } from "./orgPromptContext";
+import { structureResponse, StructuredResponse } from "./responseModel";
+import {
+  AggregateSpec,
+  AGGREGATE_FUNCTIONS,
+  buildAggregateQuery,
+  DATE_GROUPINGS,
+  inferAggregateColumns,
+  isAggregateSoql,
+  summarizeAggregate,
+} from "./soqlAggregate";
+import { renderWeb, WebResponse } from "./responseRenderers";
+import { listReports, ReportFilterOverride, runReportByName } from "./reports";
+import { journaledWrite, parseUndoRequest, undoChange } from "./changeJournal";
+import { BulkTarget, buildBulkSelect, describeBulkPreview, nameFieldFor, pluralObject } from "./bulkUpdates";
+import { getRecommendations } from "./recommendations";
+import { crmFor, CrmAdapter, requireSalesforce } from "./crm";
+import { HUBSPOT_PROMPT_CONTEXT } from "./hubspot";
+import { explainSalesforceError } from "./salesforceErrors";
 
 // ============================================================================
 // AI-POWERED SALESFORCE ASSISTANT
@@ -96,12 +130,15 @@ Example SOQL with dates:
 - SELECT Id, Name FROM Lead WHERE CreatedDate = LAST_N_DAYS:7 AND OwnerId = CURRENT_USER
 - SELECT Id, Name FROM Account WHERE LastModifiedDate > LAST_WEEK
 
-You can perform these operations:
+You can perform these operations (each one is a tool you can call):
 1. SEARCH - Find records by name or keyword (use for "find X", "look up X")
 2. QUERY - Run SOQL queries for ANY Salesforce data (use for "show me", "what are", "list my", etc.)
-3. CREATE - Create new records (Tasks, Leads, Cases, etc.)
-4. UPDATE - Update existing records (stage, status, amount, etc.)
-5. LOG_CALL - Log a call activity
+3. AGGREGATE - Counts, totals, averages, minimums and maximums, optionally grouped (use for "how much", "how many", "average", "by stage")
+4. REPORTS - List the user's saved reports and dashboards, or run one by name (use when they name a report or dashboard)
+5. GET - Fetch a single record by ID when you need more of its fields
+6. CREATE - Create new records (Tasks, Leads, Cases, etc.)
+7. UPDATE - Update existing records (stage, status, amount, etc.)
+8. LOG_CALL - Log a call activity
 
 SOQL QUERY RULES (CRITICAL - READ CAREFULLY):
 - You can query ANY standard Salesforce object with SOQL
@@ -120,8 +157,8 @@ DETAIL QUERIES - when user asks "more info", "more fields", "tell me more", "det
 
 IMPORTANT RULES:
 - Keep responses SHORT and conversational (this is voice/text, not email)
-- For name searches, use action "search" with searchTerm
-- For data queries, use action "query" with soql field containing full SOQL
+- For name searches, use the search_records tool with searchTerm
+- For data queries, use the run_soql tool with the full SOQL
 - Always confirm what you did after an action
 - Use natural, friendly language
 
@@ -129,7 +166,7 @@ CLARIFICATION RULES:
 - If you're unsure whether the user wants a Case (support issue) vs Task (to-do item), ASK!
 - Cases are for customer support issues, problems, questions reported by customers
 - Tasks are for personal to-dos, follow-ups, reminders
-- When the request is ambiguous, use action "clarify" to ask a simple question
+- When the request is ambiguous, call respond with a simple question instead of guessing
 `;
 
 interface ClaudeMessage {
@@ -137,443 +174,1628 @@ interface ClaudeMessage {
   content: string;
 }
 
-interface ParsedIntent {
-  action: "search" | "query" | "create" | "update" | "log_call" | "clarify";
+export interface ParsedIntent {
+  action: "search" | "query" | "aggregate" | "report" | "get" | "create" | "update" | "bulk_update" | "log_call" | "undo" | "recommend";
   objectType?: string;
   recordId?: string;
   searchTerm?: string;
   soql?: string;
+  where?: string; // SOQL condition for "bulk_update"
   fields?: Record<string, any>;
-  clarificationQuestion?: string;
-  response: string;
+  fieldNames?: string[]; // Fields to return for "get"
+  aggregate?: AggregateSpec; // For "aggregate"
+  reportName?: string; // For "report" - omitted to list reports
+  reportKind?: "report" | "dashboard";
+  reportFilters?: ReportFilterOverride[];
+  force?: boolean; // For "undo" - overwrite edits made since
+  limit?: number; // For "recommend" - how many items
+  response?: string;
   followUp?: string; // Suggested next action for the user
 }
 
+// Result of executing one intent against Salesforce
+interface StepResult {
+  response: string; // Formatted, human-readable result (also fed back to Claude)
+  data?: any;
+  action?: string;
+  recordUrl?: string;
+  notes?: string[]; // e.g. automatic SOQL repairs
+  records?: SessionRecord[]; // Records this step acted on (defaults to those in data)
+}
+
+// One entry per tool call the agent made, returned to callers for logging
+interface AgentStep {
+  tool: string;
+  input: any;
+  success: boolean;
+  error?: string;
+  notes?: string[];
+  records?: SessionRecord[]; // Remembered in the session for "that deal" style references
+  summary?: string; // Formatted result, kept as the session's last result
+}
+
+// Per-request state shared by every tool call in the loop
+interface AgentEnv {
+  userId?: string;
+  userMessage: string;
+  crm: CrmAdapter; // The user's CRM (see crm.ts)
+  sessionId?: Id<"agentSessions">; // Writes are journaled against it for undo
+  schema?: SoqlSchema; // Org schema for SOQL validation (absent when metadata isn't loaded)
+  channel: AssistantChannel;
+  confirmationMode?: ConfirmationMode; // User's write-confirmation setting
+  turnStartedAt: number; // Writes staged before this are superseded by new ones
+  recentRecords?: SessionRecord[]; // From the session, most recent first
+  sharedContext?: boolean; // Cross-channel session - pending state from any channel applies
+  dates: DateContext; // User's time zone and the org's fiscal calendar
+  // Open "which one?" the user didn't pick from - a record they name instead is the answer
+  unansweredQuestion?: { id: Id<"disambiguations">; objectType: string };
+}
+
+export interface AssistantResult {
+  response: string;
+  data?: any;
+  action?: string;
+  recordUrl?: string;
+  followUp?: string;
+  steps?: AgentStep[];
+  pendingActions?: { id: string; summary: string }[]; // Writes awaiting confirmation
+  undo?: { id: string; summary: string }; // Journaled write from this turn (see changeJournal.ts)
+  metrics?: AssistantMetrics; // Present when the model was called
+  structured?: StructuredResponse; // Channel-independent reply (see responseModel.ts)
+}
+
+// What askSalesforce returns - channels render `structured` (see responseRenderers.ts)
+export type AssistantReply = AssistantResult & {
+  structured: StructuredResponse;
+  web?: WebResponse; // For the web channel
+};
+
+export interface AssistantMetrics {
+  provider: string;
+  model: string;
+  inputTokens: number; // Summed over every round trip
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheWriteTokens: number;
+  latencyMs: number; // Time spent waiting on the model
+  rounds: number;
+  orgContext: {
+    mode: OrgContextMode;
+    tokens: number;
+    objectsSent: number;
+    objectsTotal: number;
+    version?: number; // orgPromptContexts version the fragments came from
+  };
+}
+
+// Tools whose results count as the session's "last result"
+const READ_TOOLS = new Set([
+  "search_records", "run_soql", "aggregate_records", "list_reports", "run_report", "get_my_records", "get_record",
+]);
+
+// Built on SOQL or the Analytics API - not offered when the user's CRM isn't Salesforce
+const SALESFORCE_ONLY_TOOLS = new Set([
+  "run_soql", "aggregate_records", "list_reports", "run_report", "bulk_update", "get_recommendations",
+]);
+
+// Max Claude round trips per user message - keeps voice latency bounded
+const MAX_AGENT_STEPS = 6;
+
+// Tools exposed to Claude. Every tool except `respond` maps onto a ParsedIntent
+// that executeIntent knows how to run.
+const AGENT_TOOLS: LLMTool[] = [
+  {
+    name: "search_records",
+    description: "Find records by name or keyword (SOSL). Use for \"find X\", \"look up X\", or to get the Id of a record before updating it.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        searchTerm: { type: "string", description: "What to search for, e.g. a company or person name" },
+        objectType: { type: "string", description: "Account, Contact, Lead, Opportunity, Case, or a custom object API name" },
+      },
+      required: ["searchTerm"],
+    },
+  },
+  {
+    name: "run_soql",
+    description: "Run a SOQL query. Use OwnerId = CURRENT_USER for the user's own records.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        soql: { type: "string", description: "Full SOQL query, e.g. SELECT Id, Name FROM Lead WHERE OwnerId = CURRENT_USER LIMIT 10" },
+        objectType: { type: "string", description: "The object being queried" },
+      },
+      required: ["soql"],
+    },
+  },
+  {
+    name: "aggregate_records",
+    description: "Count, total, average, min or max over records, optionally grouped. Use for numeric questions like \"how much did I close last quarter\", \"average deal size by stage\", \"how many leads came from webinars this month\" instead of listing records.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        objectType: { type: "string" },
+        metrics: {
+          type: "array",
+          description: "What to compute, e.g. [{ \"fn\": \"SUM\", \"field\": \"Amount\" }, { \"fn\": \"COUNT\" }]",
+          items: {
+            type: "object",
+            properties: {
+              fn: { type: "string", enum: AGGREGATE_FUNCTIONS },
+              field: { type: "string", description: "Number field for SUM/AVG; omit for a plain COUNT of records" },
+            },
+            required: ["fn"],
+          },
+        },
+        groupBy: {
+          type: "array",
+          description: "Up to 3 fields to group by, e.g. [{ \"field\": \"StageName\" }] or [{ \"field\": \"CloseDate\", \"dateFunction\": \"CALENDAR_MONTH\" }]",
+          items: {
+            type: "object",
+            properties: {
+              field: { type: "string" },
+              dateFunction: { type: "string", enum: DATE_GROUPINGS },
+            },
+            required: ["field"],
+          },
+        },
+        where: { type: "string", description: "SOQL condition without WHERE, e.g. IsWon = true AND CloseDate = LAST_QUARTER AND OwnerId = CURRENT_USER" },
+        having: { type: "string", description: "Condition on an aggregate, e.g. SUM(Amount) > 100000 (needs groupBy)" },
+        order: { type: "string", enum: ["asc", "desc"], description: "Order groups by the first metric (default desc)" },
+        limit: { type: "number", description: "Max groups (default 20)" },
+      },
+      required: ["objectType", "metrics"],
+    },
+  },
+  {
+    name: "list_reports",
+    description: "List the user's recently viewed Salesforce reports, or reports and dashboards whose names match a search.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        search: { type: "string", description: "Words from the report name, e.g. \"pipeline\"" },
+        kind: { type: "string", enum: ["report", "dashboard"] },
+      },
+    },
+  },
+  {
+    name: "run_report",
+    description: "Run a saved Salesforce report or dashboard by name (as the user said it - it's matched fuzzily) and get its totals by grouping. Filters change this run only.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        name: { type: "string", description: "Report or dashboard name, e.g. \"Q4 pipeline by rep\"" },
+        kind: { type: "string", enum: ["report", "dashboard"] },
+        filters: {
+          type: "array",
+          description: "Filter overrides for reports, e.g. [{ \"column\": \"Region\", \"value\": \"EMEA\" }]",
+          items: {
+            type: "object",
+            properties: {
+              column: { type: "string", description: "Column label or API name" },
+              operator: { type: "string", description: "equals (default), notEqual, lessThan, greaterThan, contains, ..." },
+              value: { type: "string" },
+            },
+            required: ["column", "value"],
+          },
+        },
+      },
+      required: ["name"],
+    },
+  },
+  {
+    name: "get_my_records",
+    description: "Get the user's own open opportunities (pipeline), open tasks, open leads, or accounts. Faster than SOQL for these common questions.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        objectType: { type: "string", enum: ["Opportunity", "Task", "Lead", "Account"] },
+      },
+      required: ["objectType"],
+    },
+  },
+  {
+    name: "get_recommendations",
+    description: "What the user should work on next: their deals, overdue tasks and new leads that need attention, ranked, each with the reason and a suggested action. Use for \"what should I work on?\", \"what's most important today?\" and similar.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        limit: { type: "number", description: "How many items (default 5)" },
+      },
+    },
+  },
+  {
+    name: "get_record",
+    description: "Fetch a single record by Id, optionally limited to specific fields.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        objectType: { type: "string" },
+        recordId: { type: "string", description: "15 or 18 character Salesforce Id" },
+        fields: { type: "array", items: { type: "string" } },
+      },
+      required: ["objectType", "recordId"],
+    },
+  },
+  {
+    name: "create_record",
+    description: "Create a record. Date and time fields take what the user said (\"tomorrow\", \"next Tuesday at 3pm\", \"end of quarter\", \"in two weeks\", \"the 15th\", \"EOD Friday\") or YYYY-MM-DD - they're resolved in the user's time zone. For Cases, pass searchTerm with the customer name so the Case can be linked to their Account.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        objectType: { type: "string" },
+        fields: { type: "object", description: "Field API name → value" },
+        searchTerm: { type: "string", description: "Customer/company name to link a Case to" },
+      },
+      required: ["objectType", "fields"],
+    },
+  },
+  {
+    name: "update_record",
+    description: "Update a record. Prefer recordId from an earlier search; otherwise pass searchTerm and the first match is updated. Date and time fields take phrases like create_record.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        objectType: { type: "string" },
+        recordId: { type: "string" },
+        searchTerm: { type: "string" },
+        fields: { type: "object", description: "Field API name → new value" },
+      },
+      required: ["objectType", "fields"],
+    },
+  },
+  {
+    name: "bulk_update",
+    description: "Set the same fields on every record matching a condition, e.g. \"push all my Q3 deals in Proposal to next month\", \"close out all my overdue tasks\". The matching records are previewed and the user must confirm before anything changes.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        objectType: { type: "string" },
+        where: { type: "string", description: "SOQL condition without WHERE, e.g. OwnerId = CURRENT_USER AND IsClosed = false AND ActivityDate < TODAY" },
+        fields: { type: "object", description: "Field API name → new value; dates take phrases like create_record" },
+      },
+      required: ["objectType", "where", "fields"],
+    },
+  },
+  {
+    name: "log_call",
+    description: "Log a completed call activity, optionally linked to a Contact/Lead (whoId) and an Account/Opportunity (whatId).",
+    inputSchema: {
+      type: "object",
+      properties: {
+        subject: { type: "string" },
+        description: { type: "string" },
+        whoId: { type: "string" },
+        whatId: { type: "string" },
+      },
+    },
+  },
+  {
+    name: "undo_change",
+    description: "Undo the last change you made in this conversation: put an updated record's old values back, or delete the record or call you created. Fails if someone has edited those fields since - pass force only after the user says to overwrite.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        force: { type: "boolean", description: "Undo even though the record was edited since" },
+      },
+    },
+  },
+  {
+    name: "respond",
+    description: "Finish and reply to the user. Call this exactly once, after all other work is done, or to ask a clarifying question.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        response: { type: "string", description: "What to say to the user - SHORT, this is voice/text" },
+        followUp: { type: "string", description: "Optional next-step suggestion, under 10 words" },
+      },
+      required: ["response"],
+    },
+  },
+];
+
+const askSalesforceArgs = {
+  userMessage: v.string(),
+  conversationHistory: v.optional(v.array(v.object({
+    role: v.union(v.literal("user"), v.literal("assistant")),
+    content: v.string(),
+  }))),
+  userId: v.optional(v.id("users")), // For per-user Salesforce auth lookup
+  channel: v.optional(assistantChannel), // Where the user is talking to us (default: api)
+  sourceConversationId: v.optional(v.string()), // Voice conversation, linked to the session
+  sourceTextConversationId: v.optional(v.id("textConversations")), // SMS thread, linked to the session
+  shareAcrossChannels: v.optional(v.boolean()), // false keeps e.g. public Slack channels out of the shared session
+};
+
 /**
  * Main AI-powered Salesforce assistant
- * Takes natural language input and performs the appropriate Salesforce operation
+ * Runs a Claude tool-use loop so one message can chain several operations
+ * (search → get → update/create), then returns Claude's final summary
  */
 export const askSalesforce = action({
-  args: {
-    userMessage: v.string(),
-    conversationHistory: v.optional(v.array(v.object({
-      role: v.union(v.literal("user"), v.literal("assistant")),
-      content: v.string(),
-    }))),
-    userId: v.optional(v.id("users")), // For per-user Salesforce auth lookup
-  },
-  handler: async (ctx, args): Promise<{ response: string; data?: any; action?: string; recordUrl?: string; followUp?: string }> => {
-    // #region agent log (debug-session)
-    fetch('http://127.0.0.1:7244/ingest/1e251e9c-b8aa-4e39-b968-d4efd22e542b',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({sessionId:'debug-session',runId:'pre-fix',hypothesisId:'A',location:'convex/ai.ts:askSalesforce:entry',message:'askSalesforce entry',data:{hasUserId:!!args.userId,userMessageLen:args.userMessage?.length ?? null,msgLowerHasMyLead:(args.userMessage||'').toLowerCase().includes('my lead'),msgLowerHasPipeline:(args.userMessage||'').toLowerCase().includes('pipeline')},timestamp:Date.now()})}).catch(()=>{});
-    // #endregion agent log
+  args: askSalesforceArgs,
+  handler: async (ctx, args): Promise<AssistantReply> => {
+    const result = await runAssistant(ctx, args);
+    if (args.channel !== "web") return result;
 
-    // Fetch org metadata to get available custom objects for this user
-    let customObjectsContext = "";
+    // The web app renders this directly, record links included
+    let instanceUrl: string | undefined;
     if (args.userId) {
+      const status = await ctx.runQuery(api.salesforce.getSalesforceStatus, { userId: args.userId });
+      instanceUrl = status.instanceUrl;
+    }
+    return { ...result, web: renderWeb(result.structured, { instanceUrl }) };
+  },
+});
+
+/**
+ * askSalesforce's body - exported so the eval harness (evals/) can run it
+ * against a mocked ctx and Salesforce
+ */
+export async function runAssistant(
+  ctx: ActionCtx,
+  args: ObjectType<typeof askSalesforceArgs>
+): Promise<AssistantReply> {
+  const turnStartedAt = Date.now();
+  const channel = args.channel || "api";
+  // #region agent log (debug-session)
+  fetch('http://127.0.0.1:7244/ingest/1e251e9c-b8aa-4e39-b968-d4efd22e542b',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({sessionId:'debug-session',runId:'pre-fix',hypothesisId:'A',location:'convex/ai.ts:askSalesforce:entry',message:'askSalesforce entry',data:{hasUserId:!!args.userId,userMessageLen:args.userMessage?.length ?? null,msgLowerHasMyLead:(args.userMessage||'').toLowerCase().includes('my lead'),msgLowerHasPipeline:(args.userMessage||'').toLowerCase().includes('pipeline')},timestamp:Date.now()})}).catch(()=>{});
+  // #endregion agent log
+
+  // Every channel keeps its conversation in an agent session: history,
+  // rolled-up summary, and the records recently talked about
+  let session: Doc<"agentSessions"> | null = null;
+  let sessionContext: {
+    shared: boolean;
+    contextSummary?: string;
+    recentRecords: SessionRecord[];
+    lastResult?: { summary: string; channel: string; timestamp: number };
+    messages: Doc<"agentMessages">[];
+  } | null = null;
+  if (args.userId) {
+    try {
+      session = await ctx.runMutation(api.agentSessions.getOrCreateSession, {
+        userId: args.userId,
+        channel,
+        sourceConversationId: args.sourceConversationId,
+        sourceTextConversationId: args.sourceTextConversationId,
+        shareAcrossChannels: args.shareAcrossChannels,
+      });
+      if (session) {
+        sessionContext = await ctx.runQuery(internal.agentSessions.getAssistantContext, {
+          sessionId: session._id,
+        });
+      }
+    } catch (e) {
+      console.error("Failed to load agent session:", e);
+    }
+  }
+  // With cross-channel continuity, a "yes" on SMS can confirm a write staged on a call
+  const shared = sessionContext?.shared === true;
+
+  // Persist the turn before answering so the next message picks it up
+  const finish = async (result: AssistantResult): Promise<AssistantReply> => {
+    if (session) {
+      try {
+        await ctx.runMutation(internal.agentSessions.recordTurn, {
+          sessionId: session._id,
+          channel,
+          userMessage: args.userMessage,
+          assistantMessage: result.response,
+          toolCalls: result.steps?.map((step) => ({
+            toolName: step.tool,
+            input: step.input,
+            output: step.error ? { error: step.error } : step.notes ? { notes: step.notes } : undefined,
+            success: step.success,
+          })),
+          referencedRecords: result.steps?.flatMap((step) => step.records || []),
+          lastResult: result.steps
+            ?.filter((step) => step.success && READ_TOOLS.has(step.tool))
+            .pop()?.summary?.slice(0, 1000),
+        });
+      } catch (e) {
+        console.error("Failed to record session turn:", e);
+      }
+    }
+    if (result.metrics) {
+      const { orgContext, ...usage } = result.metrics;
       try {
-        const orgMetadata = await ctx.runQuery(internal.orgMetadata.getAvailableObjects, {
+        await ctx.runMutation(internal.llmMetrics.record, {
+          ...usage,
           userId: args.userId,
+          feature: "assistant",
+          channel,
+          orgContextMode: orgContext.mode,
+          orgContextTokens: orgContext.tokens,
+          objectsSent: orgContext.objectsSent,
+          objectsTotal: orgContext.objectsTotal,
+          promptVersion: orgContext.version,
         });
-        if (orgMetadata.customObjects && orgMetadata.customObjects.length > 0) {
-          // Build rich context with field details
-          const objectDescriptions = orgMetadata.customObjects.map((obj: any) => {
-            let desc = `\n### ${obj.name} (${obj.label})`;
-            if (obj.description) desc += `\n${obj.description}`;
-            if (obj.recordCount !== undefined) desc += ` - ${obj.recordCount} records`;
-
-            if (obj.keyFields && obj.keyFields.length > 0) {
-              desc += `\nFields:`;
-              for (const field of obj.keyFields.slice(0, 8)) {
-                if (typeof field === "object") {
-                  // Rich field metadata
-                  let fieldDesc = `  - ${field.name} (${field.label}) [${field.type}]`;
-                  if (field.picklistValues && field.picklistValues.length > 0) {
-                    fieldDesc += ` values: ${field.picklistValues.slice(0, 5).join(", ")}`;
-                  }
-                  if (field.referenceTo) {
-                    fieldDesc += ` → ${field.referenceTo}`;
-                    // Include relationship name for traversing lookups
-                    if ((field as any).relationshipName) {
-                      fieldDesc += ` (use ${(field as any).relationshipName} for related fields)`;
-                    }
-                  }
-                  // Flag phone/contact number fields for lookup guidance
-                  if (field.name.toLowerCase().includes('phone') || field.name.toLowerCase().includes('contact_number')) {
-                    fieldDesc += ` [PHONE - E.164 format]`;
-                  }
-                  desc += `\n${fieldDesc}`;
-                } else {
-                  // Simple field name
-                  desc += `\n  - ${field}`;
-                }
-              }
-            }
-
-            if (obj.sampleFields && obj.sampleFields.length > 0) {
-              desc += `\nCommonly used fields: ${obj.sampleFields.join(", ")}`;
-            }
-
-            return desc;
-          }).join("\n");
-
-          customObjectsContext = `\n\n## CUSTOM OBJECTS IN THIS ORG
-${objectDescriptions}
-
-CRITICAL RULES FOR CUSTOM OBJECTS:
-1. ONLY use fields that are EXPLICITLY listed above for each object - if a field isn't in the list, it DOES NOT EXIST
-2. NEVER guess or assume field names - common mistakes:
-   - "Amount__c" is WRONG - the actual field might be "Payment_Amount__c" or "Invoice_Amount__c"
-   - "Date__c" is WRONG - look for "Payment_Date__c", "Due_Date__c", etc.
-   - Always use the EXACT full field name from the Fields list above
-3. Field names are case-sensitive and must end in __c for custom fields
-4. When constructing SOQL, ONLY SELECT fields that are shown in the object's Fields list
-5. Always include CreatedDate and ORDER BY CreatedDate DESC for recent records
-6. For messages/conversations, look for content fields like sendblue__Message__c, Message__c, Content__c
-7. If you're unsure about a field name, use ONLY the basic fields: Id, Name, CreatedDate
-
-PHONE/LEAD LOOKUP PATTERNS (use these when asked about leads/contacts for a phone number):
-- "Is there a lead for +18185881911?" → Query the Conversation object by phone, check the Lead lookup:
-  SELECT Id, sendblue__Lead__c, sendblue__Lead__r.Name, sendblue__Lead__r.Company FROM sendblue__Conversation__c WHERE sendblue__Contact_Number__c = '+18185881911' LIMIT 1
-- If sendblue__Lead__c is NULL in the result, respond "No lead is linked to this conversation"
-- If sendblue__Lead__c has a value, respond with the lead details from sendblue__Lead__r fields
-- NEVER just return all leads - always filter by the specific phone number first
-`;
-          console.log(`Loaded ${orgMetadata.customObjects.length} custom objects with rich metadata`);
-        }
       } catch (e) {
-        console.error("Failed to load org metadata:", e);
+        console.error("Failed to record LLM metrics:", e);
+      }
+    }
+    return { ...result, structured: result.structured ?? structureResponse({ ...result, text: result.response }) };
+  };
+
+  // A bare "yes"/"no" answers a staged write - no need to involve Claude
+  let pendingContext = "";
+  let confirmationMode: ConfirmationMode | undefined;
+  let userTimeZone: string | undefined;
+  let unansweredQuestion: AgentEnv["unansweredQuestion"];
+  if (args.userId) {
+    const openActions = await ctx.runQuery(internal.pendingActions.getOpenActions, {
+      userId: args.userId,
+      channel,
+      anyChannel: shared,
+    });
+    if (openActions.length > 0) {
+      const reply = await resolveConfirmationReply(ctx, args.userMessage, openActions, channel);
+      if (reply) return await finish(reply);
+      pendingContext = `\n\n## WAITING FOR CONFIRMATION
+${openActions.map((a) => `- ${a.summary}`).join("\n")}
+The user hasn't confirmed these yet. If they correct the change, stage the corrected write (it replaces the pending one). Otherwise answer them and remind them it's waiting for a yes or no.`;
+    }
+
+    // "Undo that" - put back the last change made in this session
+    const undoRequest = parseUndoRequest(args.userMessage);
+    if (undoRequest) {
+      const undone = await undoChange(ctx, {
+        userId: args.userId,
+        sessionId: session?._id,
+        force: undoRequest.force,
+        via: channel,
+      });
+      return await finish({ response: undone.message, data: undone, action: "undo" });
+    }
+
+    // An answer to "Acme Corp in Denver or Acme Labs in Austin?" - remember it and
+    // finish the original request (the session choice now resolves the name)
+    const [question] = await ctx.runQuery(internal.disambiguation.getOpenQuestions, {
+      userId: args.userId,
+      channel,
+      anyChannel: shared,
+    });
+    if (question) {
+      const choice = matchChoice(args.userMessage, question.options);
+      if (choice) {
+        await ctx.runMutation(internal.disambiguation.choose, {
+          disambiguationId: question._id,
+          recordId: choice.recordId,
+        });
+        pendingContext += `\n\n## USER'S CHOICE
+For "${question.searchTerm}" the user means ${choice.name} (${question.objectType} Id ${choice.recordId}).
+Now complete their original request: "${question.userMessage}"`;
+      } else {
+        unansweredQuestion = { id: question._id, objectType: question.objectType };
+        pendingContext += `\n\n## WAITING FOR A CHOICE
+You asked: "${question.question}" (about "${question.searchTerm}"). If the user names a record that wasn't offered, search for it.`;
       }
     }
 
-    // Build conversation history
-    const messages: ClaudeMessage[] = args.conversationHistory || [];
-    messages.push({ role: "user", content: args.userMessage });
+    const user = await ctx.runQuery(api.users.getUser, { userId: args.userId });
+    confirmationMode = user?.writeConfirmation;
+    userTimeZone = user?.timeZone;
+  }
 
-    // Call Claude to interpret the request
-    // Limit context to last 10 messages for performance
-    const recentMessages = messages.slice(-10);
-    let interpretation: ParsedIntent;
+  // Custom objects from the last metadata sync, as precomputed prompt fragments
+  let orgFragments: PromptFragment[] = [];
+  let promptVersion: number | undefined;
+  let schema: SoqlSchema | undefined;
+  let organization: { timeZone?: string; fiscalYearStartMonth?: number } | undefined;
+  const crm = await crmFor(ctx, { userId: args.userId });
+  // Org metadata is synced from Salesforce
+  if (args.userId && crm.name === "salesforce") {
     try {
-      interpretation = await interpretWithClaude(recentMessages, customObjectsContext);
+      const orgMetadata = await ctx.runQuery(internal.orgMetadata.getAvailableObjects, {
+        userId: args.userId,
+      });
+      schema = buildSoqlSchema(orgMetadata);
+      organization = orgMetadata.organization;
+      if (orgMetadata.customObjects && orgMetadata.customObjects.length > 0) {
+        const prompt = await ctx.runQuery(internal.orgPromptContext.getForUser, { userId: args.userId });
+        if (prompt) {
+          orgFragments = prompt.fragments;
+          promptVersion = prompt.version;
+        } else {
+          // Synced before fragments existed - the next sync stores them
+          orgFragments = buildOrgPromptFragments(orgMetadata.customObjects).fragments;
+        }
+      }
+    } catch (e) {
+      console.error("Failed to load org metadata:", e);
+    }
+  }
+
+  // Session turns are the history once there are any; callers without a
+  // user (or a brand-new session) can still pass their own
+  // Turns from other channels are labelled so Claude knows where they happened
+  const history: ClaudeMessage[] = sessionContext?.messages.length
+    ? sessionContext.messages
+        .filter((m) => m.role !== "system")
+        .map((m) => ({
+          role: m.role as "user" | "assistant",
+          content: m.channel && m.channel !== channel ? `[via ${m.channel}] ${m.content}` : m.content,
+        }))
+    : args.conversationHistory || [];
+  const messages: ClaudeMessage[] = [...history, { role: "user", content: args.userMessage }];
+
+  // Limit context to last 10 messages for performance
+  const recentMessages = messages.slice(-10);
+
+  let memoryContext = "";
+  if (sessionContext?.contextSummary) {
+    memoryContext += `\n\n## EARLIER IN THIS CONVERSATION\n${sessionContext.contextSummary}`;
+  }
+  const recentRecords = sessionContext?.recentRecords || [];
+  if (recentRecords.length > 0) {
+    memoryContext += `\n\n## RECENTLY DISCUSSED RECORDS (most recent first)
+${recentRecords.map((r) => `- ${r.type}: ${r.name} (Id ${r.id})`).join("\n")}
+When the user says "that deal", "it", "him" or similar, they mean the most recent matching record above - use its Id directly.`;
+  }
+  const lastResult = sessionContext?.lastResult;
+  if (shared && lastResult && lastResult.channel !== channel) {
+    memoryContext += `\n\n## LAST RESULT (via ${lastResult.channel})\n${lastResult.summary}`;
+  }
+
+  // Big orgs only get the objects this conversation is about
+  const orgContext = selectOrgContext(orgFragments, {
+    userMessage: args.userMessage,
+    earlierMessages: history.filter((m) => m.role === "user").slice(-3).map((m) => m.content),
+    recentObjectTypes: recentRecords.map((r) => r.type),
+    version: promptVersion,
+    mode: process.env.ORG_PROMPT_MODE,
+  });
+  if (orgContext.objectsTotal > 0) {
+    console.log(`Org context: ${orgContext.mode}, ${orgContext.objectsSent}/${orgContext.objectsTotal} custom objects, ~${orgContext.tokens} tokens`);
+  }
+
+  // Dates are the rep's: their time zone, their org's fiscal quarters
+  const dates = buildDateContext({
+    now: turnStartedAt,
+    userTimeZone,
+    orgTimeZone: organization?.timeZone,
+    fiscalYearStartMonth: organization?.fiscalYearStartMonth,
+  });
+  const nowContext = `\n\n## NOW\nIt is ${describeNow(dates)}.`;
+
+  return await finish(await runAgentLoop(ctx, recentMessages, orgContext, nowContext + memoryContext + pendingContext, {
+    userId: args.userId,
+    userMessage: args.userMessage,
+    crm,
+    sessionId: session?._id,
+    schema,
+    channel,
+    confirmationMode,
+    turnStartedAt,
+    recentRecords,
+    sharedContext: shared,
+    dates,
+    unansweredQuestion,
+  }));
+}
+
+/**
+ * Drive the Claude tool-use loop: each tool call is executed against Salesforce
+ * and its result is fed back until Claude calls `respond` or the step budget runs out
+ */
+async function runAgentLoop(
+  ctx: any,
+  history: ClaudeMessage[],
+  orgContext: OrgContext,
+  turnContext: string, // Session memory and pending confirmations - changes every turn
+  env: AgentEnv
+): Promise<AssistantResult> {
+  let llm: { provider: LLMProvider; settings: LLMSettings };
+  try {
+    llm = await resolveLLM(ctx, "assistant", env.userId as Id<"users"> | undefined);
+  } catch (error: any) {
+    console.error("LLM provider is not configured:", error.message);
+    return { response: "AI service is not configured. Please contact support." };
+  }
+
+  // Most stable first, so the cached prefix survives as long as possible
+  const system: LLMSystemBlock[] = [{ text: `${SALESFORCE_SCHEMA_CONTEXT}${AGENT_INSTRUCTIONS}`, cache: true }];
+  if (env.crm.name === "hubspot") system.push({ text: HUBSPOT_PROMPT_CONTEXT, cache: true });
+  if (orgContext.text) system.push({ text: orgContext.text, cache: orgContext.cacheable });
+  if (turnContext) system.push({ text: turnContext });
+
+  const metrics: AssistantMetrics = {
+    provider: llm.provider.name,
+    model: llm.settings.model,
+    inputTokens: 0,
+    outputTokens: 0,
+    cacheReadTokens: 0,
+    cacheWriteTokens: 0,
+    latencyMs: 0,
+    rounds: 0,
+    orgContext: {
+      mode: orgContext.mode,
+      tokens: orgContext.tokens,
+      objectsSent: orgContext.objectsSent,
+      objectsTotal: orgContext.objectsTotal,
+      version: orgContext.version,
+    },
+  };
+  const withMetrics = (result: AssistantResult): AssistantResult => ({ ...result, metrics });
+  const tools = env.crm.name === "salesforce"
+    ? AGENT_TOOLS
+    : AGENT_TOOLS.filter((tool) => !SALESFORCE_ONLY_TOOLS.has(tool.name));
+  const messages: LLMMessage[] = history.map((m) => ({ role: m.role, content: m.content }));
+
+  const steps: AgentStep[] = [];
+  const staged: StepResult[] = [];
+  let lastResult: StepResult | undefined;
+  let lastWrite: StepResult | undefined;
+
+  for (let step = 0; step < MAX_AGENT_STEPS; step++) {
+    let response;
+    const startedAt = Date.now();
+    try {
+      response = await llm.provider.chat({
+        model: llm.settings.model,
+        maxTokens: llm.settings.maxTokens,
+        temperature: llm.settings.temperature,
+        system,
+        tools,
+        // Force a tool call every turn so the loop always ends via `respond`
+        toolChoice: "any",
+        messages,
+        feature: "assistant",
+      });
     } catch (error: any) {
-      console.error("Error interpreting request with Claude:", error);
+      console.error(`Error calling ${llm.provider.name} LLM:`, error);
+      if (lastResult) break; // Fall back to what we already have
+      return withMetrics({
+        response: "I'm having trouble processing that right now. Please try again.",
+        steps,
+      });
+    } finally {
+      metrics.latencyMs += Date.now() - startedAt;
+      metrics.rounds++;
+    }
+    metrics.inputTokens += response.usage?.inputTokens || 0;
+    metrics.outputTokens += response.usage?.outputTokens || 0;
+    metrics.cacheReadTokens += response.usage?.cacheReadTokens || 0;
+    metrics.cacheWriteTokens += response.usage?.cacheWriteTokens || 0;
+
+    const toolUses = response.toolCalls;
+
+    // The model answered in plain text instead of calling respond
+    if (toolUses.length === 0) {
+      return withMetrics(buildFinalResult(response.text.trim(), undefined, lastResult, lastWrite, steps, staged));
+    }
+
+    messages.push({ role: "assistant", content: response.text, toolCalls: toolUses });
+
+    let finalReply: { response: string; followUp?: string } | undefined;
+    const toolResults: LLMMessage[] = [];
+
+    for (const toolUse of toolUses) {
+      const input = toolUse.input || {};
+
+      if (toolUse.name === "respond") {
+        finalReply = { response: input.response || "", followUp: input.followUp };
+        toolResults.push({ role: "tool", toolCallId: toolUse.id, content: "ok" });
+        continue;
+      }
+
+      const intent = toolInputToIntent(toolUse.name, input);
+      if (!intent) {
+        toolResults.push({
+          role: "tool",
+          toolCallId: toolUse.id,
+          content: `Unknown tool: ${toolUse.name}`,
+          isError: true,
+        });
+        continue;
+      }
+
+      try {
+        const result = await executeIntent(ctx, intent, env);
+        steps.push({
+          tool: toolUse.name,
+          input,
+          success: true,
+          notes: result.notes,
+          records: result.records || recordsFromData(result.data, intent.objectType),
+          summary: result.response,
+        });
+        lastResult = result;
+        if (["create", "update", "bulk_update", "log_call"].includes(intent.action)) {
+          lastWrite = result;
+          if (result.action === "pending_confirmation") staged.push(result);
+        }
+        toolResults.push({
+          role: "tool",
+          toolCallId: toolUse.id,
+          content: summarizeForModel(result),
+        });
+      } catch (error: any) {
+        console.error(`Agent tool ${toolUse.name} failed:`, error);
+        steps.push({ tool: toolUse.name, input, success: false, error: error.message });
+        toolResults.push({
+          role: "tool",
+          toolCallId: toolUse.id,
+          content: describeToolError(error),
+          isError: true,
+        });
+      }
+    }
+
+    if (finalReply) {
+      return withMetrics(buildFinalResult(finalReply.response, finalReply.followUp, lastResult, lastWrite, steps, staged));
+    }
+
+    messages.push(...toolResults);
+  }
+
+  // Step budget exhausted - report whatever the last step produced
+  console.warn(`Agent loop hit the ${MAX_AGENT_STEPS}-step budget`);
+  return withMetrics(buildFinalResult(
+    lastResult?.response || "I wasn't able to finish that. Could you break it into smaller steps?",
+    undefined,
+    lastResult,
+    lastWrite,
+    steps,
+    staged
+  ));
+}
+
+/**
+ * Tool-calling instructions appended to the schema context
+ */
+const AGENT_INSTRUCTIONS = `
+
+HOW TO WORK:
+- Use the tools to do what the user asked. You may call several tools in a row - each result comes back to you before your next step.
+- Chain steps when needed: search for a record to get its Id, then update it or log against it.
+- When everything is done (or you need to ask a question), call respond exactly once with a SHORT reply summarizing what you did.
+- If a tool returns an error, fix the input and retry once, or tell the user what went wrong in plain words (the error includes a plain explanation when Salesforce rejected the request) - never paste raw error codes or JSON.
+- To change or link a record by name, pass searchTerm to update_record / create_record rather than picking from search results yourself. If several records match, the tool returns a question - call respond with it and don't guess.
+- To change many records at once ("all my overdue tasks"), use bulk_update with a SOQL condition - never loop over update_record.
+- Some writes are staged instead of saved (the result says "pending_confirmation"). Don't retry them. Call respond reading the change back and asking for a yes or no, e.g. "Change Stage from Qualification to Negotiation on Acme – 50k. Should I go ahead?"
+
+FOLLOW-UP SUGGESTIONS:
+- After a successful action, pass a relevant next step in respond.followUp (under 10 words)
+- Examples: "Want to add a follow-up task?", "Should I update the amount?", "Need contact details?"
+- Don't include a followUp when asking a clarifying question
+
+Examples:
+- "Show me my pipeline" → get_my_records { "objectType": "Opportunity" } → respond
+- "What should I work on today?" → get_recommendations {} → respond
+- "Find Acme" → search_records { "searchTerm": "Acme", "objectType": "Account" } → respond
+- "Find Acme and move its deal to Negotiation" → search_records { "searchTerm": "Acme", "objectType": "Opportunity" } → update_record { "objectType": "Opportunity", "recordId": "<Id from search>", "fields": { "StageName": "Negotiation/Review" } } → respond
+- "Log a call on John and create a follow-up task" → search_records { "searchTerm": "John", "objectType": "Contact" } → log_call { "whoId": "<Id>", "subject": "Call with John" } → create_record { "objectType": "Task", "fields": { "Subject": "Follow up with John", "WhoId": "<Id>", "ActivityDate": "TOMORROW", "Status": "Not Started" } } → respond
+- "Create a case for Acme - their website is down" → create_record { "objectType": "Case", "fields": { "Subject": "Website is down", "Description": "Customer reported website is down", "Status": "New", "Priority": "High", "Origin": "Phone" }, "searchTerm": "Acme" } → respond
+- "Record an issue for customer" → respond { "response": "Should I create a support case for a customer issue, or a task for your to-do list?" }
+
+IMPORTANT FOR CASES: When a customer name is mentioned (e.g., "case for John Smith", "case for Acme"), ALWAYS include "searchTerm" with the customer/company name so we can link it to their Account/Lead.`;
+
+/**
+ * Map a tool call onto the ParsedIntent the executor understands
+ */
+export function toolInputToIntent(toolName: string, input: Record<string, any>): ParsedIntent | null {
+  switch (toolName) {
+    case "search_records":
+      return { action: "search", searchTerm: input.searchTerm, objectType: input.objectType };
+    case "run_soql":
+      return { action: "query", soql: input.soql, objectType: input.objectType };
+    case "aggregate_records":
       return {
-        response: error.message || "I'm having trouble understanding that right now. Could you try rephrasing?",
+        action: "aggregate",
+        objectType: input.objectType,
+        aggregate: {
+          objectType: input.objectType,
+          metrics: Array.isArray(input.metrics) ? input.metrics : [],
+          groupBy: Array.isArray(input.groupBy) ? input.groupBy : undefined,
+          where: input.where,
+          having: input.having,
+          order: input.order,
+          limit: input.limit,
+        },
       };
+    case "list_reports":
+      return { action: "report", searchTerm: input.search, reportKind: input.kind };
+    case "run_report":
+      return {
+        action: "report",
+        reportName: input.name,
+        reportKind: input.kind,
+        reportFilters: Array.isArray(input.filters) ? input.filters : undefined,
+      };
+    case "get_my_records":
+      return { action: "query", objectType: input.objectType };
+    case "get_record":
+      return {
+        action: "get",
+        objectType: input.objectType,
+        recordId: input.recordId,
+        fieldNames: Array.isArray(input.fields) ? input.fields : undefined,
+      };
+    case "create_record":
+      return { action: "create", objectType: input.objectType, fields: input.fields, searchTerm: input.searchTerm };
+    case "update_record":
+      return {
+        action: "update",
+        objectType: input.objectType,
+        recordId: input.recordId,
+        searchTerm: input.searchTerm,
+        fields: input.fields,
+      };
+    case "log_call":
+      return {
+        action: "log_call",
+        fields: {
+          Subject: input.subject,
+          Description: input.description,
+          WhoId: input.whoId,
+          WhatId: input.whatId,
+        },
+      };
+    case "bulk_update":
+      return { action: "bulk_update", objectType: input.objectType, where: input.where, fields: input.fields };
+    case "undo_change":
+      return { action: "undo", force: input.force === true };
+    case "get_recommendations":
+      return { action: "recommend", limit: typeof input.limit === "number" ? input.limit : undefined };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Records a read step returned, for the session's recentRecords
+ */
+function recordsFromData(data: any, objectType?: string): SessionRecord[] {
+  if (!data) return [];
+  let type = objectType;
+  let list: any[] | undefined = data.records;
+  if (data.opportunities) [list, type] = [data.opportunities, "Opportunity"];
+  else if (data.tasks) [list, type] = [data.tasks, "Task"];
+  else if (data.leads) [list, type] = [data.leads, "Lead"];
+  else if (data.accounts) [list, type] = [data.accounts, "Account"];
+  else if (!list && data.Id) list = [data];
+  if (!Array.isArray(list)) return [];
+
+  return list
+    .slice(0, 5)
+    .map((r: any) => ({
+      id: r.Id || r.id,
+      type: r.attributes?.type || type || "Record",
+      name: r.Name || r.name || r.Subject || r.subject || r.CaseNumber || r.Id || r.id,
+    }))
+    .filter((r) => !!r.id);
+}
+
+/**
+ * A failed tool call for the model: what Salesforce's error means, then the
+ * raw message so it can still fix a field name or query
+ */
+function describeToolError(error: any): string {
+  const explanation = explainSalesforceError(error);
+  return explanation ? `Error: ${explanation}\nDetails: ${error.message}` : `Error: ${error.message}`;
+}
+
+/**
+ * Compact a step result for the tool result message - the model needs the Ids and
+ * names to chain further calls, not the full Salesforce payload
+ */
+function summarizeForModel(result: StepResult): string {
+  const payload: Record<string, any> = { summary: result.response };
+  const data = result.data;
+  if (data) {
+    const list = data.records || data.opportunities || data.tasks || data.leads || data.accounts || data.reports;
+    if (Array.isArray(list)) {
+      payload.totalSize = data.totalSize ?? data.count ?? list.length;
+      payload.records = list.slice(0, 10).map((r: any) => {
+        const { attributes, ...rest } = r;
+        return attributes?.type ? { type: attributes.type, ...rest } : rest;
+      });
+    } else if (data.aggregate) {
+      payload.rows = data.aggregate.rows.slice(0, 20);
+    } else if (data.id || data.Id || data.taskId) {
+      const { attributes: _attributes, ...rest } = data;
+      payload.record = rest;
     }
+  }
+  if (result.recordUrl) payload.recordUrl = result.recordUrl;
+  if (result.notes) payload.notes = result.notes;
+  return JSON.stringify(payload);
+}
 
-    // #region agent log (debug-session)
-    fetch('http://127.0.0.1:7244/ingest/1e251e9c-b8aa-4e39-b968-d4efd22e542b',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({sessionId:'debug-session',runId:'pre-fix',hypothesisId:'A',location:'convex/ai.ts:askSalesforce:interpretation',message:'askSalesforce interpretation summary',data:{action:(interpretation as any)?.action ?? null,objectType:(interpretation as any)?.objectType ?? null,hasSoql:!!(interpretation as any)?.soql,soqlLen:typeof (interpretation as any)?.soql==='string'?(interpretation as any).soql.length:null,soqlHasCURRENT_USER:typeof (interpretation as any)?.soql==='string'?(interpretation as any).soql.includes('CURRENT_USER'):null,soqlHasCurlyUserId:typeof (interpretation as any)?.soql==='string'?(/\{userId\}/.test((interpretation as any).soql)):null},timestamp:Date.now()})}).catch(()=>{});
-    // #endregion agent log
+/**
+ * Assemble the response returned to channels (voice, SMS, Slack)
+ */
+function buildFinalResult(
+  response: string,
+  followUp: string | undefined,
+  lastResult: StepResult | undefined,
+  lastWrite: StepResult | undefined,
+  steps: AgentStep[],
+  staged: StepResult[]
+): AssistantResult {
+  // Report the write if there was one - channels key off it (e.g. SMS record links)
+  const primary = lastWrite || lastResult;
+  const text = response || primary?.response || "I'm not sure how to help with that. Can you rephrase?";
+  const pendingActions = staged.length > 0
+    ? staged.map((r) => ({ id: r.data.pendingActionId, summary: r.data.summary }))
+    : undefined;
+  const undo = lastWrite?.data?.journalId ? { id: lastWrite.data.journalId, summary: lastWrite.response } : undefined;
+  return {
+    response: appendFollowUp(text, followUp),
+    data: primary?.data,
+    action: primary?.action,
+    recordUrl: lastWrite?.recordUrl,
+    followUp,
+    steps,
+    pendingActions,
+    undo,
+    structured: structureResponse({
+      text,
+      followUp,
+      action: primary?.action,
+      data: primary?.data,
+      recordUrl: lastWrite?.recordUrl,
+      pendingActions,
+      undo,
+    }),
+  };
+}
 
-    // Execute the interpreted action
-    try {
-      switch (interpretation.action) {
-        case "search":
-          const searchResults = await ctx.runAction(api.salesforce.searchRecords, {
-            query: interpretation.searchTerm || args.userMessage,
-            objectType: interpretation.objectType,
-            limit: 5,
-            userId: args.userId,
-          });
-          return {
-            response: appendFollowUp(formatSearchResponse(searchResults, interpretation.objectType), interpretation.followUp),
-            data: searchResults,
-            action: "search",
-            followUp: interpretation.followUp,
-          };
+/**
+ * Execute a single interpreted intent against Salesforce
+ */
+async function executeIntent(
+  ctx: any,
+  interpretation: ParsedIntent,
+  env: AgentEnv
+): Promise<StepResult> {
+  const { userId, userMessage } = env;
+  switch (interpretation.action) {
+    case "search": {
+      // "Big Blue" → IBM: search for the record's real name
+      const term = interpretation.searchTerm || userMessage;
+      const alias = userId && interpretation.searchTerm
+        ? await ctx.runQuery(internal.aliases.lookup, { userId, term, objectType: interpretation.objectType })
+        : null;
+      const searchResults = await env.crm.search(alias ? alias.recordName : term, {
+        objectType: alias ? alias.objectType : interpretation.objectType,
+        limit: 5,
+      });
+      return {
+        response: formatSearchResponse(searchResults, alias ? alias.objectType : interpretation.objectType),
+        data: searchResults,
+        action: "search",
+        notes: alias ? [`"${term}" is the user's name for ${alias.recordName} (${alias.objectType})`] : undefined,
+      };
+    }
 
-        case "query":
-          // Handle special "my" queries FIRST - these need user context
-          const msgLower = args.userMessage.toLowerCase();
-          const objTypeLower = (interpretation.objectType || "").toLowerCase();
-
-          // My Opportunities / Pipeline / Deals - BUT only if no specific SOQL query
-          if ((objTypeLower === "opportunity" || msgLower.includes("pipeline") || msgLower.includes("my opportunit") || msgLower.includes("my deal")) && !interpretation.soql) {
-            // #region agent log (debug-session)
-            fetch('http://127.0.0.1:7244/ingest/1e251e9c-b8aa-4e39-b968-d4efd22e542b',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({sessionId:'debug-session',runId:'pre-fix',hypothesisId:'A',location:'convex/ai.ts:askSalesforce:route',message:'routing to getMyOpportunities',data:{objTypeLower,matchedByPipeline:msgLower.includes('pipeline'),matchedByMyDeal:msgLower.includes('my deal')},timestamp:Date.now()})}).catch(()=>{});
-            // #endregion agent log
-            const oppResults = await ctx.runAction(api.salesforce.getMyOpportunities, {
-              stage: "open",
-              userId: args.userId,
-            });
-            return {
-              response: appendFollowUp(oppResults.summary + ". " + formatOpportunities(oppResults.opportunities), interpretation.followUp),
-              data: oppResults,
-              action: "query",
-              followUp: interpretation.followUp,
-            };
-          }
+    case "query": {
+      // Handle special "my" queries FIRST - these need user context
+      const msgLower = userMessage.toLowerCase();
+      const objTypeLower = (interpretation.objectType || "").toLowerCase();
+
+      // My Opportunities / Pipeline / Deals - BUT only if no specific SOQL query
+      if ((objTypeLower === "opportunity" || msgLower.includes("pipeline") || msgLower.includes("my opportunit") || msgLower.includes("my deal")) && !interpretation.soql) {
+        // #region agent log (debug-session)
+        fetch('http://127.0.0.1:7244/ingest/1e251e9c-b8aa-4e39-b968-d4efd22e542b',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({sessionId:'debug-session',runId:'pre-fix',hypothesisId:'A',location:'convex/ai.ts:askSalesforce:route',message:'routing to getMyOpportunities',data:{objTypeLower,matchedByPipeline:msgLower.includes('pipeline'),matchedByMyDeal:msgLower.includes('my deal')},timestamp:Date.now()})}).catch(()=>{});
+        // #endregion agent log
+        const oppResults = await env.crm.myPipeline({ stage: "open" });
+        return {
+          response: oppResults.summary + ". " + formatOpportunities(oppResults.opportunities),
+          data: oppResults,
+          action: "query",
+        };
+      }
 
-          // My Tasks / To-dos - BUT only if no specific SOQL query
-          if ((objTypeLower === "task" || msgLower.includes("my task") || msgLower.includes("my to-do") || msgLower.includes("my todo")) && !interpretation.soql) {
-            const taskResults = await ctx.runAction(api.salesforce.getMyTasks, {
-              status: "open",
-              userId: args.userId,
-            });
-            return {
-              response: appendFollowUp(formatTasks(taskResults.tasks), interpretation.followUp),
-              data: taskResults,
-              action: "query",
-              followUp: interpretation.followUp,
-            };
-          }
+      // My Tasks / To-dos - BUT only if no specific SOQL query
+      if ((objTypeLower === "task" || msgLower.includes("my task") || msgLower.includes("my to-do") || msgLower.includes("my todo")) && !interpretation.soql) {
+        const taskResults = await env.crm.myTasks({ status: "open" });
+        return {
+          response: formatTasks(taskResults.tasks),
+          data: taskResults,
+          action: "query",
+        };
+      }
 
-          // My Leads - BUT only if no specific SOQL query was generated
-          // If Claude generated SOQL (e.g., for phone lookup), let it execute instead
-          if ((objTypeLower === "lead" || msgLower.includes("my lead")) && !interpretation.soql) {
-            // #region agent log (debug-session)
-            fetch('http://127.0.0.1:7244/ingest/1e251e9c-b8aa-4e39-b968-d4efd22e542b',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({sessionId:'debug-session',runId:'pre-fix',hypothesisId:'A',location:'convex/ai.ts:askSalesforce:route',message:'routing to getMyLeads',data:{objTypeLower,matchedByMyLead:msgLower.includes('my lead')},timestamp:Date.now()})}).catch(()=>{});
-            // #endregion agent log
-            const leadResults = await ctx.runAction(api.salesforce.getMyLeads, {
-              status: "open",
-              userId: args.userId,
-            });
-            return {
-              response: appendFollowUp(leadResults.summary + ". " + formatLeads(leadResults.leads), interpretation.followUp),
-              data: leadResults,
-              action: "query",
-              followUp: interpretation.followUp,
-            };
-          }
+      // My Leads - BUT only if no specific SOQL query was generated
+      // If Claude generated SOQL (e.g., for phone lookup), let it execute instead
+      if ((objTypeLower === "lead" || msgLower.includes("my lead")) && !interpretation.soql) {
+        // #region agent log (debug-session)
+        fetch('http://127.0.0.1:7244/ingest/1e251e9c-b8aa-4e39-b968-d4efd22e542b',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({sessionId:'debug-session',runId:'pre-fix',hypothesisId:'A',location:'convex/ai.ts:askSalesforce:route',message:'routing to getMyLeads',data:{objTypeLower,matchedByMyLead:msgLower.includes('my lead')},timestamp:Date.now()})}).catch(()=>{});
+        // #endregion agent log
+        requireSalesforce(env.crm, "Lead lists");
+        const leadResults = await ctx.runAction(api.salesforce.getMyLeads, {
+          status: "open",
+          userId,
+        });
+        return {
+          response: leadResults.summary + ". " + formatLeads(leadResults.leads),
+          data: leadResults,
+          action: "query",
+        };
+      }
 
-          // My Accounts - BUT only if no specific SOQL query
-          if ((objTypeLower === "account" || msgLower.includes("my account")) && !interpretation.soql) {
-            const accountResults = await ctx.runAction(api.salesforce.getMyAccounts, {
-              userId: args.userId,
-            });
-            const summary = `You have ${accountResults.count} account${accountResults.count !== 1 ? 's' : ''}`;
-            return {
-              response: appendFollowUp(summary + ". " + formatAccounts(accountResults.accounts), interpretation.followUp),
-              data: accountResults,
-              action: "query",
-              followUp: interpretation.followUp,
-            };
-          }
+      // My Accounts - BUT only if no specific SOQL query
+      if ((objTypeLower === "account" || msgLower.includes("my account")) && !interpretation.soql) {
+        requireSalesforce(env.crm, "Account lists");
+        const accountResults = await ctx.runAction(api.salesforce.getMyAccounts, {
+          userId,
+        });
+        const summary = `You have ${accountResults.count} account${accountResults.count !== 1 ? 's' : ''}`;
+        return {
+          response: summary + ". " + formatAccounts(accountResults.accounts),
+          data: accountResults,
+          action: "query",
+        };
+      }
 
-          // For any SOQL queries (CURRENT_USER placeholder gets replaced in searchRecords)
-          if (interpretation.soql) {
-            // #region agent log (debug-session)
-            fetch('http://127.0.0.1:7244/ingest/1e251e9c-b8aa-4e39-b968-d4efd22e542b',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({sessionId:'debug-session',runId:'pre-fix',hypothesisId:'B',location:'convex/ai.ts:askSalesforce:route',message:'routing to searchRecords with raw SOQL',data:{objTypeLower,soqlLen:typeof (interpretation as any)?.soql==='string'?(interpretation as any).soql.length:null,soqlHasCURRENT_USER:typeof (interpretation as any)?.soql==='string'?(interpretation as any).soql.includes('CURRENT_USER'):null,soqlHasCurlyUserId:typeof (interpretation as any)?.soql==='string'?(/\{userId\}/.test((interpretation as any).soql)):null},timestamp:Date.now()})}).catch(()=>{});
-            // #endregion agent log
-            const queryResults = await ctx.runAction(api.salesforce.searchRecords, {
-              query: interpretation.soql,
-              userId: args.userId,
-            });
-            return {
-              response: appendFollowUp(formatQueryResponse(queryResults, interpretation.objectType), interpretation.followUp),
-              data: queryResults,
-              action: "query",
-              followUp: interpretation.followUp,
-            };
-          }
-          break;
-
-        case "create":
-          if (interpretation.objectType && interpretation.fields) {
-            // Process date placeholders in fields
-            const processedFields = processDatePlaceholders(interpretation.fields);
-
-            // For Cases, try to link to Account if searchTerm provided
-            if (interpretation.objectType === "Case" && interpretation.searchTerm && !processedFields.AccountId) {
-              try {
-                const accountSearch = await ctx.runAction(api.salesforce.searchRecords, {
-                  query: interpretation.searchTerm,
-                  objectType: "Account",
-                  limit: 1,
-                  userId: args.userId,
-                });
-                if (accountSearch.records && accountSearch.records.length > 0) {
-                  processedFields.AccountId = accountSearch.records[0].Id;
-                }
-              } catch (e) {
-                console.log("Could not find account to link case:", e);
-              }
-            }
-
-            const createResult = await ctx.runAction(api.salesforce.createRecord, {
-              objectType: interpretation.objectType,
-              fields: processedFields,
-              userId: args.userId,
-            });
-            return {
-              response: appendFollowUp(interpretation.response || `Done! I created a new ${interpretation.objectType}.`, interpretation.followUp),
-              data: createResult,
-              action: "create",
-              recordUrl: createResult.recordUrl,
-              followUp: interpretation.followUp,
-            };
-          }
-          break;
-
-        case "update":
-          if (interpretation.recordId && interpretation.objectType && interpretation.fields) {
-            const updateResult = await ctx.runAction(api.salesforce.updateRecord, {
-              recordId: interpretation.recordId,
-              objectType: interpretation.objectType,
-              fields: interpretation.fields,
-              userId: args.userId,
-            });
-            return {
-              response: appendFollowUp(interpretation.response || `Got it! I updated that ${interpretation.objectType}.`, interpretation.followUp),
-              data: updateResult,
-              action: "update",
-              followUp: interpretation.followUp,
-            };
+      // For any SOQL queries (CURRENT_USER placeholder gets replaced in searchRecords)
+      if (interpretation.soql) {
+        // #region agent log (debug-session)
+        fetch('http://127.0.0.1:7244/ingest/1e251e9c-b8aa-4e39-b968-d4efd22e542b',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({sessionId:'debug-session',runId:'pre-fix',hypothesisId:'B',location:'convex/ai.ts:askSalesforce:route',message:'routing to searchRecords with raw SOQL',data:{objTypeLower,soqlLen:typeof (interpretation as any)?.soql==='string'?(interpretation as any).soql.length:null,soqlHasCURRENT_USER:typeof (interpretation as any)?.soql==='string'?(interpretation as any).soql.includes('CURRENT_USER'):null,soqlHasCurlyUserId:typeof (interpretation as any)?.soql==='string'?(/\{userId\}/.test((interpretation as any).soql)):null},timestamp:Date.now()})}).catch(()=>{});
+        // #endregion agent log
+        requireSalesforce(env.crm, "SOQL queries");
+        // Check objects, fields and literals against the org before calling Salesforce
+        let soql = interpretation.soql;
+        let notes: string[] | undefined;
+        if (env.schema) {
+          const validation = validateSoql(soql, env.schema);
+          if (!validation.valid) {
+            throw new Error(`Invalid SOQL - ${validation.errors.join(" ")}`);
           }
-          // If we need to find the record first
-          if (interpretation.searchTerm && interpretation.objectType && interpretation.fields) {
-            const findResult = await ctx.runAction(api.salesforce.searchRecords, {
-              query: interpretation.searchTerm,
-              objectType: interpretation.objectType,
-              limit: 1,
-              userId: args.userId,
-            });
-            if (findResult.records && findResult.records.length > 0) {
-              const recordId = findResult.records[0].Id;
-              const updateResult = await ctx.runAction(api.salesforce.updateRecord, {
-                recordId,
-                objectType: interpretation.objectType,
-                fields: interpretation.fields,
-                userId: args.userId,
-              });
-              return {
-                response: appendFollowUp(interpretation.response || `Done! I updated ${findResult.records[0].Name}.`, interpretation.followUp),
-                data: updateResult,
-                action: "update",
-                followUp: interpretation.followUp,
-              };
-            } else {
-              return {
-                response: `I couldn't find a ${interpretation.objectType} matching "${interpretation.searchTerm}". Can you give me more details?`,
-              };
-            }
+          if (validation.repairs.length > 0) {
+            console.log("Repaired SOQL:", validation.repairs);
+            soql = validation.soql;
+            notes = validation.repairs.map((r) => `SOQL repaired: ${r}`);
           }
-          break;
-
-        case "log_call":
-          const logResult = await ctx.runAction(api.salesforce.logCall, {
-            subject: interpretation.fields?.Subject || "Voice Call via TalkCRM",
-            description: interpretation.fields?.Description || args.userMessage,
-            whoId: interpretation.fields?.WhoId,
-            whatId: interpretation.fields?.WhatId,
-            userId: args.userId,
+        }
+        const queryResults = await ctx.runAction(api.salesforce.searchRecords, {
+          query: soql,
+          userId,
+        });
+        // Hand-written COUNT/SUM/GROUP BY - AggregateResult rows aren't records
+        if (isAggregateSoql(soql)) {
+          const summary = summarizeAggregate(queryResults, {
+            objectType: interpretation.objectType || soql.match(/\bFROM\s+(\w+)/i)?.[1] || "record",
+            columns: inferAggregateColumns(queryResults.records || []),
           });
           return {
-            response: appendFollowUp(interpretation.response || "I've logged this call in Salesforce.", interpretation.followUp),
-            data: logResult,
-            action: "log_call",
-            followUp: interpretation.followUp,
+            response: summary.sentence,
+            data: { aggregate: { columns: summary.columns, rows: summary.rows } },
+            action: "query",
+            notes,
           };
+        }
+        return {
+          response: formatQueryResponse(queryResults, interpretation.objectType),
+          data: queryResults,
+          action: "query",
+          notes,
+        };
+      }
+      throw new Error("A query needs either SOQL or one of Opportunity, Task, Lead, Account");
+    }
 
-        case "clarify":
-          // No follow-up for clarification questions
-          return {
-            response: interpretation.clarificationQuestion || interpretation.response,
-          };
+    case "aggregate": {
+      requireSalesforce(env.crm, "Aggregates");
+      if (!interpretation.aggregate) {
+        throw new Error("objectType and metrics are required");
+      }
+      // Field types are checked here, names and literals by validateSoql
+      const query = buildAggregateQuery(interpretation.aggregate, env.schema);
+      let soql = query.soql;
+      let notes: string[] | undefined;
+      if (env.schema) {
+        const validation = validateSoql(soql, env.schema);
+        if (!validation.valid) {
+          throw new Error(`Invalid aggregate - ${validation.errors.join(" ")}`);
+        }
+        if (validation.repairs.length > 0) {
+          soql = validation.soql;
+          notes = validation.repairs.map((r) => `SOQL repaired: ${r}`);
+        }
       }
+      const results = await ctx.runAction(api.salesforce.searchRecords, { query: soql, userId });
+      const summary = summarizeAggregate(results, query);
+      return {
+        response: summary.sentence,
+        data: { aggregate: { columns: summary.columns, rows: summary.rows } },
+        action: "query",
+        notes,
+      };
+    }
 
-      // Default response if no action matched
+    case "report": {
+      if (!userId) {
+        throw new Error("Reports need a connected Salesforce user");
+      }
+      requireSalesforce(env.crm, "Reports");
+      if (!interpretation.reportName) {
+        const listing = await listReports(ctx, {
+          userId,
+          search: interpretation.searchTerm,
+          kind: interpretation.reportKind,
+        });
+        return { response: listing.sentence, data: { reports: listing.reports }, action: "query" };
+      }
+      const run = await runReportByName(ctx, {
+        userId,
+        name: interpretation.reportName,
+        kind: interpretation.reportKind,
+        filters: interpretation.reportFilters,
+      });
+      if (run.status !== "ok") {
+        return { response: run.sentence, data: { reports: run.matches || [] }, action: "query" };
+      }
       return {
-        response: interpretation.response || "I'm not sure how to help with that. Can you rephrase?",
+        response: run.sentence,
+        data: { aggregate: { columns: run.columns, rows: run.rows }, report: run.report },
+        action: "query",
       };
+    }
 
-    } catch (error: any) {
-      console.error("Salesforce action error:", error);
-      // #region agent log (debug-session)
-      fetch('http://127.0.0.1:7244/ingest/1e251e9c-b8aa-4e39-b968-d4efd22e542b',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({sessionId:'debug-session',runId:'pre-fix',hypothesisId:'C',location:'convex/ai.ts:askSalesforce:error',message:'askSalesforce caught error',data:{errorMessageLen:typeof error?.message==='string'?error.message.length:null,errorHasCurlyUserId:typeof error?.message==='string'?(/\{userId\}/.test(error.message)):null,errorHasInvalidIdField:typeof error?.message==='string'?(/invalid ID field/i.test(error.message)):null},timestamp:Date.now()})}).catch(()=>{});
-      // #endregion agent log
+    case "get": {
+      if (!interpretation.objectType || !interpretation.recordId) {
+        throw new Error("objectType and recordId are required");
+      }
+      const record = await env.crm.get(interpretation.objectType, interpretation.recordId, interpretation.fieldNames);
       return {
-        response: `I ran into an issue: ${error.message}. Would you like me to try again?`,
+        response: formatQueryResponse({ records: [record], totalSize: 1 }, interpretation.objectType),
+        data: record,
+        action: "get",
       };
     }
-  },
-});
 
-/**
- * Use Claude to interpret the user's natural language request
- */
-async function interpretWithClaude(messages: ClaudeMessage[], customObjectsContext: string = ""): Promise<ParsedIntent> {
-  const systemPrompt = `${SALESFORCE_SCHEMA_CONTEXT}${customObjectsContext}
-
-Based on the user's message, determine what Salesforce action to take. Respond with a JSON object:
-
-{
-  "action": "search" | "query" | "create" | "update" | "log_call" | "clarify",
-  "objectType": "Account" | "Contact" | "Lead" | "Opportunity" | "Task" | "Case" (if applicable),
-  "recordId": "18-char Salesforce ID" (if updating a specific record),
-  "searchTerm": "what to search for" (if searching),
-  "soql": "SELECT ... FROM ..." (if running a specific query),
-  "fields": { "FieldName": "value" } (if creating/updating),
-  "clarificationQuestion": "question to ask user" (if action is clarify),
-  "response": "what to say to the user (keep it SHORT for voice)",
-  "followUp": "a helpful next action suggestion (optional, keep SHORT)"
-}
+    case "create": {
+      if (!interpretation.objectType || !interpretation.fields) {
+        throw new Error("objectType and fields are required");
+      }
+      // "next Tuesday at 3" → the Date/DateTime value the field takes
+      const processedFields = resolveDateFields(interpretation.fields, interpretation.objectType, env.dates, env.schema);
+
+      // For Cases, try to link to Account if searchTerm provided
+      if (interpretation.objectType === "Case" && interpretation.searchTerm && !processedFields.AccountId) {
+        let account: RecordResolution = { status: "not_found" };
+        try {
+          account = await findRecordByName(ctx, env, "Account", interpretation.searchTerm);
+        } catch (e) {
+          console.log("Could not find account to link case:", e);
+        }
+        if (account.status === "ambiguous") return disambiguationResult(account);
+        if (account.status === "resolved") processedFields.AccountId = account.recordId;
+      }
 
-FOLLOW-UP SUGGESTIONS:
-- After every successful action, suggest a relevant next step the user might want to take
-- Keep follow-ups SHORT (under 10 words) and actionable
-- Make them contextually relevant to what was just done
-- Examples: "Want to add a follow-up task?", "Should I update the amount?", "Need contact details?"
-- Don't include followUp for clarify actions
+      if (needsConfirmation(env, "create")) {
+        return await stageWrite(ctx, env, {
+          operation: "create",
+          objectType: interpretation.objectType,
+          fields: processedFields,
+        });
+      }
 
-Examples:
-- "Show me my pipeline" → { "action": "query", "objectType": "Opportunity", "response": "Let me get your opportunities...", "followUp": "Want details on any of these?" }
-- "Find Acme" → { "action": "search", "searchTerm": "Acme", "objectType": "Account", "response": "Searching for Acme...", "followUp": "Need to see their contacts?" }
-- "Update Acme deal to Negotiation" → { "action": "update", "objectType": "Opportunity", "searchTerm": "Acme", "fields": { "StageName": "Negotiation/Review" }, "response": "I'll update the Acme opportunity to Negotiation.", "followUp": "Should I create a follow-up task?" }
-- "Create a task to call John tomorrow" → { "action": "create", "objectType": "Task", "fields": { "Subject": "Call John", "ActivityDate": "TOMORROW", "Status": "Not Started" }, "response": "Creating a task to call John tomorrow.", "followUp": "Want to add notes or details?" }
-- "Create a case for Acme - their website is down" → { "action": "create", "objectType": "Case", "fields": { "Subject": "Website is down", "Description": "Customer reported website is down", "Status": "New", "Priority": "High", "Origin": "Phone" }, "searchTerm": "Acme", "response": "Creating a high priority case for Acme about the website issue.", "followUp": "Need to assign it to someone?" }
-- "Create a case for Adam Smith - pressure issues with chamber" → { "action": "create", "objectType": "Case", "fields": { "Subject": "Chamber pressure issues", "Description": "Customer reporting pressure issues with their chamber", "Status": "New", "Priority": "High", "Origin": "Phone" }, "searchTerm": "Adam Smith", "response": "Creating a case for Adam Smith about chamber pressure issues.", "followUp": "Should I link it to an account?" }
-- "Open a support case for billing problem" → { "action": "create", "objectType": "Case", "fields": { "Subject": "Billing problem", "Status": "New", "Priority": "Medium", "Origin": "Phone" }, "response": "Creating a support case for the billing problem.", "followUp": "Want to link it to an account?" }
+      const createResult = await journaledWrite(ctx, {
+        userId,
+        channel: env.channel,
+        sessionId: env.sessionId,
+        operation: "create",
+        objectType: interpretation.objectType,
+        fields: processedFields,
+      });
+      return {
+        response: `Created a new ${interpretation.objectType} (${createResult.id}).`,
+        data: createResult,
+        action: "create",
+        recordUrl: createResult.recordUrl,
+        records: [{
+          id: createResult.id,
+          type: interpretation.objectType,
+          name: processedFields.Name || processedFields.Subject || processedFields.LastName || createResult.id,
+        }],
+      };
+    }
+
+    case "update": {
+      if (!interpretation.objectType || !interpretation.fields) {
+        throw new Error("objectType and fields are required");
+      }
+      const fields = resolveDateFields(interpretation.fields, interpretation.objectType, env.dates, env.schema);
+      if (interpretation.recordId) {
+        if (needsConfirmation(env, "update")) {
+          return await stageWrite(ctx, env, {
+            operation: "update",
+            objectType: interpretation.objectType,
+            recordId: interpretation.recordId,
+            fields,
+          });
+        }
+        const known = env.recentRecords?.find((r) => r.id === interpretation.recordId);
+        const updateResult = await journaledWrite(ctx, {
+          userId,
+          channel: env.channel,
+          sessionId: env.sessionId,
+          operation: "update",
+          objectType: interpretation.objectType,
+          recordId: interpretation.recordId,
+          recordName: known?.name,
+          fields,
+        });
+        return {
+          response: `Updated ${known?.name || `${interpretation.objectType} ${interpretation.recordId}`}.`,
+          data: updateResult,
+          action: "update",
+          records: [{
+            id: interpretation.recordId,
+            type: interpretation.objectType,
+            name: known?.name || interpretation.recordId,
+          }],
+        };
+      }
+      // If we need to find the record first
+      if (interpretation.searchTerm) {
+        const match = await findRecordByName(ctx, env, interpretation.objectType, interpretation.searchTerm);
+        if (match.status === "not_found") {
+          throw new Error(`No ${interpretation.objectType} matches "${interpretation.searchTerm}"`);
+        }
+        if (match.status === "ambiguous") return disambiguationResult(match);
+        const recordId = match.recordId;
+        if (needsConfirmation(env, "update")) {
+          return await stageWrite(ctx, env, {
+            operation: "update",
+            objectType: interpretation.objectType,
+            recordId,
+            recordName: match.name,
+            fields,
+          });
+        }
+        const updateResult = await journaledWrite(ctx, {
+          userId,
+          channel: env.channel,
+          sessionId: env.sessionId,
+          operation: "update",
+          objectType: interpretation.objectType,
+          recordId,
+          recordName: match.name,
+          fields,
+        });
+        return {
+          response: `Updated ${match.name}.`,
+          data: updateResult,
+          action: "update",
+          records: [{ id: recordId, type: interpretation.objectType, name: match.name }],
+        };
+      }
+      throw new Error("update needs a recordId or a searchTerm");
+    }
+
+    case "log_call": {
+      const call = {
+        subject: interpretation.fields?.Subject || "Voice Call via TalkCRM",
+        description: interpretation.fields?.Description || userMessage,
+        whoId: interpretation.fields?.WhoId,
+        whatId: interpretation.fields?.WhatId,
+        activityDate: resolveDatePhrase("today", "date", env.dates) || undefined,
+      };
+      if (needsConfirmation(env, "log_call")) {
+        return await stageWrite(ctx, env, {
+          operation: "log_call",
+          objectType: "Task",
+          fields: call,
+          display: { Subject: call.subject, Description: call.description, WhoId: call.whoId, WhatId: call.whatId },
+        });
+      }
+      const logResult = await journaledWrite(ctx, {
+        userId,
+        channel: env.channel,
+        sessionId: env.sessionId,
+        operation: "log_call",
+        objectType: "Task",
+        fields: call,
+      });
+      return {
+        response: "Logged the call in Salesforce.",
+        data: logResult,
+        action: "log_call",
+      };
+    }
 
-IMPORTANT FOR CASES: When a customer name is mentioned (e.g., "case for John Smith", "case for Acme"), ALWAYS include "searchTerm" with the customer/company name so we can link it to their Account/Lead.
-- "Log this call" → { "action": "log_call", "fields": { "Subject": "Voice call via TalkCRM" }, "response": "I'll log this call for you.", "followUp": "Should I create a follow-up task?" }
-- "Record an issue for customer" → { "action": "clarify", "clarificationQuestion": "Should I create a support case for a customer issue, or a task for your to-do list?", "response": "Should I create a support case for a customer issue, or a task for your to-do list?" }
+    case "bulk_update": {
+      if (!userId) throw new Error("Bulk updates need a connected Salesforce user");
+      requireSalesforce(env.crm, "Bulk updates");
+      if (!interpretation.objectType || !interpretation.where || !interpretation.fields) {
+        throw new Error("objectType, where and fields are required");
+      }
+      const objectType = interpretation.objectType;
+      const fields = resolveDateFields(interpretation.fields, objectType, env.dates, env.schema);
+      const limit: number = await ctx.runQuery(internal.bulkUpdates.getLimitForUser, { userId });
+
+      let soql = buildBulkSelect(objectType, interpretation.where, Object.keys(fields), limit);
+      let notes: string[] | undefined;
+      if (env.schema) {
+        const validation = validateSoql(soql, env.schema);
+        if (!validation.valid) {
+          throw new Error(`Invalid condition - ${validation.errors.join(" ")}`);
+        }
+        if (validation.repairs.length > 0) {
+          soql = validation.soql;
+          notes = validation.repairs.map((r) => `SOQL repaired: ${r}`);
+        }
+      }
+      const found = await ctx.runAction(api.salesforce.searchRecords, { query: soql, userId });
+      const matches: any[] = found.records || [];
+      if (matches.length === 0) {
+        return { response: `No ${pluralObject(objectType, 2)} match that, so nothing to change.`, action: "query", notes };
+      }
+      if (matches.length > limit) {
+        throw new Error(`More than ${limit} ${pluralObject(objectType, 2)} match - that's the most one change can touch in your org. Narrow the condition.`);
+      }
 
-ONLY respond with the JSON object, no other text.`;
+      const nameField = nameFieldFor(objectType);
+      const targets: BulkTarget[] = matches.map((r) => ({ id: r.Id, name: r[nameField] || r.Id }));
+      // Show the current value when every record shares it ("Stage: Proposal → Closed Won")
+      const shared = Object.fromEntries(
+        Object.keys(fields)
+          .filter((field) => matches.every((r) => String(r[field] ?? "") === String(matches[0][field] ?? "")))
+          .map((field) => [field, matches[0][field]])
+      );
+      const staged = await stageWrite(ctx, env, {
+        operation: "bulk_update",
+        objectType,
+        recordName: `${targets.length} ${pluralObject(objectType, targets.length)}`,
+        targets,
+        fields,
+        current: shared,
+      });
+      const preview = describeBulkPreview(targets);
+      return {
+        ...staged,
+        response: `${staged.response} (${preview})`,
+        notes: [...(staged.notes || []), `Matches: ${preview}`, ...(notes || [])],
+        records: targets.slice(0, 5).map((t) => ({ id: t.id, type: objectType, name: t.name })),
+      };
+    }
 
-  try {
-    // Check for API key
-    const apiKey = process.env.ANTHROPIC_API_KEY;
-    if (!apiKey) {
-      console.error("ANTHROPIC_API_KEY is not configured");
-      throw new Error("AI service is not configured. Please contact support.");
+    case "undo": {
+      if (!userId) throw new Error("Undo needs a signed-in user");
+      const undone = await undoChange(ctx, {
+        userId,
+        sessionId: env.sessionId,
+        force: interpretation.force,
+        via: env.channel,
+      });
+      if (undone.status === "failed") throw new Error(undone.message);
+      return { response: undone.message, data: undone, action: "undo" };
+    }
+
+    case "recommend": {
+      if (!userId) throw new Error("Recommendations need a connected Salesforce user");
+      requireSalesforce(env.crm, "Recommendations");
+      const result = await getRecommendations(ctx, {
+        userId: userId as Id<"users">,
+        dates: env.dates,
+        limit: interpretation.limit,
+      });
+      return {
+        response: result.sentence,
+        data: { recommendations: result.items, total: result.total },
+        action: "query",
+        records: result.items.map((item) => ({ id: item.recordId, type: item.objectType, name: item.name })),
+      };
     }
+  }
+}
+
+// ============================================================================
+// RECORD LOOKUP BY NAME (see disambiguation.ts)
+// ============================================================================
 
-    const client = new Anthropic({ apiKey });
+/**
+ * Resolve a name to one record, asking the user when several match.
+ * Without a user there's nobody to ask or remember for, so take the top hit.
+ */
+async function findRecordByName(
+  ctx: any,
+  env: AgentEnv,
+  objectType: string,
+  searchTerm: string
+): Promise<RecordResolution> {
+  // "that deal", "it", "him" - the record we were just talking about
+  const referenced = resolveRecordReference(searchTerm, env.recentRecords || [], objectType);
+  if (referenced) {
+    return { status: "resolved", recordId: referenced.id, name: referenced.name, via: "session" };
+  }
 
-    const response = await client.messages.create({
-      model: "claude-opus-4-5-20251101",
-      max_tokens: 1024,
-      system: systemPrompt,
-      messages: messages,
+  if (env.userId) {
+    const resolution = await resolveRecord(ctx, {
+      userId: env.userId as Id<"users">,
+      channel: env.channel,
+      anyChannel: env.sharedContext,
+      objectType,
+      searchTerm,
+      userMessage: env.userMessage,
     });
+    // Answers the open question (and may teach an alias)
+    if (resolution.status === "resolved" && env.unansweredQuestion?.objectType === objectType) {
+      await ctx.runMutation(internal.disambiguation.correct, {
+        disambiguationId: env.unansweredQuestion.id,
+        recordId: resolution.recordId,
+        recordName: resolution.name,
+      });
+      env.unansweredQuestion = undefined;
+    }
+    return resolution;
+  }
+
+  const found = await env.crm.search(searchTerm, { objectType, limit: 1 });
+  const record = found.records?.[0];
+  return record
+    ? { status: "resolved", recordId: record.Id, name: record.Name, via: "single" }
+    : { status: "not_found" };
+}
 
-    const content = response.content[0].type === "text" ? response.content[0].text : "{}";
+function disambiguationResult(resolution: Extract<RecordResolution, { status: "ambiguous" }>): StepResult {
+  return {
+    response: resolution.question,
+    data: {
+      disambiguationId: resolution.disambiguationId,
+      question: resolution.question,
+      options: resolution.options,
+    },
+    action: "disambiguation",
+    notes: ["Several records match - call respond with exactly this question and nothing else"],
+  };
+}
 
+// ============================================================================
+// WRITE CONFIRMATION (see pendingActions.ts)
+// ============================================================================
+
+interface StagedWrite {
+  operation: WriteOperation;
+  objectType: string;
+  recordId?: string;
+  recordName?: string;
+  targets?: BulkTarget[]; // bulk_update: the records previewed
+  fields: Record<string, any>; // Exactly what will be sent to Salesforce
+  display?: Record<string, any>; // Record-shaped view of fields for the diff, if different
+  current?: Record<string, any>; // Before-values when the caller already has them
+}
+
+// Friendlier names for common standard fields in confirmation prompts
+const FIELD_LABELS: Record<string, string> = {
+  StageName: "Stage",
+  CloseDate: "Close Date",
+  ActivityDate: "Due Date",
+  AccountId: "Account",
+  OwnerId: "Owner",
+  WhoId: "Contact/Lead",
+  WhatId: "Related To",
+  LeadSource: "Lead Source",
+  NextStep: "Next Step",
+};
+
+function needsConfirmation(env: AgentEnv, operation: WriteOperation): boolean {
+  // Staging needs a user to confirm against
+  return !!env.userId && requiresConfirmation(env.confirmationMode, operation);
+}
+
+function fieldLabel(objectType: string, field: string, schema?: SoqlSchema): string {
+  if (FIELD_LABELS[field]) return FIELD_LABELS[field];
+  const described = schema?.[objectType.toLowerCase()]?.fields.find(
+    (f) => f.name.toLowerCase() === field.toLowerCase()
+  );
+  if (described?.label) return described.label;
+  return field
+    .replace(/__c$/, "")
+    .replace(/_/g, " ")
+    .replace(/([a-z])([A-Z])/g, "$1 $2");
+}
+
+function displayValue(value: any): string | undefined {
+  if (value === null || value === undefined || value === "") return undefined;
+  return String(value);
+}
+
+/**
+ * Stage a write for user confirmation instead of executing it.
+ * For updates, the current values are fetched so the prompt reads as a diff.
+ */
+async function stageWrite(ctx: any, env: AgentEnv, write: StagedWrite): Promise<StepResult> {
+  let recordName = write.recordName;
+  let current: Record<string, any> = write.current || {};
+
+  if (write.operation === "update" && write.recordId) {
+    const nameField = ["Task", "Event", "Case"].includes(write.objectType) ? "Subject" : "Name";
     try {
-      // Extract JSON from the response (handle potential markdown code blocks)
-      let jsonStr = content;
-      if (content.includes("```")) {
-        const match = content.match(/```(?:json)?\s*([\s\S]*?)```/);
-        if (match) jsonStr = match[1];
-      }
-      return JSON.parse(jsonStr.trim());
+      current = await env.crm.get(write.objectType, write.recordId, [...new Set([nameField, ...Object.keys(write.fields)])], { fresh: true });
+      recordName = recordName || current[nameField];
     } catch (e) {
-      console.error("Failed to parse Claude response:", content);
-      return {
-        action: "clarify",
-        response: "I didn't quite catch that. Could you say it another way?",
-      };
+      // Still stage the change, just without before-values
+      console.log("Could not fetch current values for confirmation diff:", e);
     }
-  } catch (error: any) {
-    console.error("Error calling Claude API:", error);
-    // Return a safe fallback response
+  }
+
+  const changes: FieldChange[] = Object.entries(write.display || write.fields)
+    .filter(([, value]) => value !== undefined)
+    .map(([field, value]) => ({
+      field,
+      label: fieldLabel(write.objectType, field, env.schema),
+      before: displayValue(current[field]),
+      after: displayValue(value) || "(blank)",
+    }));
+
+  const { pendingActionId, summary } = await ctx.runMutation(internal.pendingActions.stage, {
+    userId: env.userId,
+    channel: env.channel,
+    operation: write.operation,
+    objectType: write.objectType,
+    recordId: write.recordId,
+    recordName,
+    targets: write.targets,
+    fields: write.fields,
+    changes,
+    userMessage: env.userMessage,
+    sessionId: env.sessionId,
+    turnStartedAt: env.turnStartedAt,
+  });
+
+  return {
+    response: `Waiting for confirmation: ${summary}`,
+    data: { pendingActionId, summary },
+    action: "pending_confirmation",
+    notes: ["Not saved yet - ask the user to confirm with a yes or no"],
+    records: write.recordId
+      ? [{ id: write.recordId, type: write.objectType, name: recordName || write.recordId }]
+      : undefined,
+  };
+}
+
+/**
+ * Answer a bare "yes"/"no" to staged writes on this channel.
+ * Returns null when the message isn't a confirmation reply.
+ */
+async function resolveConfirmationReply(
+  ctx: any,
+  userMessage: string,
+  openActions: { _id: any; summary: string }[],
+  channel: AssistantChannel
+): Promise<AssistantResult | null> {
+  const decision = parseConfirmationReply(userMessage);
+  if (!decision) return null;
+
+  const pendingActionIds = openActions.map((a) => a._id);
+
+  if (decision === "cancel") {
+    await ctx.runMutation(internal.pendingActions.cancelActions, { pendingActionIds, resolvedVia: channel });
     return {
-      action: "clarify",
-      response: error.message || "I'm having trouble processing that right now. Please try again.",
+      response: openActions.length === 1 ? "Okay, I won't make that change." : "Okay, I won't make those changes.",
+      action: "cancelled",
     };
   }
+
+  const results: ExecutedAction[] = await ctx.runAction(internal.pendingActions.executeActions, {
+    pendingActionIds,
+    resolvedVia: channel,
+  });
+  if (results.length === 0) {
+    return { response: "That request expired before I could save it. Want me to try again?" };
+  }
+
+  const done = results.filter((r) => r.success);
+  const failed = results.filter((r) => !r.success);
+  const lines = [
+    ...done.map((r) => (r.operation === "bulk_update" ? r.data.message : `Done: ${r.summary}.`)),
+    ...failed.map((r) => `Couldn't save ${r.summary}: ${r.error}`),
+  ];
+  const last = done[done.length - 1];
+  return {
+    response: lines.join("\n"),
+    data: last?.data,
+    action: last?.operation,
+    recordUrl: [...done].reverse().find((r) => r.recordUrl)?.recordUrl,
+    undo: last?.data?.journalId ? { id: last.data.journalId, summary: last.summary } : undefined,
+  };
 }
 
 // ============================================================================
@@ -766,42 +1988,6 @@ function formatAccounts(accounts: any[]): string {
   return `Including ${top3.map(a => a.name).join(", ")}. Plus ${accounts.length - 3} more.`;
 }
 
-/**
- * Process date placeholders like TOMORROW, TODAY, NEXT_WEEK
- */
-function processDatePlaceholders(fields: Record<string, any>): Record<string, any> {
-  const processed = { ...fields };
-  const today = new Date();
-
-  for (const [key, value] of Object.entries(processed)) {
-    if (typeof value === "string") {
-      const upperValue = value.toUpperCase();
-      if (upperValue === "TODAY") {
-        processed[key] = today.toISOString().split("T")[0];
-      } else if (upperValue === "TOMORROW") {
-        const tomorrow = new Date(today);
-        tomorrow.setDate(tomorrow.getDate() + 1);
-        processed[key] = tomorrow.toISOString().split("T")[0];
-      } else if (upperValue === "NEXT_WEEK" || upperValue === "NEXT WEEK") {
-        const nextWeek = new Date(today);
-        nextWeek.setDate(nextWeek.getDate() + 7);
-        processed[key] = nextWeek.toISOString().split("T")[0];
-      } else if (upperValue === "END_OF_WEEK" || upperValue === "END OF WEEK" || upperValue === "THIS_WEEK") {
-        const endOfWeek = new Date(today);
-        const daysUntilFriday = (5 - today.getDay() + 7) % 7;
-        endOfWeek.setDate(endOfWeek.getDate() + daysUntilFriday);
-        processed[key] = endOfWeek.toISOString().split("T")[0];
-      } else if (upperValue === "NEXT_MONTH" || upperValue === "NEXT MONTH") {
-        const nextMonth = new Date(today);
-        nextMonth.setMonth(nextMonth.getMonth() + 1);
-        processed[key] = nextMonth.toISOString().split("T")[0];
-      }
-    }
-  }
-
-  return processed;
-}
-
 /**
  * Simpler endpoint for basic search (used by ElevenLabs tool)
  */
@@ -0,0 +1,322 @@
+import { v } from "convex/values";
+import { action, internalQuery, mutation, query } from "./_generated/server";
+import { api } from "./_generated/api";
+import { Id } from "./_generated/dataModel";
+import { instanceUrlForUser } from "./salesforceOrg";
+
+// ============================================================================
+// RECORD ALIASES
+// What reps call accounts and people ("Big Blue" → IBM, "the Globex deal"),
+// plus the ways voice transcription mangles names ("Glowbecks"). Checked
+// before searching Salesforce. Aliases belong to one user, or to the whole
+// org when added for everyone; exact matches win over phonetic ones.
+// ============================================================================
+
+export type AliasKind = "nickname" | "phonetic" | "transcription";
+export type AliasSource = "learned" | "web" | "slack";
+
+export interface AliasMatch {
+  aliasId: Id<"recordAliases">;
+  objectType: string;
+  recordId: string;
+  recordName: string;
+  match: "exact" | "phonetic";
+}
+
+// Objects an alias can point at when the type isn't given (Slack)
+export const ALIAS_OBJECT_TYPES = ["Account", "Opportunity", "Contact", "Lead"];
+
+// Words that describe the record rather than name it
+const GENERIC_WORDS = new Set([
+  "deal", "deals", "opportunity", "opp", "oppty", "account", "company", "contact", "lead", "case", "ticket",
+]);
+
+const aliasKind = v.union(v.literal("nickname"), v.literal("phonetic"), v.literal("transcription"));
+
+// ============================================================================
+// MATCHING
+// ============================================================================
+
+/**
+ * "The Globex deal" → "globex", "Big Blue's" → "big blue"
+ */
+export function normalizeAlias(term: string): string {
+  const words = term
+    .toLowerCase()
+    .replace(/['’]s\b/g, "")
+    .replace(/[^a-z0-9&\s]/g, " ")
+    .split(/\s+/)
+    .filter(Boolean);
+  while (words.length > 1 && ["the", "my", "our", "that", "this"].includes(words[0])) words.shift();
+  while (words.length > 1 && GENERIC_WORDS.has(words[words.length - 1])) words.pop();
+  return words.join(" ");
+}
+
+/**
+ * Sound-alike key: "Globex", "Glowbecks" and "globe x" all give "glbks".
+ * Spaces are dropped because transcription splits and joins words freely.
+ */
+export function phoneticKey(term: string): string {
+  const letters = normalizeAlias(term)
+    .replace(/[^a-z]/g, "")
+    .replace(/^kn|^gn|^pn|^wr/, (m) => m.slice(1))
+    .replace(/ph/g, "f")
+    .replace(/ck/g, "k")
+    .replace(/sch/g, "sk")
+    .replace(/tch/g, "ch")
+    .replace(/c(?=[eiy])/g, "s")
+    .replace(/[cq]/g, "k")
+    .replace(/x/g, "ks")
+    .replace(/dg(?=[eiy])/g, "j")
+    .replace(/gh(?![aeiou])/g, "")
+    .replace(/z/g, "s")
+    .replace(/v/g, "f");
+  if (!letters) return "";
+  // Keep the first letter, drop vowels and w/h/y after it, collapse doubles
+  const rest = letters.slice(1).replace(/[aeiouwhy]/g, "");
+  return (letters[0] + rest).replace(/(.)\1+/g, "$1");
+}
+
+/**
+ * Whether picking `recordName` for `term` teaches us a new name for the
+ * record - "acme" → "Acme Labs" is just a narrower search, "big g" →
+ * "Globex Renewal" is a nickname
+ */
+export function aliasKindFor(term: string, recordName: string): AliasKind | null {
+  const alias = normalizeAlias(term);
+  const name = normalizeAlias(recordName);
+  if (!alias || alias === name) return null;
+  const nameWords = name.split(" ");
+  const contained = alias.split(" ").every((word) => nameWords.some((n) => n.startsWith(word)));
+  if (contained) return null;
+  return phoneticKey(alias) === phoneticKey(name) ? "transcription" : "nickname";
+}
+
+/**
+ * The record a name refers to, if the user or their org has an alias for it.
+ * The user's own aliases beat org-wide ones; a phonetic match must point at
+ * a single record.
+ */
+export const lookup = internalQuery({
+  args: {
+    userId: v.id("users"),
+    term: v.string(),
+    objectType: v.optional(v.string()),
+  },
+  handler: async (ctx, args): Promise<AliasMatch | null> => {
+    const instanceUrl = await instanceUrlForUser(ctx, args.userId);
+    const alias = normalizeAlias(args.term);
+    if (!instanceUrl || !alias) return null;
+
+    const visible = (rows: any[]) =>
+      rows
+        .filter((a) => (!a.userId || a.userId === args.userId) && (!args.objectType || a.objectType === args.objectType))
+        .sort((a, b) => (a.userId ? 0 : 1) - (b.userId ? 0 : 1));
+    const toMatch = (a: any, match: AliasMatch["match"]): AliasMatch => ({
+      aliasId: a._id,
+      objectType: a.objectType,
+      recordId: a.recordId,
+      recordName: a.recordName,
+      match,
+    });
+
+    const exact = visible(
+      await ctx.db
+        .query("recordAliases")
+        .withIndex("by_instance_alias", (q) => q.eq("instanceUrl", instanceUrl).eq("alias", alias))
+        .collect()
+    );
+    if (exact.length > 0) return toMatch(exact[0], "exact");
+
+    const key = phoneticKey(alias);
+    if (key.length < 3) return null;
+    const similar = visible(
+      await ctx.db
+        .query("recordAliases")
+        .withIndex("by_instance_phonetic", (q) => q.eq("instanceUrl", instanceUrl).eq("phonetic", key))
+        .collect()
+    );
+    const records = new Set(similar.map((a) => a.recordId));
+    return records.size === 1 ? toMatch(similar[0], "phonetic") : null;
+  },
+});
+
+/**
+ * Add or repoint an alias - usable from any mutation (disambiguation learns
+ * through this)
+ */
+export async function saveAlias(
+  ctx: any,
+  args: {
+    userId: Id<"users">;
+    alias: string;
+    objectType: string;
+    recordId: string;
+    recordName: string;
+    kind: AliasKind;
+    source: AliasSource;
+    orgWide?: boolean;
+  }
+): Promise<Id<"recordAliases">> {
+  const instanceUrl = await instanceUrlForUser(ctx, args.userId);
+  if (!instanceUrl) {
+    throw new Error("No Salesforce connection");
+  }
+  const alias = normalizeAlias(args.alias);
+  if (!alias) {
+    throw new Error("An alias needs at least one letter or number");
+  }
+
+  const owner = args.orgWide ? undefined : args.userId;
+  const existing = (
+    await ctx.db
+      .query("recordAliases")
+      .withIndex("by_instance_alias", (q: any) => q.eq("instanceUrl", instanceUrl).eq("alias", alias))
+      .collect()
+  ).find((a: any) => a.userId === owner && a.objectType === args.objectType);
+
+  const doc = {
+    instanceUrl,
+    userId: owner,
+    alias,
+    phonetic: phoneticKey(alias),
+    objectType: args.objectType,
+    recordId: args.recordId,
+    recordName: args.recordName,
+    kind: args.kind,
+    source: args.source,
+    createdBy: args.userId,
+    createdAt: Date.now(),
+  };
+  if (existing) {
+    await ctx.db.replace("recordAliases", existing._id, doc);
+    return existing._id;
+  }
+  return await ctx.db.insert("recordAliases", doc);
+}
+
+// ============================================================================
+// MANAGEMENT (web app and Slack)
+// ============================================================================
+
+/**
+ * The user's own aliases and their org's shared ones
+ */
+export const listAliases = query({
+  args: { userId: v.id("users") },
+  handler: async (ctx, args) => {
+    const instanceUrl = await instanceUrlForUser(ctx, args.userId);
+    if (!instanceUrl) return [];
+
+    const rows = await ctx.db
+      .query("recordAliases")
+      .withIndex("by_instance_alias", (q) => q.eq("instanceUrl", instanceUrl))
+      .collect();
+    return rows
+      .filter((a) => !a.userId || a.userId === args.userId)
+      .map((a) => ({
+        _id: a._id,
+        alias: a.alias,
+        objectType: a.objectType,
+        recordId: a.recordId,
+        recordName: a.recordName,
+        kind: a.kind,
+        source: a.source,
+        orgWide: !a.userId,
+        createdAt: a.createdAt,
+      }));
+  },
+});
+
+export const addAlias = mutation({
+  args: {
+    userId: v.id("users"),
+    alias: v.string(),
+    objectType: v.string(),
+    recordId: v.string(),
+    recordName: v.string(),
+    kind: v.optional(aliasKind),
+    orgWide: v.optional(v.boolean()), // Everyone in the org gets it
+    source: v.optional(v.union(v.literal("web"), v.literal("slack"))),
+  },
+  handler: async (ctx, args) => {
+    const aliasId = await saveAlias(ctx, {
+      ...args,
+      kind: args.kind ?? "nickname",
+      source: args.source ?? "web",
+    });
+    return { success: true, aliasId };
+  },
+});
+
+export const removeAlias = mutation({
+  args: {
+    userId: v.id("users"),
+    aliasId: v.id("recordAliases"),
+  },
+  handler: async (ctx, args) => {
+    const alias = await ctx.db.get("recordAliases", args.aliasId);
+    const instanceUrl = await instanceUrlForUser(ctx, args.userId);
+    // Personal aliases are the owner's; org-wide ones anyone in the org can remove
+    if (!alias || alias.instanceUrl !== instanceUrl || (alias.userId && alias.userId !== args.userId)) {
+      throw new Error("Alias not found");
+    }
+    await ctx.db.delete("recordAliases", alias._id);
+    return { success: true };
+  },
+});
+
+/**
+ * Add an alias by record name ("Big Blue" = "IBM"), searching the usual
+ * objects when the type isn't given. Fails rather than guessing when the
+ * name matches several records.
+ */
+export const addAliasByName = action({
+  args: {
+    userId: v.id("users"),
+    alias: v.string(),
+    recordName: v.string(),
+    objectType: v.optional(v.string()),
+    kind: v.optional(aliasKind),
+    orgWide: v.optional(v.boolean()),
+    source: v.optional(v.union(v.literal("web"), v.literal("slack"))),
+  },
+  handler: async (ctx, args): Promise<{ objectType: string; recordId: string; recordName: string }> => {
+    const wanted = args.recordName.trim().toLowerCase();
+    const candidates: { objectType: string; recordId: string; recordName: string }[] = [];
+    for (const objectType of args.objectType ? [args.objectType] : ALIAS_OBJECT_TYPES) {
+      const found = await ctx.runAction(api.salesforce.searchRecords, {
+        query: args.recordName,
+        objectType,
+        limit: 5,
+        userId: args.userId,
+      });
+      for (const r of found.records || []) {
+        candidates.push({ objectType, recordId: r.Id, recordName: r.Name });
+      }
+    }
+
+    const exact = candidates.filter((c) => c.recordName?.toLowerCase() === wanted);
+    const pick = exact.length === 1 ? exact[0] : candidates.length === 1 ? candidates[0] : null;
+    if (!pick) {
+      const names = (exact.length > 1 ? exact : candidates).slice(0, 5).map((c) => `${c.recordName} (${c.objectType})`);
+      throw new Error(
+        candidates.length === 0
+          ? `No record named "${args.recordName}"`
+          : `"${args.recordName}" matches several records: ${names.join(", ")}. Use the full name or give the type.`
+      );
+    }
+
+    await ctx.runMutation(api.aliases.addAlias, {
+      userId: args.userId,
+      alias: args.alias,
+      objectType: pick.objectType,
+      recordId: pick.recordId,
+      recordName: pick.recordName,
+      kind: args.kind,
+      orgWide: args.orgWide,
+      source: args.source,
+    });
+    return pick;
+  },
+});
@@ -2,7 +2,8 @@ import { v } from "convex/values";
 import { action, internalAction } from "./_generated/server";
 import { api, internal } from "./_generated/api";
 import { Id } from "./_generated/dataModel";
-import Anthropic from "@anthropic-ai/sdk";
+import { LLMMessage, resolveLLM } from "./llm";
+import { batchBody, BatchResults } from "./salesforceComposite";
 
 // ============================================================================
 // ANAM SESSION MANAGEMENT
@@ -29,22 +30,24 @@ export const createSession = action({
       throw new Error("ANAM_API_KEY not configured");
     }
 
-    // Fetch opportunity data from Salesforce to build context
-    const opportunityData = await ctx.runAction(api.salesforce.getRecord, {
-      recordId: args.opportunityId,
-      objectType: "Opportunity",
-      fields: ["Id", "Name", "Amount", "StageName", "CloseDate", "AccountId", "Description", "NextStep", "Probability"],
+    // Fetch the opportunity and its account from Salesforce to build context -
+    // one round trip, the account looked up through the opportunity's AccountId
+    const results: BatchResults = await ctx.runAction(api.salesforce.batchRequest, {
+      requests: [
+        {
+          referenceId: "opportunity",
+          url: `/sobjects/Opportunity/${args.opportunityId}?fields=Id,Name,Amount,StageName,CloseDate,AccountId,Description,NextStep,Probability`,
+        },
+        {
+          referenceId: "account",
+          url: "/sobjects/Account/@{opportunity.AccountId}?fields=Id,Name,Industry,NumberOfEmployees,AnnualRevenue,Description,Website",
+        },
+      ],
     });
+    const opportunityData = batchBody(results, "opportunity");
 
-    // Fetch account data if we have an AccountId
-    let accountData = null;
-    if (opportunityData.AccountId) {
-      accountData = await ctx.runAction(api.salesforce.getRecord, {
-        recordId: opportunityData.AccountId,
-        objectType: "Account",
-        fields: ["Id", "Name", "Industry", "NumberOfEmployees", "AnnualRevenue", "Description", "Website"],
-      });
-    }
+    // No account when the opportunity has no AccountId
+    const accountData = results.account?.status === 200 ? results.account.body : null;
 
     // Build the persona based on type
     const persona = getCoachingPersona(args.personaType || "skeptical_cfo", opportunityData, accountData);
@@ -135,21 +138,18 @@ export const handleChatMessage = action({
     // Build the system prompt with deal context
     const systemPrompt = buildCoachingSystemPrompt(session);
 
-    // Call Claude for the response using SDK
-    const client = new Anthropic();
-    const response = await client.messages.create({
-      model: "claude-opus-4-5-20251101",
-      max_tokens: 300, // Keep responses concise for voice
+    // Call the configured model for the response
+    const { provider, settings } = await resolveLLM(ctx, "coachingChat", session.userId);
+    const response = await provider.chat({
+      model: settings.model,
+      maxTokens: settings.maxTokens,
+      temperature: settings.temperature,
       system: systemPrompt,
-      messages: args.messages.map(m => ({
-        role: m.role === "user" ? "user" as const : "assistant" as const,
-        content: m.content,
-      })),
+      messages: toCoachingMessages(args.messages),
+      feature: "coachingChat",
     });
 
-    const assistantMessage = response.content[0].type === "text"
-      ? response.content[0].text
-      : "I'm sorry, I didn't catch that. Could you repeat?";
+    const assistantMessage = response.text || "I'm sorry, I didn't catch that. Could you repeat?";
 
     // Log the interaction
     await ctx.runMutation(internal.dealCoach.logCoachingInteraction, {
@@ -193,23 +193,32 @@ export const streamChatResponse = internalAction({
       { role: "user", content: args.userMessage },
     ];
 
-    // Use SDK streaming for faster response
-    const client = new Anthropic();
-    const stream = client.messages.stream({
-      model: "claude-opus-4-5-20251101",
-      max_tokens: 300,
+    // Stream for faster first token; actions can't return a live stream,
+    // so chunks are collected and the full reply is returned
+    const { provider, settings } = await resolveLLM(ctx, "coachingChat", session.userId);
+    const chunks: string[] = [];
+    const response = await provider.stream({
+      model: settings.model,
+      maxTokens: settings.maxTokens,
+      temperature: settings.temperature,
       system: systemPrompt,
-      messages: messages.map(m => ({
-        role: m.role === "user" ? "user" as const : "assistant" as const,
-        content: m.content,
-      })),
-    });
+      messages: toCoachingMessages(messages),
+      feature: "coachingChat",
+    }, (delta) => chunks.push(delta));
 
-    // Return the stream - caller will handle chunked reading
-    return stream;
+    return {
+      content: response.text || chunks.join(""),
+    };
   },
 });
 
+function toCoachingMessages(messages: { role: string; content: string }[]): LLMMessage[] {
+  return messages.map(m => ({
+    role: m.role === "user" ? "user" as const : "assistant" as const,
+    content: m.content,
+  }));
+}
+
 // ============================================================================
 // PERSONA DEFINITIONS
 // ============================================================================
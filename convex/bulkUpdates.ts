@@ -0,0 +1,157 @@
+import { v } from "convex/values";
+import { internalQuery, mutation, query } from "./_generated/server";
+import { Id } from "./_generated/dataModel";
+import { instanceUrlForUser } from "./salesforceOrg";
+import { requireAuthenticatedUser } from "./users";
+
+// ============================================================================
+// BULK UPDATES
+// "Close out all my overdue tasks": one change applied to every record a SOQL
+// condition matches. The assistant previews the count and a few names and
+// always waits for an explicit yes, whatever the user's confirmation mode.
+// The write goes through the Collections API (salesforce.updateRecords) with
+// a result per record. Each org caps how many records one change may touch.
+// ============================================================================
+
+// Orgs without a setting
+export const DEFAULT_BULK_UPDATE_LIMIT = 200;
+// No org setting goes above this
+export const MAX_BULK_UPDATE_LIMIT = 2000;
+
+const PREVIEW_SIZE = 3;
+
+export interface BulkTarget {
+  id: string;
+  name: string;
+}
+
+export interface BulkUpdateOutcome {
+  updated: number;
+  failed: { id: string; name?: string; error: string }[];
+  message: string; // "Done: updated 12 Tasks. 2 failed: ..."
+}
+
+// Task, Event and Case records are named by their subject
+export function nameFieldFor(objectType: string): string {
+  return ["Task", "Event", "Case"].includes(objectType) ? "Subject" : "Name";
+}
+
+/**
+ * "Opportunity" → "Opportunities", "Task" → "Task" for one
+ */
+export function pluralObject(objectType: string, count: number): string {
+  if (count === 1) return objectType;
+  if (/[^aeiou]y$/.test(objectType)) return `${objectType.slice(0, -1)}ies`;
+  if (/(s|x|ch|sh)$/.test(objectType)) return `${objectType}es`;
+  return `${objectType}s`;
+}
+
+/**
+ * The query for the target set: Ids, names and the fields about to change
+ * (their current values go in the preview). One extra row past the limit
+ * tells us the set is too big.
+ */
+export function buildBulkSelect(objectType: string, where: string, fields: string[], limit: number): string {
+  const condition = where.trim().replace(/^WHERE\s+/i, "");
+  if (!condition) {
+    throw new Error("A bulk update needs a condition - which records should change?");
+  }
+  const select = [...new Set(["Id", nameFieldFor(objectType), ...fields])];
+  return `SELECT ${select.join(", ")} FROM ${objectType} WHERE ${condition} LIMIT ${limit + 1}`;
+}
+
+/**
+ * "Acme – 50k, Globex Renewal, Acme Labs Pilot and 9 more"
+ */
+export function describeBulkPreview(targets: BulkTarget[]): string {
+  const names = targets.slice(0, PREVIEW_SIZE).map((t) => t.name);
+  const more = targets.length - names.length;
+  if (more > 0) return `${names.join(", ")} and ${more} more`;
+  if (names.length < 2) return names.join("");
+  return `${names.slice(0, -1).join(", ")} and ${names[names.length - 1]}`;
+}
+
+/**
+ * Per-record results from salesforce.updateRecords, named and summarized
+ */
+export function describeBulkOutcome(
+  objectType: string,
+  results: { id: string; success: boolean; error?: string }[],
+  targets: BulkTarget[] = []
+): BulkUpdateOutcome {
+  const names = new Map(targets.map((t) => [t.id, t.name]));
+  const updated = results.filter((r) => r.success).length;
+  const failed = results
+    .filter((r) => !r.success)
+    .map((r) => ({ id: r.id, name: names.get(r.id), error: r.error || "Unknown error" }));
+
+  let message = `Updated ${updated} ${pluralObject(objectType, updated)}.`;
+  if (failed.length > 0) {
+    const listed = failed.slice(0, PREVIEW_SIZE).map((f) => `${f.name || f.id} (${f.error})`);
+    const more = failed.length > listed.length ? ` and ${failed.length - listed.length} more` : "";
+    message += ` ${failed.length} couldn't be updated: ${listed.join(", ")}${more}.`;
+  }
+  return { updated, failed, message };
+}
+
+// ============================================================================
+// PER-ORG LIMIT
+// ============================================================================
+
+async function loadBulkUpdateLimit(ctx: any, userId: Id<"users">): Promise<number> {
+  const instanceUrl = await instanceUrlForUser(ctx, userId);
+  const row = instanceUrl
+    ? await ctx.db
+        .query("bulkUpdateLimits")
+        .withIndex("by_instance", (q: any) => q.eq("instanceUrl", instanceUrl))
+        .first()
+    : null;
+  return Math.min(row?.maxRecords ?? DEFAULT_BULK_UPDATE_LIMIT, MAX_BULK_UPDATE_LIMIT);
+}
+
+export const getLimitForUser = internalQuery({
+  args: { userId: v.id("users") },
+  handler: async (ctx, args): Promise<number> => {
+    return await loadBulkUpdateLimit(ctx, args.userId);
+  },
+});
+
+/**
+ * The most records one bulk change may touch in the user's org
+ */
+export const getLimit = query({
+  args: { userId: v.id("users") },
+  handler: async (ctx, args) => {
+    return { maxRecords: await loadBulkUpdateLimit(ctx, args.userId), ceiling: MAX_BULK_UPDATE_LIMIT };
+  },
+});
+
+export const setLimit = mutation({
+  args: {
+    userId: v.id("users"),
+    maxRecords: v.number(),
+  },
+  handler: async (ctx, args) => {
+    await requireAuthenticatedUser(ctx, args.userId);
+
+    const instanceUrl = await instanceUrlForUser(ctx, args.userId);
+    if (!instanceUrl) {
+      throw new Error("No Salesforce connection");
+    }
+    if (!Number.isInteger(args.maxRecords) || args.maxRecords < 1 || args.maxRecords > MAX_BULK_UPDATE_LIMIT) {
+      throw new Error(`The limit must be a whole number from 1 to ${MAX_BULK_UPDATE_LIMIT}`);
+    }
+
+    const existing = await ctx.db
+      .query("bulkUpdateLimits")
+      .withIndex("by_instance", (q) => q.eq("instanceUrl", instanceUrl))
+      .first();
+    const doc = { instanceUrl, maxRecords: args.maxRecords, updatedAt: Date.now() };
+    if (existing) {
+      await ctx.db.replace("bulkUpdateLimits", existing._id, doc);
+    } else {
+      await ctx.db.insert("bulkUpdateLimits", doc);
+    }
+    return { success: true };
+  },
+});
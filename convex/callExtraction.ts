@@ -0,0 +1,475 @@
+import { v } from "convex/values";
+import { internalAction, internalQuery } from "./_generated/server";
+import { api, internal } from "./_generated/api";
+import { Id } from "./_generated/dataModel";
+import { resolveLLM } from "./llm";
+import { buildDateContext, resolveDatePhrase, type DateContext } from "./dateResolver";
+import { buildSoqlSchema, type SoqlSchema } from "./soqlValidator";
+import type { AssistantChannel, FieldChange } from "./pendingActions";
+import { structureResponse } from "./responseModel";
+import { renderSlack, renderSms } from "./responseRenderers";
+
+// ============================================================================
+// POST-CALL EXTRACTION
+// When a voice call ends, the transcript and ElevenLabs data collection are
+// turned into proposed Salesforce changes for the deal the call was about:
+// next step, close date, amount, competitor, MEDDICC/BANT fields and new
+// contacts. Only fields the org actually has (orgMetadata) are proposed.
+// Proposals are staged as pending actions and sent to the rep - Confirm
+// buttons in Slack, or a YES reply by text.
+// ============================================================================
+
+// Reps often review after their next meeting, not within minutes
+export const CALL_PROPOSAL_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
+
+// Salesforce Id key prefixes
+const OPPORTUNITY_PREFIX = "006";
+const ACCOUNT_PREFIX = "001";
+
+const MAX_TRANSCRIPT_CHARS = 12000;
+const MAX_NEW_CONTACTS = 3;
+
+// Standard Opportunity fields proposed in every org
+const STANDARD_FIELDS: CandidateField[] = [
+  { name: "NextStep", label: "Next Step", type: "string", topic: "next step" },
+  { name: "CloseDate", label: "Close Date", type: "date", topic: "close date" },
+  { name: "Amount", label: "Amount", type: "currency", topic: "amount" },
+];
+
+// Custom Opportunity fields we look for, matched by API name or label
+const QUALIFICATION_TOPICS: { topic: string; pattern: RegExp }[] = [
+  { topic: "competitor", pattern: /competit/i },
+  // MEDDICC
+  { topic: "metrics", pattern: /\bmetrics?\b/i },
+  { topic: "economic buyer", pattern: /economic\s*buyer/i },
+  { topic: "decision criteria", pattern: /decision\s*criteria/i },
+  { topic: "decision process", pattern: /decision\s*process/i },
+  { topic: "paper process", pattern: /paper\s*process/i },
+  { topic: "identified pain", pattern: /\bpain\b/i },
+  { topic: "champion", pattern: /champion/i },
+  // BANT
+  { topic: "budget", pattern: /budget/i },
+  { topic: "authority", pattern: /authority|decision\s*maker/i },
+  { topic: "need", pattern: /\bneeds?\b/i },
+  { topic: "timeline", pattern: /timeline|time\s*frame|timing/i },
+];
+
+// Field types we can't write from a sentence
+const UNWRITABLE_TYPES = new Set(["id", "reference", "address", "location", "base64"]);
+
+interface CandidateField {
+  name: string;
+  label: string;
+  type: string;
+  picklistValues?: string[];
+  topic: string;
+}
+
+interface ProposedContact {
+  FirstName?: string;
+  LastName: string;
+  Title?: string;
+  Email?: string;
+  Phone?: string;
+}
+
+const EXTRACTION_SCHEMA = {
+  type: "object",
+  properties: {
+    updates: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          field: { type: "string", description: "API name from the field list" },
+          value: { type: "string" },
+        },
+        required: ["field", "value"],
+      },
+    },
+    contacts: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          FirstName: { type: "string" },
+          LastName: { type: "string" },
+          Title: { type: "string" },
+          Email: { type: "string" },
+          Phone: { type: "string" },
+        },
+        required: ["LastName"],
+      },
+    },
+  },
+  required: ["updates", "contacts"],
+};
+
+// ============================================================================
+// FIELD MAPPING
+// ============================================================================
+
+function normalizeKey(value: string): string {
+  return value.replace(/__c$/i, "").toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+/**
+ * The Opportunity fields a call can update in this org: the standard three,
+ * plus custom fields that look like competitor or MEDDICC/BANT fields.
+ * Without synced metadata only the standard fields are offered.
+ */
+export function candidateFields(schema: SoqlSchema): CandidateField[] {
+  const opportunity = schema["opportunity"];
+  if (!opportunity) return STANDARD_FIELDS;
+
+  const byName = new Map(opportunity.fields.map((f) => [f.name.toLowerCase(), f]));
+  const fields: CandidateField[] = STANDARD_FIELDS
+    .filter((f) => byName.has(f.name.toLowerCase()))
+    .map((f) => ({ ...f, label: byName.get(f.name.toLowerCase())?.label || f.label }));
+
+  for (const field of opportunity.fields) {
+    if (!/__c$/i.test(field.name) || UNWRITABLE_TYPES.has(field.type)) continue;
+    const words = `${field.name.replace(/__c$/i, "").replace(/_/g, " ")} ${field.label || ""}`;
+    const match = QUALIFICATION_TOPICS.find((t) => t.pattern.test(words));
+    if (!match) continue;
+    fields.push({
+      name: field.name,
+      label: field.label || field.name,
+      type: field.type,
+      picklistValues: field.picklistValues,
+      topic: match.topic,
+    });
+  }
+  return fields;
+}
+
+/**
+ * ElevenLabs data collection → { key: value }. Each entry is
+ * { value, rationale, ... }; empty and structured values are dropped.
+ */
+export function collectedValues(dataCollection: any): Record<string, string> {
+  const values: Record<string, string> = {};
+  if (!dataCollection || typeof dataCollection !== "object") return values;
+  for (const [key, entry] of Object.entries(dataCollection)) {
+    const value = entry && typeof entry === "object" && "value" in entry ? (entry as any).value : entry;
+    if (value === null || value === undefined || typeof value === "object") continue;
+    const text = String(value).trim();
+    if (text) values[key] = text;
+  }
+  return values;
+}
+
+/**
+ * Data collection keys named after a field ("next_step", "Competitor__c",
+ * "economic buyer") map straight onto it
+ */
+function matchCollected(collected: Record<string, string>, fields: CandidateField[]): Record<string, string> {
+  const proposed: Record<string, string> = {};
+  for (const [key, value] of Object.entries(collected)) {
+    const normalized = normalizeKey(key);
+    const field = fields.find((f) =>
+      [f.name, f.label, f.topic].some((name) => normalizeKey(name) === normalized)
+    );
+    if (field && !(field.name in proposed)) proposed[field.name] = value;
+  }
+  return proposed;
+}
+
+// "$1.2M", "250k", "40,000" → number
+function parseNumber(raw: string): number | null {
+  const match = raw.replace(/[$,\s]/g, "").match(/^(-?\d+(?:\.\d+)?)([kmb])?%?$/i);
+  if (!match) return null;
+  const scale = { k: 1e3, m: 1e6, b: 1e9 }[match[2]?.toLowerCase() as "k" | "m" | "b"] ?? 1;
+  return Number(match[1]) * scale;
+}
+
+/**
+ * A proposed value in the field's Salesforce type, or null when it doesn't
+ * fit (unparseable date, picklist value the org doesn't have)
+ */
+export function coerceValue(field: CandidateField, raw: string, dates: DateContext): string | number | boolean | null {
+  const value = raw.trim();
+  if (!value) return null;
+  switch (field.type) {
+    case "date":
+      return resolveDatePhrase(value, "date", dates);
+    case "datetime":
+      return resolveDatePhrase(value, "datetime", dates);
+    case "currency":
+    case "double":
+    case "percent":
+      return parseNumber(value);
+    case "int": {
+      const number = parseNumber(value);
+      return number === null ? null : Math.round(number);
+    }
+    case "boolean":
+      if (/^(true|yes|y)$/i.test(value)) return true;
+      if (/^(false|no|n)$/i.test(value)) return false;
+      return null;
+    case "picklist":
+      return field.picklistValues?.find((p) => p.toLowerCase() === value.toLowerCase()) ?? null;
+    case "multipicklist": {
+      const picked = value
+        .split(/[;,]/)
+        .map((part) => field.picklistValues?.find((p) => p.toLowerCase() === part.trim().toLowerCase()))
+        .filter((p): p is string => !!p);
+      return picked.length > 0 ? picked.join(";") : null;
+    }
+    case "string":
+      return value.slice(0, 255);
+    default:
+      return value;
+  }
+}
+
+function sameValue(a: any, b: any): boolean {
+  if (a === null || a === undefined || a === "") return b === null || b === undefined || b === "";
+  if (typeof a === "number" || typeof b === "number") return Number(a) === Number(b);
+  return String(a).trim().toLowerCase() === String(b).trim().toLowerCase();
+}
+
+function contactName(contact: { FirstName?: string; LastName: string }): string {
+  return [contact.FirstName, contact.LastName].filter(Boolean).join(" ");
+}
+
+// ============================================================================
+// PIPELINE
+// ============================================================================
+
+export const getConversation = internalQuery({
+  args: { conversationId: v.id("conversations") },
+  handler: async (ctx, args) => {
+    return await ctx.db.get("conversations", args.conversationId);
+  },
+});
+
+/**
+ * Where the rep approves: Slack when call summaries go to a channel there,
+ * otherwise a text to their phone
+ */
+async function approvalChannel(ctx: any, userId: Id<"users">): Promise<AssistantChannel | null> {
+  const installation = await ctx.runQuery(internal.slack.getInstallationForUser, { userId });
+  if (installation) {
+    const mapping = await ctx.runQuery(internal.slack.getChannelByPurpose, { userId, purpose: "call_summaries" });
+    if (mapping) return "slack";
+  }
+  const user = await ctx.runQuery(api.users.getUser, { userId });
+  return user?.primaryPhone ? "sms" : null;
+}
+
+/**
+ * Propose field updates and new contacts from a finished call
+ * (scheduled by the ElevenLabs post-call webhook)
+ */
+export const extractFromCall = internalAction({
+  args: { conversationId: v.id("conversations") },
+  handler: async (ctx, args): Promise<{ proposed: number; channel?: AssistantChannel; reason?: string }> => {
+    const conversation = await ctx.runQuery(internal.callExtraction.getConversation, {
+      conversationId: args.conversationId,
+    });
+    const userId = conversation?.userId;
+    if (!conversation || !userId) return { proposed: 0, reason: "no_user" };
+
+    const opportunityId = [...conversation.salesforceRecordsModified, ...conversation.salesforceRecordsAccessed]
+      .reverse()
+      .find((id) => id.startsWith(OPPORTUNITY_PREFIX));
+    if (!opportunityId) return { proposed: 0, reason: "no_opportunity" };
+
+    const channel = await approvalChannel(ctx, userId);
+    if (!channel) return { proposed: 0, reason: "no_channel" };
+
+    const orgMetadata = await ctx.runQuery(internal.orgMetadata.getAvailableObjects, { userId });
+    const fields = candidateFields(buildSoqlSchema(orgMetadata));
+    const user = await ctx.runQuery(api.users.getUser, { userId });
+    const dates = buildDateContext({
+      now: Date.now(),
+      userTimeZone: user?.timeZone,
+      orgTimeZone: orgMetadata.organization?.timeZone,
+      fiscalYearStartMonth: orgMetadata.organization?.fiscalYearStartMonth,
+    });
+
+    const current: Record<string, any> = await ctx.runAction(api.salesforce.getRecord, {
+      recordId: opportunityId,
+      objectType: "Opportunity",
+      fields: ["Name", "AccountId", ...fields.map((f) => f.name)],
+      userId,
+    });
+    const accountId: string | undefined = current.AccountId
+      || conversation.salesforceRecordsAccessed.find((id) => id.startsWith(ACCOUNT_PREFIX));
+
+    let existingContacts: { Name?: string; Email?: string }[] = [];
+    if (accountId) {
+      try {
+        const result = await ctx.runAction(api.salesforce.searchRecords, {
+          query: `SELECT Id, Name, Email FROM Contact WHERE AccountId = '${accountId}' LIMIT 50`,
+          userId,
+        });
+        existingContacts = result.records || [];
+      } catch (error) {
+        console.error("Couldn't load the account's contacts:", error);
+      }
+    }
+
+    // Data collection keys named after a field win; the model fills the rest
+    const collected = collectedValues(conversation.dataCollection);
+    const proposed: Record<string, string> = matchCollected(collected, fields);
+    let contacts: ProposedContact[] = [];
+    if (conversation.transcript) {
+      try {
+        const extracted = await extractWithModel(ctx, userId, {
+          transcript: conversation.transcript,
+          summary: conversation.summary,
+          collected,
+          fields,
+          current,
+          existingContacts,
+        });
+        for (const update of extracted.updates || []) {
+          if (typeof update?.field === "string" && typeof update.value === "string" && !(update.field in proposed)) {
+            proposed[update.field] = update.value;
+          }
+        }
+        contacts = (extracted.contacts || []).filter((c: any) => typeof c?.LastName === "string" && c.LastName.trim());
+      } catch (error: any) {
+        console.error("Post-call extraction failed:", error.message);
+      }
+    }
+
+    // Only real fields, in the field's type, and only what would change
+    const values: Record<string, any> = {};
+    const changes: FieldChange[] = [];
+    for (const [name, raw] of Object.entries(proposed)) {
+      const field = fields.find((f) => f.name.toLowerCase() === name.toLowerCase());
+      if (!field) continue;
+      const value = coerceValue(field, raw, dates);
+      if (value === null || sameValue(current[field.name], value)) continue;
+      values[field.name] = value;
+      changes.push({
+        field: field.name,
+        label: field.label,
+        before: current[field.name] == null || current[field.name] === "" ? undefined : String(current[field.name]),
+        after: String(value),
+      });
+    }
+
+    const known = new Set(
+      existingContacts.flatMap((c) => [c.Name, c.Email]).filter(Boolean).map((s) => String(s).toLowerCase())
+    );
+    const newContacts = accountId
+      ? contacts
+          .filter((c) => !known.has(contactName(c).toLowerCase()) && !(c.Email && known.has(c.Email.toLowerCase())))
+          .slice(0, MAX_NEW_CONTACTS)
+      : [];
+
+    if (changes.length === 0 && newContacts.length === 0) return { proposed: 0, reason: "nothing_new" };
+
+    // All of it is staged in one go, so none of it supersedes the rest
+    const stagedAt = Date.now();
+    const userMessage = `After call ${conversation.conversationId}`;
+    const staged: { id: string; summary: string }[] = [];
+    if (changes.length > 0) {
+      const { pendingActionId, summary } = await ctx.runMutation(internal.pendingActions.stage, {
+        userId,
+        channel,
+        operation: "update",
+        objectType: "Opportunity",
+        recordId: opportunityId,
+        recordName: current.Name,
+        fields: values,
+        changes,
+        userMessage,
+        turnStartedAt: stagedAt,
+        ttlMs: CALL_PROPOSAL_TTL_MS,
+      });
+      staged.push({ id: pendingActionId, summary });
+    }
+    for (const contact of newContacts) {
+      const contactFields: Record<string, string> = { AccountId: accountId as string };
+      for (const key of ["FirstName", "LastName", "Title", "Email", "Phone"] as const) {
+        const value = contact[key]?.trim();
+        if (value) contactFields[key] = value;
+      }
+      const { pendingActionId, summary } = await ctx.runMutation(internal.pendingActions.stage, {
+        userId,
+        channel,
+        operation: "create",
+        objectType: "Contact",
+        fields: contactFields,
+        changes: [
+          { field: "Name", label: "Name", after: contactName(contact) },
+          ...(contactFields.Title ? [{ field: "Title", label: "Title", after: contactFields.Title }] : []),
+        ],
+        userMessage,
+        turnStartedAt: stagedAt,
+        ttlMs: CALL_PROPOSAL_TTL_MS,
+      });
+      staged.push({ id: pendingActionId, summary });
+    }
+
+    const intro = `From your call about ${current.Name || "this deal"}, I'd update Salesforce:`;
+    if (channel === "slack") {
+      const { text, blocks } = renderSlack(
+        structureResponse({ text: intro, action: "pending_confirmation", pendingActions: staged })
+      );
+      await ctx.runAction(internal.slack.sendNotification, { userId, purpose: "call_summaries", text, blocks });
+    } else {
+      const text = `${intro}\n${staged.map((s) => `- ${s.summary}`).join("\n")}`;
+      const messages = renderSms(
+        structureResponse({ text, action: "pending_confirmation", pendingActions: staged })
+      );
+      for (const content of messages) {
+        await ctx.runAction(api.sendblue.sendProactiveText, { userId, content });
+      }
+    }
+
+    return { proposed: staged.length, channel };
+  },
+});
+
+async function extractWithModel(
+  ctx: any,
+  userId: Id<"users">,
+  input: {
+    transcript: string;
+    summary?: string;
+    collected: Record<string, string>;
+    fields: CandidateField[];
+    current: Record<string, any>;
+    existingContacts: { Name?: string }[];
+  }
+): Promise<{ updates?: { field: string; value: string }[]; contacts?: ProposedContact[] }> {
+  const llm = await resolveLLM(ctx, "callExtraction", userId);
+
+  const fieldList = input.fields
+    .map((f) => {
+      const picklist = f.picklistValues?.length ? `, one of: ${f.picklistValues.join(" | ")}` : "";
+      return `- ${f.name} (${f.label}; ${f.topic}; ${f.type}${picklist}) - now: ${input.current[f.name] ?? "blank"}`;
+    })
+    .join("\n");
+  const collected = Object.entries(input.collected).map(([key, value]) => `- ${key}: ${value}`).join("\n");
+  const contacts = input.existingContacts.map((c) => c.Name).filter(Boolean).join(", ");
+  const transcript = input.transcript.length > MAX_TRANSCRIPT_CHARS
+    ? input.transcript.slice(-MAX_TRANSCRIPT_CHARS)
+    : input.transcript;
+
+  return await llm.provider.chatJson({
+    model: llm.settings.model,
+    maxTokens: llm.settings.maxTokens,
+    temperature: llm.settings.temperature,
+    feature: "callExtraction",
+    system: `You read a sales rep's call notes and propose Salesforce updates for the opportunity "${input.current.Name || "this deal"}".
+Only propose what was clearly said - never guess. Use the field API names listed; leave out fields the call didn't touch or that already hold the right value.
+Dates may be YYYY-MM-DD or a phrase like "end of next month". Amounts are plain numbers. Picklist values must be one of the options.
+Contacts are people at the customer who came up by name and aren't already on the account.
+Reply with JSON: {"updates": [{"field", "value"}], "contacts": [{"FirstName", "LastName", "Title", "Email", "Phone"}]}.`,
+    messages: [{
+      role: "user",
+      content: `Fields:
+${fieldList}
+${contacts ? `\nContacts already on the account: ${contacts}\n` : ""}${collected ? `\nExtracted by the voice agent:\n${collected}\n` : ""}${input.summary ? `\nCall summary:\n${input.summary}\n` : ""}
+Transcript:
+${transcript}`,
+    }],
+  }, EXTRACTION_SCHEMA);
+}
@@ -0,0 +1,248 @@
+import { v } from "convex/values";
+import { internalAction, internalMutation, internalQuery } from "./_generated/server";
+import { api, internal } from "./_generated/api";
+import { Id } from "./_generated/dataModel";
+import { journaledWrite } from "./changeJournal";
+import { buildDateContext, resolveDatePhrase } from "./dateResolver";
+import { batchBody, batchRecords, BatchResults, Subrequest } from "./salesforceComposite";
+
+// ============================================================================
+// AUTOMATIC CALL LOGGING
+// Users who turn on autoLogCalls get a completed call Task for every voice
+// call, written when the post-call webhook arrives: the real duration, the
+// call summary, a link to the recording, and WhoId/WhatId from the records
+// the call touched. Calls the rep already logged - by asking the assistant or
+// in Salesforce itself - are left alone.
+// ============================================================================
+
+// The recording is stored in the background; wait a little for its link
+const RECORDING_WAIT_MS = 20 * 1000;
+const MAX_RECORDING_WAITS = 3;
+
+// Salesforce Id key prefixes, in the order we'd pick a record to log against
+const WHO_PREFIXES = ["003", "00Q"]; // Contact, Lead
+const WHAT_PREFIXES = ["006", "001", "500"]; // Opportunity, Account, Case
+const LEAD_PREFIX = "00Q";
+
+const OBJECT_TYPES: Record<string, string> = {
+  "003": "Contact",
+  "00Q": "Lead",
+  "006": "Opportunity",
+  "001": "Account",
+  "500": "Case",
+};
+
+/**
+ * WhoId/WhatId for a call: records the call changed come first, then the
+ * ones it looked at most often (latest wins a tie). Tasks on a Lead can't
+ * have a WhatId, so a Lead is only used when the call touched no
+ * opportunity, account or case.
+ */
+export function inferActivityLinks(modified: string[], accessed: string[]): { whoId?: string; whatId?: string } {
+  const pick = (prefixes: string[]): string | undefined => {
+    for (const prefix of prefixes) {
+      const changed = [...modified].reverse().find((id) => id.startsWith(prefix));
+      if (changed) return changed;
+      const counts = new Map<string, number>();
+      for (const id of accessed) {
+        if (id.startsWith(prefix)) counts.set(id, (counts.get(id) || 0) + 1);
+      }
+      let best: string | undefined;
+      for (const [id, count] of counts) {
+        if (!best || count >= (counts.get(best) as number)) best = id;
+      }
+      if (best) return best;
+    }
+    return undefined;
+  };
+
+  const whatId = pick(WHAT_PREFIXES);
+  const whoId = pick(whatId ? WHO_PREFIXES.filter((prefix) => prefix !== LEAD_PREFIX) : WHO_PREFIXES);
+  return { whoId, whatId };
+}
+
+// "2026-10-19T16:05:00Z" - SOQL datetime literals take no quotes or millis
+function soqlDateTime(ms: number): string {
+  return new Date(ms).toISOString().replace(/\.\d{3}Z$/, "Z");
+}
+
+// ============================================================================
+// STATE
+// ============================================================================
+
+/**
+ * Everything the logger needs about a finished call, or a reason to skip it
+ */
+export const getCallContext = internalQuery({
+  args: { conversationId: v.id("conversations") },
+  handler: async (ctx, args) => {
+    const conversation = await ctx.db.get("conversations", args.conversationId);
+    if (!conversation?.userId) return { skip: "no_user" as const };
+    if (conversation.callLog) return { skip: "already_handled" as const };
+
+    const user = await ctx.db.get("users", conversation.userId);
+    if (!user?.autoLogCalls) return { skip: "disabled" as const };
+
+    const recording = await ctx.db
+      .query("recordings")
+      .withIndex("by_conversation", (q) => q.eq("conversationId", conversation.conversationId))
+      .first();
+    const recordingUrl = recording ? await ctx.storage.getUrl(recording.fileId) : null;
+
+    // Calls the rep logged by voice since the call started
+    const loggedCalls = await ctx.db
+      .query("changeJournal")
+      .withIndex("by_user_created", (q) =>
+        q.eq("userId", conversation.userId as Id<"users">).gte("createdAt", conversation.startTime)
+      )
+      .filter((q) => q.and(q.eq(q.field("operation"), "log_call"), q.eq(q.field("channel"), "voice")))
+      .collect();
+
+    return {
+      conversation,
+      userId: conversation.userId,
+      userTimeZone: user.timeZone,
+      recordingUrl: recordingUrl || undefined,
+      loggedCallIds: loggedCalls.map((entry) => entry.recordId),
+    };
+  },
+});
+
+/**
+ * Claim a call for logging, so a retried webhook can't log it twice
+ */
+export const claimCall = internalMutation({
+  args: { conversationId: v.id("conversations") },
+  handler: async (ctx, args) => {
+    const conversation = await ctx.db.get("conversations", args.conversationId);
+    if (!conversation || conversation.callLog) return false;
+    await ctx.db.patch("conversations", args.conversationId, {
+      callLog: { status: "logging", updatedAt: Date.now() },
+    });
+    return true;
+  },
+});
+
+export const recordOutcome = internalMutation({
+  args: {
+    conversationId: v.id("conversations"),
+    status: v.union(v.literal("logged"), v.literal("skipped"), v.literal("failed")),
+    taskId: v.optional(v.string()),
+    reason: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    await ctx.db.patch("conversations", args.conversationId, {
+      callLog: { status: args.status, taskId: args.taskId, reason: args.reason, updatedAt: Date.now() },
+    });
+  },
+});
+
+// ============================================================================
+// LOGGING
+// ============================================================================
+
+/**
+ * Log a finished call as a completed Task (scheduled by the post-call webhook)
+ */
+export const logCompletedCall = internalAction({
+  args: {
+    conversationId: v.id("conversations"),
+    recordingExpected: v.boolean(), // The webhook reported a recording
+    attempt: v.optional(v.number()),
+  },
+  handler: async (ctx, args): Promise<{ status: string; taskId?: string; reason?: string }> => {
+    const context = await ctx.runQuery(internal.callLogging.getCallContext, {
+      conversationId: args.conversationId,
+    });
+    if (context.skip) return { status: "skipped", reason: context.skip };
+
+    const attempt = args.attempt ?? 0;
+    if (args.recordingExpected && !context.recordingUrl && attempt < MAX_RECORDING_WAITS) {
+      await ctx.scheduler.runAfter(RECORDING_WAIT_MS, internal.callLogging.logCompletedCall, {
+        ...args,
+        attempt: attempt + 1,
+      });
+      return { status: "waiting_for_recording" };
+    }
+
+    const { conversation, userId } = context;
+    const claimed = await ctx.runMutation(internal.callLogging.claimCall, { conversationId: args.conversationId });
+    if (!claimed) return { status: "skipped", reason: "already_handled" };
+
+    const finish = async (status: "logged" | "skipped" | "failed", details: { taskId?: string; reason?: string } = {}) => {
+      await ctx.runMutation(internal.callLogging.recordOutcome, { conversationId: args.conversationId, status, ...details });
+      return { status, ...details };
+    };
+
+    if (context.loggedCallIds.length > 0) {
+      return await finish("skipped", { reason: `Already logged as ${context.loggedCallIds[0]}` });
+    }
+
+    const { whoId, whatId } = inferActivityLinks(
+      conversation.salesforceRecordsModified,
+      conversation.salesforceRecordsAccessed
+    );
+
+    try {
+      // One round trip: a call logged by hand in Salesforce since the call
+      // started, and the name of the record the call was about
+      const links = [whatId && `WhatId = '${whatId}'`, whoId && `WhoId = '${whoId}'`].filter(Boolean);
+      const named = whatId || whoId;
+      const namedType = named ? OBJECT_TYPES[named.slice(0, 3)] : undefined;
+      const requests: Subrequest[] = [{
+        referenceId: "existing",
+        soql: `SELECT Id FROM Task WHERE OwnerId = CURRENT_USER AND TaskSubtype = 'Call' AND CreatedDate >= ${soqlDateTime(conversation.startTime)}${links.length > 0 ? ` AND (${links.join(" OR ")})` : ""} LIMIT 1`,
+      }];
+      if (named && namedType) {
+        requests.push({
+          referenceId: "named",
+          url: `/sobjects/${namedType}/${named}?fields=${namedType === "Case" ? "Subject" : "Name"}`,
+        });
+      }
+      const results: BatchResults = await ctx.runAction(api.salesforce.batchRequest, { requests, userId });
+
+      const existing = batchRecords(results, "existing");
+      if (existing.length > 0) {
+        return await finish("skipped", { reason: `Already logged as ${existing[0].Id}` });
+      }
+
+      let subject = "Voice Call via TalkCRM";
+      if (results.named) {
+        try {
+          const record = batchBody(results, "named");
+          const name = record.Name || record.Subject;
+          if (name) subject = `Call: ${name}`;
+        } catch (e) {
+          console.log("Couldn't name the call's record:", e);
+        }
+      }
+
+      const description = [
+        conversation.summary || "No summary available.",
+        context.recordingUrl ? `Recording: ${context.recordingUrl}` : undefined,
+        "Logged automatically by TalkCRM.",
+      ].filter(Boolean).join("\n\n");
+
+      const dates = buildDateContext({ now: conversation.startTime, userTimeZone: context.userTimeZone });
+      const result = await journaledWrite(ctx, {
+        userId,
+        channel: "voice",
+        operation: "log_call",
+        objectType: "Task",
+        fields: {
+          subject,
+          description,
+          whoId,
+          whatId,
+          durationSeconds: conversation.durationSeconds !== undefined ? Math.round(conversation.durationSeconds) : undefined,
+          activityDate: resolveDatePhrase("today", "date", dates) || undefined,
+        },
+        summary: `Logged call "${subject}"`,
+      });
+      return await finish("logged", { taskId: result.taskId });
+    } catch (error: any) {
+      console.error(`Auto-logging call ${conversation.conversationId} failed:`, error);
+      return await finish("failed", { reason: error.message });
+    }
+  },
+});
@@ -0,0 +1,460 @@
+import { v } from "convex/values";
+import { action, internalAction, internalMutation, internalQuery, query } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { Doc, Id } from "./_generated/dataModel";
+import { crmFor, CrmActivity, CrmAdapter } from "./crm";
+import { AssistantChannel, FieldChange, WriteOperation, summarizeWrite } from "./pendingActions";
+import { actions, button, section } from "./slackBlocks";
+
+// ============================================================================
+// CHANGE JOURNAL
+// Before/after snapshots of every Salesforce write the assistant makes, tied
+// to the agent session it happened in. "Undo that" (or the Slack Undo button)
+// puts an update's prior values back, or deletes a created record or logged
+// call - unless someone has changed those fields since, in which case the
+// user has to say "undo anyway".
+// ============================================================================
+
+// How long a change can be undone
+export const UNDO_WINDOW_MS = 30 * 60 * 1000; // 30 minutes
+
+// Fields logCall sets on the Task it creates
+const LOGGED_CALL_FIELDS = ["Subject", "Description", "WhoId", "WhatId"];
+
+export interface JournaledWrite {
+  userId?: string; // Writes without a user aren't journaled
+  channel: AssistantChannel;
+  sessionId?: Id<"agentSessions">;
+  pendingActionId?: Id<"pendingActions">; // Set when the write was confirmed first
+  operation: Exclude<WriteOperation, "bulk_update">; // Bulk updates aren't journaled
+  objectType: string;
+  recordId?: string; // For updates
+  recordName?: string;
+  fields: Record<string, any>; // Salesforce fields, or logCall's arguments for log_call
+  summary?: string;
+}
+
+export interface UndoConflict {
+  field: string;
+  expected: any; // What we wrote
+  current: any; // What's there now
+}
+
+export interface UndoResult {
+  status: "undone" | "conflict" | "expired" | "not_found" | "failed";
+  message: string; // Reads well spoken aloud
+  journalId?: Id<"changeJournal">;
+  summary?: string;
+  conflicts?: UndoConflict[];
+}
+
+const UNDO_REPLIES = new Set([
+  "undo", "undo that", "undo it", "undo this", "undo the last change", "undo my last change", "undo last change",
+  "revert", "revert that", "revert it", "take that back", "put it back", "change it back", "roll that back",
+]);
+
+/**
+ * Recognize a bare "undo that" ("undo anyway" forces past a conflict).
+ * Anything longer goes to the model, which has the undo_change tool.
+ */
+export function parseUndoRequest(text: string): { force: boolean } | null {
+  const normalized = text
+    .toLowerCase()
+    .replace(/[^a-z' ]/g, " ")
+    .replace(/\b(please|thanks|thank you|actually|oops|wait)\b/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+  const force = /\b(anyway|anyways)$/.test(normalized);
+  const phrase = normalized.replace(/\s*\b(anyway|anyways)$/, "");
+  return UNDO_REPLIES.has(phrase) ? { force } : null;
+}
+
+// Salesforce hands back numbers, dates and blanks in its own shapes
+function sameValue(a: any, b: any): boolean {
+  const blank = (x: any) => x === null || x === undefined || x === "";
+  if (blank(a) || blank(b)) return blank(a) && blank(b);
+  if (typeof a === "number" || typeof b === "number") return Number(a) === Number(b);
+  if (typeof a === "boolean" || typeof b === "boolean") return String(a) === String(b);
+  return String(a) === String(b);
+}
+
+function toText(value: any): string | undefined {
+  if (value === null || value === undefined || value === "") return undefined;
+  return String(value);
+}
+
+function isNotFound(error: any): boolean {
+  return /\b404\b|NOT_FOUND|ENTITY_IS_DELETED/.test(error?.message || "");
+}
+
+// ============================================================================
+// JOURNALED WRITES
+// ============================================================================
+
+/**
+ * Write to the user's CRM and journal it. The write's result is returned with a
+ * journalId added; if journaling fails the write still stands.
+ */
+export async function journaledWrite(ctx: any, write: JournaledWrite): Promise<any> {
+  const { userId } = write;
+  const crm = await crmFor(ctx, { userId });
+  const objectType = write.operation === "log_call" ? crm.activityType : write.objectType;
+  const fieldNames = write.operation === "log_call" ? LOGGED_CALL_FIELDS : Object.keys(write.fields);
+
+  // The prior values are what undo restores - without them the update can't be undone
+  let before: Record<string, any> | undefined;
+  if (write.operation === "update") {
+    if (!write.recordId) throw new Error("update needs a recordId");
+    if (userId) before = await readFields(crm, objectType, write.recordId, fieldNames);
+  }
+
+  let result: any;
+  switch (write.operation) {
+    case "create":
+      result = await crm.create(objectType, write.fields);
+      break;
+    case "update":
+      result = await crm.update(objectType, write.recordId as string, write.fields);
+      break;
+    case "log_call":
+      result = await crm.logActivity(write.fields as CrmActivity);
+      break;
+  }
+  if (!userId) return result;
+
+  const recordId: string = write.operation === "update" ? write.recordId : result.taskId || result.id;
+  try {
+    // Read back what the CRM stored (triggers and formats may differ from what we sent)
+    const written = write.operation === "log_call"
+      ? { Subject: write.fields.subject, Description: write.fields.description, WhoId: write.fields.whoId, WhatId: write.fields.whatId }
+      : write.fields;
+    const after = (await readFields(crm, objectType, recordId, fieldNames)) || written;
+
+    const journalId = await ctx.runMutation(internal.changeJournal.record, {
+      userId: userId as Id<"users">,
+      channel: write.channel,
+      sessionId: write.sessionId,
+      pendingActionId: write.pendingActionId,
+      operation: write.operation,
+      objectType,
+      recordId,
+      recordName: write.recordName,
+      before,
+      after,
+      summary: write.summary,
+    });
+    return { ...result, journalId };
+  } catch (e) {
+    console.error("Failed to journal change:", e);
+    return result;
+  }
+}
+
+async function readFields(
+  crm: CrmAdapter,
+  objectType: string,
+  recordId: string,
+  fields: string[]
+): Promise<Record<string, any> | undefined> {
+  try {
+    const record = await crm.get(objectType, recordId, fields, { fresh: true });
+    return Object.fromEntries(fields.map((field) => [field, record[field] ?? null]));
+  } catch (e) {
+    console.log(`Could not read ${objectType} ${recordId} for the change journal:`, e);
+    return undefined;
+  }
+}
+
+export const record = internalMutation({
+  args: {
+    userId: v.id("users"),
+    // Inlined - pendingActions imports this module, so its validator isn't ready yet
+    channel: v.union(v.literal("voice"), v.literal("sms"), v.literal("slack"), v.literal("web"), v.literal("api")),
+    sessionId: v.optional(v.id("agentSessions")),
+    pendingActionId: v.optional(v.id("pendingActions")),
+    operation: v.union(v.literal("create"), v.literal("update"), v.literal("log_call")),
+    objectType: v.string(),
+    recordId: v.string(),
+    recordName: v.optional(v.string()),
+    before: v.optional(v.any()),
+    after: v.any(),
+    summary: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const changes: FieldChange[] = Object.entries(args.after as Record<string, any>)
+      .filter(([field, value]) => toText(value) !== undefined || toText(args.before?.[field]) !== undefined)
+      .map(([field, value]) => ({
+        field,
+        label: field,
+        before: toText(args.before?.[field]),
+        after: toText(value) || "(blank)",
+      }));
+    return await ctx.db.insert("changeJournal", {
+      ...args,
+      summary: args.summary || summarizeWrite(args.operation, args.objectType, changes, args.recordName),
+      status: "applied",
+      createdAt: Date.now(),
+    });
+  },
+});
+
+// ============================================================================
+// HISTORY
+// ============================================================================
+
+export const getEntry = internalQuery({
+  args: { journalId: v.id("changeJournal") },
+  handler: async (ctx, args) => {
+    return await ctx.db.get("changeJournal", args.journalId);
+  },
+});
+
+/**
+ * The change "undo that" means: the newest one still undoable, from this
+ * session when there is one
+ */
+export const getLatestUndoable = internalQuery({
+  args: {
+    userId: v.id("users"),
+    sessionId: v.optional(v.id("agentSessions")),
+  },
+  handler: async (ctx, args) => {
+    const since = Date.now() - UNDO_WINDOW_MS;
+    const recent = await ctx.db
+      .query("changeJournal")
+      .withIndex("by_user_created", (q) => q.eq("userId", args.userId).gt("createdAt", since))
+      .order("desc")
+      .collect();
+    const applied = recent.filter((e) => e.status === "applied");
+    return applied.find((e) => args.sessionId && e.sessionId === args.sessionId) || applied[0] || null;
+  },
+});
+
+/**
+ * A user's assistant edits, newest first, with whether each can still be undone
+ */
+export const listChanges = query({
+  args: {
+    userId: v.id("users"),
+    sessionId: v.optional(v.id("agentSessions")),
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const entries = await ctx.db
+      .query("changeJournal")
+      .withIndex("by_user_created", (q) => q.eq("userId", args.userId))
+      .order("desc")
+      .filter((q) => (args.sessionId ? q.eq(q.field("sessionId"), args.sessionId) : true))
+      .take(args.limit || 50);
+    const now = Date.now();
+    return entries.map((entry) => ({
+      ...entry,
+      undoable: entry.status === "applied" && entry.createdAt + UNDO_WINDOW_MS > now
+        && (entry.operation !== "update" || !!entry.before),
+    }));
+  },
+});
+
+// ============================================================================
+// UNDO
+// ============================================================================
+
+/**
+ * Atomically move an entry to "undoing" so concurrent undos can't both run
+ */
+export const claimUndo = internalMutation({
+  args: { journalId: v.id("changeJournal") },
+  handler: async (ctx, args) => {
+    const entry = await ctx.db.get("changeJournal", args.journalId);
+    if (!entry || entry.status !== "applied") return null;
+    await ctx.db.patch("changeJournal", entry._id, { status: "undoing" });
+    return entry;
+  },
+});
+
+export const finishUndo = internalMutation({
+  args: {
+    journalId: v.id("changeJournal"),
+    success: v.boolean(),
+    via: v.string(),
+    forced: v.optional(v.boolean()),
+    error: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    if (args.success) {
+      await ctx.db.patch("changeJournal", args.journalId, {
+        status: "undone",
+        undoneVia: args.via,
+        undoneAt: Date.now(),
+        undoForced: args.forced || undefined,
+        undoError: undefined,
+      });
+    } else {
+      // Back to undoable - the user can try again
+      await ctx.db.patch("changeJournal", args.journalId, { status: "applied", undoError: args.error });
+    }
+  },
+});
+
+/**
+ * Undo one journaled change (or the latest in the session). Refuses when the
+ * fields we wrote have changed since, unless forced.
+ */
+export async function undoChange(
+  ctx: any,
+  args: {
+    userId: string;
+    journalId?: Id<"changeJournal">;
+    sessionId?: Id<"agentSessions">;
+    force?: boolean;
+    via: string;
+  }
+): Promise<UndoResult> {
+  const entry: Doc<"changeJournal"> | null = args.journalId
+    ? await ctx.runQuery(internal.changeJournal.getEntry, { journalId: args.journalId })
+    : await ctx.runQuery(internal.changeJournal.getLatestUndoable, {
+        userId: args.userId as Id<"users">,
+        sessionId: args.sessionId,
+      });
+  if (!entry || entry.userId !== args.userId) {
+    return { status: "not_found", message: "I don't have a recent change of yours to undo." };
+  }
+  const base = { journalId: entry._id, summary: entry.summary };
+  const crm = await crmFor(ctx, { userId: args.userId });
+  if (entry.status !== "applied") {
+    return { ...base, status: "not_found", message: `That change was already undone: ${entry.summary}.` };
+  }
+  if (entry.createdAt + UNDO_WINDOW_MS <= Date.now()) {
+    return {
+      ...base,
+      status: "expired",
+      message: `That change is too old to undo here (${entry.summary}). You can still fix it in ${crm.label}.`,
+    };
+  }
+  if (entry.operation === "update" && !entry.before) {
+    return {
+      ...base,
+      status: "failed",
+      message: `I didn't manage to save the old values for ${entry.summary}, so I can't put them back.`,
+    };
+  }
+
+  // Conflict check: are the fields still what we wrote?
+  const fields = Object.keys(entry.after);
+  let current: Record<string, any> | null;
+  try {
+    current = await crm.get(entry.objectType, entry.recordId, fields, { fresh: true });
+  } catch (error: any) {
+    if (!isNotFound(error)) {
+      return { ...base, status: "failed", message: `I couldn't check the record in ${crm.label}: ${error.message}` };
+    }
+    current = null;
+  }
+
+  const name = entry.recordName || `the ${entry.objectType}`;
+  if (!current) {
+    if (entry.operation === "update") {
+      return { ...base, status: "failed", message: `${name} no longer exists in ${crm.label}, so there's nothing to undo.` };
+    }
+    // Someone already deleted what we created
+    await ctx.runMutation(internal.changeJournal.finishUndo, { journalId: entry._id, success: true, via: args.via });
+    return { ...base, status: "undone", message: `That ${entry.objectType} was already deleted.` };
+  }
+
+  const conflicts: UndoConflict[] = fields
+    .filter((field) => !sameValue(current[field], entry.after[field]))
+    .map((field) => ({ field, expected: entry.after[field], current: current[field] ?? null }));
+  if (conflicts.length > 0 && !args.force) {
+    const changed = conflicts.map((c) => `${c.field} is now ${toText(c.current) ?? "blank"}`).join(", ");
+    return {
+      ...base,
+      status: "conflict",
+      conflicts,
+      message: `Someone has changed ${name} since: ${changed}. Say "undo anyway" to overwrite that.`,
+    };
+  }
+
+  const claimed = await ctx.runMutation(internal.changeJournal.claimUndo, { journalId: entry._id });
+  if (!claimed) {
+    return { ...base, status: "not_found", message: `That change was already undone: ${entry.summary}.` };
+  }
+
+  try {
+    if (entry.operation === "update") {
+      // null clears a field that was blank before
+      const restore = Object.fromEntries(fields.map((field) => [field, entry.before[field] ?? null]));
+      await crm.update(entry.objectType, entry.recordId, restore);
+    } else {
+      await crm.remove(entry.objectType, entry.recordId);
+    }
+  } catch (error: any) {
+    console.error(`Undo of change ${entry._id} failed:`, error);
+    await ctx.runMutation(internal.changeJournal.finishUndo, {
+      journalId: entry._id,
+      success: false,
+      via: args.via,
+      error: error.message,
+    });
+    return { ...base, status: "failed", message: `I couldn't undo ${entry.summary}: ${error.message}` };
+  }
+
+  await ctx.runMutation(internal.changeJournal.finishUndo, {
+    journalId: entry._id,
+    success: true,
+    via: args.via,
+    forced: conflicts.length > 0,
+  });
+  const what = entry.operation === "update"
+    ? `put ${name} back the way it was`
+    : entry.operation === "log_call"
+      ? "deleted the call I logged"
+      : `deleted the ${entry.objectType} I created`;
+  return { ...base, status: "undone", message: `Undone - I ${what}.` };
+}
+
+/**
+ * Undo from the web app's change history
+ */
+export const undo = action({
+  args: {
+    userId: v.id("users"),
+    journalId: v.id("changeJournal"),
+    force: v.optional(v.boolean()),
+  },
+  handler: async (ctx, args): Promise<UndoResult> => {
+    return await undoChange(ctx, { ...args, via: "web" });
+  },
+});
+
+/**
+ * Handle the Undo / Undo anyway buttons on a Slack reply
+ */
+export const undoFromSlack = internalAction({
+  args: {
+    journalId: v.id("changeJournal"),
+    force: v.boolean(),
+    teamId: v.string(),
+    responseUrl: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const installation = await ctx.runQuery(internal.slack.getInstallationByTeam, { teamId: args.teamId });
+    const result: UndoResult = installation
+      ? await undoChange(ctx, { userId: installation.userId, journalId: args.journalId, force: args.force, via: "slack" })
+      : { status: "not_found", message: "That change is no longer available." };
+
+    const describe = (c: UndoConflict) => `${c.field} is now ${toText(c.current) ?? "blank"}`;
+    const text = result.status === "conflict"
+      ? `⚠️ Someone has changed this since: ${result.conflicts!.map(describe).join(", ")}`
+      : `${result.status === "undone" ? "↩️" : "❌"} ${result.message}`;
+    await ctx.runAction(internal.slack.respondToCommand, {
+      responseUrl: args.responseUrl,
+      text,
+      blocks: [
+        section(text),
+        ...(result.status === "conflict"
+          ? [actions([button("Undo anyway", "undo_change_force", args.journalId, { style: "danger" })])]
+          : []),
+      ],
+    });
+  },
+});
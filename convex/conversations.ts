@@ -1,5 +1,7 @@
 import { v } from "convex/values";
 import { internalMutation, query } from "./_generated/server";
+import { maskPii } from "./redaction";
+import { loadRedactionPolicy } from "./redactionPolicy";
 
 // ============================================================================
 // INTERNAL MUTATIONS (Called by HTTP actions)
@@ -79,11 +81,16 @@ export const completeConversation = internalMutation({
       )
       .first();
 
+    // Transcripts are stored masked per the org's redaction policy
+    const { storage } = await loadRedactionPolicy(ctx, conversation?.userId);
+    const transcript = args.transcript && maskPii(args.transcript, storage);
+    const summary = args.summary && maskPii(args.summary, storage);
+
     if (conversation) {
       await ctx.db.patch(conversation._id, {
         status: "completed",
-        transcript: args.transcript,
-        summary: args.summary,
+        transcript,
+        summary,
         startTime: args.startTime ?? conversation.startTime,
         endTime: args.endTime,
         durationSeconds: args.durationSeconds,
@@ -110,8 +117,8 @@ export const completeConversation = internalMutation({
       endTime: args.endTime,
       durationSeconds: args.durationSeconds,
       status: "completed",
-      transcript: args.transcript,
-      summary: args.summary,
+      transcript,
+      summary,
       salesforceRecordsAccessed: [],
       salesforceRecordsModified: [],
       // ElevenLabs analytics
@@ -0,0 +1,179 @@
+import { v } from "convex/values";
+import { internalQuery } from "./_generated/server";
+import { api, internal } from "./_generated/api";
+import { Id } from "./_generated/dataModel";
+
+// ============================================================================
+// CRM ADAPTERS
+// The assistant, the voice tools and the Slack commands reach the user's CRM
+// through one interface. Each user gets the adapter for the CRM they
+// connected: HubSpot when they have a HubSpot connection, Salesforce
+// otherwise. Records keep Salesforce's shape and object names (Account,
+// Opportunity, ...) whichever CRM is behind them, so formatting, write
+// confirmation and undo work unchanged. Anything built on SOQL - queries,
+// aggregates, reports, bulk updates - needs Salesforce (see requireSalesforce).
+// ============================================================================
+
+export type CrmName = "salesforce" | "hubspot";
+
+export interface CrmActivity {
+  subject: string;
+  description?: string;
+  whoId?: string; // Contact or Lead
+  whatId?: string; // Account, Opportunity or Case
+  whatType?: string; // whatId's object type, when known
+  durationMinutes?: number;
+  durationSeconds?: number; // Exact duration, when known (wins over durationMinutes)
+  activityDate?: string; // YYYY-MM-DD in the rep's time zone
+}
+
+export interface CrmTask {
+  id: string;
+  subject: string;
+  status: string;
+  priority: string;
+  dueDate?: string;
+  relatedTo: string;
+}
+
+export interface CrmDeal {
+  id: string;
+  name: string;
+  amount?: number;
+  stage: string;
+  closeDate?: string;
+  accountName?: string;
+  probability?: number;
+}
+
+export interface CrmAdapter {
+  name: CrmName;
+  label: string; // For messages: "Salesforce", "HubSpot"
+  activityType: string; // Object type logActivity creates
+  search(term: string, options?: { objectType?: string; limit?: number; fields?: string[] }): Promise<{ records: any[]; totalSize: number }>;
+  // fresh skips any read cache - for before-values and undo
+  get(objectType: string, recordId: string, fields?: string[], options?: { fresh?: boolean }): Promise<Record<string, any>>;
+  create(objectType: string, fields: Record<string, any>): Promise<{ success: boolean; id: string; recordUrl?: string; message: string }>;
+  update(objectType: string, recordId: string, fields: Record<string, any>): Promise<{ success: boolean; message: string }>;
+  remove(objectType: string, recordId: string): Promise<{ success: boolean; message: string }>;
+  logActivity(activity: CrmActivity): Promise<{ success: boolean; taskId: string; recordUrl?: string; message: string }>;
+  myTasks(filters?: { status?: string; dueDate?: string }): Promise<{ tasks: CrmTask[]; count: number }>;
+  myPipeline(filters?: { stage?: string; closeDate?: string }): Promise<{ opportunities: CrmDeal[]; count: number; totalAmount: number; summary: string }>;
+  describe(objectType: string): Promise<{ name: string; label: string; fields: { name: string; label: string; type: string; required: boolean }[] }>;
+}
+
+// Whose CRM: a user, or the user behind a voice conversation
+interface CrmOwner {
+  userId?: string;
+  conversationId?: string;
+}
+
+/**
+ * Which CRM a user is connected to
+ */
+export const getConnection = internalQuery({
+  args: { userId: v.id("users") },
+  handler: async (ctx, args): Promise<CrmName> => {
+    const hubspot = await ctx.db
+      .query("hubspotAuth")
+      .withIndex("by_user", (q) => q.eq("userId", args.userId))
+      .first();
+    return hubspot ? "hubspot" : "salesforce";
+  },
+});
+
+/**
+ * The adapter for a user's CRM. Without a user it's Salesforce, which
+ * falls back to the environment's credentials.
+ */
+export async function crmFor(ctx: any, owner: CrmOwner): Promise<CrmAdapter> {
+  let userId = owner.userId;
+  if (!userId && owner.conversationId) {
+    userId = (await ctx.runQuery(internal.salesforce.getUserIdFromConversation, {
+      conversationId: owner.conversationId,
+    })) ?? undefined;
+  }
+  const name: CrmName = userId
+    ? await ctx.runQuery(internal.crm.getConnection, { userId: userId as Id<"users"> })
+    : "salesforce";
+  return createCrmAdapter(ctx, name, { ...owner, userId });
+}
+
+export function createCrmAdapter(ctx: any, name: CrmName, owner: CrmOwner): CrmAdapter {
+  switch (name) {
+    case "salesforce":
+      return salesforceAdapter(ctx, owner);
+    case "hubspot":
+      if (!owner.userId) throw new Error("HubSpot needs a connected user");
+      return hubspotAdapter(ctx, owner.userId);
+  }
+}
+
+/**
+ * Throw for SOQL-only features when the user's CRM isn't Salesforce
+ */
+export function requireSalesforce(crm: CrmAdapter, feature: string): void {
+  if (crm.name !== "salesforce") {
+    throw new Error(`${feature} need Salesforce - this user's CRM is ${crm.label}`);
+  }
+}
+
+// ============================================================================
+// ADAPTERS
+// ============================================================================
+
+function salesforceAdapter(ctx: any, owner: CrmOwner): CrmAdapter {
+  // Salesforce looks the user up itself when only the conversation is known
+  const auth = owner.userId ? { userId: owner.userId } : { conversationId: owner.conversationId };
+  return {
+    name: "salesforce",
+    label: "Salesforce",
+    activityType: "Task",
+    search: (term, options = {}) =>
+      ctx.runAction(api.salesforce.searchRecords, { query: term, objectType: options.objectType, limit: options.limit, fields: options.fields, ...auth }),
+    get: (objectType, recordId, fields, options = {}) =>
+      ctx.runAction(api.salesforce.getRecord, { recordId, objectType, fields, fresh: options.fresh, ...auth }),
+    create: (objectType, fields) =>
+      ctx.runAction(api.salesforce.createRecord, { objectType, fields, ...auth }),
+    update: (objectType, recordId, fields) =>
+      ctx.runAction(api.salesforce.updateRecord, { recordId, objectType, fields, ...auth }),
+    remove: (objectType, recordId) =>
+      ctx.runAction(api.salesforce.deleteRecord, { recordId, objectType, ...auth }),
+    // WhatId's type is in the Id prefix - Salesforce doesn't need whatType
+    logActivity: ({ whatType: _whatType, ...activity }) =>
+      ctx.runAction(api.salesforce.logCall, { ...activity, ...auth }),
+    myTasks: (filters = {}) =>
+      ctx.runAction(api.salesforce.getMyTasks, { ...filters, ...auth }),
+    myPipeline: (filters = {}) =>
+      ctx.runAction(api.salesforce.getMyOpportunities, { ...filters, ...auth }),
+    describe: (objectType) =>
+      ctx.runAction(api.salesforce.describeObject, { objectType, ...auth }),
+  };
+}
+
+function hubspotAdapter(ctx: any, userId: string): CrmAdapter {
+  return {
+    name: "hubspot",
+    label: "HubSpot",
+    activityType: "Call",
+    // Searches return each object's mapped fields, so options.fields isn't needed
+    search: (term, options = {}) =>
+      ctx.runAction(api.hubspot.searchRecords, { query: term, objectType: options.objectType, limit: options.limit, userId }),
+    get: (objectType, recordId, fields) =>
+      ctx.runAction(api.hubspot.getRecord, { recordId, objectType, fields, userId }),
+    create: (objectType, fields) =>
+      ctx.runAction(api.hubspot.createRecord, { objectType, fields, userId }),
+    update: (objectType, recordId, fields) =>
+      ctx.runAction(api.hubspot.updateRecord, { recordId, objectType, fields, userId }),
+    remove: (objectType, recordId) =>
+      ctx.runAction(api.hubspot.deleteRecord, { recordId, objectType, userId }),
+    logActivity: (activity) =>
+      ctx.runAction(api.hubspot.logCall, { ...activity, userId }),
+    myTasks: (filters = {}) =>
+      ctx.runAction(api.hubspot.getMyTasks, { ...filters, userId }),
+    myPipeline: (filters = {}) =>
+      ctx.runAction(api.hubspot.getMyDeals, { ...filters, userId }),
+    describe: (objectType) =>
+      ctx.runAction(api.hubspot.describeObject, { objectType, userId }),
+  };
+}
@@ -18,4 +18,39 @@ crons.daily(
   internal.activities.clearExpiredActivities
 );
 
+// Expire unanswered AI write confirmations
+crons.interval(
+  "expire pending actions",
+  { minutes: 5 },
+  internal.pendingActions.expirePendingActions
+);
+
+// Expire idle assistant sessions
+crons.interval(
+  "cleanup expired sessions",
+  { minutes: 15 },
+  internal.agentSessions.cleanupExpiredSessions
+);
+
+// Drop expired Salesforce read cache entries
+crons.interval(
+  "cleanup salesforce cache",
+  { minutes: 30 },
+  internal.salesforceCache.clearExpired
+);
+
+// Poll connected orgs for deal stage changes, closes and reassignments
+crons.interval(
+  "poll deal changes",
+  { minutes: 2 },
+  internal.dealAlerts.pollAllOrgs
+);
+
+// Morning next-best-action lists - each user gets theirs at 8am local time
+crons.hourly(
+  "morning recommendations",
+  { minuteUTC: 0 },
+  internal.recommendations.sendMorningRecommendations
+);
+
 export default crons;
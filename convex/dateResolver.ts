@@ -0,0 +1,462 @@
+import type { SoqlSchema } from "./soqlValidator";
+
+// ============================================================================
+// DATE & TIME RESOLUTION
+// Turns what the rep said ("next Tuesday at 3", "end of quarter", "EOD Friday")
+// into Salesforce values: YYYY-MM-DD for Date fields, UTC ISO timestamps for
+// DateTime fields. Everything is computed on the user's wall clock, with
+// quarters and years following the org's fiscal calendar.
+// ============================================================================
+
+export interface DateContext {
+  now: number; // Epoch ms
+  timeZone: string; // IANA name, e.g. "America/New_York"
+  fiscalYearStartMonth: number; // 1-12, from Organization.FiscalYearStartMonth
+}
+
+export type DateFieldType = "date" | "datetime";
+
+interface CivilDate {
+  year: number;
+  month: number; // 1-12
+  day: number;
+}
+
+interface ClockTime {
+  hour: number;
+  minute: number;
+}
+
+// DateTime fields given only a day ("Friday") are booked at 9am
+const DEFAULT_TIME: ClockTime = { hour: 9, minute: 0 };
+const END_OF_DAY: ClockTime = { hour: 17, minute: 0 };
+
+// Values the assistant has always accepted in any field
+const LEGACY_PLACEHOLDERS = new Set(["TODAY", "TOMORROW", "NEXT_WEEK", "NEXT WEEK", "END_OF_WEEK", "END OF WEEK", "THIS_WEEK", "NEXT_MONTH", "NEXT MONTH"]);
+
+// Standard DateTime fields that don't end in "DateTime"
+const KNOWN_DATETIME_FIELDS = new Set(["CompletedDateTime", "ReminderDateTime", "StartDateTime", "EndDateTime", "ActivityDateTime"]);
+
+const WEEKDAYS: Record<string, number> = {
+  sun: 0, sunday: 0,
+  mon: 1, monday: 1,
+  tue: 2, tues: 2, tuesday: 2,
+  wed: 3, weds: 3, wednesday: 3,
+  thu: 4, thur: 4, thurs: 4, thursday: 4,
+  fri: 5, friday: 5,
+  sat: 6, saturday: 6,
+};
+
+const MONTHS: Record<string, number> = {
+  jan: 1, january: 1, feb: 2, february: 2, mar: 3, march: 3, apr: 4, april: 4,
+  may: 5, jun: 6, june: 6, jul: 7, july: 7, aug: 8, august: 8,
+  sep: 9, sept: 9, september: 9, oct: 10, october: 10, nov: 11, november: 11, dec: 12, december: 12,
+};
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6,
+  seven: 7, eight: 8, nine: 9, ten: 10, eleven: 11, twelve: 12,
+};
+
+// ============================================================================
+// CONTEXT
+// ============================================================================
+
+export function isValidTimeZone(timeZone: string | undefined): boolean {
+  if (!timeZone) return false;
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The user's own time zone wins, then the org's default, then UTC
+ */
+export function buildDateContext(options: {
+  now: number;
+  userTimeZone?: string;
+  orgTimeZone?: string;
+  fiscalYearStartMonth?: number;
+}): DateContext {
+  const month = options.fiscalYearStartMonth;
+  return {
+    now: options.now,
+    timeZone: [options.userTimeZone, options.orgTimeZone].find((zone) => isValidTimeZone(zone)) || "UTC",
+    fiscalYearStartMonth: month && month >= 1 && month <= 12 ? month : 1,
+  };
+}
+
+/**
+ * "Tuesday, 2026-10-20 14:05 (America/New_York)" - tells the model what today is
+ */
+export function describeNow(context: DateContext): string {
+  const { date, time } = wallClock(context.now, context.timeZone);
+  const weekday = new Intl.DateTimeFormat("en-US", { weekday: "long", timeZone: "UTC" })
+    .format(new Date(Date.UTC(date.year, date.month - 1, date.day)));
+  const fiscal = context.fiscalYearStartMonth === 1
+    ? ""
+    : `, fiscal year starts in ${new Intl.DateTimeFormat("en-US", { month: "long", timeZone: "UTC" }).format(new Date(Date.UTC(2000, context.fiscalYearStartMonth - 1, 1)))}`;
+  return `${weekday}, ${formatDate(date)} ${pad(time.hour)}:${pad(time.minute)} (${context.timeZone}${fiscal})`;
+}
+
+// ============================================================================
+// FIELD RESOLUTION
+// ============================================================================
+
+/**
+ * Date or DateTime, from synced metadata when the field was described,
+ * otherwise from Salesforce naming (CloseDate, ActivityDate, StartDateTime)
+ */
+export function dateFieldType(objectType: string, fieldName: string, schema?: SoqlSchema): DateFieldType | undefined {
+  const field = schema?.[objectType.toLowerCase()]?.fields.find((f) => f.name.toLowerCase() === fieldName.toLowerCase());
+  if (field) {
+    if (field.type === "date") return "date";
+    if (field.type === "datetime") return "datetime";
+    return undefined;
+  }
+  const name = fieldName.replace(/__c$/i, "");
+  if (KNOWN_DATETIME_FIELDS.has(fieldName) || /DateTime$/i.test(name)) return "datetime";
+  if (/Date$/.test(name)) return "date";
+  return undefined;
+}
+
+/**
+ * Resolve date phrases in record fields. Date/DateTime fields must resolve
+ * (the error goes back to the model); other fields only swap the legacy
+ * placeholders, so a Subject like "Call Sarah tomorrow" is left alone.
+ */
+export function resolveDateFields(
+  fields: Record<string, any>,
+  objectType: string,
+  context: DateContext,
+  schema?: SoqlSchema
+): Record<string, any> {
+  const resolved = { ...fields };
+  for (const [key, value] of Object.entries(fields)) {
+    if (typeof value !== "string" || !value.trim()) continue;
+    const type = dateFieldType(objectType, key, schema);
+    if (!type) {
+      if (LEGACY_PLACEHOLDERS.has(value.trim().toUpperCase())) {
+        resolved[key] = resolveDatePhrase(value, "date", context);
+      }
+      continue;
+    }
+    const result = resolveDatePhrase(value, type, context);
+    if (result === null) {
+      throw new Error(`Couldn't work out a ${type === "date" ? "date" : "date and time"} from "${value}" for ${key} - ask the user or pass ${type === "date" ? "YYYY-MM-DD" : "YYYY-MM-DDTHH:MM"}`);
+    }
+    resolved[key] = result;
+  }
+  return resolved;
+}
+
+/**
+ * One phrase → "YYYY-MM-DD" or a UTC ISO timestamp (null when it isn't a date)
+ */
+export function resolveDatePhrase(phrase: string, type: DateFieldType, context: DateContext): string | null {
+  const raw = phrase.trim();
+
+  // Already a Salesforce value
+  const iso = raw.match(/^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::\d{2}(?:\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/);
+  if (iso) {
+    const date = { year: Number(iso[1]), month: Number(iso[2]), day: Number(iso[3]) };
+    if (!isRealDate(date)) return null;
+    if (type === "date") return formatDate(date);
+    if (iso[6]) return new Date(raw.replace(" ", "T")).toISOString();
+    const time = iso[4] ? { hour: Number(iso[4]), minute: Number(iso[5]) } : DEFAULT_TIME;
+    return toUtcIso(date, time, context.timeZone);
+  }
+
+  const parsed = parsePhrase(normalize(raw), context);
+  if (!parsed) return null;
+  if (type === "date") return formatDate(parsed.date);
+  return toUtcIso(parsed.date, parsed.time || DEFAULT_TIME, context.timeZone);
+}
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+function normalize(phrase: string): string {
+  return phrase
+    .toLowerCase()
+    .replace(/_/g, " ")
+    .replace(/[,.!?]+$/g, "")
+    .replace(/,/g, " ")
+    .replace(/\s+/g, " ")
+    .trim()
+    .replace(/^(on|by|due|before|for|until|till) /, "");
+}
+
+/**
+ * Split off the time of day, then read what's left as a day
+ */
+function parsePhrase(text: string, context: DateContext): { date: CivilDate; time?: ClockTime } | null {
+  const { date: today } = wallClock(context.now, context.timeZone);
+  const { time, rest } = extractTime(text);
+  const day = rest.replace(/^(on|by|due|before|for|until|till) /, "").trim();
+
+  if (!day) return time ? { date: today, time } : null;
+  const date = parseDay(day, today, context);
+  return date ? { date, time } : null;
+}
+
+function extractTime(text: string): { time?: ClockTime; rest: string } {
+  const named: [RegExp, ClockTime][] = [
+    [/\b(eod|cob|end of (the )?(business )?day|close of business)\b/, END_OF_DAY],
+    [/\bnoon\b/, { hour: 12, minute: 0 }],
+    [/\b(in the )?morning\b/, { hour: 9, minute: 0 }],
+    [/\b(in the )?afternoon\b/, { hour: 14, minute: 0 }],
+    [/\b(in the )?evening\b/, { hour: 18, minute: 0 }],
+  ];
+  for (const [pattern, time] of named) {
+    if (pattern.test(text)) return { time, rest: clean(text.replace(pattern, " ")) };
+  }
+  if (/\btonight\b/.test(text)) {
+    return { time: { hour: 18, minute: 0 }, rest: clean(text.replace(/\btonight\b/, "today")) };
+  }
+
+  const clock = text.match(/\b(?:at )?(\d{1,2})(?::(\d{2}))? ?(am|pm|a\.m\.?|p\.m\.?)(?=\s|$)/)
+    || text.match(/\bat (\d{1,2})(?::(\d{2}))?(?=\s|$)/)
+    || text.match(/\b(\d{1,2}):(\d{2})(?=\s|$)/);
+  if (!clock) return { rest: text };
+
+  let hour = Number(clock[1]);
+  const minute = clock[2] ? Number(clock[2]) : 0;
+  const meridiem = clock[3]?.replace(/\./g, "");
+  if (hour > 23 || minute > 59 || (meridiem && (hour < 1 || hour > 12))) return { rest: text };
+  if (meridiem === "pm" && hour < 12) hour += 12;
+  else if (meridiem === "am" && hour === 12) hour = 0;
+  // "at 3" during business hours means 3pm, "at 9" means 9am
+  else if (!meridiem && hour >= 1 && hour <= 6) hour += 12;
+
+  return { time: { hour, minute }, rest: clean(text.replace(clock[0], " ")) };
+}
+
+function clean(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+function parseDay(text: string, today: CivilDate, context: DateContext): CivilDate | null {
+  const fiscal = context.fiscalYearStartMonth;
+
+  switch (text) {
+    case "today":
+    case "now":
+      return today;
+    case "tomorrow":
+    case "tmrw":
+    case "tmr":
+      return addDays(today, 1);
+    case "yesterday":
+      return addDays(today, -1);
+    case "day after tomorrow":
+    case "the day after tomorrow":
+      return addDays(today, 2);
+    case "next week":
+      return addDays(today, 7);
+    case "end of week":
+    case "end of the week":
+    case "end of this week":
+    case "this week":
+    case "eow":
+      return addDays(today, (5 - weekday(today) + 7) % 7); // Friday
+    case "end of next week":
+      return addDays(today, ((5 - weekday(today) + 7) % 7) + 7);
+    case "next month":
+      return addMonths(today, 1);
+    case "end of month":
+    case "end of the month":
+    case "end of this month":
+    case "this month":
+    case "eom":
+      return endOfMonth(today);
+    case "end of next month":
+      return endOfMonth(addMonths({ ...today, day: 1 }, 1));
+    case "end of quarter":
+    case "end of the quarter":
+    case "end of this quarter":
+    case "this quarter":
+    case "eoq":
+      return fiscalQuarter(today, fiscal, 0).end;
+    case "next quarter":
+    case "start of next quarter":
+    case "beginning of next quarter":
+      return fiscalQuarter(today, fiscal, 1).start;
+    case "end of next quarter":
+      return fiscalQuarter(today, fiscal, 1).end;
+    case "end of year":
+    case "end of the year":
+    case "end of this year":
+    case "end of fiscal year":
+    case "end of the fiscal year":
+    case "this year":
+    case "eoy":
+      return fiscalYear(today, fiscal, 0).end;
+    case "next year":
+      return addMonths(today, 12);
+    case "end of next year":
+    case "end of next fiscal year":
+      return fiscalYear(today, fiscal, 1).end;
+  }
+
+  // "in two weeks", "3 days from now", "a month from today"
+  const relative = text.match(/^(?:in )?(\d+|[a-z]+) (day|week|month|year)s?(?: (?:from (?:now|today)|later))?$/);
+  if (relative && (text.startsWith("in ") || /from|later/.test(text))) {
+    const count = /^\d+$/.test(relative[1]) ? Number(relative[1]) : NUMBER_WORDS[relative[1]];
+    if (count === undefined) return null;
+    switch (relative[2]) {
+      case "day": return addDays(today, count);
+      case "week": return addDays(today, count * 7);
+      case "month": return addMonths(today, count);
+      case "year": return addMonths(today, count * 12);
+    }
+  }
+
+  // "Friday", "this Friday", "next Tuesday", "Friday next week"
+  const day = text.match(/^(?:(this|next|coming) )?([a-z]+)( next week)?$/);
+  if (day && WEEKDAYS[day[2]] !== undefined) {
+    const target = WEEKDAYS[day[2]];
+    if (day[1] === "next" || day[3]) {
+      // The one in next calendar week (weeks start Monday)
+      const mondayNextWeek = addDays(today, 7 - ((weekday(today) + 6) % 7));
+      return addDays(mondayNextWeek, (target + 6) % 7);
+    }
+    return addDays(today, (target - weekday(today) + 7) % 7);
+  }
+
+  // "the 15th" - the next time that day of the month comes round
+  const ordinal = text.match(/^(?:the )?(\d{1,2})(?:st|nd|rd|th)$/);
+  if (ordinal) {
+    const dayOfMonth = Number(ordinal[1]);
+    if (dayOfMonth < 1 || dayOfMonth > 31) return null;
+    const thisMonth = { ...today, day: Math.min(dayOfMonth, daysInMonth(today.year, today.month)) };
+    if (thisMonth.day >= today.day) return thisMonth;
+    const next = addMonths({ ...today, day: 1 }, 1);
+    return { ...next, day: Math.min(dayOfMonth, daysInMonth(next.year, next.month)) };
+  }
+
+  // "March 3", "3rd of March", "Mar 3 2027"
+  const monthFirst = text.match(/^([a-z]+) (\d{1,2})(?:st|nd|rd|th)?(?: (\d{4}))?$/);
+  const dayFirst = text.match(/^(?:the )?(\d{1,2})(?:st|nd|rd|th)? (?:of )?([a-z]+)(?: (\d{4}))?$/);
+  const named = monthFirst && MONTHS[monthFirst[1]]
+    ? { month: MONTHS[monthFirst[1]], day: Number(monthFirst[2]), year: monthFirst[3] }
+    : dayFirst && MONTHS[dayFirst[2]]
+      ? { month: MONTHS[dayFirst[2]], day: Number(dayFirst[1]), year: dayFirst[3] }
+      : undefined;
+  if (named) return upcoming(named.month, named.day, named.year ? Number(named.year) : undefined, today);
+
+  // US numeric: 11/3, 11/3/2026
+  const numeric = text.match(/^(\d{1,2})\/(\d{1,2})(?:\/(\d{2}|\d{4}))?$/);
+  if (numeric) {
+    const year = numeric[3] ? Number(numeric[3].length === 2 ? `20${numeric[3]}` : numeric[3]) : undefined;
+    return upcoming(Number(numeric[1]), Number(numeric[2]), year, today);
+  }
+
+  return null;
+}
+
+// A month/day without a year means the next one (this year's if it hasn't passed)
+function upcoming(month: number, day: number, year: number | undefined, today: CivilDate): CivilDate | null {
+  const candidate = { year: year ?? today.year, month, day };
+  if (!isRealDate(candidate)) return null;
+  if (year === undefined && compare(candidate, today) < 0) candidate.year++;
+  return isRealDate(candidate) ? candidate : null;
+}
+
+// ============================================================================
+// CALENDAR MATH
+// Civil dates are handled as UTC midnights so DST never shifts a day
+// ============================================================================
+
+function wallClock(now: number, timeZone: string): { date: CivilDate; time: ClockTime } {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(new Date(now));
+  const get = (type: string) => Number(parts.find((p) => p.type === type)?.value);
+  return {
+    date: { year: get("year"), month: get("month"), day: get("day") },
+    time: { hour: get("hour") % 24, minute: get("minute") },
+  };
+}
+
+// Local wall-clock time in a zone → UTC ISO timestamp
+function toUtcIso(date: CivilDate, time: ClockTime, timeZone: string): string {
+  const asUtc = Date.UTC(date.year, date.month - 1, date.day, time.hour, time.minute);
+  const guess = asUtc - zoneOffset(asUtc, timeZone);
+  // Near a DST change the offset at the guess is the right one
+  return new Date(asUtc - zoneOffset(guess, timeZone)).toISOString();
+}
+
+// Milliseconds the zone is ahead of UTC at an instant
+function zoneOffset(instant: number, timeZone: string): number {
+  const { date, time } = wallClock(instant, timeZone);
+  const local = Date.UTC(date.year, date.month - 1, date.day, time.hour, time.minute);
+  return local - Math.floor(instant / 60000) * 60000;
+}
+
+function toCivil(ms: number): CivilDate {
+  const d = new Date(ms);
+  return { year: d.getUTCFullYear(), month: d.getUTCMonth() + 1, day: d.getUTCDate() };
+}
+
+function addDays(date: CivilDate, days: number): CivilDate {
+  return toCivil(Date.UTC(date.year, date.month - 1, date.day + days));
+}
+
+// Clamps the day: Jan 31 + 1 month = Feb 28
+function addMonths(date: CivilDate, months: number): CivilDate {
+  const first = toCivil(Date.UTC(date.year, date.month - 1 + months, 1));
+  return { ...first, day: Math.min(date.day, daysInMonth(first.year, first.month)) };
+}
+
+function endOfMonth(date: CivilDate): CivilDate {
+  return { ...date, day: daysInMonth(date.year, date.month) };
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+function weekday(date: CivilDate): number {
+  return new Date(Date.UTC(date.year, date.month - 1, date.day)).getUTCDay();
+}
+
+function compare(a: CivilDate, b: CivilDate): number {
+  return Date.UTC(a.year, a.month - 1, a.day) - Date.UTC(b.year, b.month - 1, b.day);
+}
+
+function isRealDate(date: CivilDate): boolean {
+  return date.month >= 1 && date.month <= 12 && date.day >= 1 && date.day <= daysInMonth(date.year, date.month);
+}
+
+// Fiscal quarter containing the date, shifted by `offset` quarters
+function fiscalQuarter(date: CivilDate, startMonth: number, offset: number): { start: CivilDate; end: CivilDate } {
+  const monthsIntoYear = (date.month - startMonth + 12) % 12;
+  const quarterStartMonth = { year: date.year, month: date.month, day: 1 };
+  const start = addMonths(quarterStartMonth, -(monthsIntoYear % 3) + offset * 3);
+  return { start, end: addDays(addMonths(start, 3), -1) };
+}
+
+function fiscalYear(date: CivilDate, startMonth: number, offset: number): { start: CivilDate; end: CivilDate } {
+  const startYear = (date.month >= startMonth ? date.year : date.year - 1) + offset;
+  const start = { year: startYear, month: startMonth, day: 1 };
+  return { start, end: addDays(addMonths(start, 12), -1) };
+}
+
+function pad(n: number): string {
+  return String(n).padStart(2, "0");
+}
+
+function formatDate(date: CivilDate): string {
+  return `${date.year}-${pad(date.month)}-${pad(date.day)}`;
+}
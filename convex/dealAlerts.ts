@@ -0,0 +1,456 @@
+import { v } from "convex/values";
+import { internalAction, internalMutation, internalQuery, query } from "./_generated/server";
+import { api, internal } from "./_generated/api";
+import { Id } from "./_generated/dataModel";
+import { instanceUrlForUser, normalizeInstanceUrl } from "./salesforceOrg";
+
+// ============================================================================
+// DEAL ALERTS
+// Salesforce doesn't tell us when a deal moves, so every org with someone
+// listening is polled: opportunities past the org's (SystemModstamp, Id)
+// cursor are compared with the stage and owner we saw last (dealSnapshots).
+// Stage changes, closed won/lost and reassignments of any deal in the org go
+// to every deal alerts Slack channel set up in it (notifyDealChange, which
+// honors each channel's notifyOnDealClosed / notifyOnDealStageChange). The
+// deal's owner also gets a text if they turned on dealAlertSms, and an entry
+// in their own activity feed. Change Data
+// Capture would push these instead, but it needs a long-lived streaming
+// client (CometD or the Pub/Sub API), which Convex functions can't hold.
+// ============================================================================
+
+export type DealChangeType = "closed_won" | "closed_lost" | "stage_change" | "reassigned";
+
+export interface DealSnapshot {
+  stageName: string;
+  ownerId: string;
+  ownerName?: string;
+  isClosed: boolean;
+}
+
+export interface DealChange {
+  type: DealChangeType;
+  opportunityId: string;
+  dealName: string;
+  accountName: string;
+  amount: number;
+  stage: string;
+  ownerId: string;
+  ownerName: string;
+  previousStage?: string; // Unknown for a deal we hadn't seen before
+  previousOwnerId?: string;
+  previousOwnerName?: string;
+}
+
+// Who in an org hears about their own deals, matched to deal owners by Salesforce User Id
+interface Listener {
+  userId: Id<"users">;
+  salesforceUserId?: string; // 15-character Id
+  sms?: "closed" | "all";
+}
+
+const DEAL_SOQL_FIELDS =
+  "Id, Name, StageName, Amount, IsClosed, IsWon, OwnerId, Owner.Name, Account.Name, LastStageChangeDate, SystemModstamp";
+
+// Deals per poll - a full page means there's more, and the next poll starts right away
+const POLL_BATCH_SIZE = 200;
+
+// How long a poll holds its org before another may take over (if it died)
+const POLL_LEASE_MS = 5 * 60 * 1000;
+
+function shortId(id: string): string {
+  return id.slice(0, 15);
+}
+
+/**
+ * Salesforce date-times ("2026-10-19T14:03:00.000+0000") as ISO strings,
+ * which compare correctly as text
+ */
+export function toIsoDateTime(value: string): string {
+  return new Date(value.replace(/([+-]\d{2})(\d{2})$/, "$1:$2")).toISOString();
+}
+
+/**
+ * Deals past the cursor. Several deals can share a SystemModstamp (a mass
+ * update), so within one the Id breaks the tie and a full page still moves on.
+ */
+export function cursorCondition(watermark: string, lastId?: string): string {
+  const at = watermark.replace(/\.\d{3}Z$/, "Z");
+  if (!lastId) return `SystemModstamp >= ${at}`;
+  return `(SystemModstamp > ${at} OR (SystemModstamp = ${at} AND Id > '${lastId}'))`;
+}
+
+/**
+ * What changed on a deal since we last saw it. With no snapshot, a stage
+ * change after the watermark still counts - just without the previous stage.
+ */
+export function detectDealChanges(previous: DealSnapshot | null, deal: any, watermark: string): DealChange[] {
+  const base = {
+    opportunityId: deal.Id,
+    dealName: deal.Name,
+    accountName: deal.Account?.Name || "No account",
+    amount: deal.Amount || 0,
+    stage: deal.StageName,
+    ownerId: deal.OwnerId,
+    ownerName: deal.Owner?.Name || "Unknown",
+  };
+  const changes: DealChange[] = [];
+
+  const stageChanged = previous
+    ? previous.stageName !== deal.StageName
+    : !!deal.LastStageChangeDate && toIsoDateTime(deal.LastStageChangeDate) >= watermark;
+  if (stageChanged) {
+    const type: DealChangeType = deal.IsClosed ? (deal.IsWon ? "closed_won" : "closed_lost") : "stage_change";
+    changes.push({ ...base, type, previousStage: previous?.stageName });
+  }
+
+  if (previous && shortId(previous.ownerId) !== shortId(deal.OwnerId)) {
+    changes.push({
+      ...base,
+      type: "reassigned",
+      previousOwnerId: previous.ownerId,
+      previousOwnerName: previous.ownerName,
+    });
+  }
+  return changes;
+}
+
+/**
+ * One line for texts and the activity feed
+ */
+export function describeDealChange(change: DealChange): string {
+  const amount = change.amount ? ` ($${change.amount.toLocaleString()})` : "";
+  switch (change.type) {
+    case "closed_won":
+      return `${change.dealName}${amount} closed won.`;
+    case "closed_lost":
+      return `${change.dealName}${amount} closed lost.`;
+    case "stage_change":
+      return change.previousStage
+        ? `${change.dealName} moved from ${change.previousStage} to ${change.stage}.`
+        : `${change.dealName} moved to ${change.stage}.`;
+    case "reassigned":
+      return change.previousOwnerName
+        ? `${change.dealName} was reassigned from ${change.previousOwnerName} to ${change.ownerName}.`
+        : `${change.dealName} was reassigned to ${change.ownerName}.`;
+  }
+}
+
+// ============================================================================
+// STATE
+// ============================================================================
+
+/**
+ * Orgs with a deal alerts channel or a listener, with a connection to poll
+ * through. Each channel is listed once, under the user who set it up.
+ */
+export const listOrgs = internalQuery({
+  args: {},
+  handler: async (ctx) => {
+    const mappings = await ctx.db.query("slackChannelMappings").collect();
+    const channelsByUser = new Map<string, string[]>();
+    for (const m of mappings) {
+      if (!m.isActive || m.purpose !== "deal_alerts") continue;
+      channelsByUser.set(m.userId, [...(channelsByUser.get(m.userId) || []), m.channelId]);
+    }
+
+    const orgs = new Map<string, {
+      instanceUrl: string;
+      connectionUserIds: Id<"users">[];
+      channelUserIds: Id<"users">[];
+      listeners: Listener[];
+    }>();
+    const seenChannels = new Map<string, Set<string>>();
+    for (const auth of await ctx.db.query("salesforceAuth").collect()) {
+      const instanceUrl = normalizeInstanceUrl(auth.instanceUrl);
+      const org = orgs.get(instanceUrl) || { instanceUrl, connectionUserIds: [], channelUserIds: [], listeners: [] };
+      const seen = seenChannels.get(instanceUrl) || new Set<string>();
+      org.connectionUserIds.push(auth.userId);
+
+      const channels = (channelsByUser.get(auth.userId) || []).filter((id) => !seen.has(id));
+      if (channels.length > 0) {
+        org.channelUserIds.push(auth.userId);
+        channels.forEach((id) => seen.add(id));
+      }
+
+      const user = await ctx.db.get("users", auth.userId);
+      if (user && (channelsByUser.has(auth.userId) || user.dealAlertSms)) {
+        org.listeners.push({
+          userId: auth.userId,
+          salesforceUserId: auth.salesforceUserId && shortId(auth.salesforceUserId),
+          sms: user.dealAlertSms,
+        });
+      }
+      orgs.set(instanceUrl, org);
+      seenChannels.set(instanceUrl, seen);
+    }
+    return [...orgs.values()].filter((org) => org.channelUserIds.length > 0 || org.listeners.length > 0);
+  },
+});
+
+/**
+ * Take the org for one poll. The first call only starts the clock; a poll
+ * already running keeps the org until it records or its lease runs out.
+ */
+export const claimPoll = internalMutation({
+  args: { instanceUrl: v.string() },
+  handler: async (ctx, args): Promise<
+    { status: "started" | "busy" } | { status: "claimed"; watermark: string; lastId?: string }
+  > => {
+    const now = Date.now();
+    const state = await ctx.db
+      .query("dealAlertWatermarks")
+      .withIndex("by_instance", (q) => q.eq("instanceUrl", args.instanceUrl))
+      .first();
+    if (!state) {
+      // Only changes from now on
+      await ctx.db.insert("dealAlertWatermarks", {
+        instanceUrl: args.instanceUrl,
+        watermark: new Date(now).toISOString(),
+        lastPolledAt: now,
+      });
+      return { status: "started" };
+    }
+    if (state.leaseUntil && state.leaseUntil > now) {
+      return { status: "busy" };
+    }
+    await ctx.db.patch("dealAlertWatermarks", state._id, { leaseUntil: now + POLL_LEASE_MS });
+    return { status: "claimed", watermark: state.watermark, lastId: state.lastId };
+  },
+});
+
+export const getSnapshots = internalQuery({
+  args: {
+    instanceUrl: v.string(),
+    opportunityIds: v.array(v.string()),
+  },
+  handler: async (ctx, args): Promise<Record<string, DealSnapshot>> => {
+    const snapshots: Record<string, DealSnapshot> = {};
+    for (const id of args.opportunityIds) {
+      const snapshot = await ctx.db
+        .query("dealSnapshots")
+        .withIndex("by_instance_opportunity", (q) => q.eq("instanceUrl", args.instanceUrl).eq("opportunityId", shortId(id)))
+        .first();
+      if (snapshot) {
+        snapshots[id] = {
+          stageName: snapshot.stageName,
+          ownerId: snapshot.ownerId,
+          ownerName: snapshot.ownerName,
+          isClosed: snapshot.isClosed,
+        };
+      }
+    }
+    return snapshots;
+  },
+});
+
+/**
+ * Save what a poll saw, move the org's cursor forward and let the org go
+ */
+export const recordPoll = internalMutation({
+  args: {
+    instanceUrl: v.string(),
+    watermark: v.string(),
+    lastId: v.optional(v.string()),
+    deals: v.array(v.object({
+      opportunityId: v.string(),
+      stageName: v.string(),
+      ownerId: v.string(),
+      ownerName: v.optional(v.string()),
+      isClosed: v.boolean(),
+    })),
+    error: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const now = Date.now();
+    for (const deal of args.deals) {
+      const snapshot = { ...deal, opportunityId: shortId(deal.opportunityId), ownerId: shortId(deal.ownerId), updatedAt: now };
+      const existing = await ctx.db
+        .query("dealSnapshots")
+        .withIndex("by_instance_opportunity", (q) => q.eq("instanceUrl", args.instanceUrl).eq("opportunityId", snapshot.opportunityId))
+        .first();
+      if (existing) {
+        await ctx.db.patch("dealSnapshots", existing._id, snapshot);
+      } else {
+        await ctx.db.insert("dealSnapshots", { instanceUrl: args.instanceUrl, ...snapshot });
+      }
+    }
+
+    const existing = await ctx.db
+      .query("dealAlertWatermarks")
+      .withIndex("by_instance", (q) => q.eq("instanceUrl", args.instanceUrl))
+      .first();
+    const state = {
+      watermark: args.watermark,
+      lastId: args.lastId,
+      lastPolledAt: now,
+      lastError: args.error,
+      leaseUntil: undefined,
+    };
+    if (existing) {
+      await ctx.db.patch("dealAlertWatermarks", existing._id, state);
+    } else {
+      await ctx.db.insert("dealAlertWatermarks", { instanceUrl: args.instanceUrl, ...state });
+    }
+  },
+});
+
+/**
+ * When the user's org was last checked for deal changes
+ */
+export const getPollStatus = query({
+  args: { userId: v.id("users") },
+  handler: async (ctx, args) => {
+    const instanceUrl = await instanceUrlForUser(ctx, args.userId);
+    if (!instanceUrl) return null;
+    const state = await ctx.db
+      .query("dealAlertWatermarks")
+      .withIndex("by_instance", (q) => q.eq("instanceUrl", instanceUrl))
+      .first();
+    return state ? { watermark: state.watermark, lastPolledAt: state.lastPolledAt, lastError: state.lastError } : null;
+  },
+});
+
+// ============================================================================
+// POLLING
+// ============================================================================
+
+/**
+ * Every few minutes (cron): poll each org someone listens to
+ */
+export const pollAllOrgs = internalAction({
+  args: {},
+  handler: async (ctx) => {
+    const orgs = await ctx.runQuery(internal.dealAlerts.listOrgs, {});
+    for (const org of orgs) {
+      await ctx.scheduler.runAfter(0, internal.dealAlerts.pollOrg, org);
+    }
+  },
+});
+
+export const pollOrg = internalAction({
+  args: {
+    instanceUrl: v.string(),
+    connectionUserIds: v.array(v.id("users")),
+    channelUserIds: v.array(v.id("users")), // Whose deal alerts channel to post to
+    listeners: v.array(v.object({
+      userId: v.id("users"),
+      salesforceUserId: v.optional(v.string()),
+      sms: v.optional(v.union(v.literal("closed"), v.literal("all"))),
+    })),
+  },
+  handler: async (ctx, args): Promise<{ changes: number; reason?: string }> => {
+    const state = await ctx.runMutation(internal.dealAlerts.claimPoll, { instanceUrl: args.instanceUrl });
+    if (state.status !== "claimed") {
+      return { changes: 0, reason: state.status };
+    }
+
+    const soql = `SELECT ${DEAL_SOQL_FIELDS} FROM Opportunity WHERE ${cursorCondition(state.watermark, state.lastId)} ORDER BY SystemModstamp ASC, Id ASC LIMIT ${POLL_BATCH_SIZE}`;
+    let deals: any[] | undefined;
+    let lastError: string | undefined;
+    // Any connection in the org will do; the next one if a token is gone
+    for (const userId of args.connectionUserIds) {
+      try {
+        const result = await ctx.runAction(api.salesforce.searchRecords, { query: soql, userId });
+        deals = result.records || [];
+        break;
+      } catch (error: any) {
+        lastError = error.message;
+        console.error(`Deal alert poll failed for ${args.instanceUrl} via ${userId}:`, error.message);
+      }
+    }
+    if (!deals) {
+      await ctx.runMutation(internal.dealAlerts.recordPoll, {
+        instanceUrl: args.instanceUrl,
+        watermark: state.watermark,
+        lastId: state.lastId,
+        deals: [],
+        error: lastError,
+      });
+      return { changes: 0, reason: "poll_failed" };
+    }
+
+    const snapshots: Record<string, DealSnapshot> = await ctx.runQuery(internal.dealAlerts.getSnapshots, {
+      instanceUrl: args.instanceUrl,
+      opportunityIds: deals.map((d) => d.Id),
+    });
+    const changes = deals.flatMap((deal) => detectDealChanges(snapshots[deal.Id] || null, deal, state.watermark));
+    for (const change of changes) {
+      await routeDealChange(ctx, args.instanceUrl, change, args.channelUserIds, args.listeners);
+    }
+
+    const last = deals[deals.length - 1];
+    await ctx.runMutation(internal.dealAlerts.recordPoll, {
+      instanceUrl: args.instanceUrl,
+      watermark: last ? toIsoDateTime(last.SystemModstamp) : state.watermark,
+      lastId: last ? last.Id : state.lastId,
+      deals: deals.map((d) => ({
+        opportunityId: d.Id,
+        stageName: d.StageName,
+        ownerId: d.OwnerId,
+        ownerName: d.Owner?.Name,
+        isClosed: d.IsClosed === true,
+      })),
+    });
+    if (deals.length === POLL_BATCH_SIZE) {
+      await ctx.scheduler.runAfter(0, internal.dealAlerts.pollOrg, args);
+    }
+    return { changes: changes.length };
+  },
+});
+
+/**
+ * Post a change to every deal alerts channel in the org (each channel's own
+ * flags decide), and tell the deal's owner - and for a reassignment, its
+ * previous owner - by text and in their own activity feed
+ */
+async function routeDealChange(
+  ctx: any,
+  instanceUrl: string,
+  change: DealChange,
+  channelUserIds: Id<"users">[],
+  listeners: Listener[]
+) {
+  const message = describeDealChange(change);
+  const recordUrl = `${instanceUrl}/lightning/r/Opportunity/${change.opportunityId}/view`;
+
+  for (const userId of channelUserIds) {
+    try {
+      await ctx.runAction(internal.slack.notifyDealChange, {
+        userId,
+        dealName: change.dealName,
+        accountName: change.accountName,
+        amount: change.amount,
+        stage: change.stage,
+        ownerName: change.ownerName,
+        changeType: change.type,
+        previousStage: change.previousStage,
+        previousOwnerName: change.previousOwnerName,
+        recordUrl,
+      });
+    } catch (error: any) {
+      console.error(`Slack deal alert failed for ${userId}:`, error.message);
+    }
+  }
+
+  const owners = new Set([change.ownerId, change.previousOwnerId].filter((id): id is string => !!id).map(shortId));
+  const recipients = listeners.filter((l) => l.salesforceUserId && owners.has(l.salesforceUserId));
+  for (const listener of recipients) {
+    await ctx.runMutation(internal.activities.logActivityInternal, {
+      type: change.type === "closed_won" ? "success" : "updating",
+      message,
+      toolName: "deal_alerts",
+      recordId: change.opportunityId,
+      recordName: change.dealName,
+      recordType: "Opportunity",
+      userId: listener.userId,
+    });
+
+    if (listener.sms === "all" || (listener.sms === "closed" && change.type !== "stage_change")) {
+      try {
+        await ctx.runAction(api.sendblue.sendProactiveText, { userId: listener.userId, content: message });
+      } catch (error: any) {
+        console.error(`Deal alert text failed for ${listener.userId}:`, error.message);
+      }
+    }
+  }
+}
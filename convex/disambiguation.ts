@@ -0,0 +1,526 @@
+import { v } from "convex/values";
+import { internalAction, internalMutation, internalQuery } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { Id } from "./_generated/dataModel";
+import { assistantChannel, AssistantChannel } from "./pendingActions";
+import { aliasKindFor, saveAlias } from "./aliases";
+import { crmFor } from "./crm";
+
+// ============================================================================
+// RECORD DISAMBIGUATION
+// When a name matches several records, ask the user which one they mean
+// ("Acme Corp in Denver or Acme Labs in Austin?") instead of taking the first
+// hit. Choices are remembered for the rest of the session and repeated choices
+// become per-user preferences that skip the question entirely. A choice the
+// name doesn't describe ("big g" → Globex Renewal) is saved as an alias.
+// ============================================================================
+
+// How long an unanswered question stays open
+const QUESTION_TTL_MS = 10 * 60 * 1000; // 10 minutes
+
+// Choices are reused for the rest of the session (matches agent session timeout)
+const SESSION_MEMORY_MS = 30 * 60 * 1000; // 30 minutes
+
+// Pick the same record this many times in a row and we stop asking
+const PREFERENCE_STREAK = 2;
+
+// Most choices we offer - more than three is too long to read out on a call
+const MAX_OPTIONS = 3;
+
+export interface RecordOption {
+  recordId: string;
+  name: string;
+  detail?: string; // Distinguishing detail, e.g. "in Denver"
+}
+
+export type RecordResolution =
+  | { status: "resolved"; recordId: string; name: string; via: "single" | "exact" | "session" | "alias" | "preference" }
+  | { status: "ambiguous"; disambiguationId: Id<"disambiguations">; question: string; options: RecordOption[] }
+  | { status: "not_found" };
+
+// Fields that tell similar records apart, in priority order
+const DETAIL_FIELDS: Record<string, { field: string; format: (value: string) => string }[]> = {
+  Account: [
+    { field: "BillingCity", format: (v) => `in ${v}` },
+    { field: "Industry", format: (v) => `(${v})` },
+    { field: "Type", format: (v) => `(${v})` },
+  ],
+  Contact: [
+    { field: "Account.Name", format: (v) => `at ${v}` },
+    { field: "Title", format: (v) => `(${v})` },
+    { field: "MailingCity", format: (v) => `in ${v}` },
+  ],
+  Lead: [
+    { field: "Company", format: (v) => `at ${v}` },
+    { field: "City", format: (v) => `in ${v}` },
+    { field: "Status", format: (v) => `(${v})` },
+  ],
+  Opportunity: [
+    { field: "Account.Name", format: (v) => `for ${v}` },
+    { field: "StageName", format: (v) => `in ${v}` },
+    { field: "CloseDate", format: (v) => `closing ${v}` },
+  ],
+  Case: [
+    { field: "Account.Name", format: (v) => `for ${v}` },
+    { field: "Status", format: (v) => `(${v})` },
+  ],
+};
+
+/**
+ * Name field used for display - activities and cases have no Name
+ */
+export function nameFieldFor(objectType: string): string {
+  return ["Task", "Event", "Case"].includes(objectType) ? "Subject" : "Name";
+}
+
+function normalizeTerm(term: string): string {
+  return term.toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+function readPath(record: any, path: string): string | undefined {
+  const value = path.split(".").reduce((obj, key) => (obj ? obj[key] : undefined), record);
+  return value === null || value === undefined || value === "" ? undefined : String(value);
+}
+
+/**
+ * Label each candidate with the first detail field whose values differ
+ */
+export function describeOptions(objectType: string, records: any[]): RecordOption[] {
+  const nameField = nameFieldFor(objectType);
+  const detailFields = DETAIL_FIELDS[objectType] || [];
+  const distinguishing = detailFields.find((d) => {
+    const values = new Set(records.map((r) => readPath(r, d.field)));
+    return values.size > 1;
+  });
+
+  return records.map((r) => {
+    const value = distinguishing ? readPath(r, distinguishing.field) : undefined;
+    return {
+      recordId: r.Id,
+      name: readPath(r, nameField) || r.Id,
+      detail: value && distinguishing ? distinguishing.format(value) : undefined,
+    };
+  });
+}
+
+function optionLabel(option: RecordOption): string {
+  return option.detail ? `${option.name} ${option.detail}` : option.name;
+}
+
+/**
+ * "Acme Corp in Denver or Acme Labs in Austin?"
+ */
+export function buildQuestion(options: RecordOption[]): string {
+  const labels = options.map(optionLabel);
+  if (labels.length <= 2) return `${labels.join(" or ")}?`;
+  return `${labels.slice(0, -1).join(", ")}, or ${labels[labels.length - 1]}?`;
+}
+
+const ORDINALS: Record<string, number> = {
+  first: 0, "1": 0, one: 0, top: 0,
+  second: 1, "2": 1, two: 1,
+  third: 2, "3": 2, three: 2,
+};
+
+/**
+ * Match a reply like "Denver", "the second one" or "Acme Labs" to an option.
+ * Returns null when the reply doesn't clearly pick one.
+ */
+export function matchChoice(reply: string, options: RecordOption[]): RecordOption | null {
+  const tokens = reply.toLowerCase().replace(/[^a-z0-9 ]/g, " ").split(/\s+/).filter(Boolean);
+  if (tokens.length === 0) return null;
+
+  // Ignore words every option shares (e.g. "acme") - they don't discriminate
+  const optionTokens = options.map((o) =>
+    new Set(optionLabel(o).toLowerCase().replace(/[^a-z0-9 ]/g, " ").split(/\s+/).filter(Boolean))
+  );
+  const shared = new Set([...optionTokens[0]].filter((t) => optionTokens.every((set) => set.has(t))));
+
+  const scores = optionTokens.map((set) => tokens.filter((t) => set.has(t) && !shared.has(t)).length);
+  const best = Math.max(...scores);
+  if (best > 0) {
+    return scores.filter((s) => s === best).length === 1 ? options[scores.indexOf(best)] : null;
+  }
+
+  // Ordinals only count in short replies ("the first one"), not in sentences
+  if (tokens.length <= 4) {
+    if (tokens.includes("last")) return options[options.length - 1];
+    for (const token of tokens) {
+      const index = ORDINALS[token];
+      if (index !== undefined && index < options.length) return options[index];
+    }
+  }
+  return null;
+}
+
+// ============================================================================
+// RESOLUTION (called from assistant actions)
+// ============================================================================
+
+/**
+ * Resolve a name to a single record, or open a question for the user.
+ * Order: session choice → alias → single hit → learned preference → unique
+ * exact name.
+ */
+export async function resolveRecord(
+  ctx: any,
+  args: {
+    userId: Id<"users">;
+    channel: AssistantChannel;
+    anyChannel?: boolean; // Cross-channel continuity: reuse choices made on other channels
+    objectType: string;
+    searchTerm: string;
+    userMessage: string;
+  }
+): Promise<RecordResolution> {
+  const term = normalizeTerm(args.searchTerm);
+
+  const sessionChoice = await ctx.runQuery(internal.disambiguation.getSessionChoice, {
+    userId: args.userId,
+    channel: args.channel,
+    anyChannel: args.anyChannel,
+    objectType: args.objectType,
+    term,
+  });
+  if (sessionChoice) {
+    return { status: "resolved", recordId: sessionChoice.recordId, name: sessionChoice.name, via: "session" };
+  }
+
+  const alias = await ctx.runQuery(internal.aliases.lookup, {
+    userId: args.userId,
+    term: args.searchTerm,
+    objectType: args.objectType,
+  });
+  if (alias) {
+    return { status: "resolved", recordId: alias.recordId, name: alias.recordName, via: "alias" };
+  }
+
+  // The search returns the distinguishing fields too, in case several records match
+  const nameField = nameFieldFor(args.objectType);
+  const detailFields = (DETAIL_FIELDS[args.objectType] || []).map((d) => d.field);
+  const crm = await crmFor(ctx, { userId: args.userId });
+  const found = await crm.search(args.searchTerm, {
+    objectType: args.objectType,
+    limit: 5,
+    fields: [nameField, ...detailFields],
+  });
+  let records: any[] = found.records || [];
+  if (records.length === 0) return { status: "not_found" };
+
+  if (records.length === 1) {
+    return { status: "resolved", recordId: records[0].Id, name: records[0][nameField] || records[0].Name, via: "single" };
+  }
+
+  const preference = await ctx.runQuery(internal.disambiguation.getPreference, {
+    userId: args.userId,
+    objectType: args.objectType,
+    term,
+  });
+  if (preference && preference.streak >= PREFERENCE_STREAK) {
+    const preferred = records.find((r) => r.Id === preference.recordId);
+    if (preferred) {
+      return { status: "resolved", recordId: preferred.Id, name: preference.recordName, via: "preference" };
+    }
+  }
+
+  // Rank: learned preference first, then exact and prefix name matches
+  const score = (r: any) => {
+    const name = normalizeTerm(readPath(r, nameField) || "");
+    let s = 0;
+    if (preference?.recordId === r.Id) s += 4;
+    if (name === term) s += 3;
+    else if (name.startsWith(term)) s += 1;
+    return s;
+  };
+  records = [...records].sort((a, b) => score(b) - score(a));
+
+  const exact = records.filter((r) => normalizeTerm(readPath(r, nameField) || "") === term);
+  if (exact.length === 1) {
+    return { status: "resolved", recordId: exact[0].Id, name: readPath(exact[0], nameField) || exact[0].Id, via: "exact" };
+  }
+
+  const options = describeOptions(args.objectType, records.slice(0, MAX_OPTIONS));
+  const question = buildQuestion(options);
+  const disambiguationId = await ctx.runMutation(internal.disambiguation.openQuestion, {
+    userId: args.userId,
+    channel: args.channel,
+    objectType: args.objectType,
+    term,
+    searchTerm: args.searchTerm,
+    question,
+    options,
+    userMessage: args.userMessage,
+  });
+
+  return { status: "ambiguous", disambiguationId, question, options };
+}
+
+// ============================================================================
+// QUERIES & MUTATIONS
+// ============================================================================
+
+const recordOption = v.object({
+  recordId: v.string(),
+  name: v.string(),
+  detail: v.optional(v.string()),
+});
+
+/**
+ * Record the user picked earlier this session for the same name
+ */
+export const getSessionChoice = internalQuery({
+  args: {
+    userId: v.id("users"),
+    channel: assistantChannel,
+    anyChannel: v.optional(v.boolean()),
+    objectType: v.string(),
+    term: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const since = Date.now() - SESSION_MEMORY_MS;
+    const recent = await ctx.db
+      .query("disambiguations")
+      .withIndex("by_user_term", (q) =>
+        q.eq("userId", args.userId).eq("objectType", args.objectType).eq("term", args.term)
+      )
+      .order("desc")
+      .take(5);
+
+    const choice = recent.find(
+      (d) =>
+        d.status === "resolved" &&
+        (args.anyChannel || d.channel === args.channel) &&
+        (d.resolvedAt || 0) > since
+    );
+    const chosen = choice?.options.find((o) => o.recordId === choice.chosenRecordId);
+    return chosen ? { recordId: chosen.recordId, name: chosen.name } : null;
+  },
+});
+
+export const getPreference = internalQuery({
+  args: {
+    userId: v.id("users"),
+    objectType: v.string(),
+    term: v.string(),
+  },
+  handler: async (ctx, args) => {
+    return await ctx.db
+      .query("recordPreferences")
+      .withIndex("by_user_term", (q) =>
+        q.eq("userId", args.userId).eq("objectType", args.objectType).eq("term", args.term)
+      )
+      .first();
+  },
+});
+
+/**
+ * Open questions for a user on one channel, newest first
+ */
+export const getOpenQuestions = internalQuery({
+  args: {
+    userId: v.id("users"),
+    channel: assistantChannel,
+    anyChannel: v.optional(v.boolean()),
+  },
+  handler: async (ctx, args) => {
+    const now = Date.now();
+    const open = await ctx.db
+      .query("disambiguations")
+      .withIndex("by_user_status", (q) => q.eq("userId", args.userId).eq("status", "open"))
+      .collect();
+    return open
+      .filter((d) => (args.anyChannel || d.channel === args.channel) && d.expiresAt > now)
+      .sort((a, b) => b.createdAt - a.createdAt);
+  },
+});
+
+export const getQuestion = internalQuery({
+  args: { disambiguationId: v.id("disambiguations") },
+  handler: async (ctx, args) => {
+    return await ctx.db.get("disambiguations", args.disambiguationId);
+  },
+});
+
+/**
+ * Ask a new question - any earlier open question on this channel is dropped
+ */
+export const openQuestion = internalMutation({
+  args: {
+    userId: v.id("users"),
+    channel: assistantChannel,
+    objectType: v.string(),
+    term: v.string(),
+    searchTerm: v.string(),
+    question: v.string(),
+    options: v.array(recordOption),
+    userMessage: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const now = Date.now();
+
+    const open = await ctx.db
+      .query("disambiguations")
+      .withIndex("by_user_status", (q) => q.eq("userId", args.userId).eq("status", "open"))
+      .collect();
+    for (const d of open) {
+      if (d.channel === args.channel) {
+        await ctx.db.patch("disambiguations", d._id, { status: "expired" });
+      }
+    }
+
+    return await ctx.db.insert("disambiguations", {
+      ...args,
+      status: "open",
+      createdAt: now,
+      expiresAt: now + QUESTION_TTL_MS,
+    });
+  },
+});
+
+/**
+ * Record the user's answer and update their learned preference for the name
+ */
+export const choose = internalMutation({
+  args: {
+    disambiguationId: v.id("disambiguations"),
+    recordId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const question = await ctx.db.get("disambiguations", args.disambiguationId);
+    if (!question || question.status !== "open") return null;
+
+    const option = question.options.find((o) => o.recordId === args.recordId);
+    if (!option) throw new Error("That record wasn't one of the choices");
+
+    const now = Date.now();
+    await ctx.db.patch("disambiguations", question._id, {
+      status: "resolved",
+      chosenRecordId: option.recordId,
+      resolvedAt: now,
+    });
+
+    const preference = await ctx.db
+      .query("recordPreferences")
+      .withIndex("by_user_term", (q) =>
+        q.eq("userId", question.userId).eq("objectType", question.objectType).eq("term", question.term)
+      )
+      .first();
+
+    if (!preference) {
+      await ctx.db.insert("recordPreferences", {
+        userId: question.userId,
+        objectType: question.objectType,
+        term: question.term,
+        recordId: option.recordId,
+        recordName: option.name,
+        streak: 1,
+        timesChosen: 1,
+        lastChosenAt: now,
+      });
+    } else if (preference.recordId === option.recordId) {
+      await ctx.db.patch("recordPreferences", preference._id, {
+        streak: preference.streak + 1,
+        timesChosen: preference.timesChosen + 1,
+        lastChosenAt: now,
+      });
+    } else {
+      // Changed their mind - start a new streak for the new record
+      await ctx.db.patch("recordPreferences", preference._id, {
+        recordId: option.recordId,
+        recordName: option.name,
+        streak: 1,
+        timesChosen: preference.timesChosen + 1,
+        lastChosenAt: now,
+      });
+    }
+
+    await learnAlias(ctx, question, option);
+    return { question, option };
+  },
+});
+
+/**
+ * The user named a record that wasn't offered ("no, I meant Big Blue") and
+ * it was found - close the question with it as the choice
+ */
+export const correct = internalMutation({
+  args: {
+    disambiguationId: v.id("disambiguations"),
+    recordId: v.string(),
+    recordName: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const question = await ctx.db.get("disambiguations", args.disambiguationId);
+    if (!question || question.status !== "open") return null;
+
+    const option = { recordId: args.recordId, name: args.recordName };
+    await ctx.db.patch("disambiguations", question._id, {
+      // Added to the options so the session choice finds it
+      options: [...question.options.filter((o) => o.recordId !== args.recordId), option],
+      status: "resolved",
+      chosenRecordId: args.recordId,
+      resolvedAt: Date.now(),
+    });
+    await learnAlias(ctx, question, option);
+    return { question, option };
+  },
+});
+
+async function learnAlias(ctx: any, question: any, option: RecordOption) {
+  const kind = aliasKindFor(question.searchTerm, option.name);
+  if (!kind) return;
+  try {
+    await saveAlias(ctx, {
+      userId: question.userId,
+      alias: question.searchTerm,
+      objectType: question.objectType,
+      recordId: option.recordId,
+      recordName: option.name,
+      kind,
+      source: "learned",
+    });
+  } catch (e) {
+    console.log("Could not save alias:", e);
+  }
+}
+
+/**
+ * Handle a record button on a Slack disambiguation message, then re-run the
+ * original request - the session choice now resolves the name
+ */
+export const resolveFromSlack = internalAction({
+  args: {
+    disambiguationId: v.id("disambiguations"),
+    recordId: v.string(),
+    teamId: v.string(),
+    responseUrl: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const question = await ctx.runQuery(internal.disambiguation.getQuestion, {
+      disambiguationId: args.disambiguationId,
+    });
+    const installation = await ctx.runQuery(internal.slack.getInstallationByTeam, {
+      teamId: args.teamId,
+    });
+
+    if (!question || !installation || installation.userId !== question.userId || question.status !== "open") {
+      await ctx.runAction(internal.slack.respondToCommand, {
+        responseUrl: args.responseUrl,
+        text: "That question is no longer open.",
+        replaceOriginal: true,
+      });
+      return;
+    }
+
+    await ctx.runMutation(internal.disambiguation.choose, {
+      disambiguationId: args.disambiguationId,
+      recordId: args.recordId,
+    });
+
+    await ctx.runAction(internal.slackCommands.handleAIQuery, {
+      userId: question.userId,
+      query: question.userMessage,
+      responseUrl: args.responseUrl,
+    });
+  },
+});
@@ -1,6 +1,9 @@
 import { httpRouter } from "convex/server";
 import { httpAction } from "./_generated/server";
 import { api, internal } from "./_generated/api";
+import { renderVoice } from "./responseRenderers";
+import { listReports, runReportByName } from "./reports";
+import { crmFor } from "./crm";
 
 // Helper to log activity to dashboard
 type ActivityType = "thinking" | "searching" | "found" | "creating" | "updating" | "success" | "error";
@@ -189,6 +192,8 @@ http.route({
         userMessage,
         conversationHistory: body.conversation_history,
         userId: userId as any, // Pass userId for per-user Salesforce auth
+        channel: "voice",
+        sourceConversationId: body.conversation_id,
       });
 
       // Log success with action details
@@ -197,6 +202,7 @@ http.route({
                             actionType === "query" ? `Retrieved data` :
                             actionType === "create" ? `Created record` :
                             actionType === "update" ? `Updated record` :
+                            actionType === "pending_confirmation" ? `Awaiting confirmation` :
                             `Responded`;
 
       await logActivity(ctx, "success", successMessage, {
@@ -216,7 +222,8 @@ http.route({
         });
       }
 
-      return new Response(JSON.stringify(result), {
+      // The agent reads `response` aloud
+      return new Response(JSON.stringify({ ...result, response: renderVoice(result.structured) }), {
         status: 200,
         headers: { "Content-Type": "application/json" },
       });
@@ -265,12 +272,8 @@ http.route({
         conversationId: body.conversation_id,
       });
 
-      const result = await ctx.runAction(api.salesforce.searchRecords, {
-        query: query || "",
-        objectType: object_type,
-        limit: limit || 10,
-        conversationId: body.conversation_id,
-      }) as { records: any[]; totalSize: number };
+      const crm = await crmFor(ctx, { conversationId: body.conversation_id });
+      const result = await crm.search(query || "", { objectType: object_type, limit: limit || 10 });
 
       // Log found activity with record details
       if (result.records && result.records.length > 0) {
@@ -336,12 +339,8 @@ http.route({
       const object_type = body.object_type || body.objectType;
       const fields = body.fields;
 
-      const result = await ctx.runAction(api.salesforce.getRecord, {
-        recordId: record_id,
-        objectType: object_type,
-        fields: fields,
-        conversationId: body.conversation_id,
-      });
+      const crm = await crmFor(ctx, { conversationId: body.conversation_id });
+      const result = await crm.get(object_type, record_id, fields);
 
       if (body.conversation_id) {
         await ctx.runMutation(internal.conversations.logToolCall, {
@@ -393,11 +392,8 @@ http.route({
         conversationId: body.conversation_id,
       });
 
-      const result = await ctx.runAction(api.salesforce.createRecord, {
-        objectType: object_type,
-        fields: fields,
-        conversationId: body.conversation_id,
-      }) as { id: string; success: boolean };
+      const crm = await crmFor(ctx, { conversationId: body.conversation_id });
+      const result = await crm.create(object_type, fields);
 
       // Log success
       await logActivity(ctx, "success", `Created ${object_type} successfully`, {
@@ -463,12 +459,8 @@ http.route({
         conversationId: body.conversation_id,
       });
 
-      const result = await ctx.runAction(api.salesforce.updateRecord, {
-        recordId: record_id,
-        objectType: object_type,
-        fields: fields,
-        conversationId: body.conversation_id,
-      });
+      const crm = await crmFor(ctx, { conversationId: body.conversation_id });
+      const result = await crm.update(object_type, record_id, fields);
 
       // Log success
       await logActivity(ctx, "success", `Updated ${object_type} successfully`, {
@@ -519,13 +511,14 @@ http.route({
       const body = await request.json();
       console.log("log_call called with:", body);
 
-      const result = await ctx.runAction(api.salesforce.logCall, {
+      const crm = await crmFor(ctx, { conversationId: body.conversation_id });
+      const result = await crm.logActivity({
         whoId: body.who_id || body.contact_id || body.lead_id,
         whatId: body.what_id || body.account_id || body.opportunity_id,
+        whatType: body.account_id ? "Account" : body.opportunity_id ? "Opportunity" : undefined,
         subject: body.subject || "Voice Call",
         description: body.description || body.notes,
         durationMinutes: body.duration_minutes,
-        conversationId: body.conversation_id,
       });
 
       if (body.conversation_id) {
@@ -573,11 +566,8 @@ http.route({
         conversationId: body.conversation_id,
       });
 
-      const result = await ctx.runAction(api.salesforce.getMyTasks, {
-        status: body.status,
-        dueDate: body.due_date,
-        conversationId: body.conversation_id,
-      }) as { tasks: any[]; count: number };
+      const crm = await crmFor(ctx, { conversationId: body.conversation_id });
+      const result = await crm.myTasks({ status: body.status, dueDate: body.due_date });
 
       // Log found
       await logActivity(ctx, "found", `Found ${result.count} task${result.count !== 1 ? 's' : ''}`, {
@@ -634,11 +624,8 @@ http.route({
         conversationId: body.conversation_id,
       });
 
-      const result = await ctx.runAction(api.salesforce.getMyOpportunities, {
-        stage: body.stage,
-        closeDate: body.close_date,
-        conversationId: body.conversation_id,
-      }) as { opportunities: any[]; summary: string; totalAmount?: number };
+      const crm = await crmFor(ctx, { conversationId: body.conversation_id });
+      const result = await crm.myPipeline({ stage: body.stage, closeDate: body.close_date });
 
       // Log found with pipeline value
       const oppCount = result.opportunities?.length || 0;
@@ -738,6 +725,85 @@ http.route({
   }),
 });
 
+/**
+ * List or run saved reports and dashboards
+ * Tool name in ElevenLabs: salesforce_reports
+ * Without report_name, lists the user's recent reports (or those matching search)
+ */
+http.route({
+  path: "/tools/reports",
+  method: "POST",
+  handler: httpAction(async (ctx, request) => {
+    const startTime = Date.now();
+    try {
+      const body = await request.json();
+      console.log("salesforce_reports called with:", body);
+
+      const userId = body.conversation_id
+        ? await ctx.runQuery(internal.salesforce.getUserIdFromConversation, { conversationId: body.conversation_id })
+        : null;
+      if (!userId) {
+        return new Response(
+          JSON.stringify({ error: "Reports need a conversation linked to a user" }),
+          { status: 400, headers: { "Content-Type": "application/json" } }
+        );
+      }
+
+      await logActivity(ctx, "searching", body.report_name ? `Running report "${body.report_name}"...` : "Finding your reports...", {
+        toolName: "salesforce_reports",
+        recordType: "Report",
+        conversationId: body.conversation_id,
+      });
+
+      const kind = body.kind === "dashboard" || body.kind === "report" ? body.kind : undefined;
+      let result: Record<string, any>;
+      if (body.report_name) {
+        const run = await runReportByName(ctx, {
+          userId,
+          name: body.report_name,
+          kind,
+          filters: Array.isArray(body.filters) ? body.filters : undefined,
+        });
+        result = { summary: run.sentence, status: run.status, report: run.report, matches: run.matches, rows: run.rows };
+      } else {
+        const listing = await listReports(ctx, { userId, search: body.search, kind });
+        result = { summary: listing.sentence, reports: listing.reports };
+      }
+
+      await logActivity(ctx, "found", result.report ? `Ran ${result.report.name}` : result.summary, {
+        toolName: "salesforce_reports",
+        recordId: result.report?.id,
+        recordName: result.report?.name,
+        recordType: "Report",
+        conversationId: body.conversation_id,
+      });
+
+      await ctx.runMutation(internal.conversations.logToolCall, {
+        conversationId: body.conversation_id,
+        toolName: "salesforce_reports",
+        input: JSON.stringify(body),
+        output: JSON.stringify(result),
+        success: true,
+        durationMs: Date.now() - startTime,
+      });
+
+      return new Response(JSON.stringify(result), {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      });
+    } catch (error: any) {
+      console.error("salesforce_reports error:", error);
+      await logActivity(ctx, "error", `Report failed: ${error.message}`, {
+        toolName: "salesforce_reports",
+      });
+      return new Response(
+        JSON.stringify({ error: error.message }),
+        { status: 500, headers: { "Content-Type": "application/json" } }
+      );
+    }
+  }),
+});
+
 // ============================================================================
 // ELEVENLABS WEBHOOKS
 // ============================================================================
@@ -983,6 +1049,20 @@ http.route({
         });
       }
 
+      // ============================================================================
+      // POST-CALL CRM WORK: PROPOSED UPDATES AND AUTO-LOGGING
+      // ============================================================================
+      if (result.userId) {
+        await ctx.scheduler.runAfter(0, internal.callExtraction.extractFromCall, {
+          conversationId: result.conversationId,
+        });
+        // Logs the call as a Task if the user turned auto-logging on
+        await ctx.scheduler.runAfter(0, internal.callLogging.logCompletedCall, {
+          conversationId: result.conversationId,
+          recordingExpected: !!recordingUrl,
+        });
+      }
+
       return new Response(JSON.stringify({ status: "received", conversationId }), {
         status: 200,
         headers: { "Content-Type": "application/json" },
@@ -1985,6 +2065,54 @@ http.route({
   }),
 });
 
+// ============================================================================
+// HUBSPOT OAUTH (started from the web app with hubspot.startConnect - a
+// connected HubSpot replaces Salesforce, see crm.ts)
+// ============================================================================
+
+/**
+ * OAuth callback from HubSpot - stores the tokens and sends the user back
+ */
+http.route({
+  path: "/auth/hubspot/callback",
+  method: "GET",
+  handler: httpAction(async (ctx, request) => {
+    try {
+      const url = new URL(request.url);
+      const code = url.searchParams.get("code");
+      const state = url.searchParams.get("state");
+      const error = url.searchParams.get("error");
+
+      if (error) {
+        return new Response(`HubSpot OAuth Error: ${error} - ${url.searchParams.get("error_description") || "No description"}`, { status: 400 });
+      }
+      if (!code || !state) {
+        return new Response("Missing authorization code or state", { status: 400 });
+      }
+
+      const stateData = await ctx.runMutation(internal.hubspot.consumeOAuthState, { state });
+      if (!stateData) {
+        return new Response("Invalid or expired state - start connecting HubSpot again", { status: 400 });
+      }
+
+      await ctx.runAction(internal.hubspot.completeOAuth, {
+        userId: stateData.userId,
+        code,
+      });
+
+      const returnUrl = stateData.returnUrl || "/";
+      const separator = returnUrl.includes("?") ? "&" : "?";
+      return new Response(null, {
+        status: 302,
+        headers: { Location: `${returnUrl}${separator}hubspot_connected=true&user_id=${stateData.userId}` },
+      });
+    } catch (error: any) {
+      console.error("HubSpot OAuth callback error:", error);
+      return new Response(`Error: ${error.message}`, { status: 500 });
+    }
+  }),
+});
+
 // ============================================================================
 // SENDBLUE WEBHOOKS (AI-powered text messaging)
 // ============================================================================
@@ -2162,6 +2290,7 @@ http.route({
         messageContent: content || "[Media message]",
         messageHandle: messageHandle,
         mediaUrl: mediaUrl,
+        service: body.service === "iMessage" || body.service === "SMS" ? body.service : undefined,
       });
 
       // Respond immediately to acknowledge receipt
@@ -2910,6 +3039,7 @@ http.route({
                 userId: event.user,
                 text: event.text,
                 ts: event.ts,
+                isDirectMessage: true,
               }).catch((e) => console.error("Error handling DM:", e));
             }
             break;
@@ -3035,6 +3165,25 @@ http.route({
 
             // Handle specific actions
             switch (action.action_id) {
+              case "confirm_pending_action":
+              case "cancel_pending_action":
+                // Run after acknowledging - Salesforce writes can exceed Slack's 3s limit
+                await ctx.scheduler.runAfter(0, internal.pendingActions.resolveFromSlack, {
+                  pendingActionId: action.value,
+                  decision: action.action_id === "confirm_pending_action" ? "confirm" : "cancel",
+                  teamId: payload.team?.id || "",
+                  responseUrl: payload.response_url,
+                });
+                break;
+              case "undo_change":
+              case "undo_change_force":
+                await ctx.scheduler.runAfter(0, internal.changeJournal.undoFromSlack, {
+                  journalId: action.value,
+                  force: action.action_id === "undo_change_force",
+                  teamId: payload.team?.id || "",
+                  responseUrl: payload.response_url,
+                });
+                break;
               case "new_search":
                 // Could open a modal for new search
                 break;
@@ -3045,7 +3194,19 @@ http.route({
               case "show_help":
                 // Send help message
                 break;
-              // Add more action handlers as needed
+              default:
+                // Record picked from a "which one did you mean?" message
+                if (action.action_id?.startsWith("choose_record_")) {
+                  const [disambiguationId, recordId] = action.value.split("|");
+                  await ctx.scheduler.runAfter(0, internal.disambiguation.resolveFromSlack, {
+                    disambiguationId,
+                    recordId,
+                    teamId: payload.team?.id || "",
+                    responseUrl: payload.response_url,
+                  });
+                }
+                // Add more action handlers as needed
+                break;
             }
           }
           break;
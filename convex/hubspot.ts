@@ -0,0 +1,1061 @@
+import { v } from "convex/values";
+import { action, internalAction, internalMutation, internalQuery, mutation, query } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { getAuthenticatedUserId, requireAuthenticatedUser } from "./users";
+
+// ============================================================================
+// HUBSPOT (CRM v3)
+// The HubSpot side of the CRM adapter (see crm.ts). Callers keep speaking in
+// Salesforce terms - Account, Opportunity, StageName, CloseDate - and this
+// module maps them onto HubSpot objects and properties, and maps the records
+// it returns back into Salesforce-shaped ones ({ attributes: { type }, Id, Name, ... }).
+// ============================================================================
+
+const HUBSPOT_API_URL = "https://api.hubapi.com";
+const HUBSPOT_APP_URL = "https://app.hubspot.com";
+
+export const HUBSPOT_SCOPES = [
+  "oauth",
+  "crm.objects.contacts.read",
+  "crm.objects.contacts.write",
+  "crm.objects.companies.read",
+  "crm.objects.companies.write",
+  "crm.objects.deals.read",
+  "crm.objects.deals.write",
+  "crm.objects.owners.read",
+  "crm.schemas.deals.read",
+  "tickets",
+];
+
+// Refresh a little early - HubSpot access tokens only last 30 minutes
+const REFRESH_BUFFER_MS = 5 * 60 * 1000;
+
+// How long a portal's deal stages are reused before fetching them again
+const DEAL_STAGES_TTL_MS = 30 * 60 * 1000;
+
+/**
+ * Added to the assistant's system prompt for HubSpot users
+ */
+export const HUBSPOT_PROMPT_CONTEXT = `
+
+## THE USER'S CRM IS HUBSPOT
+Keep using the Salesforce object and field names above - they're mapped onto HubSpot:
+- Account = company, Contact and Lead = contact, Opportunity = deal, Task = task, Case = ticket
+- StageName takes the deal stage's label (e.g. "Closed Won"); CloseDate, Amount, NextStep and Description work as usual
+- Any other HubSpot property can be used by its internal name (e.g. hs_lead_status)
+Record Ids are plain numbers. SOQL, aggregates, reports and bulk updates aren't available - search by name and use get_my_records for the user's deals and tasks.`;
+
+interface HubspotObject {
+  name: string; // CRM v3 object type
+  typeId: string; // Object type ID, for record links
+  nameOf: (properties: Record<string, any>) => string | undefined;
+  fields: Record<string, string>; // Salesforce field → HubSpot property
+}
+
+const COMPANY: HubspotObject = {
+  name: "companies",
+  typeId: "0-2",
+  nameOf: (p) => p.name,
+  fields: {
+    Name: "name",
+    Industry: "industry",
+    Phone: "phone",
+    Website: "domain",
+    BillingCity: "city",
+    BillingState: "state",
+    NumberOfEmployees: "numberofemployees",
+    AnnualRevenue: "annualrevenue",
+    Description: "description",
+    Type: "type",
+    OwnerId: "hubspot_owner_id",
+  },
+};
+
+const CONTACT: HubspotObject = {
+  name: "contacts",
+  typeId: "0-1",
+  nameOf: (p) => [p.firstname, p.lastname].filter(Boolean).join(" ") || p.email,
+  fields: {
+    FirstName: "firstname",
+    LastName: "lastname",
+    Email: "email",
+    Phone: "phone",
+    MobilePhone: "mobilephone",
+    Title: "jobtitle",
+    Company: "company",
+    Status: "hs_lead_status",
+    OwnerId: "hubspot_owner_id",
+  },
+};
+
+const DEAL: HubspotObject = {
+  name: "deals",
+  typeId: "0-3",
+  nameOf: (p) => p.dealname,
+  fields: {
+    Name: "dealname",
+    Amount: "amount",
+    StageName: "dealstage",
+    CloseDate: "closedate",
+    NextStep: "hs_next_step",
+    Description: "description",
+    Type: "dealtype",
+    OwnerId: "hubspot_owner_id",
+  },
+};
+
+const TASK: HubspotObject = {
+  name: "tasks",
+  typeId: "0-27",
+  nameOf: (p) => p.hs_task_subject,
+  fields: {
+    Subject: "hs_task_subject",
+    Description: "hs_task_body",
+    Status: "hs_task_status",
+    Priority: "hs_task_priority",
+    ActivityDate: "hs_timestamp",
+    OwnerId: "hubspot_owner_id",
+  },
+};
+
+const TICKET: HubspotObject = {
+  name: "tickets",
+  typeId: "0-5",
+  nameOf: (p) => p.subject,
+  fields: {
+    Subject: "subject",
+    Description: "content",
+    Priority: "hs_ticket_priority",
+    OwnerId: "hubspot_owner_id",
+  },
+};
+
+const CALL: HubspotObject = {
+  name: "calls",
+  typeId: "0-48",
+  nameOf: (p) => p.hs_call_title,
+  fields: {
+    Subject: "hs_call_title",
+    Description: "hs_call_body",
+    OwnerId: "hubspot_owner_id",
+  },
+};
+
+const OBJECTS: Record<string, HubspotObject> = {
+  Account: COMPANY,
+  Contact: CONTACT,
+  Lead: CONTACT,
+  Opportunity: DEAL,
+  Task: TASK,
+  Case: TICKET,
+  Call: CALL,
+};
+
+// What a search without an object type looks through
+const DEFAULT_SEARCH_TYPES = ["Account", "Contact", "Opportunity"];
+
+// Picklist values that differ between the two CRMs (Salesforce → HubSpot)
+const VALUE_MAPS: Record<string, Record<string, string>> = {
+  hs_task_status: {
+    "Not Started": "NOT_STARTED",
+    "In Progress": "IN_PROGRESS",
+    "Waiting on someone else": "WAITING",
+    Completed: "COMPLETED",
+    Deferred: "DEFERRED",
+  },
+  hs_task_priority: { High: "HIGH", Normal: "MEDIUM", Medium: "MEDIUM", Low: "LOW" },
+  hs_ticket_priority: { High: "HIGH", Medium: "MEDIUM", Normal: "MEDIUM", Low: "LOW" },
+};
+
+// Datetime properties that stand in for Salesforce date fields
+const DATE_PROPERTIES = new Set(["closedate", "hs_timestamp"]);
+
+// Default association types from a call to what it's about
+const CALL_ASSOCIATIONS: Record<string, { object: string; typeId: number }> = {
+  Contact: { object: "contacts", typeId: 194 },
+  Account: { object: "companies", typeId: 182 },
+  Opportunity: { object: "deals", typeId: 206 },
+  Case: { object: "tickets", typeId: 220 },
+};
+
+/**
+ * HubSpot object for a Salesforce object type. Anything else is taken to be
+ * a HubSpot object type already (e.g. a custom object's "2-1234567").
+ */
+function hubspotObject(objectType: string): HubspotObject {
+  return OBJECTS[objectType] || { name: objectType, typeId: objectType, nameOf: (p) => p.name, fields: {} };
+}
+
+function toProperty(object: HubspotObject, field: string): string {
+  return object.fields[field] || field;
+}
+
+/**
+ * A Salesforce-shaped record from a HubSpot object
+ */
+export function toSalesforceRecord(
+  objectType: string,
+  record: { id: string; properties?: Record<string, any> },
+  stageLabels?: Map<string, string>
+): Record<string, any> {
+  const object = hubspotObject(objectType);
+  const properties = record.properties || {};
+  const result: Record<string, any> = {
+    attributes: { type: objectType },
+    Id: record.id,
+    Name: object.nameOf(properties) ?? null,
+  };
+  const fieldFor = new Map(Object.entries(object.fields).map(([field, property]) => [property, field]));
+  for (const [property, raw] of Object.entries(properties)) {
+    const field = fieldFor.get(property) || property;
+    let value: any = raw;
+    if (VALUE_MAPS[property]) {
+      value = Object.entries(VALUE_MAPS[property]).find(([, hubspotValue]) => hubspotValue === raw)?.[0] ?? raw;
+    } else if (property === "dealstage" && stageLabels) {
+      value = stageLabels.get(raw) ?? raw;
+    } else if (DATE_PROPERTIES.has(property) && typeof raw === "string") {
+      value = raw.slice(0, 10);
+    } else if (["amount", "annualrevenue", "numberofemployees"].includes(property) && raw !== null && raw !== "") {
+      value = Number(raw);
+    }
+    result[field] = value;
+  }
+  return result;
+}
+
+/**
+ * HubSpot properties from Salesforce-style fields. Deal stages are given by
+ * label and sent as stage IDs.
+ */
+export function toHubspotProperties(
+  objectType: string,
+  fields: Record<string, any>,
+  stageIds?: Map<string, string>
+): Record<string, any> {
+  const object = hubspotObject(objectType);
+  const properties: Record<string, any> = {};
+  for (const [field, raw] of Object.entries(fields)) {
+    if (raw === undefined) continue;
+    const property = toProperty(object, field);
+    let value = raw;
+    if (VALUE_MAPS[property] && typeof raw === "string") {
+      value = VALUE_MAPS[property][raw] ?? raw;
+    } else if (property === "dealstage" && stageIds && typeof raw === "string") {
+      value = stageIds.get(raw.toLowerCase()) ?? raw;
+    } else if (DATE_PROPERTIES.has(property) && typeof raw === "string" && /^\d{4}-\d{2}-\d{2}$/.test(raw)) {
+      value = `${raw}T00:00:00.000Z`;
+    }
+    // HubSpot clears a property with an empty string, not null
+    properties[property] = value === null ? "" : value;
+  }
+  // Contacts created as leads
+  if (objectType === "Lead" && !("lifecyclestage" in properties)) properties.lifecyclestage = "lead";
+  return properties;
+}
+
+// "2026-10-19" → the UTC day's bounds in epoch ms
+function dayRange(offsetDays: number, days = 1): [number, number] {
+  const now = new Date();
+  const start = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + offsetDays);
+  return [start, start + days * 24 * 60 * 60 * 1000 - 1];
+}
+
+function monthRange(offsetMonths: number, months = 1): [number, number] {
+  const now = new Date();
+  const start = Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + offsetMonths, 1);
+  return [start, Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + offsetMonths + months, 1) - 1];
+}
+
+function quarterRange(offsetQuarters: number): [number, number] {
+  const month = new Date().getUTCMonth();
+  return monthRange(-(month % 3) + offsetQuarters * 3, 3);
+}
+
+// ============================================================================
+// PUBLIC QUERIES
+// ============================================================================
+
+/**
+ * Check if a user has HubSpot connected
+ */
+export const getHubspotStatus = query({
+  args: { userId: v.id("users") },
+  handler: async (ctx, args) => {
+    const auth = await ctx.db
+      .query("hubspotAuth")
+      .withIndex("by_user", (q) => q.eq("userId", args.userId))
+      .first();
+
+    if (!auth) {
+      return { connected: false };
+    }
+
+    return {
+      connected: true,
+      portalId: auth.portalId,
+      expiresAt: auth.expiresAt,
+    };
+  },
+});
+
+// ============================================================================
+// HUBSPOT API HELPERS
+// ============================================================================
+
+interface HubspotAuth {
+  accessToken: string;
+  portalId: string;
+  ownerId?: string;
+}
+
+async function getHubspotAuth(ctx: any, userId: string): Promise<HubspotAuth> {
+  const auth = await ctx.runQuery(internal.hubspot.getAuthForUser, { userId });
+  if (!auth) {
+    throw new Error("HubSpot not connected. Please connect your HubSpot account.");
+  }
+
+  if (auth.expiresAt < Date.now() + REFRESH_BUFFER_MS) {
+    try {
+      const refreshed = await requestTokens({ grant_type: "refresh_token", refresh_token: auth.refreshToken });
+      await ctx.runMutation(internal.hubspot.updateAuthForUser, {
+        userId,
+        portalId: auth.portalId,
+        ownerId: auth.ownerId,
+        ...refreshed,
+      });
+      console.log(`Refreshed HubSpot token for user ${userId}`);
+      return { accessToken: refreshed.accessToken, portalId: auth.portalId, ownerId: auth.ownerId };
+    } catch (refreshError: any) {
+      console.error(`HubSpot token refresh failed for user ${userId}:`, refreshError.message);
+      if (refreshError.message.includes("BAD_REFRESH_TOKEN") || refreshError.message.includes("invalid_grant")) {
+        await ctx.runMutation(internal.hubspot.clearAuthForUser, { userId });
+        throw new Error("HubSpot session expired. Please reconnect your HubSpot account.");
+      }
+      throw refreshError;
+    }
+  }
+
+  return { accessToken: auth.accessToken, portalId: auth.portalId, ownerId: auth.ownerId };
+}
+
+/**
+ * OAuth token endpoint - authorization_code and refresh_token grants
+ */
+async function requestTokens(params: Record<string, string>) {
+  const clientId = process.env.HUBSPOT_CLIENT_ID;
+  const clientSecret = process.env.HUBSPOT_CLIENT_SECRET;
+  if (!clientId || !clientSecret) {
+    throw new Error("HubSpot OAuth isn't configured. Set HUBSPOT_CLIENT_ID and HUBSPOT_CLIENT_SECRET.");
+  }
+
+  const response = await fetch(`${HUBSPOT_API_URL}/oauth/v1/token`, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: new URLSearchParams({ client_id: clientId, client_secret: clientSecret, ...params }),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`HubSpot token request failed: ${response.status} - ${errorText}`);
+  }
+
+  const data = await response.json();
+  return {
+    accessToken: data.access_token as string,
+    refreshToken: data.refresh_token as string,
+    expiresAt: Date.now() + (data.expires_in || 1800) * 1000,
+  };
+}
+
+async function hubspotRequest(
+  auth: HubspotAuth,
+  endpoint: string,
+  options: RequestInit = {}
+): Promise<any> {
+  const response = await fetch(`${HUBSPOT_API_URL}${endpoint}`, {
+    ...options,
+    headers: {
+      Authorization: `Bearer ${auth.accessToken}`,
+      "Content-Type": "application/json",
+      ...options.headers,
+    },
+  });
+
+  if (!response.ok) {
+    const error = await response.text();
+    throw new Error(`HubSpot API error: ${response.status} - ${error}`);
+  }
+
+  // Handle 204 No Content
+  if (response.status === 204) {
+    return { success: true };
+  }
+
+  return response.json();
+}
+
+function recordUrl(auth: HubspotAuth, objectType: string, id: string): string {
+  return `${HUBSPOT_APP_URL}/contacts/${auth.portalId}/record/${hubspotObject(objectType).typeId}/${id}`;
+}
+
+function requireOwner(auth: HubspotAuth): string {
+  if (!auth.ownerId) {
+    throw new Error("HubSpot didn't say which records are yours. Please reconnect your HubSpot account.");
+  }
+  return auth.ownerId;
+}
+
+interface DealStages {
+  labels: Map<string, string>; // Label by stage ID
+  ids: Map<string, string>; // Stage ID by lowercased label
+}
+
+function toDealStages(stages: { id: string; label: string }[]): DealStages {
+  const labels = new Map<string, string>();
+  const ids = new Map<string, string>();
+  for (const stage of stages) {
+    labels.set(stage.id, stage.label);
+    if (!ids.has(stage.label.toLowerCase())) ids.set(stage.label.toLowerCase(), stage.id);
+  }
+  return { labels, ids };
+}
+
+/**
+ * Deal stages across all pipelines, from the portal's cached copy. Fetched
+ * again when it's expired or is missing a stage the caller needs (one added
+ * in HubSpot since).
+ */
+async function dealStages(
+  ctx: any,
+  auth: HubspotAuth,
+  need: { ids?: string[]; labels?: string[] } = {}
+): Promise<DealStages> {
+  const cached = await ctx.runQuery(internal.hubspot.getCachedDealStages, { portalId: auth.portalId });
+  if (cached) {
+    const stages = toDealStages(cached);
+    const known = (need.ids || []).every((id) => stages.labels.has(id)) &&
+      (need.labels || []).every((label) => stages.ids.has(label.toLowerCase()));
+    if (known) return stages;
+  }
+
+  const result = await hubspotRequest(auth, "/crm/v3/pipelines/deals");
+  const stages = (result.results || []).flatMap((pipeline: any) =>
+    (pipeline.stages || []).map((stage: any) => ({ id: String(stage.id), label: String(stage.label) }))
+  );
+  await ctx.runMutation(internal.hubspot.saveDealStages, { portalId: auth.portalId, stages });
+  return toDealStages(stages);
+}
+
+function stageLabelsIn(fields: Record<string, any>): string[] {
+  return typeof fields.StageName === "string" ? [fields.StageName] : [];
+}
+
+async function searchObject(
+  ctx: any,
+  auth: HubspotAuth,
+  objectType: string,
+  body: Record<string, any>
+): Promise<{ records: any[]; totalSize: number }> {
+  const object = hubspotObject(objectType);
+  const result = await hubspotRequest(auth, `/crm/v3/objects/${object.name}/search`, {
+    method: "POST",
+    body: JSON.stringify({ properties: Object.values(object.fields), ...body }),
+  });
+  const stageIds = (result.results || []).map((r: any) => r.properties?.dealstage).filter(Boolean);
+  const stageLabels = object === DEAL ? (await dealStages(ctx, auth, { ids: stageIds })).labels : undefined;
+  return {
+    records: (result.results || []).map((r: any) => toSalesforceRecord(objectType, r, stageLabels)),
+    totalSize: result.total ?? result.results?.length ?? 0,
+  };
+}
+
+/**
+ * Which of the given object types a bare record ID belongs to
+ */
+async function findObjectType(auth: HubspotAuth, recordId: string, candidates: string[]): Promise<string | undefined> {
+  for (const objectType of candidates) {
+    try {
+      await hubspotRequest(auth, `/crm/v3/objects/${hubspotObject(objectType).name}/${recordId}`);
+      return objectType;
+    } catch (e: any) {
+      if (!/\b404\b/.test(e.message)) throw e;
+    }
+  }
+  return undefined;
+}
+
+// ============================================================================
+// DEAL STAGE CACHE
+// ============================================================================
+
+export const getCachedDealStages = internalQuery({
+  args: { portalId: v.string() },
+  handler: async (ctx, args) => {
+    const row = await ctx.db
+      .query("hubspotDealStages")
+      .withIndex("by_portal", (q) => q.eq("portalId", args.portalId))
+      .first();
+    return row && row.expiresAt > Date.now() ? row.stages : null;
+  },
+});
+
+export const saveDealStages = internalMutation({
+  args: {
+    portalId: v.string(),
+    stages: v.array(v.object({ id: v.string(), label: v.string() })),
+  },
+  handler: async (ctx, args) => {
+    const expiresAt = Date.now() + DEAL_STAGES_TTL_MS;
+    const existing = await ctx.db
+      .query("hubspotDealStages")
+      .withIndex("by_portal", (q) => q.eq("portalId", args.portalId))
+      .first();
+    if (existing) {
+      await ctx.db.patch("hubspotDealStages", existing._id, { stages: args.stages, expiresAt });
+    } else {
+      await ctx.db.insert("hubspotDealStages", { ...args, expiresAt });
+    }
+  },
+});
+
+// ============================================================================
+// INTERNAL QUERIES/MUTATIONS FOR AUTH
+// ============================================================================
+
+export const getAuthForUser = internalQuery({
+  args: {
+    userId: v.id("users"),
+  },
+  handler: async (ctx, args) => {
+    return await ctx.db
+      .query("hubspotAuth")
+      .withIndex("by_user", (q) => q.eq("userId", args.userId))
+      .first();
+  },
+});
+
+export const updateAuthForUser = internalMutation({
+  args: {
+    userId: v.id("users"),
+    accessToken: v.string(),
+    refreshToken: v.string(),
+    expiresAt: v.number(),
+    portalId: v.string(),
+    ownerId: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const existing = await ctx.db
+      .query("hubspotAuth")
+      .withIndex("by_user", (q) => q.eq("userId", args.userId))
+      .first();
+
+    if (existing) {
+      await ctx.db.patch("hubspotAuth", existing._id, args);
+    } else {
+      await ctx.db.insert("hubspotAuth", args);
+    }
+  },
+});
+
+export const clearAuthForUser = internalMutation({
+  args: {
+    userId: v.id("users"),
+  },
+  handler: async (ctx, args) => {
+    const existing = await ctx.db
+      .query("hubspotAuth")
+      .withIndex("by_user", (q) => q.eq("userId", args.userId))
+      .first();
+    if (existing) {
+      await ctx.db.delete("hubspotAuth", existing._id);
+    }
+  },
+});
+
+// How long a connect link stays usable
+const OAUTH_STATE_TTL_MS = 10 * 60 * 1000;
+
+/**
+ * Start connecting the signed-in user's HubSpot: returns the HubSpot
+ * authorize URL to send the browser to. The user comes from the session, never
+ * from the request, and the OAuth state is a random one-time nonce, so a
+ * callback can't bind a portal to anyone else.
+ */
+export const startConnect = mutation({
+  args: {
+    returnUrl: v.optional(v.string()),
+  },
+  handler: async (ctx, args): Promise<string> => {
+    const userId = await getAuthenticatedUserId(ctx);
+    if (!userId) {
+      throw new Error("Sign in to connect HubSpot");
+    }
+    const clientId = process.env.HUBSPOT_CLIENT_ID;
+    const redirectUri = process.env.HUBSPOT_REDIRECT_URI;
+    if (!clientId || !redirectUri) {
+      throw new Error("HubSpot OAuth isn't configured. Set HUBSPOT_CLIENT_ID and HUBSPOT_REDIRECT_URI.");
+    }
+
+    const now = Date.now();
+    const expired = await ctx.db
+      .query("hubspotOAuthStates")
+      .withIndex("by_expires", (q) => q.lt("expiresAt", now))
+      .take(100);
+    for (const row of expired) {
+      await ctx.db.delete("hubspotOAuthStates", row._id);
+    }
+
+    const state = crypto.randomUUID();
+    await ctx.db.insert("hubspotOAuthStates", {
+      state,
+      userId,
+      returnUrl: args.returnUrl || process.env.TALKCRM_WEB_URL,
+      expiresAt: now + OAUTH_STATE_TTL_MS,
+    });
+
+    const authUrl = new URL(`${HUBSPOT_APP_URL}/oauth/authorize`);
+    authUrl.searchParams.set("client_id", clientId);
+    authUrl.searchParams.set("redirect_uri", redirectUri);
+    authUrl.searchParams.set("scope", HUBSPOT_SCOPES.join(" "));
+    authUrl.searchParams.set("state", state);
+    return authUrl.toString();
+  },
+});
+
+/**
+ * Use up a state from the callback - null if it's unknown, used or expired
+ */
+export const consumeOAuthState = internalMutation({
+  args: { state: v.string() },
+  handler: async (ctx, args) => {
+    const row = await ctx.db
+      .query("hubspotOAuthStates")
+      .withIndex("by_state", (q) => q.eq("state", args.state))
+      .first();
+    if (!row) return null;
+    await ctx.db.delete("hubspotOAuthStates", row._id);
+    if (row.expiresAt < Date.now()) return null;
+    return { userId: row.userId, returnUrl: row.returnUrl };
+  },
+});
+
+/**
+ * Disconnect HubSpot - the user goes back to Salesforce
+ */
+export const disconnect = mutation({
+  args: {
+    userId: v.id("users"),
+  },
+  handler: async (ctx, args) => {
+    await requireAuthenticatedUser(ctx, args.userId);
+
+    const existing = await ctx.db
+      .query("hubspotAuth")
+      .withIndex("by_user", (q) => q.eq("userId", args.userId))
+      .first();
+    if (existing) {
+      await ctx.db.delete("hubspotAuth", existing._id);
+    }
+    return { success: true };
+  },
+});
+
+/**
+ * Finish the OAuth flow: swap the code for tokens and find the user's
+ * account and owner ID (see /auth/hubspot/callback in http.ts)
+ */
+export const completeOAuth = internalAction({
+  args: {
+    userId: v.id("users"),
+    code: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const redirectUri = process.env.HUBSPOT_REDIRECT_URI;
+    if (!redirectUri) {
+      throw new Error("HubSpot OAuth isn't configured. Set HUBSPOT_REDIRECT_URI.");
+    }
+    const tokens = await requestTokens({ grant_type: "authorization_code", redirect_uri: redirectUri, code: args.code });
+
+    const infoResponse = await fetch(`${HUBSPOT_API_URL}/oauth/v1/access-tokens/${tokens.accessToken}`);
+    if (!infoResponse.ok) {
+      throw new Error(`HubSpot token lookup failed: ${infoResponse.status} - ${await infoResponse.text()}`);
+    }
+    const info = await infoResponse.json();
+    const auth: HubspotAuth = { accessToken: tokens.accessToken, portalId: String(info.hub_id) };
+
+    // Owners are HubSpot's record owners - matched to the user by email
+    let ownerId: string | undefined;
+    try {
+      const owners = await hubspotRequest(auth, `/crm/v3/owners/?email=${encodeURIComponent(info.user)}&limit=1`);
+      ownerId = owners.results?.[0]?.id;
+    } catch (e) {
+      console.error("Could not look up the HubSpot owner:", e);
+    }
+
+    await ctx.runMutation(internal.hubspot.updateAuthForUser, {
+      userId: args.userId,
+      ...tokens,
+      portalId: auth.portalId,
+      ownerId,
+    });
+    return { portalId: auth.portalId, email: info.user as string };
+  },
+});
+
+// ============================================================================
+// HUBSPOT ACTIONS
+// ============================================================================
+
+/**
+ * Search records by name or keyword. Without an object type, companies,
+ * contacts and deals are all searched.
+ * Example: "Find the Acme deal"
+ */
+export const searchRecords = action({
+  args: {
+    query: v.string(),
+    objectType: v.optional(v.string()),
+    limit: v.optional(v.number()),
+    userId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const auth = await getHubspotAuth(ctx, args.userId);
+    const limit = args.limit || 10;
+
+    const types = args.objectType ? [args.objectType] : DEFAULT_SEARCH_TYPES;
+    const results = await Promise.all(
+      types.map((objectType) => searchObject(ctx, auth, objectType, {
+        query: args.query,
+        limit,
+        // Only the contacts that are leads
+        ...(objectType === "Lead"
+          ? { filterGroups: [{ filters: [{ propertyName: "lifecyclestage", operator: "EQ", value: "lead" }] }] }
+          : {}),
+      }))
+    );
+
+    const records = results.flatMap((r) => r.records).slice(0, limit);
+    return { records, totalSize: records.length };
+  },
+});
+
+/**
+ * Get a single record by ID
+ * Example: "Tell me about the Acme deal"
+ */
+export const getRecord = action({
+  args: {
+    recordId: v.string(),
+    objectType: v.string(),
+    fields: v.optional(v.array(v.string())),
+    userId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const auth = await getHubspotAuth(ctx, args.userId);
+    const object = hubspotObject(args.objectType);
+
+    const properties = args.fields && args.fields.length > 0
+      ? args.fields.map((field) => toProperty(object, field))
+      : Object.values(object.fields);
+    const result = await hubspotRequest(
+      auth,
+      `/crm/v3/objects/${object.name}/${args.recordId}?properties=${encodeURIComponent(properties.join(","))}`
+    );
+
+    const stageId = result.properties?.dealstage;
+    const stageLabels = properties.includes("dealstage")
+      ? (await dealStages(ctx, auth, { ids: stageId ? [stageId] : [] })).labels
+      : undefined;
+    return toSalesforceRecord(args.objectType, result, stageLabels);
+  },
+});
+
+/**
+ * Create a new record
+ * Example: "Create a deal for Acme, $50k, closing end of quarter"
+ */
+export const createRecord = action({
+  args: {
+    objectType: v.string(),
+    fields: v.any(),
+    userId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const auth = await getHubspotAuth(ctx, args.userId);
+    const object = hubspotObject(args.objectType);
+
+    let stageIds: Map<string, string> | undefined;
+    if (object === DEAL) stageIds = (await dealStages(ctx, auth, { labels: stageLabelsIn(args.fields) })).ids;
+    const properties = toHubspotProperties(args.objectType, args.fields, stageIds);
+    // Deals need a stage, tasks a due time; new records belong to the user
+    if (object === DEAL && !properties.dealstage && stageIds) {
+      properties.dealstage = stageIds.values().next().value;
+    }
+    if (object === TASK && !properties.hs_timestamp) properties.hs_timestamp = new Date().toISOString();
+    if (object.fields.OwnerId && !properties.hubspot_owner_id && auth.ownerId) {
+      properties.hubspot_owner_id = auth.ownerId;
+    }
+
+    const result = await hubspotRequest(auth, `/crm/v3/objects/${object.name}`, {
+      method: "POST",
+      body: JSON.stringify({ properties }),
+    });
+
+    return {
+      success: true,
+      id: result.id,
+      recordUrl: recordUrl(auth, args.objectType, result.id),
+      objectType: args.objectType,
+      message: `Created new ${args.objectType} with ID ${result.id}`,
+    };
+  },
+});
+
+/**
+ * Update an existing record
+ * Example: "Move the Acme deal to Closed Won"
+ */
+export const updateRecord = action({
+  args: {
+    recordId: v.string(),
+    objectType: v.string(),
+    fields: v.any(),
+    userId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const auth = await getHubspotAuth(ctx, args.userId);
+    const object = hubspotObject(args.objectType);
+
+    const stageIds = object === DEAL && "StageName" in args.fields
+      ? (await dealStages(ctx, auth, { labels: stageLabelsIn(args.fields) })).ids
+      : undefined;
+    await hubspotRequest(auth, `/crm/v3/objects/${object.name}/${args.recordId}`, {
+      method: "PATCH",
+      body: JSON.stringify({ properties: toHubspotProperties(args.objectType, args.fields, stageIds) }),
+    });
+
+    return {
+      success: true,
+      message: `Updated ${args.objectType} ${args.recordId}`,
+    };
+  },
+});
+
+/**
+ * Delete (archive) a record
+ */
+export const deleteRecord = action({
+  args: {
+    recordId: v.string(),
+    objectType: v.string(),
+    userId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const auth = await getHubspotAuth(ctx, args.userId);
+
+    await hubspotRequest(auth, `/crm/v3/objects/${hubspotObject(args.objectType).name}/${args.recordId}`, {
+      method: "DELETE",
+    });
+
+    return {
+      success: true,
+      message: `Deleted ${args.objectType} ${args.recordId}`,
+    };
+  },
+});
+
+/**
+ * Log a completed call, associated with the contact (whoId) and the company,
+ * deal or ticket (whatId) it was about
+ * Example: "Log this call on the Acme deal"
+ */
+export const logCall = action({
+  args: {
+    whoId: v.optional(v.string()),
+    whatId: v.optional(v.string()),
+    whatType: v.optional(v.string()), // Account, Opportunity or Case - looked up when missing
+    subject: v.string(),
+    description: v.optional(v.string()),
+    durationMinutes: v.optional(v.number()),
+    durationSeconds: v.optional(v.number()),
+    activityDate: v.optional(v.string()), // YYYY-MM-DD
+    userId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const auth = await getHubspotAuth(ctx, args.userId);
+
+    // HubSpot IDs don't say what they are - try the likeliest first
+    const whatType = args.whatId
+      ? args.whatType || await findObjectType(auth, args.whatId, ["Opportunity", "Account", "Case"])
+      : undefined;
+    const associations = [
+      args.whoId && { id: args.whoId, ...CALL_ASSOCIATIONS.Contact },
+      args.whatId && whatType && CALL_ASSOCIATIONS[whatType] && { id: args.whatId, ...CALL_ASSOCIATIONS[whatType] },
+    ]
+      .filter((a): a is { id: string; object: string; typeId: number } => !!a)
+      .map((a) => ({
+        to: { id: a.id },
+        types: [{ associationCategory: "HUBSPOT_DEFINED", associationTypeId: a.typeId }],
+      }));
+
+    const durationSeconds = args.durationSeconds ?? (args.durationMinutes || 5) * 60;
+    const result = await hubspotRequest(auth, "/crm/v3/objects/calls", {
+      method: "POST",
+      body: JSON.stringify({
+        properties: {
+          hs_call_title: args.subject,
+          hs_call_body: args.description || "",
+          hs_call_status: "COMPLETED",
+          hs_call_duration: String(durationSeconds * 1000),
+          hs_timestamp: args.activityDate ? `${args.activityDate}T12:00:00.000Z` : new Date().toISOString(),
+          ...(auth.ownerId ? { hubspot_owner_id: auth.ownerId } : {}),
+        },
+        associations,
+      }),
+    });
+
+    return {
+      success: true,
+      taskId: result.id,
+      recordUrl: recordUrl(auth, "Call", result.id),
+      message: `Logged call activity with ID ${result.id}`,
+    };
+  },
+});
+
+/**
+ * Get current user's tasks
+ * Example: "What tasks do I have today?"
+ */
+export const getMyTasks = action({
+  args: {
+    status: v.optional(v.string()), // open, completed
+    dueDate: v.optional(v.string()), // today, this_week, overdue
+    userId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const auth = await getHubspotAuth(ctx, args.userId);
+
+    const filters: Record<string, any>[] = [{ propertyName: "hubspot_owner_id", operator: "EQ", value: requireOwner(auth) }];
+    if (args.status === "open" || args.dueDate === "overdue") {
+      filters.push({ propertyName: "hs_task_status", operator: "NEQ", value: "COMPLETED" });
+    } else if (args.status === "completed") {
+      filters.push({ propertyName: "hs_task_status", operator: "EQ", value: "COMPLETED" });
+    }
+
+    // Days are UTC days here
+    if (args.dueDate === "today") {
+      const [start, end] = dayRange(0);
+      filters.push({ propertyName: "hs_timestamp", operator: "BETWEEN", value: String(start), highValue: String(end) });
+    } else if (args.dueDate === "this_week") {
+      const weekday = (new Date().getUTCDay() + 6) % 7; // Monday = 0
+      const [start, end] = dayRange(-weekday, 7);
+      filters.push({ propertyName: "hs_timestamp", operator: "BETWEEN", value: String(start), highValue: String(end) });
+    } else if (args.dueDate === "overdue") {
+      filters.push({ propertyName: "hs_timestamp", operator: "LT", value: String(dayRange(0)[0]) });
+    }
+
+    const result = await searchObject(ctx, auth, "Task", {
+      filterGroups: [{ filters }],
+      sorts: [{ propertyName: "hs_timestamp", direction: "ASCENDING" }],
+      limit: 20,
+    });
+
+    return {
+      tasks: result.records.map((t) => ({
+        id: t.Id,
+        subject: t.Subject,
+        status: t.Status,
+        priority: t.Priority,
+        dueDate: t.ActivityDate,
+        relatedTo: "None", // Search results don't carry associations
+      })),
+      count: result.totalSize,
+    };
+  },
+});
+
+/**
+ * Get current user's deals, in the same shape as Salesforce's pipeline
+ * Example: "What's in my pipeline this quarter?"
+ */
+export const getMyDeals = action({
+  args: {
+    stage: v.optional(v.string()), // open, won, lost
+    closeDate: v.optional(v.string()), // this_month, this_quarter, next_quarter
+    userId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const auth = await getHubspotAuth(ctx, args.userId);
+
+    const filters: Record<string, any>[] = [{ propertyName: "hubspot_owner_id", operator: "EQ", value: requireOwner(auth) }];
+    if (args.stage === "open") {
+      filters.push({ propertyName: "hs_is_closed", operator: "EQ", value: "false" });
+    } else if (args.stage === "won") {
+      filters.push({ propertyName: "hs_is_closed_won", operator: "EQ", value: "true" });
+    } else if (args.stage === "lost") {
+      filters.push({ propertyName: "hs_is_closed", operator: "EQ", value: "true" });
+      filters.push({ propertyName: "hs_is_closed_won", operator: "EQ", value: "false" });
+    }
+
+    // Calendar months and quarters, UTC
+    const range = args.closeDate === "this_month" ? monthRange(0)
+      : args.closeDate === "this_quarter" ? quarterRange(0)
+      : args.closeDate === "next_quarter" ? quarterRange(1)
+      : undefined;
+    if (range) {
+      filters.push({ propertyName: "closedate", operator: "BETWEEN", value: String(range[0]), highValue: String(range[1]) });
+    }
+
+    const result = await searchObject(ctx, auth, "Opportunity", {
+      filterGroups: [{ filters }],
+      properties: [...Object.values(DEAL.fields), "hs_deal_stage_probability"],
+      sorts: [{ propertyName: "closedate", direction: "ASCENDING" }],
+      limit: 25,
+    });
+
+    const totalAmount = result.records.reduce((sum: number, d: any) => sum + (d.Amount || 0), 0);
+
+    return {
+      opportunities: result.records.map((d) => ({
+        id: d.Id,
+        name: d.Name,
+        amount: d.Amount,
+        stage: d.StageName,
+        closeDate: d.CloseDate,
+        accountName: undefined, // Search results don't carry associations
+        probability: d.hs_deal_stage_probability ? Math.round(Number(d.hs_deal_stage_probability) * 100) : undefined,
+      })),
+      count: result.totalSize,
+      totalAmount,
+      summary: `You have ${result.totalSize} deals totaling $${totalAmount.toLocaleString()}`,
+    };
+  },
+});
+
+/**
+ * Describe an object's properties
+ */
+export const describeObject = action({
+  args: {
+    objectType: v.string(),
+    userId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const auth = await getHubspotAuth(ctx, args.userId);
+    const object = hubspotObject(args.objectType);
+    const result = await hubspotRequest(auth, `/crm/v3/properties/${object.name}`);
+
+    const fieldFor = new Map(Object.entries(object.fields).map(([field, property]) => [property, field]));
+    return {
+      name: args.objectType,
+      label: object.name,
+      fields: (result.results || []).slice(0, 50).map((p: any) => ({
+        name: fieldFor.get(p.name) || p.name,
+        label: p.label,
+        type: p.type,
+        required: false, // HubSpot doesn't mark properties as required
+      })),
+    };
+  },
+});
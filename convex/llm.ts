@@ -0,0 +1,183 @@
+import { internal } from "./_generated/api";
+import { Id } from "./_generated/dataModel";
+import { anthropicProvider } from "./llmAnthropic";
+import { openAICompatibleProvider } from "./llmOpenAI";
+import { stubProvider } from "./llmStub";
+import { DEFAULT_REDACTED_KINDS, PiiKind, withRedaction } from "./redaction";
+
+// ============================================================================
+// LLM PROVIDER LAYER
+// Every model call goes through an LLMProvider so the assistant, session
+// summaries and coaching chat can run against Anthropic, any OpenAI-compatible
+// endpoint, or the offline fixture stub (no network, deterministic).
+// ============================================================================
+
+export type LLMProviderName = "anthropic" | "openai" | "stub";
+
+// Features that call a model - each can be tuned separately, per tenant
+export type LLMFeature = "assistant" | "sessionSummary" | "coachingChat" | "callExtraction" | "recommendations";
+
+export interface LLMTool {
+  name: string;
+  description: string;
+  inputSchema: Record<string, any>; // JSON Schema for the tool input
+}
+
+export interface LLMToolCall {
+  id: string;
+  name: string;
+  input: Record<string, any>;
+}
+
+// Provider-neutral conversation format
+export type LLMMessage =
+  | { role: "user"; content: string }
+  | { role: "assistant"; content: string; toolCalls?: LLMToolCall[] }
+  | { role: "tool"; toolCallId: string; content: string; isError?: boolean };
+
+// System prompt section - cached blocks form a prefix the provider can reuse
+// across calls (Anthropic prompt caching); put the stable ones first
+export interface LLMSystemBlock {
+  text: string;
+  cache?: boolean;
+}
+
+export interface LLMUsage {
+  inputTokens: number; // Uncached input
+  outputTokens: number;
+  cacheReadTokens?: number;
+  cacheWriteTokens?: number;
+}
+
+export interface LLMRequest {
+  system?: string | LLMSystemBlock[];
+  messages: LLMMessage[];
+  tools?: LLMTool[];
+  toolChoice?: "auto" | "any" | "none"; // "any" forces a tool call
+  model: string;
+  maxTokens: number;
+  temperature?: number;
+  feature?: LLMFeature; // Lets the stub pick feature-specific fixtures
+}
+
+export interface LLMResponse {
+  text: string;
+  toolCalls: LLMToolCall[];
+  stopReason?: string;
+  usage?: LLMUsage;
+}
+
+export interface LLMProvider {
+  name: LLMProviderName;
+  chat(request: LLMRequest): Promise<LLMResponse>;
+  // JSON-mode: returns the parsed object (schema is a JSON Schema hint)
+  chatJson<T = any>(request: LLMRequest, schema?: Record<string, any>): Promise<T>;
+  // Streams text deltas to onText, resolves with the full response
+  stream(request: LLMRequest, onText: (delta: string) => void): Promise<LLMResponse>;
+}
+
+export interface LLMSettings {
+  provider: LLMProviderName;
+  model: string;
+  maxTokens: number;
+  temperature?: number;
+}
+
+// Built-in defaults per feature (Anthropic models)
+const FEATURE_DEFAULTS: Record<LLMFeature, { model: string; maxTokens: number; temperature?: number }> = {
+  assistant: { model: "claude-opus-4-5-20251101", maxTokens: 1024 },
+  sessionSummary: { model: "claude-opus-4-5-20251101", maxTokens: 400 },
+  coachingChat: { model: "claude-opus-4-5-20251101", maxTokens: 300 }, // Keep responses concise for voice
+  callExtraction: { model: "claude-opus-4-5-20251101", maxTokens: 800 },
+  recommendations: { model: "claude-opus-4-5-20251101", maxTokens: 400 },
+};
+
+function defaultModel(provider: LLMProviderName, feature: LLMFeature): string {
+  switch (provider) {
+    case "anthropic":
+      return FEATURE_DEFAULTS[feature].model;
+    case "openai":
+      return process.env.OPENAI_MODEL || "gpt-4o";
+    case "stub":
+      return "stub";
+  }
+}
+
+function parseProviderName(value: string | undefined): LLMProviderName | undefined {
+  if (value === "anthropic" || value === "openai" || value === "stub") return value;
+  if (value) console.warn(`Unknown LLM provider "${value}" - falling back to anthropic`);
+  return undefined;
+}
+
+/**
+ * System prompt as one string, for providers without block-level caching
+ */
+export function systemText(system: LLMRequest["system"]): string | undefined {
+  if (system === undefined || typeof system === "string") return system;
+  return system.map((block) => block.text).join("");
+}
+
+/**
+ * Create a provider by name - throws if it isn't configured
+ */
+export function createProvider(name: LLMProviderName): LLMProvider {
+  switch (name) {
+    case "anthropic":
+      return anthropicProvider();
+    case "openai":
+      return openAICompatibleProvider();
+    case "stub":
+      return stubProvider();
+  }
+}
+
+/**
+ * Resolve provider and settings for a feature. The provider redacts PII per
+ * the tenant's policy (see redaction.ts).
+ * Precedence: tenant override for the feature → tenant default ("*") →
+ * environment (LLM_PROVIDER, LLM_MODEL) → built-in feature defaults.
+ */
+export async function resolveLLM(
+  ctx: any,
+  feature: LLMFeature,
+  userId?: Id<"users">
+): Promise<{ provider: LLMProvider; settings: LLMSettings }> {
+  let overrides: {
+    provider?: LLMProviderName;
+    model?: string;
+    maxTokens?: number;
+    temperature?: number;
+  } = {};
+  if (userId) {
+    try {
+      overrides = (await ctx.runQuery(internal.llmConfig.getTenantConfig, { userId, feature })) || {};
+    } catch (e) {
+      console.error("Failed to load tenant LLM config:", e);
+    }
+  }
+
+  const providerName =
+    overrides.provider || parseProviderName(process.env.LLM_PROVIDER) || "anthropic";
+  const defaults = FEATURE_DEFAULTS[feature];
+  const settings: LLMSettings = {
+    provider: providerName,
+    // LLM_MODEL only applies to the environment's provider, not a tenant's own choice
+    model: overrides.model
+      || (overrides.provider ? undefined : process.env.LLM_MODEL)
+      || defaultModel(providerName, feature),
+    maxTokens: overrides.maxTokens ?? defaults.maxTokens,
+    temperature: overrides.temperature ?? defaults.temperature,
+  };
+
+  // Tenant PII policy applies to every model call, whatever the provider
+  let redactedKinds: PiiKind[] = DEFAULT_REDACTED_KINDS;
+  if (userId) {
+    try {
+      redactedKinds = (await ctx.runQuery(internal.redactionPolicy.getForUser, { userId })).llm;
+    } catch (e) {
+      console.error("Failed to load redaction policy:", e);
+    }
+  }
+
+  return { provider: withRedaction(createProvider(providerName), redactedKinds), settings };
+}
@@ -0,0 +1,140 @@
+import Anthropic from "@anthropic-ai/sdk";
+import type { LLMMessage, LLMProvider, LLMRequest, LLMResponse } from "./llm";
+
+// ============================================================================
+// ANTHROPIC PROVIDER
+// Messages API via the official SDK. Needs ANTHROPIC_API_KEY.
+// ============================================================================
+
+// Forced tool used to get structured output in JSON mode
+const JSON_TOOL_NAME = "emit_json";
+
+export function anthropicProvider(): LLMProvider {
+  const apiKey = process.env.ANTHROPIC_API_KEY;
+  if (!apiKey) {
+    throw new Error("ANTHROPIC_API_KEY is not configured");
+  }
+  const client = new Anthropic({ apiKey });
+
+  return {
+    name: "anthropic",
+
+    async chat(request) {
+      const response = await client.messages.create(toAnthropicParams(request));
+      return fromAnthropicMessage(response);
+    },
+
+    async chatJson(request, schema) {
+      // Claude has no JSON mode - force a single tool call whose input is the object
+      const response = await client.messages.create({
+        ...toAnthropicParams({ ...request, tools: undefined, toolChoice: undefined }),
+        tools: [{
+          name: JSON_TOOL_NAME,
+          description: "Return the result as a JSON object.",
+          input_schema: (schema || { type: "object" }) as Anthropic.Tool.InputSchema,
+        }],
+        tool_choice: { type: "tool", name: JSON_TOOL_NAME },
+      });
+      const toolUse = response.content.find(
+        (block): block is Anthropic.ToolUseBlock => block.type === "tool_use"
+      );
+      if (!toolUse) {
+        throw new Error("Model did not return JSON");
+      }
+      return toolUse.input as any;
+    },
+
+    async stream(request, onText) {
+      const stream = client.messages.stream(toAnthropicParams(request));
+      stream.on("text", (delta) => onText(delta));
+      return fromAnthropicMessage(await stream.finalMessage());
+    },
+  };
+}
+
+function toAnthropicParams(request: LLMRequest): Anthropic.MessageCreateParamsNonStreaming {
+  const params: Anthropic.MessageCreateParamsNonStreaming = {
+    model: request.model,
+    max_tokens: request.maxTokens,
+    messages: toAnthropicMessages(request.messages),
+  };
+  if (typeof request.system === "string") {
+    params.system = request.system;
+  } else if (request.system?.length) {
+    // A cache breakpoint caches everything before it too (tools included)
+    params.system = request.system.map((block): Anthropic.TextBlockParam => ({
+      type: "text",
+      text: block.text,
+      ...(block.cache ? { cache_control: { type: "ephemeral" } } : {}),
+    }));
+  }
+  if (request.temperature !== undefined) params.temperature = request.temperature;
+  if (request.tools && request.tools.length > 0) {
+    params.tools = request.tools.map((tool) => ({
+      name: tool.name,
+      description: tool.description,
+      input_schema: tool.inputSchema as Anthropic.Tool.InputSchema,
+    }));
+    if (request.toolChoice) params.tool_choice = { type: request.toolChoice };
+  }
+  return params;
+}
+
+/**
+ * Neutral messages → Anthropic turns. Consecutive tool results are grouped
+ * into one user turn, as the API requires.
+ */
+function toAnthropicMessages(messages: LLMMessage[]): Anthropic.MessageParam[] {
+  const result: Anthropic.MessageParam[] = [];
+
+  for (const message of messages) {
+    if (message.role === "tool") {
+      const block: Anthropic.ToolResultBlockParam = {
+        type: "tool_result",
+        tool_use_id: message.toolCallId,
+        content: message.content,
+      };
+      if (message.isError) block.is_error = true;
+
+      const previous = result[result.length - 1];
+      if (previous?.role === "user" && Array.isArray(previous.content)) {
+        previous.content.push(block);
+      } else {
+        result.push({ role: "user", content: [block] });
+      }
+      continue;
+    }
+
+    if (message.role === "assistant" && message.toolCalls?.length) {
+      const content: Anthropic.ContentBlockParam[] = [];
+      if (message.content) content.push({ type: "text", text: message.content });
+      for (const call of message.toolCalls) {
+        content.push({ type: "tool_use", id: call.id, name: call.name, input: call.input });
+      }
+      result.push({ role: "assistant", content });
+      continue;
+    }
+
+    result.push({ role: message.role, content: message.content });
+  }
+
+  return result;
+}
+
+function fromAnthropicMessage(message: Anthropic.Message): LLMResponse {
+  return {
+    text: message.content
+      .map((block) => (block.type === "text" ? block.text : ""))
+      .join(""),
+    toolCalls: message.content
+      .filter((block): block is Anthropic.ToolUseBlock => block.type === "tool_use")
+      .map((block) => ({ id: block.id, name: block.name, input: (block.input || {}) as Record<string, any> })),
+    stopReason: message.stop_reason || undefined,
+    usage: {
+      inputTokens: message.usage.input_tokens,
+      outputTokens: message.usage.output_tokens,
+      cacheReadTokens: message.usage.cache_read_input_tokens ?? undefined,
+      cacheWriteTokens: message.usage.cache_creation_input_tokens ?? undefined,
+    },
+  };
+}
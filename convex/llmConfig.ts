@@ -0,0 +1,133 @@
+import { v } from "convex/values";
+import { internalQuery, mutation, query } from "./_generated/server";
+import { instanceUrlForUser } from "./salesforceOrg";
+import { requireAuthenticatedUser } from "./users";
+
+// ============================================================================
+// PER-ORG LLM SETTINGS
+// Overrides are keyed by Salesforce org (normalized instance URL) and feature;
+// feature "*" applies to every feature without its own row.
+// ============================================================================
+
+const llmProvider = v.union(v.literal("anthropic"), v.literal("openai"), v.literal("stub"));
+
+const llmFeature = v.union(
+  v.literal("assistant"),
+  v.literal("sessionSummary"),
+  v.literal("coachingChat"),
+  v.literal("callExtraction"),
+  v.literal("recommendations"),
+  v.literal("*")
+);
+
+/**
+ * Effective overrides for a user's org and feature (feature row wins over "*")
+ */
+export const getTenantConfig = internalQuery({
+  args: {
+    userId: v.id("users"),
+    feature: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const instanceUrl = await instanceUrlForUser(ctx, args.userId);
+    if (!instanceUrl) return null;
+
+    const rows = await ctx.db
+      .query("llmConfigs")
+      .withIndex("by_instance_feature", (q) => q.eq("instanceUrl", instanceUrl))
+      .collect();
+    const fallback = rows.find((row) => row.feature === "*");
+    const specific = rows.find((row) => row.feature === args.feature);
+    if (!fallback && !specific) return null;
+
+    return {
+      provider: specific?.provider ?? fallback?.provider,
+      model: specific?.model ?? fallback?.model,
+      temperature: specific?.temperature ?? fallback?.temperature,
+      maxTokens: specific?.maxTokens ?? fallback?.maxTokens,
+    };
+  },
+});
+
+/**
+ * List the LLM overrides for the user's org
+ */
+export const listTenantConfigs = query({
+  args: { userId: v.id("users") },
+  handler: async (ctx, args) => {
+    const instanceUrl = await instanceUrlForUser(ctx, args.userId);
+    if (!instanceUrl) return [];
+
+    return await ctx.db
+      .query("llmConfigs")
+      .withIndex("by_instance_feature", (q) => q.eq("instanceUrl", instanceUrl))
+      .collect();
+  },
+});
+
+/**
+ * Set (or clear, when no settings are given) the LLM overrides for a feature
+ * in the user's org
+ */
+export const setTenantConfig = mutation({
+  args: {
+    userId: v.id("users"),
+    feature: llmFeature,
+    provider: v.optional(llmProvider),
+    model: v.optional(v.string()),
+    temperature: v.optional(v.number()),
+    maxTokens: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    await requireAuthenticatedUser(ctx, args.userId);
+
+    const instanceUrl = await instanceUrlForUser(ctx, args.userId);
+    if (!instanceUrl) {
+      throw new Error("No Salesforce connection");
+    }
+
+    if (args.temperature !== undefined && (args.temperature < 0 || args.temperature > 2)) {
+      throw new Error("Temperature must be between 0 and 2");
+    }
+    if (args.maxTokens !== undefined && (args.maxTokens < 1 || args.maxTokens > 8192)) {
+      throw new Error("Max tokens must be between 1 and 8192");
+    }
+
+    const existing = await ctx.db
+      .query("llmConfigs")
+      .withIndex("by_instance_feature", (q) =>
+        q.eq("instanceUrl", instanceUrl).eq("feature", args.feature)
+      )
+      .first();
+
+    const settings = {
+      provider: args.provider,
+      model: args.model,
+      temperature: args.temperature,
+      maxTokens: args.maxTokens,
+    };
+    const isEmpty = Object.values(settings).every((value) => value === undefined);
+
+    if (existing) {
+      if (isEmpty) {
+        await ctx.db.delete("llmConfigs", existing._id);
+      } else {
+        await ctx.db.replace("llmConfigs", existing._id, {
+          instanceUrl,
+          feature: args.feature,
+          ...settings,
+          updatedAt: Date.now(),
+        });
+      }
+    } else if (!isEmpty) {
+      await ctx.db.insert("llmConfigs", {
+        instanceUrl,
+        feature: args.feature,
+        ...settings,
+        updatedAt: Date.now(),
+      });
+    }
+
+    return { success: true };
+  },
+});
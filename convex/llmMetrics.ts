@@ -0,0 +1,85 @@
+import { v } from "convex/values";
+import { internalMutation, query } from "./_generated/server";
+
+// ============================================================================
+// LLM METRICS
+// One row per assistant turn: tokens (cached and uncached), model latency and
+// how the org context was sent, so prompt changes can be compared on real
+// traffic (ORG_PROMPT_MODE=legacy gives the uncached, send-everything baseline).
+// ============================================================================
+
+const DEFAULT_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+
+export const record = internalMutation({
+  args: {
+    userId: v.optional(v.id("users")),
+    feature: v.string(),
+    provider: v.string(),
+    model: v.string(),
+    channel: v.optional(v.string()),
+    inputTokens: v.number(),
+    outputTokens: v.number(),
+    cacheReadTokens: v.number(),
+    cacheWriteTokens: v.number(),
+    latencyMs: v.number(),
+    rounds: v.number(),
+    orgContextMode: v.string(),
+    orgContextTokens: v.number(),
+    objectsSent: v.number(),
+    objectsTotal: v.number(),
+    promptVersion: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    await ctx.db.insert("llmMetrics", { ...args, timestamp: Date.now() });
+  },
+});
+
+/**
+ * Averages per org-context mode over a time window - the before/after view
+ */
+export const getPromptMetrics = query({
+  args: {
+    since: v.optional(v.number()), // Default: the last 7 days
+    userId: v.optional(v.id("users")),
+  },
+  handler: async (ctx, args) => {
+    const since = args.since ?? Date.now() - DEFAULT_WINDOW_MS;
+    const userId = args.userId;
+    const rows = userId
+      ? await ctx.db
+          .query("llmMetrics")
+          .withIndex("by_user", (q) => q.eq("userId", userId).gte("timestamp", since))
+          .take(5000)
+      : await ctx.db
+          .query("llmMetrics")
+          .withIndex("by_timestamp", (q) => q.gte("timestamp", since))
+          .take(5000);
+
+    const byMode = new Map<string, typeof rows>();
+    for (const row of rows) {
+      byMode.set(row.orgContextMode, [...(byMode.get(row.orgContextMode) || []), row]);
+    }
+
+    const average = (values: number[]) =>
+      values.length ? Math.round(values.reduce((sum, n) => sum + n, 0) / values.length) : 0;
+
+    return [...byMode.entries()].map(([mode, turns]) => {
+      const latencies = turns.map((t) => t.latencyMs).sort((a, b) => a - b);
+      const totalInput = turns.reduce((sum, t) => sum + t.inputTokens + t.cacheReadTokens + t.cacheWriteTokens, 0);
+      const cacheRead = turns.reduce((sum, t) => sum + t.cacheReadTokens, 0);
+      return {
+        mode,
+        turns: turns.length,
+        avgInputTokens: average(turns.map((t) => t.inputTokens)),
+        avgCacheReadTokens: average(turns.map((t) => t.cacheReadTokens)),
+        avgCacheWriteTokens: average(turns.map((t) => t.cacheWriteTokens)),
+        avgOutputTokens: average(turns.map((t) => t.outputTokens)),
+        avgOrgContextTokens: average(turns.map((t) => t.orgContextTokens)),
+        avgObjectsSent: average(turns.map((t) => t.objectsSent)),
+        cacheHitRate: totalInput ? cacheRead / totalInput : 0,
+        avgLatencyMs: average(latencies),
+        p95LatencyMs: latencies[Math.min(latencies.length - 1, Math.floor(latencies.length * 0.95))] ?? 0,
+      };
+    });
+  },
+});
@@ -0,0 +1,212 @@
+import { systemText, type LLMMessage, type LLMProvider, type LLMRequest, type LLMResponse, type LLMToolCall, type LLMUsage } from "./llm";
+
+// ============================================================================
+// OPENAI-COMPATIBLE PROVIDER
+// Chat Completions over fetch, so it works with OpenAI and any compatible
+// endpoint (Azure proxies, vLLM, Ollama, ...). Configure with OPENAI_BASE_URL
+// and OPENAI_API_KEY.
+// ============================================================================
+
+const DEFAULT_BASE_URL = "https://api.openai.com/v1";
+
+export function openAICompatibleProvider(): LLMProvider {
+  const baseUrl = (process.env.OPENAI_BASE_URL || DEFAULT_BASE_URL).replace(/\/+$/, "");
+  const apiKey = process.env.OPENAI_API_KEY;
+  if (!apiKey && baseUrl === DEFAULT_BASE_URL) {
+    throw new Error("OPENAI_API_KEY is not configured");
+  }
+
+  async function post(body: Record<string, any>): Promise<Response> {
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      },
+      body: JSON.stringify(body),
+    });
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(`LLM request failed (${response.status}): ${error}`);
+    }
+    return response;
+  }
+
+  return {
+    name: "openai",
+
+    async chat(request) {
+      const data = await (await post(toOpenAIBody(request))).json();
+      return fromOpenAIChoice(data.choices?.[0], data.usage);
+    },
+
+    async chatJson(request, schema) {
+      const body = toOpenAIBody({ ...request, tools: undefined, toolChoice: undefined });
+      body.response_format = schema
+        ? { type: "json_schema", json_schema: { name: "result", schema } }
+        : { type: "json_object" };
+      const data = await (await post(body)).json();
+      const content = data.choices?.[0]?.message?.content || "";
+      try {
+        return JSON.parse(content);
+      } catch {
+        throw new Error("Model did not return JSON");
+      }
+    },
+
+    async stream(request, onText) {
+      const response = await post({
+        ...toOpenAIBody(request),
+        stream: true,
+        stream_options: { include_usage: true },
+      });
+      if (!response.body) {
+        throw new Error("LLM stream returned no body");
+      }
+
+      let text = "";
+      let stopReason: string | undefined;
+      let usage: LLMResponse["usage"];
+      // Tool call arguments arrive in fragments keyed by index
+      const partialCalls: { id: string; name: string; arguments: string }[] = [];
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = "";
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+
+        const lines = buffer.split("\n");
+        buffer = lines.pop() || "";
+
+        for (const line of lines) {
+          const payload = line.trim();
+          if (!payload.startsWith("data:")) continue;
+          const data = payload.slice(5).trim();
+          if (data === "[DONE]") continue;
+
+          const chunk = JSON.parse(data);
+          if (chunk.usage) {
+            usage = toUsage(chunk.usage);
+          }
+          const choice = chunk.choices?.[0];
+          if (!choice) continue;
+          if (choice.finish_reason) stopReason = choice.finish_reason;
+
+          const delta = choice.delta || {};
+          if (delta.content) {
+            text += delta.content;
+            onText(delta.content);
+          }
+          for (const call of delta.tool_calls || []) {
+            const partial = (partialCalls[call.index] ||= { id: "", name: "", arguments: "" });
+            if (call.id) partial.id = call.id;
+            if (call.function?.name) partial.name += call.function.name;
+            if (call.function?.arguments) partial.arguments += call.function.arguments;
+          }
+        }
+      }
+
+      return {
+        text,
+        toolCalls: partialCalls.filter(Boolean).map((call) => ({
+          id: call.id,
+          name: call.name,
+          input: parseArguments(call.arguments),
+        })),
+        stopReason,
+        usage,
+      };
+    },
+  };
+}
+
+function toOpenAIBody(request: LLMRequest): Record<string, any> {
+  const messages: Record<string, any>[] = [];
+  // Compatible endpoints cache long prefixes on their own - no markers needed
+  const system = systemText(request.system);
+  if (system) {
+    messages.push({ role: "system", content: system });
+  }
+  messages.push(...request.messages.map(toOpenAIMessage));
+
+  const body: Record<string, any> = {
+    model: request.model,
+    max_tokens: request.maxTokens,
+    messages,
+  };
+  if (request.temperature !== undefined) body.temperature = request.temperature;
+  if (request.tools && request.tools.length > 0) {
+    body.tools = request.tools.map((tool) => ({
+      type: "function",
+      function: {
+        name: tool.name,
+        description: tool.description,
+        parameters: tool.inputSchema,
+      },
+    }));
+    if (request.toolChoice) {
+      body.tool_choice = request.toolChoice === "any" ? "required" : request.toolChoice;
+    }
+  }
+  return body;
+}
+
+function toOpenAIMessage(message: LLMMessage): Record<string, any> {
+  switch (message.role) {
+    case "tool":
+      return { role: "tool", tool_call_id: message.toolCallId, content: message.content };
+    case "assistant":
+      if (message.toolCalls?.length) {
+        return {
+          role: "assistant",
+          content: message.content || null,
+          tool_calls: message.toolCalls.map((call) => ({
+            id: call.id,
+            type: "function",
+            function: { name: call.name, arguments: JSON.stringify(call.input) },
+          })),
+        };
+      }
+      return { role: "assistant", content: message.content };
+    case "user":
+      return { role: "user", content: message.content };
+  }
+}
+
+function fromOpenAIChoice(choice: any, usage: any): LLMResponse {
+  const message = choice?.message || {};
+  const toolCalls: LLMToolCall[] = (message.tool_calls || []).map((call: any) => ({
+    id: call.id,
+    name: call.function?.name,
+    input: parseArguments(call.function?.arguments),
+  }));
+  return {
+    text: message.content || "",
+    toolCalls,
+    stopReason: choice?.finish_reason,
+    usage: usage ? toUsage(usage) : undefined,
+  };
+}
+
+// prompt_tokens includes cached tokens; report them separately like Anthropic
+function toUsage(usage: any): LLMUsage {
+  const cached = usage.prompt_tokens_details?.cached_tokens || 0;
+  return {
+    inputTokens: (usage.prompt_tokens || 0) - cached,
+    outputTokens: usage.completion_tokens || 0,
+    cacheReadTokens: cached || undefined,
+  };
+}
+
+function parseArguments(raw: string | undefined): Record<string, any> {
+  if (!raw) return {};
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return {};
+  }
+}
@@ -0,0 +1,196 @@
+import { estimateTokens } from "./agentSessions";
+import { systemText, type LLMFeature, type LLMProvider, type LLMRequest, type LLMResponse, type LLMToolCall } from "./llm";
+
+// ============================================================================
+// STUB PROVIDER
+// Fixture-driven, deterministic and offline - used for tests and local dev
+// (LLM_PROVIDER=stub). Extra fixtures can be supplied as a JSON array in
+// LLM_STUB_FIXTURES; they are tried before the built-in ones.
+// ============================================================================
+
+/**
+ * One scripted exchange. `match` is a case-insensitive substring of the latest
+ * user message, or a "/regex/flags" string. `responses` holds one reply per
+ * model round trip - the last one repeats if the caller keeps going.
+ */
+export interface StubFixture {
+  feature?: LLMFeature;
+  match: string;
+  responses: StubResponse[];
+}
+
+export interface StubResponse {
+  text?: string;
+  toolCalls?: { name: string; input: Record<string, any> }[];
+  json?: any; // Returned by chatJson
+}
+
+const DEFAULT_FIXTURES: StubFixture[] = [
+  {
+    feature: "assistant",
+    match: "pipeline",
+    responses: [
+      { toolCalls: [{ name: "get_my_records", input: { objectType: "Opportunity" } }] },
+      { toolCalls: [{ name: "respond", input: { response: "Here's your open pipeline." } }] },
+    ],
+  },
+  {
+    feature: "assistant",
+    match: "/\\b(tasks?|to-?dos?)\\b/i",
+    responses: [
+      { toolCalls: [{ name: "get_my_records", input: { objectType: "Task" } }] },
+      { toolCalls: [{ name: "respond", input: { response: "Here are your open tasks." } }] },
+    ],
+  },
+  {
+    feature: "assistant",
+    match: "/^(find|look up|search for)\\s+(.+)$/i",
+    responses: [
+      { toolCalls: [{ name: "search_records", input: { searchTerm: "$2" } }] },
+      { toolCalls: [{ name: "respond", input: { response: "Here's what I found for $2." } }] },
+    ],
+  },
+  {
+    feature: "sessionSummary",
+    match: "/[\\s\\S]/",
+    responses: [{ text: "(stub) The user and assistant discussed Salesforce records." }],
+  },
+];
+
+export function stubProvider(fixtures: StubFixture[] = loadFixtures()): LLMProvider {
+  return {
+    name: "stub",
+
+    async chat(request) {
+      return toResponse(request, pickResponse(request, fixtures));
+    },
+
+    async chatJson(request) {
+      const scripted = pickResponse(request, fixtures);
+      if (scripted?.json !== undefined) return scripted.json;
+      if (scripted?.text) {
+        try {
+          return JSON.parse(scripted.text);
+        } catch {
+          // Not JSON - fall through to the empty object
+        }
+      }
+      return {} as any;
+    },
+
+    async stream(request, onText) {
+      const response = toResponse(request, pickResponse(request, fixtures));
+      // Emit word by word so streaming consumers see several deltas
+      for (const piece of response.text.match(/\S+\s*/g) || []) {
+        onText(piece);
+      }
+      return response;
+    },
+  };
+}
+
+function loadFixtures(): StubFixture[] {
+  const raw = process.env.LLM_STUB_FIXTURES;
+  if (!raw) return DEFAULT_FIXTURES;
+  try {
+    const extra = JSON.parse(raw);
+    return Array.isArray(extra) ? [...extra, ...DEFAULT_FIXTURES] : DEFAULT_FIXTURES;
+  } catch (e) {
+    console.error("LLM_STUB_FIXTURES is not valid JSON:", e);
+    return DEFAULT_FIXTURES;
+  }
+}
+
+/**
+ * Find the scripted reply for this round trip. The round is the number of
+ * assistant turns since the latest user message.
+ */
+function pickResponse(request: LLMRequest, fixtures: StubFixture[]): StubResponse | undefined {
+  let lastUserIndex = -1;
+  for (let i = request.messages.length - 1; i >= 0; i--) {
+    if (request.messages[i].role === "user") {
+      lastUserIndex = i;
+      break;
+    }
+  }
+  const userText = lastUserIndex >= 0 ? request.messages[lastUserIndex].content : "";
+  const round = request.messages
+    .slice(lastUserIndex + 1)
+    .filter((m) => m.role === "assistant").length;
+
+  for (const fixture of fixtures) {
+    if (fixture.feature && request.feature && fixture.feature !== request.feature) continue;
+    const groups = matchFixture(fixture.match, userText);
+    if (!groups) continue;
+    const scripted = fixture.responses[Math.min(round, fixture.responses.length - 1)];
+    return scripted && fillGroups(scripted, groups);
+  }
+  return undefined;
+}
+
+// Returns capture groups ($0, $1...) on a match, null otherwise
+function matchFixture(pattern: string, text: string): string[] | null {
+  const regex = pattern.match(/^\/(.+)\/([a-z]*)$/s);
+  if (regex) {
+    const match = text.match(new RegExp(regex[1], regex[2]));
+    return match ? Array.from(match, (group) => group || "") : null;
+  }
+  return text.toLowerCase().includes(pattern.toLowerCase()) ? [text] : null;
+}
+
+// Substitute $1, $2... from the user message into the scripted reply
+function fillGroups(response: StubResponse, groups: string[]): StubResponse {
+  const json = JSON.stringify(response).replace(/\$(\d)/g, (_, n) =>
+    JSON.stringify(groups[Number(n)] || "").slice(1, -1)
+  );
+  return JSON.parse(json);
+}
+
+function toResponse(request: LLMRequest, scripted: StubResponse | undefined): LLMResponse {
+  const round = request.messages.length;
+  let toolCalls: LLMToolCall[] = (scripted?.toolCalls || []).map((call, i) => ({
+    id: `stub_${round}_${i}`,
+    name: call.name,
+    input: call.input,
+  }));
+  let text = scripted?.text || "";
+
+  // Nothing scripted - answer deterministically in whatever shape the caller needs
+  if (!scripted) {
+    const userText = [...request.messages].reverse().find((m) => m.role === "user")?.content || "";
+    text = `(stub) ${userText}`.trim();
+  }
+  if (toolCalls.length === 0 && request.toolChoice === "any") {
+    const respond = request.tools?.find((tool) => tool.name === "respond");
+    const fallback = respond || request.tools?.[0];
+    if (fallback) {
+      toolCalls = [{
+        id: `stub_${round}_0`,
+        name: fallback.name,
+        input: fallback === respond ? { response: text } : {},
+      }];
+      text = "";
+    }
+  }
+
+  return {
+    text,
+    toolCalls,
+    stopReason: toolCalls.length > 0 ? "tool_use" : "end_turn",
+    usage: estimateUsage(request, text, toolCalls),
+  };
+}
+
+// Approximate what a real model would bill, so offline runs still show how
+// prompt changes move token counts (no caching is simulated)
+function estimateUsage(request: LLMRequest, text: string, toolCalls: LLMToolCall[]): LLMResponse["usage"] {
+  const prompt = [
+    systemText(request.system) || "",
+    JSON.stringify(request.tools || []),
+    ...request.messages.map((m) => (m.role === "assistant" ? m.content + JSON.stringify(m.toolCalls || []) : m.content)),
+  ].join("\n");
+  return {
+    inputTokens: estimateTokens(prompt),
+    outputTokens: estimateTokens(text + JSON.stringify(toolCalls.map((call) => call.input))),
+  };
+}
@@ -1,6 +1,7 @@
 import { v } from "convex/values";
 import { internalAction, internalMutation, internalQuery } from "./_generated/server";
 import { internal } from "./_generated/api";
+import { buildReportIndex, DASHBOARD_INDEX_SOQL, REPORT_INDEX_SOQL } from "./reports";
 
 // Standard Salesforce objects that are commonly used (always include these)
 const IMPORTANT_STANDARD_OBJECTS = [
@@ -24,6 +25,16 @@ const IMPORTANT_STANDARD_OBJECTS = [
   "Attachment",
 ];
 
+// Field describe stored for standard objects
+type StandardField = {
+  name: string;
+  label: string;
+  type: string;
+  picklistValues?: string[];
+  referenceTo?: string;
+  relationshipName?: string;
+};
+
 /**
  * Get org metadata by instance URL
  */
@@ -96,6 +107,7 @@ export const getAvailableObjects = internalQuery({
     return {
       standardObjects: metadata.standardObjects,
       customObjects: metadata.customObjects,
+      organization: metadata.organization,
       lastSyncedAt: metadata.lastSyncedAt,
       syncStatus: metadata.syncStatus,
     };
@@ -113,6 +125,16 @@ export const upsert = internalMutation({
         name: v.string(),
         label: v.string(),
         queryable: v.boolean(),
+        fields: v.optional(v.array(
+          v.object({
+            name: v.string(),
+            label: v.string(),
+            type: v.string(),
+            picklistValues: v.optional(v.array(v.string())),
+            referenceTo: v.optional(v.string()),
+            relationshipName: v.optional(v.string()),
+          })
+        )),
       })
     ),
     customObjects: v.array(
@@ -145,6 +167,10 @@ export const upsert = internalMutation({
       v.literal("complete"),
       v.literal("error")
     ),
+    organization: v.optional(v.object({
+      timeZone: v.optional(v.string()),
+      fiscalYearStartMonth: v.optional(v.number()),
+    })),
     syncError: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
@@ -158,10 +184,17 @@ export const upsert = internalMutation({
       .withIndex("by_instance", (q) => q.eq("instanceUrl", normalizedUrl))
       .first();
 
+    // Precompute the assistant's prompt fragments from the fresh metadata
+    if (args.syncStatus === "complete") {
+      await ctx.scheduler.runAfter(0, internal.orgPromptContext.rebuild, { instanceUrl: normalizedUrl });
+    }
+
     if (existing) {
       await ctx.db.patch(existing._id, {
         standardObjects: args.standardObjects,
         customObjects: args.customObjects,
+        // A failed sync keeps the calendar settings from the last good one
+        organization: args.organization ?? existing.organization,
         lastSyncedAt: Date.now(),
         syncStatus: args.syncStatus,
         syncError: args.syncError,
@@ -172,6 +205,7 @@ export const upsert = internalMutation({
         instanceUrl: normalizedUrl,
         standardObjects: args.standardObjects,
         customObjects: args.customObjects,
+        organization: args.organization,
         lastSyncedAt: Date.now(),
         syncStatus: args.syncStatus,
         syncError: args.syncError,
@@ -260,7 +294,7 @@ export const syncFromSalesforce = internalAction({
       console.log(`Found ${allObjects.length} total objects in org`);
 
       // Separate standard and custom objects
-      const standardObjects: Array<{ name: string; label: string; queryable: boolean }> = [];
+      const standardObjects: Array<{ name: string; label: string; queryable: boolean; fields?: StandardField[] }> = [];
       const customObjectsBasic: Array<{ name: string; label: string; queryable: boolean }> = [];
 
       for (const obj of allObjects) {
@@ -374,8 +408,9 @@ export const syncFromSalesforce = internalAction({
               label: f.label,
               type: f.type,
               helpText: f.inlineHelpText || undefined,
-              picklistValues: f.type === "picklist"
-                ? (f.picklistValues || []).filter((p: any) => p.active).map((p: any) => p.value).slice(0, 10)
+              // Keep every active value - the SOQL validator checks literals against this list
+              picklistValues: f.type === "picklist" || f.type === "multipicklist"
+                ? (f.picklistValues || []).filter((p: any) => p.active).map((p: any) => p.value)
                 : undefined,
               referenceTo: f.type === "reference" && f.referenceTo?.length > 0
                 ? f.referenceTo[0]
@@ -443,11 +478,88 @@ export const syncFromSalesforce = internalAction({
 
       // All objects have been described - no need for fallback since we removed the limit
 
+      // Describe standard objects too, so AI-generated SOQL can be validated against real fields
+      for (const obj of standardObjects) {
+        try {
+          const objDescribeResponse = await fetch(
+            `${args.instanceUrl}/services/data/v${latestVersion}/sobjects/${obj.name}/describe/`,
+            { headers: { Authorization: `Bearer ${args.accessToken}` } }
+          );
+          if (!objDescribeResponse.ok) continue;
+
+          const objData = await objDescribeResponse.json();
+          obj.fields = (objData.fields || [])
+            .filter((f: any) => !f.compound)
+            .map((f: any) => ({
+              name: f.name,
+              label: f.label,
+              type: f.type,
+              picklistValues: f.type === "picklist" || f.type === "multipicklist"
+                ? (f.picklistValues || []).filter((p: any) => p.active).map((p: any) => p.value)
+                : undefined,
+              referenceTo: f.type === "reference" && f.referenceTo?.length > 0
+                ? f.referenceTo[0]
+                : undefined,
+              relationshipName: f.type === "reference" && f.relationshipName
+                ? f.relationshipName
+                : undefined,
+            }));
+        } catch (e) {
+          console.error(`Error describing ${obj.name}:`, e);
+        }
+      }
+
+      // Org time zone and fiscal calendar, for resolving "end of quarter"
+      let organization: { timeZone?: string; fiscalYearStartMonth?: number } | undefined;
+      try {
+        const orgResponse = await fetch(
+          `${args.instanceUrl}/services/data/v${latestVersion}/query?q=${encodeURIComponent("SELECT TimeZoneSidKey, FiscalYearStartMonth FROM Organization LIMIT 1")}`,
+          {
+            headers: { Authorization: `Bearer ${args.accessToken}` },
+          }
+        );
+        if (orgResponse.ok) {
+          const [org] = (await orgResponse.json()).records || [];
+          if (org) {
+            organization = {
+              timeZone: org.TimeZoneSidKey || undefined,
+              fiscalYearStartMonth: org.FiscalYearStartMonth || undefined,
+            };
+          }
+        }
+      } catch (e) {
+        console.error("Error reading Organization settings:", e);
+      }
+
+      // Report and dashboard names, for finding reports by name
+      try {
+        const [reports, dashboards] = await Promise.all(
+          [REPORT_INDEX_SOQL, DASHBOARD_INDEX_SOQL].map(async (soql) => {
+            const response = await fetch(
+              `${args.instanceUrl}/services/data/v${latestVersion}/query?q=${encodeURIComponent(soql)}`,
+              {
+                headers: { Authorization: `Bearer ${args.accessToken}` },
+              }
+            );
+            return response.ok ? (await response.json()).records || [] : null;
+          })
+        );
+        if (reports && dashboards) {
+          await ctx.runMutation(internal.reports.save, {
+            instanceUrl: args.instanceUrl,
+            entries: buildReportIndex(reports, dashboards),
+          });
+        }
+      } catch (e) {
+        console.error("Error indexing reports:", e);
+      }
+
       // Store the metadata
       await ctx.runMutation(internal.orgMetadata.upsert, {
         instanceUrl: args.instanceUrl,
         standardObjects,
         customObjects: customObjectsWithFields,
+        organization,
         syncStatus: "complete",
       });
 
@@ -0,0 +1,321 @@
+import { v } from "convex/values";
+import { internalMutation, internalQuery } from "./_generated/server";
+import { estimateTokens } from "./agentSessions";
+import { normalizeInstanceUrl } from "./salesforceOrg";
+
+// ============================================================================
+// ORG PROMPT CONTEXT
+// Custom-object descriptions for the assistant prompt, built once per metadata
+// sync and versioned. Small orgs send everything (cached by the provider);
+// large orgs send only the objects related to the message, plus a one-line
+// index of the rest.
+// ============================================================================
+
+// Orgs whose full context fits in this many tokens send all of it, cached
+const FULL_CONTEXT_MAX_TOKENS = 2500;
+
+// Upper bounds for relevance-selected context
+const MAX_SELECTED_OBJECTS = 6;
+const SELECTED_CONTEXT_MAX_TOKENS = 1500;
+
+export interface PromptFragment {
+  object: string; // API name
+  label: string;
+  text: string; // Rendered description, fields included
+  keywords: string[]; // Matched against the user's message
+  tokens: number;
+}
+
+export type OrgContextMode = "none" | "full" | "selected" | "legacy";
+
+export interface OrgContext {
+  text: string;
+  mode: OrgContextMode;
+  cacheable: boolean; // Same text on every turn - worth a cache breakpoint
+  objectsSent: number;
+  objectsTotal: number;
+  tokens: number;
+  version?: number;
+}
+
+const STOPWORDS = new Set([
+  "the", "and", "for", "with", "that", "this", "what", "which", "who", "how", "are", "is", "was",
+  "show", "find", "get", "give", "tell", "about", "from", "have", "has", "any", "all", "my", "our",
+  "their", "there", "can", "you", "me", "please", "need", "want", "list", "look", "up", "on", "of",
+  "to", "in", "a", "an", "it", "do", "does", "new", "last", "next", "some", "them", "they",
+]);
+
+// ============================================================================
+// BUILDING
+// ============================================================================
+
+/**
+ * Render one custom object for the prompt
+ */
+function renderObject(obj: any): string {
+  let desc = `\n### ${obj.name} (${obj.label})`;
+  if (obj.description) desc += `\n${obj.description}`;
+  if (obj.recordCount !== undefined) desc += ` - ${obj.recordCount} records`;
+
+  if (obj.keyFields && obj.keyFields.length > 0) {
+    desc += `\nFields:`;
+    for (const field of obj.keyFields.slice(0, 8)) {
+      if (typeof field === "object") {
+        // Rich field metadata
+        let fieldDesc = `  - ${field.name} (${field.label}) [${field.type}]`;
+        if (field.picklistValues && field.picklistValues.length > 0) {
+          fieldDesc += ` values: ${field.picklistValues.slice(0, 5).join(", ")}`;
+        }
+        if (field.referenceTo) {
+          fieldDesc += ` → ${field.referenceTo}`;
+          // Include relationship name for traversing lookups
+          if (field.relationshipName) {
+            fieldDesc += ` (use ${field.relationshipName} for related fields)`;
+          }
+        }
+        // Flag phone/contact number fields for lookup guidance
+        if (field.name.toLowerCase().includes("phone") || field.name.toLowerCase().includes("contact_number")) {
+          fieldDesc += ` [PHONE - E.164 format]`;
+        }
+        desc += `\n${fieldDesc}`;
+      } else {
+        // Simple field name
+        desc += `\n  - ${field}`;
+      }
+    }
+  }
+
+  if (obj.sampleFields && obj.sampleFields.length > 0) {
+    desc += `\nCommonly used fields: ${obj.sampleFields.join(", ")}`;
+  }
+
+  return desc;
+}
+
+/**
+ * Words that should pull an object into the prompt: its name and label, and
+ * its field names and labels
+ */
+function objectKeywords(obj: any): string[] {
+  const keywords = new Set<string>(tokenize(`${obj.name} ${obj.label}`));
+  for (const field of obj.keyFields || []) {
+    const name = typeof field === "object" ? field.name : field;
+    const label = typeof field === "object" ? field.label : "";
+    for (const word of tokenize(`${name} ${label}`)) keywords.add(word);
+    if (/phone|contact_number/i.test(name) || (typeof field === "object" && field.type === "phone")) {
+      keywords.add("phone");
+    }
+  }
+  return [...keywords];
+}
+
+/**
+ * Fragments for every custom object, plus a hash so unchanged metadata keeps
+ * its version (and the provider's prompt cache)
+ */
+export function buildOrgPromptFragments(customObjects: any[]): { fragments: PromptFragment[]; contentHash: string } {
+  const fragments = customObjects.map((obj) => {
+    const text = renderObject(obj);
+    return {
+      object: obj.name,
+      label: obj.label,
+      text,
+      keywords: objectKeywords(obj),
+      tokens: estimateTokens(text),
+    };
+  });
+  return { fragments, contentHash: hashText(fragments.map((f) => f.text).join("\n")) };
+}
+
+// FNV-1a - stable across runtimes, good enough to detect changes
+function hashText(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0");
+}
+
+// ============================================================================
+// SELECTION
+// ============================================================================
+
+/**
+ * Lowercased words from API names, labels and messages. Splits
+ * sendblue__Contact_Number__c and camelCase, drops a plural "s".
+ */
+function tokenize(text: string): string[] {
+  return text
+    .replace(/__c\b|__r\b/gi, " ")
+    .replace(/([a-z])([A-Z])/g, "$1 $2")
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((word) => word.length >= 3 && !STOPWORDS.has(word))
+    .map((word) => (word.length > 4 && word.endsWith("s") && !/(ss|us)$/.test(word) ? word.slice(0, -1) : word));
+}
+
+function messageWords(text: string): Set<string> {
+  const words = new Set(tokenize(text));
+  // "+18185881911" means a phone lookup
+  if (/\+?\d[\d\s().-]{8,}\d/.test(text)) words.add("phone");
+  return words;
+}
+
+/**
+ * Relevance of one object to the conversation - name/label hits count more
+ * than field hits, earlier turns count less than the current message
+ */
+function scoreFragment(fragment: PromptFragment, current: Set<string>, earlier: Set<string>): number {
+  const nameWords = new Set(tokenize(`${fragment.object} ${fragment.label}`));
+  let score = 0;
+  for (const keyword of fragment.keywords) {
+    const weight = nameWords.has(keyword) ? 3 : 1;
+    if (current.has(keyword)) score += weight;
+    else if (earlier.has(keyword)) score += weight / 2;
+  }
+  return score;
+}
+
+/**
+ * Choose the org context for this turn
+ */
+export function selectOrgContext(
+  fragments: PromptFragment[],
+  options: {
+    userMessage: string;
+    earlierMessages?: string[]; // Recent user turns, for follow-ups
+    recentObjectTypes?: string[]; // Objects of records discussed in the session
+    version?: number;
+    mode?: string; // ORG_PROMPT_MODE override ("legacy" = everything, uncached)
+  }
+): OrgContext {
+  const base = { objectsTotal: fragments.length, version: options.version };
+  if (fragments.length === 0) {
+    return { ...base, text: "", mode: "none", cacheable: false, objectsSent: 0, tokens: 0 };
+  }
+
+  const totalTokens = fragments.reduce((sum, f) => sum + f.tokens, 0);
+  if (options.mode === "legacy" || totalTokens <= FULL_CONTEXT_MAX_TOKENS) {
+    const text = renderOrgContext(fragments);
+    const mode = options.mode === "legacy" ? "legacy" : "full";
+    return { ...base, text, mode, cacheable: mode === "full", objectsSent: fragments.length, tokens: estimateTokens(text) };
+  }
+
+  const current = messageWords(options.userMessage);
+  const earlier = messageWords((options.earlierMessages || []).join(" "));
+  const recent = new Set(options.recentObjectTypes || []);
+
+  const ranked = fragments
+    .map((fragment) => ({
+      fragment,
+      score: scoreFragment(fragment, current, earlier) + (recent.has(fragment.object) ? 3 : 0),
+    }))
+    .filter((entry) => entry.score > 0)
+    .sort((a, b) => b.score - a.score);
+
+  const selected: PromptFragment[] = [];
+  let budget = SELECTED_CONTEXT_MAX_TOKENS;
+  for (const { fragment } of ranked) {
+    if (selected.length >= MAX_SELECTED_OBJECTS || fragment.tokens > budget) break;
+    selected.push(fragment);
+    budget -= fragment.tokens;
+  }
+
+  // The model still needs to know the other objects exist
+  const others = fragments.filter((f) => !selected.includes(f));
+  const index = others.length > 0
+    ? `\n\nOTHER CUSTOM OBJECTS (fields not shown - to query one, SELECT only Id, Name, CreatedDate or ask the user):\n${others.map((f) => `${f.object} (${f.label})`).join(", ")}`
+    : "";
+  const text = renderOrgContext(selected) + index;
+  return { ...base, text, mode: "selected", cacheable: false, objectsSent: selected.length, tokens: estimateTokens(text) };
+}
+
+function renderOrgContext(fragments: PromptFragment[]): string {
+  if (fragments.length === 0) return "";
+  return `\n\n## CUSTOM OBJECTS IN THIS ORG
+${fragments.map((f) => f.text).join("\n")}
+${CUSTOM_OBJECT_RULES}`;
+}
+
+const CUSTOM_OBJECT_RULES = `
+CRITICAL RULES FOR CUSTOM OBJECTS:
+1. ONLY use fields that are EXPLICITLY listed above for each object - if a field isn't in the list, it DOES NOT EXIST
+2. NEVER guess or assume field names - common mistakes:
+   - "Amount__c" is WRONG - the actual field might be "Payment_Amount__c" or "Invoice_Amount__c"
+   - "Date__c" is WRONG - look for "Payment_Date__c", "Due_Date__c", etc.
+   - Always use the EXACT full field name from the Fields list above
+3. Field names are case-sensitive and must end in __c for custom fields
+4. When constructing SOQL, ONLY SELECT fields that are shown in the object's Fields list
+5. Always include CreatedDate and ORDER BY CreatedDate DESC for recent records
+6. For messages/conversations, look for content fields like sendblue__Message__c, Message__c, Content__c
+7. If you're unsure about a field name, use ONLY the basic fields: Id, Name, CreatedDate
+
+PHONE/LEAD LOOKUP PATTERNS (use these when asked about leads/contacts for a phone number):
+- "Is there a lead for +18185881911?" → Query the Conversation object by phone, check the Lead lookup:
+  SELECT Id, sendblue__Lead__c, sendblue__Lead__r.Name, sendblue__Lead__r.Company FROM sendblue__Conversation__c WHERE sendblue__Contact_Number__c = '+18185881911' LIMIT 1
+- If sendblue__Lead__c is NULL in the result, respond "No lead is linked to this conversation"
+- If sendblue__Lead__c has a value, respond with the lead details from sendblue__Lead__r fields
+- NEVER just return all leads - always filter by the specific phone number first
+`;
+
+// ============================================================================
+// STORAGE
+// ============================================================================
+
+/**
+ * Rebuild an org's fragments from its synced metadata. The version only
+ * moves when the rendered text changes.
+ */
+export const rebuild = internalMutation({
+  args: { instanceUrl: v.string() },
+  handler: async (ctx, args) => {
+    const instanceUrl = normalizeInstanceUrl(args.instanceUrl);
+    const metadata = await ctx.db
+      .query("orgMetadata")
+      .withIndex("by_instance", (q) => q.eq("instanceUrl", instanceUrl))
+      .first();
+    if (!metadata) return null;
+
+    const { fragments, contentHash } = buildOrgPromptFragments(metadata.customObjects);
+    const existing = await ctx.db
+      .query("orgPromptContexts")
+      .withIndex("by_instance", (q) => q.eq("instanceUrl", instanceUrl))
+      .first();
+    if (existing?.contentHash === contentHash) return existing.version;
+
+    const doc = {
+      instanceUrl,
+      version: (existing?.version ?? 0) + 1,
+      contentHash,
+      fragments,
+      totalTokens: fragments.reduce((sum, f) => sum + f.tokens, 0),
+      builtAt: Date.now(),
+    };
+    if (existing) {
+      await ctx.db.replace("orgPromptContexts", existing._id, doc);
+    } else {
+      await ctx.db.insert("orgPromptContexts", doc);
+    }
+    return doc.version;
+  },
+});
+
+/**
+ * Latest fragments for the user's org (null until the first sync completes)
+ */
+export const getForUser = internalQuery({
+  args: { userId: v.id("users") },
+  handler: async (ctx, args) => {
+    const auth = await ctx.db
+      .query("salesforceAuth")
+      .withIndex("by_user", (q) => q.eq("userId", args.userId))
+      .first();
+    if (!auth) return null;
+
+    return await ctx.db
+      .query("orgPromptContexts")
+      .withIndex("by_instance", (q) => q.eq("instanceUrl", normalizeInstanceUrl(auth.instanceUrl)))
+      .first();
+  },
+});
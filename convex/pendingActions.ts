@@ -0,0 +1,494 @@
+import { v } from "convex/values";
+import { internalAction, internalMutation, internalQuery, query } from "./_generated/server";
+import { api, internal } from "./_generated/api";
+import { Doc, Id } from "./_generated/dataModel";
+import { journaledWrite } from "./changeJournal";
+import { describeBulkOutcome } from "./bulkUpdates";
+
+// ============================================================================
+// PENDING ACTIONS
+// AI-initiated Salesforce writes staged for user confirmation.
+// The assistant stages create/update/log_call operations with a readable diff;
+// the user confirms on the channel they asked from (voice "yes", SMS reply,
+// Slack button). Rows are kept after resolution as an audit trail; confirmed
+// writes are journaled for undo (see changeJournal.ts).
+// ============================================================================
+
+// Channels the assistant answers on - confirmations must come from the same one
+export const assistantChannel = v.union(
+  v.literal("voice"),
+  v.literal("sms"),
+  v.literal("slack"),
+  v.literal("web"),
+  v.literal("api")
+);
+
+export type AssistantChannel = "voice" | "sms" | "slack" | "web" | "api";
+
+// Per-user setting: which AI writes need confirmation
+export type ConfirmationMode = "always" | "updates" | "never";
+
+export type WriteOperation = "create" | "update" | "log_call" | "bulk_update";
+
+export interface FieldChange {
+  field: string;
+  label: string;
+  before?: string;
+  after: string;
+}
+
+// Staged writes expire if the user doesn't answer
+export const PENDING_ACTION_TTL_MS = 10 * 60 * 1000; // 10 minutes
+
+// Used when the user hasn't picked a mode - updates are the risky ones
+export const DEFAULT_CONFIRMATION_MODE: ConfirmationMode = "updates";
+
+const writeOperation = v.union(v.literal("create"), v.literal("update"), v.literal("log_call"), v.literal("bulk_update"));
+
+const fieldChange = v.object({
+  field: v.string(),
+  label: v.string(),
+  before: v.optional(v.string()),
+  after: v.string(),
+});
+
+/**
+ * Whether a write needs confirmation under the user's mode
+ */
+export function requiresConfirmation(mode: ConfirmationMode | undefined, operation: WriteOperation): boolean {
+  if (operation === "bulk_update") return true; // Always previewed, whatever the mode
+  switch (mode || DEFAULT_CONFIRMATION_MODE) {
+    case "always":
+      return true;
+    case "updates":
+      return operation === "update";
+    case "never":
+      return false;
+  }
+}
+
+/**
+ * Human-readable one-liner for a staged write
+ * e.g. "Stage: Qualification → Negotiation on Acme – 50k"
+ */
+export function summarizeWrite(
+  operation: WriteOperation,
+  objectType: string,
+  changes: FieldChange[],
+  recordName?: string
+): string {
+  if (operation === "update") {
+    const diff = changes
+      .map((c) => `${c.label}: ${c.before || "(blank)"} → ${c.after}`)
+      .join(", ");
+    return `${diff} on ${recordName || objectType}`;
+  }
+  if (operation === "bulk_update") {
+    const values = changes
+      .map((c) => (c.before ? `${c.label}: ${c.before} → ${c.after}` : `${c.label} → ${c.after}`))
+      .join(", ");
+    return `${values} on ${recordName || `every matching ${objectType}`}`;
+  }
+  if (operation === "log_call") {
+    const subject = changes.find((c) => c.field === "Subject")?.after || "Call";
+    return `Log call "${subject}"${recordName ? ` on ${recordName}` : ""}`;
+  }
+  const values = changes.map((c) => `${c.label}: ${c.after}`).join(", ");
+  return `New ${objectType}${values ? ` - ${values}` : ""}`;
+}
+
+const CONFIRM_REPLIES = new Set([
+  "yes", "yeah", "yep", "yup", "y", "sure", "ok", "okay", "confirm", "confirmed",
+  "do it", "go ahead", "yes do it", "yes go ahead", "sounds good", "correct", "approve",
+]);
+
+const CANCEL_REPLIES = new Set([
+  "no", "nope", "n", "cancel", "stop", "dont", "don't", "do not", "never mind", "nevermind", "abort",
+]);
+
+/**
+ * Classify a short reply as a confirmation, a cancellation, or neither.
+ * Anything longer (e.g. "no, make it 60k") goes back to the model.
+ */
+export function parseConfirmationReply(text: string): "confirm" | "cancel" | null {
+  const normalized = text
+    .toLowerCase()
+    .replace(/[^a-z' ]/g, " ")
+    .replace(/\b(please|thanks|thank you)\b/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+  if (CONFIRM_REPLIES.has(normalized)) return "confirm";
+  if (CANCEL_REPLIES.has(normalized)) return "cancel";
+  return null;
+}
+
+// ============================================================================
+// STAGING & LOOKUP
+// ============================================================================
+
+/**
+ * Stage a write for confirmation.
+ * Pending actions from earlier turns on the same channel are superseded -
+ * a new request replaces whatever the user didn't answer.
+ */
+export const stage = internalMutation({
+  args: {
+    userId: v.id("users"),
+    channel: assistantChannel,
+    operation: writeOperation,
+    objectType: v.string(),
+    recordId: v.optional(v.string()),
+    recordName: v.optional(v.string()),
+    targets: v.optional(v.array(v.object({ id: v.string(), name: v.string() }))),
+    fields: v.any(),
+    changes: v.array(fieldChange),
+    userMessage: v.optional(v.string()),
+    sessionId: v.optional(v.id("agentSessions")),
+    turnStartedAt: v.number(), // Actions staged during this turn are kept
+    ttlMs: v.optional(v.number()), // How long the user has to answer (default PENDING_ACTION_TTL_MS)
+  },
+  handler: async (ctx, args) => {
+    const now = Date.now();
+
+    const open = await ctx.db
+      .query("pendingActions")
+      .withIndex("by_user_status", (q) => q.eq("userId", args.userId).eq("status", "pending"))
+      .collect();
+    for (const action of open) {
+      if (action.channel === args.channel && action.createdAt < args.turnStartedAt) {
+        await ctx.db.patch("pendingActions", action._id, {
+          status: "cancelled",
+          resolvedVia: "superseded",
+          resolvedAt: now,
+        });
+      }
+    }
+
+    const summary = summarizeWrite(args.operation, args.objectType, args.changes, args.recordName);
+    const pendingActionId = await ctx.db.insert("pendingActions", {
+      userId: args.userId,
+      channel: args.channel,
+      operation: args.operation,
+      objectType: args.objectType,
+      recordId: args.recordId,
+      recordName: args.recordName,
+      targets: args.targets,
+      fields: args.fields,
+      changes: args.changes,
+      summary,
+      userMessage: args.userMessage,
+      sessionId: args.sessionId,
+      status: "pending",
+      createdAt: now,
+      expiresAt: now + (args.ttlMs ?? PENDING_ACTION_TTL_MS),
+    });
+
+    return { pendingActionId, summary };
+  },
+});
+
+/**
+ * Unexpired pending actions for a user on one channel, oldest first
+ * (or on every channel, for users with cross-channel continuity)
+ */
+export const getOpenActions = internalQuery({
+  args: {
+    userId: v.id("users"),
+    channel: assistantChannel,
+    anyChannel: v.optional(v.boolean()),
+  },
+  handler: async (ctx, args) => {
+    const now = Date.now();
+    const open = await ctx.db
+      .query("pendingActions")
+      .withIndex("by_user_status", (q) => q.eq("userId", args.userId).eq("status", "pending"))
+      .collect();
+    return open
+      .filter((a) => (args.anyChannel || a.channel === args.channel) && a.expiresAt > now)
+      .sort((a, b) => a.createdAt - b.createdAt);
+  },
+});
+
+export const getAction = internalQuery({
+  args: { pendingActionId: v.id("pendingActions") },
+  handler: async (ctx, args) => {
+    return await ctx.db.get("pendingActions", args.pendingActionId);
+  },
+});
+
+/**
+ * Audit trail: a user's staged writes and how each was resolved
+ */
+export const listActions = query({
+  args: {
+    userId: v.id("users"),
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    return await ctx.db
+      .query("pendingActions")
+      .withIndex("by_user", (q) => q.eq("userId", args.userId))
+      .order("desc")
+      .take(args.limit || 50);
+  },
+});
+
+// ============================================================================
+// RESOLUTION
+// ============================================================================
+
+/**
+ * Atomically move a pending action to "confirmed" so it can only run once.
+ * Returns null if it was already resolved or has expired.
+ */
+export const claimAction = internalMutation({
+  args: {
+    pendingActionId: v.id("pendingActions"),
+    resolvedVia: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const action = await ctx.db.get("pendingActions", args.pendingActionId);
+    if (!action || action.status !== "pending") return null;
+
+    const now = Date.now();
+    if (action.expiresAt <= now) {
+      await ctx.db.patch("pendingActions", action._id, { status: "expired", resolvedVia: "expiry", resolvedAt: now });
+      return null;
+    }
+
+    await ctx.db.patch("pendingActions", action._id, {
+      status: "confirmed",
+      resolvedVia: args.resolvedVia,
+      resolvedAt: now,
+    });
+    return action;
+  },
+});
+
+export const recordOutcome = internalMutation({
+  args: {
+    pendingActionId: v.id("pendingActions"),
+    success: v.boolean(),
+    result: v.optional(v.any()),
+    error: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    await ctx.db.patch("pendingActions", args.pendingActionId, {
+      status: args.success ? "executed" : "failed",
+      result: args.result,
+      error: args.error,
+    });
+  },
+});
+
+export const cancelActions = internalMutation({
+  args: {
+    pendingActionIds: v.array(v.id("pendingActions")),
+    resolvedVia: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const now = Date.now();
+    const cancelled: string[] = [];
+    for (const id of args.pendingActionIds) {
+      const action = await ctx.db.get("pendingActions", id);
+      if (!action || action.status !== "pending") continue;
+      await ctx.db.patch("pendingActions", id, { status: "cancelled", resolvedVia: args.resolvedVia, resolvedAt: now });
+      cancelled.push(action.summary);
+    }
+    return cancelled;
+  },
+});
+
+export interface ExecutedAction {
+  pendingActionId: Id<"pendingActions">;
+  operation: WriteOperation;
+  objectType: string;
+  summary: string;
+  success: boolean;
+  data?: any;
+  recordUrl?: string;
+  error?: string;
+}
+
+/**
+ * Run confirmed writes against Salesforce, in the order they were staged
+ */
+export const executeActions = internalAction({
+  args: {
+    pendingActionIds: v.array(v.id("pendingActions")),
+    resolvedVia: v.string(),
+  },
+  handler: async (ctx, args): Promise<ExecutedAction[]> => {
+    const results: ExecutedAction[] = [];
+
+    for (const pendingActionId of args.pendingActionIds) {
+      const action: Doc<"pendingActions"> | null = await ctx.runMutation(internal.pendingActions.claimAction, {
+        pendingActionId,
+        resolvedVia: args.resolvedVia,
+      });
+      if (!action) continue;
+
+      try {
+        const data = await performWrite(ctx, action);
+        await ctx.runMutation(internal.pendingActions.recordOutcome, {
+          pendingActionId,
+          success: true,
+          result: data,
+        });
+        results.push({
+          pendingActionId,
+          operation: action.operation,
+          objectType: action.objectType,
+          summary: action.summary,
+          success: true,
+          data,
+          recordUrl: data?.recordUrl,
+        });
+      } catch (error: any) {
+        console.error(`Pending action ${pendingActionId} failed:`, error);
+        await ctx.runMutation(internal.pendingActions.recordOutcome, {
+          pendingActionId,
+          success: false,
+          error: error.message,
+        });
+        results.push({
+          pendingActionId,
+          operation: action.operation,
+          objectType: action.objectType,
+          summary: action.summary,
+          success: false,
+          error: error.message,
+        });
+      }
+    }
+
+    return results;
+  },
+});
+
+async function performWrite(ctx: any, action: Doc<"pendingActions">): Promise<any> {
+  if (action.operation === "bulk_update") return await performBulkUpdate(ctx, action);
+  if (action.operation === "update" && !action.recordId) throw new Error("Staged update has no recordId");
+  return await journaledWrite(ctx, {
+    userId: action.userId,
+    channel: action.channel,
+    sessionId: action.sessionId,
+    pendingActionId: action._id,
+    operation: action.operation,
+    objectType: action.objectType,
+    recordId: action.recordId,
+    recordName: action.recordName,
+    fields: action.fields,
+    summary: action.summary,
+  });
+}
+
+/**
+ * Apply a confirmed bulk update to the records that were previewed. Bulk
+ * changes aren't journaled, so they can't be undone - hence the preview.
+ */
+async function performBulkUpdate(ctx: any, action: Doc<"pendingActions">): Promise<any> {
+  const targets = action.targets || [];
+  if (targets.length === 0) throw new Error("Staged bulk update has no records");
+  // The org's limit may have dropped since this was staged
+  const limit: number = await ctx.runQuery(internal.bulkUpdates.getLimitForUser, { userId: action.userId });
+  if (targets.length > limit) {
+    throw new Error(`${targets.length} records is over your org's limit of ${limit} for one change`);
+  }
+
+  const { results } = await ctx.runAction(api.salesforce.updateRecords, {
+    objectType: action.objectType,
+    recordIds: targets.map((t) => t.id),
+    fields: action.fields,
+    userId: action.userId,
+  });
+  const outcome = describeBulkOutcome(action.objectType, results, targets);
+  if (outcome.updated === 0) throw new Error(outcome.message);
+  return outcome;
+}
+
+/**
+ * Handle the Confirm / Cancel buttons on a Slack confirmation message
+ */
+export const resolveFromSlack = internalAction({
+  args: {
+    pendingActionId: v.id("pendingActions"),
+    decision: v.union(v.literal("confirm"), v.literal("cancel")),
+    teamId: v.string(),
+    responseUrl: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const action = await ctx.runQuery(internal.pendingActions.getAction, {
+      pendingActionId: args.pendingActionId,
+    });
+    const installation = await ctx.runQuery(internal.slack.getInstallationByTeam, {
+      teamId: args.teamId,
+    });
+
+    // Only the workspace linked to the action's owner may resolve it
+    if (!action || !installation || installation.userId !== action.userId) {
+      await ctx.runAction(internal.slack.respondToCommand, {
+        responseUrl: args.responseUrl,
+        text: "That request is no longer available.",
+        replaceOriginal: true,
+      });
+      return;
+    }
+
+    let text: string;
+    if (args.decision === "cancel") {
+      const cancelled = await ctx.runMutation(internal.pendingActions.cancelActions, {
+        pendingActionIds: [args.pendingActionId],
+        resolvedVia: "slack",
+      });
+      text = cancelled.length > 0
+        ? `Cancelled: ${action.summary}`
+        : `Already ${action.status}: ${action.summary}`;
+    } else {
+      const [result] = await ctx.runAction(internal.pendingActions.executeActions, {
+        pendingActionIds: [args.pendingActionId],
+        resolvedVia: "slack",
+      });
+      if (!result) {
+        text = action.status === "pending"
+          ? `Expired: ${action.summary}`
+          : `Already ${action.status}: ${action.summary}`;
+      } else if (result.success) {
+        text = result.operation === "bulk_update" ? `✅ ${result.data.message}` : `✅ Done: ${result.summary}`;
+        if (result.recordUrl) text += `\n<${result.recordUrl}|View in Salesforce>`;
+      } else {
+        text = `❌ Couldn't save ${result.summary}: ${result.error}`;
+      }
+    }
+
+    await ctx.runAction(internal.slack.respondToCommand, {
+      responseUrl: args.responseUrl,
+      text,
+      replaceOriginal: true,
+    });
+  },
+});
+
+// ============================================================================
+// CLEANUP
+// ============================================================================
+
+/**
+ * Mark unanswered actions as expired (runs on a cron)
+ */
+export const expirePendingActions = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const now = Date.now();
+    const stale = await ctx.db
+      .query("pendingActions")
+      .withIndex("by_status_expires", (q) => q.eq("status", "pending").lt("expiresAt", now))
+      .collect();
+
+    for (const action of stale) {
+      await ctx.db.patch("pendingActions", action._id, { status: "expired", resolvedVia: "expiry", resolvedAt: now });
+    }
+
+    return { expired: stale.length };
+  },
+});
@@ -0,0 +1,491 @@
+import { v } from "convex/values";
+import { action, internalAction, internalQuery, mutation, query } from "./_generated/server";
+import { api, internal } from "./_generated/api";
+import { Id } from "./_generated/dataModel";
+import { resolveLLM } from "./llm";
+import { buildDateContext, resolveDatePhrase, type DateContext } from "./dateResolver";
+import { structureResponse } from "./responseModel";
+import { renderSlack, renderSms } from "./responseRenderers";
+import { batchRecords, BatchResults } from "./salesforceComposite";
+import { instanceUrlForUser } from "./salesforceOrg";
+import { requireAuthenticatedUser } from "./users";
+
+// ============================================================================
+// NEXT-BEST ACTIONS
+// "What should I work on?" Each rep's open deals, overdue tasks and new leads
+// are checked against the org's rules (stale stage, past close date, no
+// activity in N days, overdue task, new hot lead), scored, merged per record
+// and ranked. An optional model pass re-ranks the top of the list. The
+// assistant answers from it, and reps can have it pushed each morning.
+// ============================================================================
+
+export type RecommendationKind = "past_close_date" | "overdue_task" | "hot_lead" | "no_activity" | "stale_stage";
+
+export interface RecommendationRules {
+  staleStageDays: number; // Same stage for this long
+  noActivityDays: number; // No call, email or meeting for this long
+  newLeadDays: number; // Leads this new that nobody has contacted
+  hotLeadRatings: string[]; // Lead ratings that always count as hot
+  disabled: RecommendationKind[];
+  weights: Partial<Record<RecommendationKind, number>>; // Score multipliers (default 1)
+  llmRerank: boolean;
+}
+
+export interface Recommendation {
+  recordId: string;
+  objectType: "Opportunity" | "Task" | "Lead";
+  name: string;
+  kinds: RecommendationKind[];
+  reasons: string[]; // "Close date passed 12 days ago"
+  action: string; // What to do about it
+  score: number;
+  amount?: number;
+}
+
+export const DEFAULT_RECOMMENDATION_RULES: RecommendationRules = {
+  staleStageDays: 30,
+  noActivityDays: 14,
+  newLeadDays: 3,
+  hotLeadRatings: ["Hot"],
+  disabled: [],
+  weights: {},
+  llmRerank: false,
+};
+
+export const RECOMMENDATION_KINDS: RecommendationKind[] = [
+  "past_close_date", "overdue_task", "hot_lead", "no_activity", "stale_stage",
+];
+
+const DEFAULT_LIMIT = 5;
+const RERANK_POOL = 15;
+// Local hour the morning list goes out
+const MORNING_HOUR = 8;
+
+// Most urgent first when nothing else differs
+const BASE_SCORES: Record<RecommendationKind, number> = {
+  past_close_date: 50,
+  overdue_task: 40,
+  hot_lead: 35,
+  no_activity: 30,
+  stale_stage: 25,
+};
+
+const ACTIONS: Record<RecommendationKind, string> = {
+  past_close_date: "Update the close date or close it out",
+  overdue_task: "Do it or reschedule it",
+  hot_lead: "Reach out while it's warm",
+  no_activity: "Check in with the buyer",
+  stale_stage: "Move it to the next stage or find out what's blocking it",
+};
+
+const OPPORTUNITY_SOQL =
+  "SELECT Id, Name, StageName, Amount, CloseDate, LastActivityDate, LastStageChangeDate, CreatedDate, Account.Name FROM Opportunity WHERE OwnerId = CURRENT_USER AND IsClosed = false ORDER BY Amount DESC NULLS LAST LIMIT 200";
+const TASK_SOQL =
+  "SELECT Id, Subject, ActivityDate, Priority, What.Name, Who.Name FROM Task WHERE OwnerId = CURRENT_USER AND IsClosed = false AND ActivityDate < TODAY ORDER BY ActivityDate ASC LIMIT 100";
+
+function leadSoql(rules: RecommendationRules): string {
+  const ratings = rules.hotLeadRatings.map((r) => `'${r.replace(/'/g, "\\'")}'`).join(", ");
+  const hot = ratings ? ` OR Rating IN (${ratings})` : "";
+  return `SELECT Id, Name, Company, Rating, Status, CreatedDate, LastActivityDate FROM Lead WHERE OwnerId = CURRENT_USER AND IsConverted = false AND (CreatedDate = LAST_N_DAYS:${rules.newLeadDays}${hot}) ORDER BY CreatedDate DESC LIMIT 100`;
+}
+
+// ============================================================================
+// SCORING
+// ============================================================================
+
+// Whole days from a Salesforce date or datetime to today (YYYY-MM-DD)
+function daysSince(value: string | undefined | null, today: string): number | null {
+  if (!value) return null;
+  const then = Date.parse(value.slice(0, 10));
+  if (Number.isNaN(then)) return null;
+  return Math.floor((Date.parse(today) - then) / (24 * 60 * 60 * 1000));
+}
+
+function days(count: number): string {
+  return count === 1 ? "1 day" : `${count} days`;
+}
+
+/**
+ * Rank what needs attention. Signals on the same record merge into one item:
+ * its strongest signal sets the score, each extra one adds a little, and
+ * bigger deals and longer delays rank higher.
+ */
+export function scoreRecommendations(
+  records: { opportunities: any[]; tasks: any[]; leads: any[] },
+  rules: RecommendationRules,
+  today: string
+): Recommendation[] {
+  const items: Recommendation[] = [];
+  const add = (
+    base: Omit<Recommendation, "kinds" | "reasons" | "action" | "score">,
+    signals: { kind: RecommendationKind; reason: string; overdueDays: number }[],
+    boost = 0
+  ) => {
+    const active = signals.filter((s) => !rules.disabled.includes(s.kind));
+    if (active.length === 0) return;
+    const scored = active
+      .map((s) => ({ ...s, score: BASE_SCORES[s.kind] * (rules.weights[s.kind] ?? 1) + Math.min(s.overdueDays, 30) / 3 }))
+      .sort((a, b) => b.score - a.score);
+    items.push({
+      ...base,
+      kinds: scored.map((s) => s.kind),
+      reasons: scored.map((s) => s.reason),
+      action: ACTIONS[scored[0].kind],
+      score: Math.round((scored[0].score + 5 * (scored.length - 1) + boost) * 10) / 10,
+    });
+  };
+
+  for (const opp of records.opportunities) {
+    const signals: { kind: RecommendationKind; reason: string; overdueDays: number }[] = [];
+    const pastClose = daysSince(opp.CloseDate, today);
+    if (pastClose !== null && pastClose > 0) {
+      signals.push({ kind: "past_close_date", reason: `Close date passed ${days(pastClose)} ago`, overdueDays: pastClose });
+    }
+    const quiet = daysSince(opp.LastActivityDate || opp.CreatedDate, today);
+    if (quiet !== null && quiet >= rules.noActivityDays) {
+      signals.push({
+        kind: "no_activity",
+        reason: opp.LastActivityDate ? `No activity in ${days(quiet)}` : `No activity since it was created ${days(quiet)} ago`,
+        overdueDays: quiet - rules.noActivityDays,
+      });
+    }
+    const inStage = daysSince(opp.LastStageChangeDate || opp.CreatedDate, today);
+    if (inStage !== null && inStage >= rules.staleStageDays) {
+      signals.push({
+        kind: "stale_stage",
+        reason: `In ${opp.StageName || "the same stage"} for ${days(inStage)}`,
+        overdueDays: inStage - rules.staleStageDays,
+      });
+    }
+    const amount = typeof opp.Amount === "number" ? opp.Amount : undefined;
+    add(
+      { recordId: opp.Id, objectType: "Opportunity", name: opp.Name, amount },
+      signals,
+      amount && amount > 1 ? Math.min(15, Math.log10(amount) * 2) : 0
+    );
+  }
+
+  for (const task of records.tasks) {
+    const overdue = daysSince(task.ActivityDate, today);
+    if (overdue === null || overdue <= 0) continue;
+    const about = task.What?.Name || task.Who?.Name;
+    add(
+      { recordId: task.Id, objectType: "Task", name: task.Subject || "Task" },
+      [{ kind: "overdue_task", reason: `Due ${days(overdue)} ago${about ? ` (${about})` : ""}`, overdueDays: overdue }],
+      task.Priority === "High" ? 5 : 0
+    );
+  }
+
+  for (const lead of records.leads) {
+    if (lead.LastActivityDate) continue; // Someone's already on it
+    const age = daysSince(lead.CreatedDate, today);
+    const rated = lead.Rating && rules.hotLeadRatings.some((r) => r.toLowerCase() === String(lead.Rating).toLowerCase());
+    if (!rated && (age === null || age > rules.newLeadDays)) continue;
+    const from = lead.Company ? ` from ${lead.Company}` : "";
+    add(
+      { recordId: lead.Id, objectType: "Lead", name: lead.Name },
+      [{
+        kind: "hot_lead",
+        reason: `New ${rated ? `${lead.Rating} ` : ""}lead${from}${age !== null ? `, ${age === 0 ? "created today" : `${days(age)} old`}` : ""} - not contacted yet`,
+        overdueDays: 0,
+      }],
+      rated ? 10 : 0
+    );
+  }
+
+  return items.sort((a, b) => b.score - a.score);
+}
+
+/**
+ * "3 things need you today. 1. Globex Renewal: close date passed 3 days ago - update the close date or close it out. ..."
+ */
+export function describeRecommendations(items: Recommendation[], total = items.length): string {
+  if (items.length === 0) return "Nothing needs your attention right now - your deals, tasks and leads are all up to date.";
+  const intro = total > items.length
+    ? `${total} things need attention. The top ${items.length}:`
+    : `${items.length === 1 ? "One thing needs" : `${items.length} things need`} attention:`;
+  const lines = items.map((item, i) => {
+    const reason = item.reasons[0].charAt(0).toLowerCase() + item.reasons[0].slice(1);
+    return `${i + 1}. ${item.name}: ${reason} - ${item.action.charAt(0).toLowerCase()}${item.action.slice(1)}.`;
+  });
+  return `${intro}\n${lines.join("\n")}`;
+}
+
+// ============================================================================
+// RANKING FOR A USER
+// ============================================================================
+
+async function datesForUser(ctx: any, userId: Id<"users">): Promise<DateContext> {
+  const user = await ctx.runQuery(api.users.getUser, { userId });
+  const orgMetadata = await ctx.runQuery(internal.orgMetadata.getAvailableObjects, { userId });
+  return buildDateContext({
+    now: Date.now(),
+    userTimeZone: user?.timeZone,
+    orgTimeZone: orgMetadata.organization?.timeZone,
+    fiscalYearStartMonth: orgMetadata.organization?.fiscalYearStartMonth,
+  });
+}
+
+/**
+ * The user's ranked action list
+ */
+export async function getRecommendations(
+  ctx: any,
+  options: { userId: Id<"users">; dates?: DateContext; limit?: number }
+): Promise<{ items: Recommendation[]; total: number; sentence: string }> {
+  const rules: RecommendationRules = await ctx.runQuery(internal.recommendations.getRulesForUser, {
+    userId: options.userId,
+  });
+  const dates = options.dates || (await datesForUser(ctx, options.userId));
+  const today = resolveDatePhrase("today", "date", dates) as string;
+
+  // The three queries are independent - one composite round trip
+  const results: BatchResults = await ctx.runAction(api.salesforce.batchRequest, {
+    requests: [
+      { referenceId: "opportunities", soql: OPPORTUNITY_SOQL },
+      { referenceId: "tasks", soql: TASK_SOQL },
+      { referenceId: "leads", soql: leadSoql(rules) },
+    ],
+    userId: options.userId,
+  });
+  const opportunities = batchRecords(results, "opportunities");
+  const tasks = batchRecords(results, "tasks");
+  const leads = batchRecords(results, "leads");
+
+  let ranked = scoreRecommendations({ opportunities, tasks, leads }, rules, today);
+  if (rules.llmRerank && ranked.length > 1) {
+    ranked = await rerankWithModel(ctx, options.userId, ranked);
+  }
+
+  const items = ranked.slice(0, options.limit || DEFAULT_LIMIT);
+  return { items, total: ranked.length, sentence: describeRecommendations(items, ranked.length) };
+}
+
+/**
+ * Let the model reorder the top of the list (it can weigh the whole picture);
+ * anything it leaves out keeps its rule order
+ */
+async function rerankWithModel(ctx: any, userId: Id<"users">, ranked: Recommendation[]): Promise<Recommendation[]> {
+  const pool = ranked.slice(0, RERANK_POOL);
+  try {
+    const llm = await resolveLLM(ctx, "recommendations", userId);
+    const result = await llm.provider.chatJson<{ order?: string[] }>({
+      model: llm.settings.model,
+      maxTokens: llm.settings.maxTokens,
+      temperature: llm.settings.temperature,
+      feature: "recommendations",
+      system: "You plan a sales rep's day. Order the items so the ones most likely to protect or win revenue soonest come first. Reply with JSON: {\"order\": [recordId, ...]}.",
+      messages: [{
+        role: "user",
+        content: pool
+          .map((item) => `- ${item.recordId} | ${item.objectType} | ${item.name}${item.amount ? ` | ${item.amount}` : ""} | ${item.reasons.join("; ")}`)
+          .join("\n"),
+      }],
+    }, { type: "object", properties: { order: { type: "array", items: { type: "string" } } }, required: ["order"] });
+
+    const byId = new Map(pool.map((item) => [item.recordId, item]));
+    const ordered = (result.order || []).map((id) => byId.get(id)).filter((item): item is Recommendation => !!item);
+    const rest = pool.filter((item) => !ordered.includes(item));
+    return [...new Set([...ordered, ...rest])].concat(ranked.slice(RERANK_POOL));
+  } catch (error: any) {
+    console.error("Recommendation re-ranking failed, keeping rule order:", error.message);
+    return ranked;
+  }
+}
+
+/**
+ * Ranked action list for the dashboard
+ */
+export const getForUser = action({
+  args: {
+    userId: v.id("users"),
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, args): Promise<{ items: Recommendation[]; total: number; sentence: string }> => {
+    return await getRecommendations(ctx, { userId: args.userId, limit: args.limit || 20 });
+  },
+});
+
+// ============================================================================
+// PER-ORG RULES
+// ============================================================================
+
+async function loadRules(ctx: any, userId: Id<"users">): Promise<RecommendationRules> {
+  const instanceUrl = await instanceUrlForUser(ctx, userId);
+  const row = instanceUrl
+    ? await ctx.db
+        .query("recommendationRules")
+        .withIndex("by_instance", (q: any) => q.eq("instanceUrl", instanceUrl))
+        .first()
+    : null;
+  return {
+    staleStageDays: row?.staleStageDays ?? DEFAULT_RECOMMENDATION_RULES.staleStageDays,
+    noActivityDays: row?.noActivityDays ?? DEFAULT_RECOMMENDATION_RULES.noActivityDays,
+    newLeadDays: row?.newLeadDays ?? DEFAULT_RECOMMENDATION_RULES.newLeadDays,
+    hotLeadRatings: row?.hotLeadRatings ?? DEFAULT_RECOMMENDATION_RULES.hotLeadRatings,
+    disabled: row?.disabled ?? DEFAULT_RECOMMENDATION_RULES.disabled,
+    weights: row?.weights ?? DEFAULT_RECOMMENDATION_RULES.weights,
+    llmRerank: row?.llmRerank ?? DEFAULT_RECOMMENDATION_RULES.llmRerank,
+  };
+}
+
+export const getRulesForUser = internalQuery({
+  args: { userId: v.id("users") },
+  handler: async (ctx, args): Promise<RecommendationRules> => {
+    return await loadRules(ctx, args.userId);
+  },
+});
+
+/**
+ * The recommendation rules for the user's org (defaults filled in)
+ */
+export const getRules = query({
+  args: { userId: v.id("users") },
+  handler: async (ctx, args) => {
+    return await loadRules(ctx, args.userId);
+  },
+});
+
+const recommendationKind = v.union(
+  v.literal("past_close_date"),
+  v.literal("overdue_task"),
+  v.literal("hot_lead"),
+  v.literal("no_activity"),
+  v.literal("stale_stage")
+);
+
+/**
+ * Change the org's rules - settings left out keep their current value
+ */
+export const setRules = mutation({
+  args: {
+    userId: v.id("users"),
+    staleStageDays: v.optional(v.number()),
+    noActivityDays: v.optional(v.number()),
+    newLeadDays: v.optional(v.number()),
+    hotLeadRatings: v.optional(v.array(v.string())),
+    disabled: v.optional(v.array(recommendationKind)),
+    weights: v.optional(v.record(v.string(), v.number())),
+    llmRerank: v.optional(v.boolean()),
+  },
+  handler: async (ctx, args) => {
+    await requireAuthenticatedUser(ctx, args.userId);
+
+    const instanceUrl = await instanceUrlForUser(ctx, args.userId);
+    if (!instanceUrl) {
+      throw new Error("No Salesforce connection");
+    }
+    for (const key of ["staleStageDays", "noActivityDays", "newLeadDays"] as const) {
+      const value = args[key];
+      if (value !== undefined && (!Number.isInteger(value) || value < 1 || value > 365)) {
+        throw new Error(`${key} must be a whole number of days from 1 to 365`);
+      }
+    }
+    for (const [kind, weight] of Object.entries(args.weights || {})) {
+      if (!RECOMMENDATION_KINDS.includes(kind as RecommendationKind)) {
+        throw new Error(`Unknown recommendation kind: ${kind}`);
+      }
+      if (weight < 0 || weight > 10) {
+        throw new Error("Weights must be between 0 and 10");
+      }
+    }
+
+    const existing = await ctx.db
+      .query("recommendationRules")
+      .withIndex("by_instance", (q) => q.eq("instanceUrl", instanceUrl))
+      .first();
+    const { userId: _userId, ...settings } = args;
+    const updates = Object.fromEntries(Object.entries(settings).filter(([, value]) => value !== undefined));
+    if (existing) {
+      await ctx.db.patch("recommendationRules", existing._id, { ...updates, updatedAt: Date.now() });
+    } else {
+      await ctx.db.insert("recommendationRules", { instanceUrl, ...updates, updatedAt: Date.now() });
+    }
+    return { success: true };
+  },
+});
+
+// ============================================================================
+// MORNING LIST
+// ============================================================================
+
+export const listMorningRecipients = internalQuery({
+  args: {},
+  handler: async (ctx) => {
+    const users = await ctx.db.query("users").collect();
+    return users
+      .filter((user) => user.morningRecommendations)
+      .map((user) => ({
+        userId: user._id,
+        channel: user.morningRecommendations as "sms" | "slack",
+        timeZone: user.timeZone,
+      }));
+  },
+});
+
+function localHour(now: number, timeZone: string | undefined): number {
+  const hour = new Intl.DateTimeFormat("en-US", { hour: "numeric", hourCycle: "h23", timeZone: timeZone || "UTC" })
+    .format(new Date(now));
+  return Number(hour);
+}
+
+/**
+ * Hourly: send the list to everyone for whom it's now morning
+ */
+export const sendMorningRecommendations = internalAction({
+  args: {},
+  handler: async (ctx) => {
+    const now = Date.now();
+    const recipients = await ctx.runQuery(internal.recommendations.listMorningRecipients, {});
+    for (const recipient of recipients) {
+      let hour: number;
+      try {
+        hour = localHour(now, recipient.timeZone);
+      } catch {
+        hour = localHour(now, "UTC");
+      }
+      if (hour !== MORNING_HOUR) continue;
+      await ctx.scheduler.runAfter(0, internal.recommendations.sendDigest, {
+        userId: recipient.userId,
+        channel: recipient.channel,
+      });
+    }
+  },
+});
+
+export const sendDigest = internalAction({
+  args: {
+    userId: v.id("users"),
+    channel: v.union(v.literal("sms"), v.literal("slack")),
+  },
+  handler: async (ctx, args): Promise<{ sent: boolean; reason?: string }> => {
+    let result;
+    try {
+      result = await getRecommendations(ctx, { userId: args.userId });
+    } catch (error: any) {
+      console.error(`Morning recommendations failed for ${args.userId}:`, error.message);
+      return { sent: false, reason: error.message };
+    }
+    if (result.items.length === 0) return { sent: false, reason: "nothing_to_do" };
+
+    if (args.channel === "slack") {
+      // Slack shows each item as a card, so the text is just the intro
+      const { text, blocks } = renderSlack(structureResponse({
+        text: `Good morning! ${result.sentence.split("\n")[0]}`,
+        data: { recommendations: result.items },
+      }));
+      return await ctx.runAction(internal.slack.sendNotification, {
+        userId: args.userId,
+        purpose: "task_reminders",
+        text,
+        blocks,
+      });
+    }
+    const messages = renderSms(structureResponse({ text: `Good morning! ${result.sentence}` }));
+    for (const content of messages) {
+      const sent = await ctx.runAction(api.sendblue.sendProactiveText, { userId: args.userId, content });
+      if (!sent.success) return { sent: false, reason: sent.error };
+    }
+    return { sent: true };
+  },
+});
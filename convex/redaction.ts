@@ -0,0 +1,244 @@
+import type { LLMMessage, LLMProvider, LLMRequest, LLMResponse, LLMSystemBlock } from "./llm";
+
+// ============================================================================
+// PII REDACTION
+// Sensitive values are swapped for tokens ("[EMAIL_1]") before text reaches a
+// model, and the tokens are swapped back in whatever the model returns - so a
+// Salesforce write or a reply to the user carries the real value. Stored text
+// is masked for good instead ("[CARD ending 4242]").
+// ============================================================================
+
+export type PiiKind = "card" | "ssn" | "bank" | "email" | "phone";
+
+export const PII_KINDS: PiiKind[] = ["card", "ssn", "bank", "email", "phone"];
+
+// Without a tenant policy: the regulated categories, everywhere
+export const DEFAULT_REDACTED_KINDS: PiiKind[] = ["card", "ssn", "bank"];
+
+export interface PiiMatch {
+  kind: PiiKind;
+  start: number;
+  end: number;
+  value: string;
+}
+
+// Token ↔ value map for one model conversation (a turn of the assistant)
+export interface RedactionVault {
+  tokenByValue: Map<string, string>;
+  valueByToken: Map<string, string>;
+  counts: Partial<Record<PiiKind, number>>;
+}
+
+const TOKEN_LABELS: Record<PiiKind, string> = {
+  card: "CARD",
+  ssn: "SSN",
+  bank: "BANK",
+  email: "EMAIL",
+  phone: "PHONE",
+};
+
+const TOKEN_PATTERN = /\[(?:CARD|SSN|BANK|EMAIL|PHONE)_\d+\]/g;
+
+// Earlier detectors win overlaps: a card number is never also a phone number
+const DETECTORS: { kind: PiiKind; pattern: RegExp; group?: number; check?: (value: string) => boolean }[] = [
+  { kind: "email", pattern: /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi },
+  { kind: "card", pattern: /\b\d(?:[ -]?\d){12,18}\b/g, check: (value) => luhn(value.replace(/\D/g, "")) },
+  { kind: "ssn", pattern: /\b(?!000|666|9\d\d)\d{3}([- ])(?!00)\d{2}\1(?!0000)\d{4}\b/g },
+  { kind: "ssn", pattern: /\b(?:ssn|social security(?: number)?)\s*(?:is|:|#|no\.?)?\s*(\d{9})\b/gi, group: 1 },
+  { kind: "bank", pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){3,7}(?: ?[A-Z0-9]{1,3})?\b/g, check: isIban },
+  { kind: "bank", pattern: /\b(?:account|acct|routing|aba)(?: number| no\.?| #)?\s*(?:is|:|#)?\s*(\d{6,17})\b/gi, group: 1 },
+  { kind: "phone", pattern: /\+\d{10,15}\b/g },
+  { kind: "phone", pattern: /(?:\b1[-. ]?)?(?:\(\d{3}\)\s?|\b\d{3}[-. ])\d{3}[-. ]\d{4}\b/g },
+];
+
+// ============================================================================
+// DETECTION
+// ============================================================================
+
+/**
+ * Find PII of the given kinds, in text order, without overlaps
+ */
+export function detectPii(text: string, kinds: PiiKind[]): PiiMatch[] {
+  if (kinds.length === 0 || !text) return [];
+  const found: PiiMatch[] = [];
+  for (const detector of DETECTORS) {
+    if (!kinds.includes(detector.kind)) continue;
+    for (const match of text.matchAll(detector.pattern)) {
+      const value = detector.group ? match[detector.group] : match[0];
+      if (!value || (detector.check && !detector.check(value))) continue;
+      const start = match.index + (detector.group ? match[0].lastIndexOf(value) : 0);
+      const end = start + value.length;
+      if (found.some((m) => start < m.end && end > m.start)) continue;
+      found.push({ kind: detector.kind, start, end, value });
+    }
+  }
+  return found.sort((a, b) => a.start - b.start);
+}
+
+function luhn(digits: string): boolean {
+  if (digits.length < 13 || digits.length > 19) return false;
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+// ISO 13616 mod-97 check
+function isIban(value: string): boolean {
+  const iban = value.replace(/ /g, "");
+  if (iban.length < 15 || iban.length > 34) return false;
+  const rearranged = iban.slice(4) + iban.slice(0, 4);
+  let remainder = 0;
+  for (const ch of rearranged) {
+    const code = /[A-Z]/.test(ch) ? String(ch.charCodeAt(0) - 55) : ch;
+    for (const digit of code) remainder = (remainder * 10 + Number(digit)) % 97;
+  }
+  return remainder === 1;
+}
+
+// ============================================================================
+// TOKENIZE / REHYDRATE / MASK
+// ============================================================================
+
+export function createVault(): RedactionVault {
+  return { tokenByValue: new Map(), valueByToken: new Map(), counts: {} };
+}
+
+/**
+ * Replace PII with tokens. The same value always gets the same token within
+ * a vault, so the model can refer back to it.
+ */
+export function tokenizePii(text: string, kinds: PiiKind[], vault: RedactionVault): string {
+  // Number tokens in reading order, then splice from the end
+  const replacements = detectPii(text, kinds).map((match) => {
+    let token = vault.tokenByValue.get(match.value);
+    if (!token) {
+      const n = (vault.counts[match.kind] || 0) + 1;
+      vault.counts[match.kind] = n;
+      token = `[${TOKEN_LABELS[match.kind]}_${n}]`;
+      vault.tokenByValue.set(match.value, token);
+      vault.valueByToken.set(token, match.value);
+    }
+    return { match, token };
+  });
+  let result = text;
+  for (const { match, token } of replacements.reverse()) {
+    result = result.slice(0, match.start) + token + result.slice(match.end);
+  }
+  return result;
+}
+
+/**
+ * Put the real values back - strings, arrays and plain objects, recursively
+ */
+export function rehydrate<T>(value: T, vault: RedactionVault): T {
+  if (vault.valueByToken.size === 0) return value;
+  if (typeof value === "string") {
+    return value.replace(TOKEN_PATTERN, (token) => vault.valueByToken.get(token) ?? token) as T;
+  }
+  if (Array.isArray(value)) return value.map((item) => rehydrate(item, vault)) as T;
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, rehydrate(item, vault)])) as T;
+  }
+  return value;
+}
+
+/**
+ * Irreversible masking for stored text (transcripts, message logs)
+ */
+export function maskPii(text: string, kinds: PiiKind[]): string {
+  let result = text;
+  for (const match of detectPii(text, kinds).reverse()) {
+    const digits = match.value.replace(/\D/g, "");
+    const mask = match.kind === "card" || match.kind === "phone"
+      ? `[${TOKEN_LABELS[match.kind]} ending ${digits.slice(-4)}]`
+      : `[${TOKEN_LABELS[match.kind]}]`;
+    result = result.slice(0, match.start) + mask + result.slice(match.end);
+  }
+  return result;
+}
+
+// ============================================================================
+// PROVIDER WRAPPER
+// ============================================================================
+
+const TOKEN_NOTE = `
+
+## REDACTED VALUES
+Values like [EMAIL_1] or [PHONE_2] stand in for personal data. Use them exactly as written in tool inputs and replies - the real values are filled in before anything is saved or shown to the user.`;
+
+/**
+ * Redact every request to a provider and rehydrate everything it returns.
+ * Cached system blocks are our own static prompt text and pass through.
+ */
+export function withRedaction(provider: LLMProvider, kinds: PiiKind[]): LLMProvider {
+  if (kinds.length === 0) return provider;
+  const vault = createVault();
+
+  const redactRequest = (request: LLMRequest): LLMRequest => {
+    const messages = request.messages.map((message): LLMMessage => {
+      if (message.role === "assistant") {
+        return {
+          ...message,
+          content: tokenizePii(message.content, kinds, vault),
+          toolCalls: message.toolCalls?.map((call) => ({ ...call, input: tokenizeValue(call.input, kinds, vault) })),
+        };
+      }
+      return { ...message, content: tokenizePii(message.content, kinds, vault) };
+    });
+
+    let system: LLMRequest["system"];
+    if (typeof request.system === "string") {
+      system = tokenizePii(request.system, kinds, vault);
+    } else if (request.system) {
+      system = request.system.map((block): LLMSystemBlock =>
+        block.cache ? block : { ...block, text: tokenizePii(block.text, kinds, vault) }
+      );
+    }
+    if (vault.valueByToken.size > 0) {
+      system = typeof system === "string" || system === undefined
+        ? `${system || ""}${TOKEN_NOTE}`
+        : [...system, { text: TOKEN_NOTE }];
+    }
+    return { ...request, system, messages };
+  };
+
+  const rehydrateResponse = (response: LLMResponse): LLMResponse => ({
+    ...response,
+    text: rehydrate(response.text, vault),
+    toolCalls: response.toolCalls.map((call) => ({ ...call, input: rehydrate(call.input, vault) })),
+  });
+
+  return {
+    name: provider.name,
+    async chat(request) {
+      return rehydrateResponse(await provider.chat(redactRequest(request)));
+    },
+    async chatJson(request, schema) {
+      return rehydrate(await provider.chatJson(redactRequest(request), schema), vault);
+    },
+    async stream(request, onText) {
+      // Hold back a partial "[EMAIL_" until the token is complete
+      let pending = "";
+      const response = await provider.stream(redactRequest(request), (delta) => {
+        pending += delta;
+        const open = pending.lastIndexOf("[");
+        const holdFrom = open !== -1 && !pending.includes("]", open) && pending.length - open < 12 ? open : pending.length;
+        if (holdFrom > 0) onText(rehydrate(pending.slice(0, holdFrom), vault));
+        pending = pending.slice(holdFrom);
+      });
+      if (pending) onText(rehydrate(pending, vault));
+      return rehydrateResponse(response);
+    },
+  };
+}
+
+function tokenizeValue(value: Record<string, any>, kinds: PiiKind[], vault: RedactionVault): Record<string, any> {
+  return JSON.parse(tokenizePii(JSON.stringify(value), kinds, vault));
+}
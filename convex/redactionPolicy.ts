@@ -0,0 +1,108 @@
+import { v } from "convex/values";
+import { internalQuery, mutation, query } from "./_generated/server";
+import { Id } from "./_generated/dataModel";
+import { DEFAULT_REDACTED_KINDS, PiiKind } from "./redaction";
+import { instanceUrlForUser } from "./salesforceOrg";
+import { requireAuthenticatedUser } from "./users";
+
+// ============================================================================
+// REDACTION POLICY (per org)
+// Which kinds of PII are tokenized before model calls (llm) and masked in
+// stored transcripts and message logs (storage). Orgs without a row get
+// DEFAULT_REDACTED_KINDS for both.
+// ============================================================================
+
+const piiKind = v.union(
+  v.literal("card"),
+  v.literal("ssn"),
+  v.literal("bank"),
+  v.literal("email"),
+  v.literal("phone")
+);
+
+export interface RedactionPolicy {
+  llm: PiiKind[];
+  storage: PiiKind[];
+}
+
+async function findPolicyRow(ctx: any, userId: Id<"users">) {
+  const instanceUrl = await instanceUrlForUser(ctx, userId);
+  if (!instanceUrl) return null;
+  return await ctx.db
+    .query("redactionPolicies")
+    .withIndex("by_instance", (q: any) => q.eq("instanceUrl", instanceUrl))
+    .first();
+}
+
+/**
+ * Effective policy for a user's org - usable from any query or mutation
+ */
+export async function loadRedactionPolicy(ctx: any, userId?: Id<"users">): Promise<RedactionPolicy> {
+  const row = userId ? await findPolicyRow(ctx, userId) : null;
+  return {
+    llm: row?.llmKinds ?? DEFAULT_REDACTED_KINDS,
+    storage: row?.storageKinds ?? DEFAULT_REDACTED_KINDS,
+  };
+}
+
+export const getForUser = internalQuery({
+  args: { userId: v.id("users") },
+  handler: async (ctx, args): Promise<RedactionPolicy> => {
+    return await loadRedactionPolicy(ctx, args.userId);
+  },
+});
+
+/**
+ * The user's org policy, for settings screens (updatedAt is unset while the
+ * defaults apply)
+ */
+export const getPolicy = query({
+  args: { userId: v.id("users") },
+  handler: async (ctx, args) => {
+    const row = await findPolicyRow(ctx, args.userId);
+    return {
+      llm: row?.llmKinds ?? DEFAULT_REDACTED_KINDS,
+      storage: row?.storageKinds ?? DEFAULT_REDACTED_KINDS,
+      updatedAt: row?.updatedAt as number | undefined,
+    };
+  },
+});
+
+/**
+ * Set the org's policy. Omitted lists keep the default; an empty list turns
+ * redaction off for that path. Only the signed-in user can change their org's.
+ */
+export const setPolicy = mutation({
+  args: {
+    userId: v.id("users"),
+    llmKinds: v.optional(v.array(piiKind)),
+    storageKinds: v.optional(v.array(piiKind)),
+  },
+  handler: async (ctx, args) => {
+    await requireAuthenticatedUser(ctx, args.userId);
+
+    const instanceUrl = await instanceUrlForUser(ctx, args.userId);
+    if (!instanceUrl) {
+      throw new Error("No Salesforce connection");
+    }
+
+    const existing = await ctx.db
+      .query("redactionPolicies")
+      .withIndex("by_instance", (q) => q.eq("instanceUrl", instanceUrl))
+      .first();
+
+    const doc = {
+      instanceUrl,
+      llmKinds: args.llmKinds ? [...new Set(args.llmKinds)] : undefined,
+      storageKinds: args.storageKinds ? [...new Set(args.storageKinds)] : undefined,
+      updatedAt: Date.now(),
+    };
+    if (existing) {
+      await ctx.db.replace("redactionPolicies", existing._id, doc);
+    } else {
+      await ctx.db.insert("redactionPolicies", doc);
+    }
+
+    return { success: true };
+  },
+});
@@ -0,0 +1,478 @@
+import { v } from "convex/values";
+import { internalMutation, internalQuery } from "./_generated/server";
+import { api, internal } from "./_generated/api";
+import { AggregateColumn, AggregateSummary, formatAggregateValue } from "./soqlAggregate";
+import { normalizeInstanceUrl } from "./salesforceOrg";
+
+// ============================================================================
+// REPORTS AND DASHBOARDS
+// Saved Salesforce reports, run through the Analytics REST API. Names are
+// matched fuzzily against a per-org index (reportIndexes, refreshed with the
+// org metadata sync and on demand), and results are summarized as a sentence
+// plus the same table the aggregate queries produce.
+// ============================================================================
+
+export interface ReportIndexEntry {
+  id: string;
+  name: string;
+  kind: "report" | "dashboard";
+  folder?: string;
+  format?: string; // TABULAR, SUMMARY, MATRIX, MULTI_BLOCK
+  lastViewedAt?: number;
+}
+
+export interface ReportFilterOverride {
+  column: string; // API name (ACCOUNT.NAME) or label (Account Name)
+  operator?: string; // Analytics API operator, default "equals"
+  value: string;
+}
+
+export interface ReportMatch {
+  entry: ReportIndexEntry;
+  score: number;
+}
+
+export interface ReportRun extends AggregateSummary {
+  status: "ok" | "not_found" | "ambiguous";
+  report?: { id: string; name: string; kind: "report" | "dashboard"; url?: string };
+  matches?: ReportIndexEntry[]; // Candidates when not_found or ambiguous
+}
+
+// Refreshed on demand once older than this
+const INDEX_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+const MIN_MATCH_SCORE = 0.45;
+const AMBIGUOUS_MARGIN = 0.05;
+const SENTENCE_GROUPS = 5;
+const DASHBOARD_COMPONENTS = 4;
+
+// Fetched by the metadata sync and salesforce.getReportCatalog
+export const REPORT_INDEX_SOQL =
+  "SELECT Id, Name, FolderName, Format, LastViewedDate FROM Report ORDER BY LastViewedDate DESC NULLS LAST LIMIT 2000";
+export const DASHBOARD_INDEX_SOQL =
+  "SELECT Id, Title, FolderName, LastViewedDate FROM Dashboard ORDER BY LastViewedDate DESC NULLS LAST LIMIT 500";
+
+const FILLER_WORDS = new Set(["the", "my", "our", "a", "an", "report", "reports", "dashboard", "dashboards", "for", "of"]);
+
+const OPERATORS = new Set([
+  "equals", "notEqual", "lessThan", "greaterThan", "lessOrEqual", "greaterOrEqual",
+  "contains", "notContain", "startsWith", "includes", "excludes", "within",
+]);
+
+// ============================================================================
+// INDEX
+// ============================================================================
+
+/**
+ * Index entries from the Report and Dashboard SOQL rows
+ */
+export function buildReportIndex(reports: any[], dashboards: any[]): ReportIndexEntry[] {
+  const entry = (row: any, kind: "report" | "dashboard"): ReportIndexEntry => ({
+    id: row.Id,
+    name: kind === "report" ? row.Name : row.Title,
+    kind,
+    folder: row.FolderName || undefined,
+    format: row.Format || undefined,
+    lastViewedAt: row.LastViewedDate ? Date.parse(row.LastViewedDate) : undefined,
+  });
+  return [
+    ...reports.filter((r) => r.Id && r.Name).map((r) => entry(r, "report")),
+    ...dashboards.filter((d) => d.Id && d.Title).map((d) => entry(d, "dashboard")),
+  ];
+}
+
+/**
+ * Best matches for a spoken or typed report name, best first. Tolerates word
+ * order, filler words ("my pipeline report") and small misspellings.
+ */
+export function matchReports(
+  name: string,
+  entries: ReportIndexEntry[],
+  options: { kind?: "report" | "dashboard"; limit?: number } = {}
+): ReportMatch[] {
+  const query = nameTokens(name);
+  if (query.length === 0) return [];
+  const now = Date.now();
+
+  return entries
+    .filter((entry) => !options.kind || entry.kind === options.kind)
+    .map((entry) => {
+      const target = nameTokens(entry.name);
+      const exact = query.join(" ") === target.join(" ") ? 1 : 0;
+      // Share of words matched, in both directions
+      const matched = query.filter((q) => target.some((t) => similarWords(q, t))).length;
+      const overlap = target.length ? (2 * matched) / (query.length + target.length) : 0;
+      const chars = bigramSimilarity(query.join(" "), target.join(" "));
+      // Recently viewed reports win ties
+      const recent = entry.lastViewedAt && now - entry.lastViewedAt < 30 * 24 * 60 * 60 * 1000 ? 0.03 : 0;
+      return { entry, score: Math.max(exact, overlap * 0.7 + chars * 0.3) + recent };
+    })
+    .filter((m) => m.score >= MIN_MATCH_SCORE)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, options.limit ?? 5);
+}
+
+function nameTokens(name: string): string[] {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, " ")
+    .split(/\s+/)
+    .filter((word) => word && !FILLER_WORDS.has(word));
+}
+
+function similarWords(a: string, b: string): boolean {
+  if (a === b) return true;
+  if (a.length >= 4 && b.length >= 4 && (a.startsWith(b) || b.startsWith(a))) return true;
+  return a.length >= 5 && b.length >= 5 && editDistance(a, b) <= 1;
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function bigramSimilarity(a: string, b: string): number {
+  const bigrams = (s: string) => Array.from({ length: Math.max(0, s.length - 1) }, (_, i) => s.slice(i, i + 2));
+  const left = bigrams(a);
+  const right = bigrams(b);
+  if (left.length === 0 || right.length === 0) return 0;
+  const pool = [...right];
+  let shared = 0;
+  for (const bigram of left) {
+    const i = pool.indexOf(bigram);
+    if (i !== -1) {
+      shared++;
+      pool.splice(i, 1);
+    }
+  }
+  return (2 * shared) / (left.length + right.length);
+}
+
+export const getForUser = internalQuery({
+  args: { userId: v.id("users") },
+  handler: async (ctx, args) => {
+    const auth = await ctx.db
+      .query("salesforceAuth")
+      .withIndex("by_user", (q) => q.eq("userId", args.userId))
+      .first();
+    if (!auth) return null;
+
+    return await ctx.db
+      .query("reportIndexes")
+      .withIndex("by_instance", (q) => q.eq("instanceUrl", normalizeInstanceUrl(auth.instanceUrl)))
+      .first();
+  },
+});
+
+export const save = internalMutation({
+  args: {
+    instanceUrl: v.string(),
+    entries: v.array(v.object({
+      id: v.string(),
+      name: v.string(),
+      kind: v.union(v.literal("report"), v.literal("dashboard")),
+      folder: v.optional(v.string()),
+      format: v.optional(v.string()),
+      lastViewedAt: v.optional(v.number()),
+    })),
+  },
+  handler: async (ctx, args) => {
+    const instanceUrl = normalizeInstanceUrl(args.instanceUrl);
+    const existing = await ctx.db
+      .query("reportIndexes")
+      .withIndex("by_instance", (q) => q.eq("instanceUrl", instanceUrl))
+      .first();
+
+    const doc = { instanceUrl, entries: args.entries, builtAt: Date.now() };
+    if (existing) {
+      await ctx.db.replace("reportIndexes", existing._id, doc);
+    } else {
+      await ctx.db.insert("reportIndexes", doc);
+    }
+  },
+});
+
+/**
+ * The org's index, rebuilt from Salesforce when missing or a day old
+ */
+async function loadReportIndex(ctx: any, userId: string): Promise<{ instanceUrl?: string; entries: ReportIndexEntry[] }> {
+  const index = await ctx.runQuery(internal.reports.getForUser, { userId });
+  if (index && Date.now() - index.builtAt < INDEX_MAX_AGE_MS) {
+    return { instanceUrl: index.instanceUrl, entries: index.entries };
+  }
+
+  try {
+    const catalog = await ctx.runAction(api.salesforce.getReportCatalog, { userId });
+    const entries = buildReportIndex(catalog.reports, catalog.dashboards);
+    await ctx.runMutation(internal.reports.save, { instanceUrl: catalog.instanceUrl, entries });
+    return { instanceUrl: normalizeInstanceUrl(catalog.instanceUrl), entries };
+  } catch (error) {
+    // A stale index beats none
+    if (index) return { instanceUrl: index.instanceUrl, entries: index.entries };
+    throw error;
+  }
+}
+
+// ============================================================================
+// RUNNING
+// ============================================================================
+
+/**
+ * The user's reports: recently viewed ones, or those matching `search`
+ */
+export async function listReports(
+  ctx: any,
+  args: { userId: string; search?: string; kind?: "report" | "dashboard" }
+): Promise<{ sentence: string; reports: ReportIndexEntry[] }> {
+  const { entries } = await loadReportIndex(ctx, args.userId);
+  let reports: ReportIndexEntry[];
+  if (args.search) {
+    reports = matchReports(args.search, entries, { kind: args.kind, limit: 10 }).map((m) => m.entry);
+  } else {
+    const recent: { id: string; name: string }[] = args.kind === "dashboard"
+      ? []
+      : await ctx.runAction(api.salesforce.listReports, { userId: args.userId });
+    const byId = new Map(entries.map((e) => [e.id, e]));
+    reports = recent.length > 0
+      ? recent.slice(0, 10).map((r) => byId.get(r.id) || { id: r.id, name: r.name, kind: "report" as const })
+      : entries
+        .filter((e) => !args.kind || e.kind === args.kind)
+        .sort((a, b) => (b.lastViewedAt || 0) - (a.lastViewedAt || 0))
+        .slice(0, 10);
+  }
+
+  const noun = args.kind === "dashboard" ? "dashboard" : "report";
+  if (reports.length === 0) {
+    return { sentence: args.search ? `No ${noun}s match "${args.search}".` : `You don't have any ${noun}s yet.`, reports };
+  }
+  const names = reports.map((r) => r.name);
+  const lead = args.search ? `${names.length} ${noun}${names.length === 1 ? "" : "s"} match "${args.search}"` : `Your recent ${noun}s`;
+  return { sentence: `${lead}: ${joinList(names)}.`, reports };
+}
+
+/**
+ * Find a report or dashboard by name and summarize its results. Filter
+ * overrides apply to this run only; the saved report is unchanged.
+ */
+export async function runReportByName(
+  ctx: any,
+  args: { userId: string; name: string; filters?: ReportFilterOverride[]; kind?: "report" | "dashboard" }
+): Promise<ReportRun> {
+  const { instanceUrl, entries } = await loadReportIndex(ctx, args.userId);
+  const matches = matchReports(args.name, entries, { kind: args.kind });
+  const empty = { columns: [], rows: [] };
+
+  if (matches.length === 0) {
+    return { ...empty, status: "not_found", sentence: `I couldn't find a report called "${args.name}".` };
+  }
+  const [best, ...rest] = matches;
+  const rivals = rest.filter((m) => best.score - m.score < AMBIGUOUS_MARGIN && m.entry.name !== best.entry.name);
+  if (rivals.length > 0) {
+    const options = [best, ...rivals].map((m) => m.entry);
+    return {
+      ...empty,
+      status: "ambiguous",
+      sentence: `Which one did you mean: ${joinList(options.map((o) => o.name), "or")}?`,
+      matches: options,
+    };
+  }
+
+  const entry = best.entry;
+  const report = {
+    id: entry.id,
+    name: entry.name,
+    kind: entry.kind,
+    url: instanceUrl ? `${instanceUrl}/lightning/r/${entry.kind === "report" ? "Report" : "Dashboard"}/${entry.id}/view` : undefined,
+  };
+
+  if (entry.kind === "dashboard") {
+    if (args.filters?.length) {
+      throw new Error("Filters can only be changed on reports, not dashboards");
+    }
+    const result = await ctx.runAction(api.salesforce.getDashboardResults, { dashboardId: entry.id, userId: args.userId });
+    return { ...summarizeDashboard(result, entry.name), status: "ok", report };
+  }
+
+  const result = await ctx.runAction(api.salesforce.runReport, {
+    reportId: entry.id,
+    filters: args.filters,
+    userId: args.userId,
+  });
+  return { ...summarizeReport(result, entry.name), status: "ok", report };
+}
+
+/**
+ * The report's saved metadata with filter overrides applied: a filter on the
+ * same column is replaced, anything else is added (and ANDed into custom
+ * filter logic).
+ */
+export function applyFilterOverrides(describe: any, overrides: ReportFilterOverride[]): any {
+  const metadata = describe.reportMetadata;
+  const columns = filterableColumns(describe);
+  const filters: any[] = [...(metadata.reportFilters || [])];
+  let logic: string | null = metadata.reportBooleanFilter || null;
+  const errors: string[] = [];
+
+  for (const override of overrides) {
+    const operator = override.operator || "equals";
+    if (!OPERATORS.has(operator)) {
+      errors.push(`Unknown filter operator "${operator}".`);
+      continue;
+    }
+    const wanted = override.column.toLowerCase();
+    const column = columns.find((c) => c.name.toLowerCase() === wanted)
+      || columns.find((c) => c.label.toLowerCase() === wanted)
+      || columns.find((c) => c.label.toLowerCase().includes(wanted));
+    if (!column) {
+      errors.push(`"${override.column}" isn't a filterable column on this report.`);
+      continue;
+    }
+    const filter = { column: column.name, operator, value: override.value };
+    const existing = filters.findIndex((f) => f.column === column.name);
+    if (existing !== -1) {
+      filters[existing] = { ...filters[existing], ...filter };
+    } else {
+      filters.push(filter);
+      if (logic) logic = `(${logic}) AND ${filters.length}`;
+    }
+  }
+
+  if (errors.length > 0) {
+    const known = columns.slice(0, 15).map((c) => c.label).join(", ");
+    throw new Error(`${errors.join(" ")} Filterable columns include: ${known}`);
+  }
+  return { ...metadata, reportFilters: filters, reportBooleanFilter: logic };
+}
+
+function filterableColumns(describe: any): { name: string; label: string }[] {
+  const columns = new Map<string, string>();
+  for (const category of describe.reportTypeMetadata?.categories || []) {
+    for (const [name, info] of Object.entries<any>(category.columns || {})) {
+      if (info.filterable !== false) columns.set(name, info.label);
+    }
+  }
+  for (const [name, info] of Object.entries<any>(describe.reportExtendedMetadata?.detailColumnInfo || {})) {
+    if (!columns.has(name)) columns.set(name, info.label);
+  }
+  return [...columns].map(([name, label]) => ({ name, label }));
+}
+
+// ============================================================================
+// SUMMARIES
+// ============================================================================
+
+/**
+ * Grand totals and the first level of row groupings of a report run
+ */
+export function summarizeReport(result: any, name?: string): AggregateSummary {
+  const metadata = result.reportMetadata || {};
+  const extended = result.reportExtendedMetadata || {};
+  const reportName = name || metadata.name || result.attributes?.reportName || "The report";
+  const aggregateNames: string[] = metadata.aggregates || [];
+
+  const metrics: AggregateColumn[] = aggregateNames.map((aggregate, i) => {
+    const info = extended.aggregateColumnInfo?.[aggregate] || {};
+    return {
+      key: `metric${i + 1}`,
+      label: aggregate === "RowCount" ? "Record count" : info.label || aggregate,
+      kind: valueKind(info.dataType),
+      group: false,
+    };
+  });
+
+  const grouping = metadata.groupingsDown?.[0];
+  const groupInfo = grouping ? extended.groupingColumnInfo?.[grouping.name] : undefined;
+  const groupColumn: AggregateColumn | undefined = grouping
+    ? { key: "group1", label: groupInfo?.label || grouping.name, kind: "text", group: true }
+    : undefined;
+
+  const aggregateRow = (factKey: string): Record<string, string | number | null> => {
+    const aggregates = result.factMap?.[factKey]?.aggregates || [];
+    return Object.fromEntries(metrics.map((m, i) => [m.key, aggregateValue(aggregates[i]?.value)]));
+  };
+
+  const totals = aggregateRow("T!T");
+  const totalPhrase = metrics
+    .map((m) => `${lowerFirst(m.label)} ${formatAggregateValue(totals[m.key], m)}`)
+    .join(", ");
+
+  if (!groupColumn) {
+    return {
+      sentence: totalPhrase ? `${reportName}: ${totalPhrase}.` : `${reportName} ran, but has no totals to summarize.`,
+      columns: metrics,
+      rows: [totals],
+    };
+  }
+
+  const groupings: any[] = result.groupingsDown?.groupings || [];
+  const rows = groupings.map((g) => ({ [groupColumn.key]: g.label ?? String(g.value ?? ""), ...aggregateRow(`${g.key}!T`) }));
+  const primary = metrics[0];
+  const items = rows.slice(0, SENTENCE_GROUPS).map((row) =>
+    primary ? `${row[groupColumn.key]} ${formatAggregateValue(row[primary.key], primary)}` : String(row[groupColumn.key])
+  );
+  const more = rows.length > SENTENCE_GROUPS ? `, and ${rows.length - SENTENCE_GROUPS} more` : "";
+  const byGroup = rows.length > 0 ? ` By ${lowerFirst(groupColumn.label)}: ${items.join(", ")}${more}.` : "";
+
+  return {
+    sentence: `${reportName}: ${totalPhrase || `${rows.length} groups`}.${byGroup}`,
+    columns: [groupColumn, ...metrics],
+    rows,
+  };
+}
+
+/**
+ * One line per dashboard component; the table is the first grouped one's
+ */
+export function summarizeDashboard(result: any, name?: string): AggregateSummary {
+  const components: any[] = result.dashboardMetadata?.components || [];
+  const dashboardName = name || result.dashboardMetadata?.name || "The dashboard";
+  const summaries = (result.componentData || [])
+    .filter((c: any) => c.reportResult)
+    .slice(0, DASHBOARD_COMPONENTS)
+    .map((c: any) => {
+      const component = components.find((m) => m.id === c.componentId);
+      const title = component?.header || component?.title || c.reportResult.reportMetadata?.name;
+      return summarizeReport(c.reportResult, title);
+    });
+
+  if (summaries.length === 0) {
+    return { sentence: `${dashboardName} has no components with data.`, columns: [], rows: [] };
+  }
+  const table = summaries.find((s: AggregateSummary) => s.columns.some((c) => c.group)) || summaries[0];
+  return {
+    sentence: `${dashboardName}. ${summaries.map((s: AggregateSummary) => s.sentence).join(" ")}`,
+    columns: table.columns,
+    rows: table.rows,
+  };
+}
+
+function valueKind(dataType?: string): AggregateColumn["kind"] {
+  if (dataType === "currency") return "currency";
+  if (dataType === "percent") return "percent";
+  if (dataType === "date" || dataType === "datetime") return "date";
+  return "number";
+}
+
+// Multi-currency orgs return { amount, currency }
+function aggregateValue(value: any): number | null {
+  if (value === null || value === undefined) return null;
+  if (typeof value === "object") return typeof value.amount === "number" ? value.amount : null;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : null;
+}
+
+function joinList(items: string[], conjunction = "and"): string {
+  if (items.length <= 1) return items.join("");
+  return `${items.slice(0, -1).join(", ")} ${conjunction} ${items[items.length - 1]}`;
+}
+
+function lowerFirst(text: string): string {
+  return text.charAt(0).toLowerCase() + text.slice(1);
+}
@@ -0,0 +1,282 @@
+// ============================================================================
+// STRUCTURED RESPONSES
+// What the assistant answered, independent of the channel: the reply, the
+// records behind it, totals, links and suggested follow-ups. The renderers in
+// responseRenderers.ts turn it into speech, SMS, Slack blocks or web JSON.
+// ============================================================================
+
+export type ResponseValueKind = "text" | "number" | "currency" | "percent" | "date" | "datetime";
+
+export interface ResponseField {
+  label: string;
+  value: string | number;
+  kind: ResponseValueKind;
+}
+
+export interface ResponseRecord {
+  id: string;
+  type: string;
+  name: string;
+  fields: ResponseField[];
+}
+
+export interface ResponseTotal {
+  label: string;
+  value: number;
+  kind: "number" | "currency";
+}
+
+export interface ResponseLink {
+  label: string;
+  url: string;
+}
+
+export interface ResponseChoice {
+  recordId: string;
+  name: string;
+  detail?: string;
+}
+
+// Aggregate results ("average deal size by stage")
+export interface ResponseTable {
+  columns: { key: string; label: string; kind: ResponseValueKind }[];
+  rows: Record<string, string | number | null>[];
+  chart?: { type: "bar"; labelKey: string; valueKey: string }; // One grouping, one measure to plot
+}
+
+export interface StructuredResponse {
+  text: string; // The reply itself - may carry light markdown (**bold**, bullets)
+  action?: string; // AssistantResult.action
+  records: ResponseRecord[];
+  totalSize?: number; // Matches in Salesforce - can exceed records.length
+  totals: ResponseTotal[];
+  table?: ResponseTable;
+  links: ResponseLink[];
+  followUps: string[];
+  confirmations: { id: string; summary: string }[]; // Writes waiting for a yes or no
+  undo?: { id: string; summary: string }; // The write just made - a change journal entry
+  choices?: { id: string; question: string; options: ResponseChoice[] }; // "Which Acme?"
+}
+
+const MAX_RECORDS = 10;
+
+// System fields nobody wants read back to them
+const SKIP_FIELDS = new Set([
+  "attributes", "Id", "OwnerId", "CreatedById", "LastModifiedById", "SystemModstamp",
+  "IsDeleted", "Name", "Subject", "CaseNumber",
+]);
+
+const FIELD_LABELS: Record<string, string> = {
+  StageName: "Stage",
+  CloseDate: "Close date",
+  ActivityDate: "Due",
+  CreatedDate: "Created",
+  LastModifiedDate: "Modified",
+  AnnualRevenue: "Annual revenue",
+  LeadSource: "Source",
+};
+
+/**
+ * Build the structured response from the pieces the agent loop produces.
+ * `data` is the raw result of the step being reported (search results, a
+ * get_my_records payload, a created record, a disambiguation question).
+ */
+export function structureResponse(parts: {
+  text: string;
+  followUp?: string;
+  action?: string;
+  data?: any;
+  recordUrl?: string;
+  pendingActions?: { id: string; summary: string }[];
+  undo?: { id: string; summary: string };
+  objectType?: string;
+}): StructuredResponse {
+  const response: StructuredResponse = {
+    text: parts.text,
+    action: parts.action,
+    records: [],
+    totals: [],
+    links: parts.recordUrl ? [{ label: "View in Salesforce", url: parts.recordUrl }] : [],
+    followUps: parts.followUp ? [parts.followUp] : [],
+    confirmations: parts.pendingActions || [],
+    undo: parts.undo,
+  };
+
+  const data = parts.data;
+  if (!data || typeof data !== "object") return response;
+
+  if (parts.action === "disambiguation" && Array.isArray(data.options)) {
+    response.choices = {
+      id: data.disambiguationId,
+      question: data.question,
+      options: data.options.map((o: any) => ({ recordId: o.recordId, name: o.name, detail: o.detail })),
+    };
+    return response;
+  }
+  if (parts.action === "pending_confirmation") return response;
+
+  if (data.aggregate) {
+    const columns: { key: string; label: string; kind: ResponseValueKind; group: boolean }[] = data.aggregate.columns;
+    const rows: Record<string, string | number | null>[] = data.aggregate.rows;
+    const groups = columns.filter((c) => c.group);
+    const metrics = columns.filter((c) => !c.group);
+    response.table = {
+      columns: columns.map(({ key, label, kind }) => ({ key, label, kind })),
+      rows,
+    };
+    if (groups.length === 1 && metrics.length > 0 && rows.length > 1) {
+      response.table.chart = { type: "bar", labelKey: groups[0].key, valueKey: metrics[0].key };
+    }
+    // A single ungrouped row reads as totals ("Total Amount $1.2M, Count 14")
+    if (groups.length === 0 && rows.length === 1) {
+      for (const metric of metrics) {
+        const value = rows[0][metric.key];
+        if (typeof value === "number" && (metric.kind === "currency" || metric.kind === "number")) {
+          response.totals.push({ label: metric.label, value, kind: metric.kind });
+        }
+      }
+    }
+    // Saved report runs link back to the report
+    if (data.report?.url) {
+      response.links.push({ label: `Open ${data.report.name}`, url: data.report.url });
+    }
+  } else if (Array.isArray(data.reports)) {
+    response.records = data.reports.slice(0, MAX_RECORDS).map((r: any) => ({
+      id: r.id,
+      type: r.kind === "dashboard" ? "Dashboard" : "Report",
+      name: r.name,
+      fields: compactFields([["Folder", r.folder, "text"]]),
+    }));
+    response.totalSize = data.reports.length;
+  } else if (Array.isArray(data.recommendations)) {
+    response.records = data.recommendations.slice(0, MAX_RECORDS).map((r: any) => ({
+      id: r.recordId,
+      type: r.objectType,
+      name: r.name,
+      fields: compactFields([
+        ["Why", r.reasons.join("; "), "text"],
+        ["Next", r.action, "text"],
+        ["Amount", r.amount, "currency"],
+      ]),
+    }));
+    response.totalSize = data.total ?? data.recommendations.length;
+  } else if (Array.isArray(data.opportunities)) {
+    response.records = data.opportunities.slice(0, MAX_RECORDS).map((o: any) => ({
+      id: o.id,
+      type: "Opportunity",
+      name: o.name,
+      fields: compactFields([
+        ["Amount", o.amount, "currency"],
+        ["Stage", o.stage, "text"],
+        ["Close date", o.closeDate, "date"],
+        ["Account", o.accountName, "text"],
+      ]),
+    }));
+    response.totalSize = data.count ?? data.opportunities.length;
+    if (typeof data.totalAmount === "number") {
+      response.totals.push({ label: "Total", value: data.totalAmount, kind: "currency" });
+    }
+  } else if (Array.isArray(data.tasks)) {
+    response.records = data.tasks.slice(0, MAX_RECORDS).map((t: any) => ({
+      id: t.id,
+      type: "Task",
+      name: t.subject,
+      fields: compactFields([
+        ["Due", t.dueDate, "date"],
+        ["Priority", t.priority, "text"],
+        ["Status", t.status, "text"],
+        ["Related to", t.relatedTo === "None" ? undefined : t.relatedTo, "text"],
+      ]),
+    }));
+    response.totalSize = data.count ?? data.tasks.length;
+  } else if (Array.isArray(data.leads)) {
+    response.records = data.leads.slice(0, MAX_RECORDS).map((l: any) => ({
+      id: l.id,
+      type: "Lead",
+      name: l.name,
+      fields: compactFields([
+        ["Company", l.company, "text"],
+        ["Status", l.status, "text"],
+        ["Email", l.email, "text"],
+        ["Phone", l.phone, "text"],
+      ]),
+    }));
+    response.totalSize = data.count ?? data.leads.length;
+  } else if (Array.isArray(data.accounts)) {
+    response.records = data.accounts.slice(0, MAX_RECORDS).map((a: any) => ({
+      id: a.id,
+      type: "Account",
+      name: a.name,
+      fields: compactFields([
+        ["Industry", a.industry, "text"],
+        ["Location", a.location, "text"],
+        ["Annual revenue", a.annualRevenue, "currency"],
+      ]),
+    }));
+    response.totalSize = data.count ?? data.accounts.length;
+  } else if (Array.isArray(data.records)) {
+    response.records = data.records
+      .slice(0, MAX_RECORDS)
+      .map((r: any) => salesforceRecord(r, parts.objectType))
+      .filter((r: ResponseRecord | null): r is ResponseRecord => r !== null);
+    response.totalSize = data.totalSize ?? data.records.length;
+  } else if (data.Id) {
+    const record = salesforceRecord(data, parts.objectType);
+    if (record) response.records = [record];
+  }
+
+  return response;
+}
+
+function compactFields(entries: [string, any, ResponseValueKind][]): ResponseField[] {
+  return entries
+    .filter(([, value]) => value !== undefined && value !== null && value !== "")
+    .map(([label, value, kind]) => ({ label, value, kind }));
+}
+
+/**
+ * A raw Salesforce record (SOQL row, search hit, getRecord result)
+ */
+function salesforceRecord(record: any, objectType?: string): ResponseRecord | null {
+  if (!record || typeof record !== "object") return null;
+  const id = record.Id || record.id;
+  if (!id) return null;
+
+  const fields: ResponseField[] = [];
+  for (const [key, value] of Object.entries(record)) {
+    if (SKIP_FIELDS.has(key) || value === null || value === undefined || value === "") continue;
+    // Relationship fields (Account: { Name }) show the parent's name
+    if (typeof value === "object") {
+      const name = (value as any).Name;
+      if (typeof name === "string") fields.push({ label: fieldLabel(key), value: name, kind: "text" });
+      continue;
+    }
+    // Lookup Ids are noise - the relationship's name is shown when queried
+    if (typeof value === "string" && (/Id$/.test(key) || (/__c$/.test(key) && record[key.replace(/__c$/, "__r")]))) continue;
+    fields.push({ label: fieldLabel(key), value: value as string | number, kind: valueKind(key, value) });
+  }
+
+  return {
+    id,
+    type: record.attributes?.type || objectType || "Record",
+    name: record.Name || record.Subject || record.CaseNumber || record.Title || id,
+    fields,
+  };
+}
+
+function fieldLabel(apiName: string): string {
+  return FIELD_LABELS[apiName] || apiName.replace(/__[cr]$/, "").replace(/^[a-z0-9]+__/, "").replace(/_/g, " ");
+}
+
+function valueKind(key: string, value: unknown): ResponseValueKind {
+  if (typeof value === "number") {
+    if (/Amount|Price|Revenue|Total|Cost|Value/i.test(key)) return "currency";
+    if (/Probability|Percent|Rate/i.test(key)) return "percent";
+    return "number";
+  }
+  if (typeof value === "string") {
+    if (/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}/.test(value)) return "datetime";
+    if (/^\d{4}-\d{2}-\d{2}$/.test(value)) return "date";
+  }
+  return "text";
+}
@@ -0,0 +1,461 @@
+import {
+  Block,
+  actions,
+  button,
+  context,
+  divider,
+  section,
+  sectionWithFields,
+} from "./slackBlocks";
+import { ResponseField, ResponseRecord, ResponseTable, ResponseTotal, StructuredResponse } from "./responseModel";
+
+// ============================================================================
+// RESPONSE RENDERERS
+// One StructuredResponse (see responseModel.ts), rendered for each channel:
+// speech for the voice agent, length-limited texts for SMS/iMessage, Block Kit
+// for Slack, and display-ready JSON for the web app.
+// ============================================================================
+
+export interface RenderOptions {
+  instanceUrl?: string; // Salesforce instance, for record links
+  timeZone?: string; // For DateTime values (default UTC)
+}
+
+// SMS: three concatenated GSM-7 segments. iMessage has no hard limit, but a
+// wall of text on a phone is hard to read.
+const MESSAGE_LIMITS = { SMS: 459, iMessage: 1500 };
+const MAX_MESSAGES = 3;
+
+const SLACK_RECORDS = 5;
+const SLACK_TEXT_LIMIT = 3000; // Section text limit
+const SLACK_TABLE_ROWS = 12;
+const SLACK_BAR_WIDTH = 20;
+
+// 15/18-character Salesforce Ids - record counters are zero-padded, so real
+// Ids always carry a run of zeros
+const SALESFORCE_ID = /\b(?=[a-zA-Z0-9]*000)[a-zA-Z0-9]{15}(?:[a-zA-Z0-9]{3})?\b/g;
+const SALESFORCE_ID_IN_PARENS = /\s*\((?:Id:?\s*)?(?=[a-zA-Z0-9]*000)[a-zA-Z0-9]{15}(?:[a-zA-Z0-9]{3})?\)/g;
+
+const MONTHS = [
+  "January", "February", "March", "April", "May", "June",
+  "July", "August", "September", "October", "November", "December",
+];
+
+// ============================================================================
+// VOICE
+// ============================================================================
+
+/**
+ * Text for TTS: no markdown, links or record Ids; currency and dates the way
+ * a person would say them
+ */
+export function renderVoice(response: StructuredResponse): string {
+  let speech = toSpeech(response.text || describeRecords(response));
+  const [followUp] = response.followUps;
+  if (followUp && !speech.includes(followUp)) {
+    speech = `${speech} ${toSpeech(followUp)}`;
+  }
+  return speech;
+}
+
+function toSpeech(text: string): string {
+  const sentences = stripMarkdown(text)
+    .replace(/^\s*(?:•|\d+\.)\s+/gm, "")
+    .replace(/https?:\/\/\S+/g, "")
+    .replace(SALESFORCE_ID_IN_PARENS, "")
+    .replace(SALESFORCE_ID, "")
+    .replace(/\$\s?(\d[\d,]*(?:\.\d+)?)(?:\s?([kmb])\b)?/gi, (_, amount: string, scale?: string) =>
+      spokenCurrency(Number(amount.replace(/,/g, "")) * scaleFactor(scale))
+    )
+    .replace(/\b(\d{4})-(\d{2})-(\d{2})(?:T[\d:.]+(?:Z|[+-]\d{2}:?\d{2})?)?\b/g, (match, y, m, d) =>
+      spokenDate(Number(y), Number(m), Number(d)) || match
+    )
+    .replace(/\s&\s/g, " and ")
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean)
+    // List items and headers become sentences
+    .map((line) => (/[.!?:,]$/.test(line) ? line : `${line}.`));
+
+  return sentences
+    .join(" ")
+    .replace(/\(\s*\)/g, "")
+    .replace(/\s+([.,!?])/g, "$1")
+    .replace(/\s{2,}/g, " ")
+    .trim();
+}
+
+function scaleFactor(scale?: string): number {
+  switch (scale?.toLowerCase()) {
+    case "k": return 1e3;
+    case "m": return 1e6;
+    case "b": return 1e9;
+    default: return 1;
+  }
+}
+
+function spokenCurrency(amount: number): string {
+  const round = (n: number, digits: number) => String(Number(n.toFixed(digits)));
+  if (amount >= 1e9) return `${round(amount / 1e9, 2)} billion dollars`;
+  if (amount >= 1e6) return `${round(amount / 1e6, 2)} million dollars`;
+  if (amount >= 1e4) return `${round(amount / 1e3, 1)} thousand dollars`;
+  const dollars = Math.floor(amount);
+  const cents = Math.round((amount - dollars) * 100);
+  const spoken = `${dollars} dollar${dollars === 1 ? "" : "s"}`;
+  return cents > 0 ? `${spoken} and ${cents} cent${cents === 1 ? "" : "s"}` : spoken;
+}
+
+function spokenDate(year: number, month: number, day: number): string | null {
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+  const suffix = day % 10 === 1 && day !== 11 ? "st"
+    : day % 10 === 2 && day !== 12 ? "nd"
+    : day % 10 === 3 && day !== 13 ? "rd"
+    : "th";
+  const spoken = `${MONTHS[month - 1]} ${day}${suffix}`;
+  return year === new Date().getUTCFullYear() ? spoken : `${spoken}, ${year}`;
+}
+
+// ============================================================================
+// SMS / IMESSAGE
+// ============================================================================
+
+/**
+ * Plain-text messages, split at paragraph, line or sentence breaks to fit the
+ * service's length limit. Links and the confirmation prompt always go out.
+ */
+export function renderSms(
+  response: StructuredResponse,
+  options: RenderOptions & { service?: "SMS" | "iMessage" } = {}
+): string[] {
+  const limit = MESSAGE_LIMITS[options.service || "SMS"];
+
+  let body = stripMarkdown(response.text || describeRecords(response, options));
+  for (const followUp of response.followUps) {
+    if (!body.includes(followUp)) body += `\n\n${followUp}`;
+  }
+
+  const tail: string[] = response.links.map((link) => `${link.label}: ${link.url}`);
+  if (response.confirmations.length > 0) tail.push("Reply YES to confirm or NO to cancel.");
+  else if (response.undo) tail.push("Reply UNDO to undo.");
+
+  const messages = splitMessage(body.trim(), limit);
+  if (messages.length > MAX_MESSAGES) {
+    messages.length = MAX_MESSAGES;
+    messages[MAX_MESSAGES - 1] = `${messages[MAX_MESSAGES - 1].slice(0, limit - 1).trimEnd()}…`;
+  }
+
+  if (tail.length > 0) {
+    const extra = tail.join("\n");
+    const last = messages[messages.length - 1];
+    if (last && last.length + extra.length + 2 <= limit) {
+      messages[messages.length - 1] = `${last}\n\n${extra}`;
+    } else {
+      messages.push(extra);
+    }
+  }
+  return messages.filter(Boolean);
+}
+
+function splitMessage(text: string, limit: number): string[] {
+  const parts: string[] = [];
+  let rest = text;
+  while (rest.length > limit) {
+    const cut = breakPoint(rest, limit);
+    parts.push(rest.slice(0, cut).trim());
+    rest = rest.slice(cut).trim();
+  }
+  if (rest) parts.push(rest);
+  return parts;
+}
+
+// Prefer the latest paragraph break in the second half of the window, then a
+// line break, a sentence end, a space - and only then a hard cut
+function breakPoint(text: string, limit: number): number {
+  const window = text.slice(0, limit);
+  for (const separator of ["\n\n", "\n", ". ", "? ", "! ", " "]) {
+    const index = window.lastIndexOf(separator);
+    if (index > limit / 2) return index + separator.length;
+  }
+  return limit;
+}
+
+// ============================================================================
+// SLACK
+// ============================================================================
+
+/**
+ * Block Kit message plus the plain-text fallback Slack shows in notifications.
+ * Button action ids are handled in /webhooks/slack/actions.
+ */
+export function renderSlack(
+  response: StructuredResponse,
+  options: RenderOptions = {}
+): { text: string; blocks: Block[] } {
+  const text = stripMarkdown(response.text || describeRecords(response, options));
+  const blocks: Block[] = [section(toMrkdwn(response.text || text).slice(0, SLACK_TEXT_LIMIT))];
+
+  if (response.records.length > 0) {
+    blocks.push(divider());
+    for (const record of response.records.slice(0, SLACK_RECORDS)) {
+      const details = record.fields.slice(0, 4).map((field) => formatValue(field, options)).join(" · ");
+      const url = recordLink(record, options);
+      blocks.push(
+        section(
+          `• *${record.name}* (${record.type})${details ? `\n${details}` : ""}`,
+          url ? button("View", `view_${record.id}`, record.id, { url }) : undefined
+        )
+      );
+    }
+    const shown = Math.min(response.records.length, SLACK_RECORDS);
+    if (response.totalSize && response.totalSize > shown) {
+      blocks.push(context([`Showing ${shown} of ${response.totalSize}`]));
+    }
+  }
+
+  if (response.totals.length > 0) {
+    blocks.push(sectionWithFields(response.totals.map((total) => `*${total.label}*\n${formatTotal(total)}`)));
+  }
+
+  // Grouped aggregates: a bar chart when there's one grouping, else a table
+  const table = response.table;
+  if (table && table.rows.length > 0 && table.columns.length > 1 && response.totals.length === 0) {
+    blocks.push(section(table.chart ? slackChart(table, options) : slackTable(table, options)));
+    if (table.rows.length > SLACK_TABLE_ROWS) {
+      blocks.push(context([`Showing ${SLACK_TABLE_ROWS} of ${table.rows.length} rows`]));
+    }
+  }
+
+  if (response.links.length > 0) {
+    blocks.push(
+      actions(
+        response.links.map((link, i) =>
+          button(link.label, i === 0 ? "view_created" : `view_link_${i}`, undefined, { url: link.url, style: "primary" })
+        )
+      )
+    );
+  } else if (response.action === "update" && !response.undo) {
+    blocks.push(context(["Record updated successfully"]));
+  }
+
+  if (response.undo) {
+    blocks.push(actions([button("Undo", "undo_change", response.undo.id)]));
+  }
+
+  // One button per candidate record
+  if (response.choices) {
+    const choiceId = response.choices.id;
+    blocks.push(
+      actions(
+        response.choices.options.map((option, i) => {
+          const label = option.detail ? `${option.name} ${option.detail}` : option.name;
+          return button(
+            label.length > 75 ? `${label.slice(0, 72)}...` : label,
+            `choose_record_${i}`,
+            `${choiceId}|${option.recordId}`
+          );
+        })
+      )
+    );
+  }
+
+  // Staged writes get Confirm / Cancel buttons
+  if (response.confirmations.length > 0) {
+    blocks.push(divider());
+    for (const pending of response.confirmations) {
+      blocks.push(section(`*Confirm:* ${pending.summary}`));
+      blocks.push(
+        actions([
+          button("Confirm", "confirm_pending_action", pending.id, { style: "primary" }),
+          button("Cancel", "cancel_pending_action", pending.id, { style: "danger" }),
+        ])
+      );
+    }
+  }
+
+  if (response.followUps.length > 0) {
+    blocks.push(divider());
+    blocks.push(context(response.followUps.map((followUp) => `💡 ${followUp}`)));
+  }
+
+  return { text, blocks };
+}
+
+// Monospace table - numbers right-aligned
+function slackTable(table: ResponseTable, options: RenderOptions): string {
+  const rows = table.rows.slice(0, SLACK_TABLE_ROWS).map((row) =>
+    table.columns.map((column) => formatCell(row[column.key], column, options))
+  );
+  const widths = table.columns.map((column, i) => Math.max(column.label.length, ...rows.map((row) => row[i].length)));
+  const line = (cells: string[]) =>
+    cells
+      .map((cell, i) => (table.columns[i].kind === "text" || table.columns[i].kind === "date" ? cell.padEnd(widths[i]) : cell.padStart(widths[i])))
+      .join("  ")
+      .trimEnd();
+  const lines = [line(table.columns.map((c) => c.label)), widths.map((w) => "-".repeat(w)).join("  "), ...rows.map(line)];
+  return "```\n" + lines.join("\n") + "\n```";
+}
+
+// Text bar chart - Block Kit has no chart element
+function slackChart(table: ResponseTable, options: RenderOptions): string {
+  const chart = table.chart as NonNullable<ResponseTable["chart"]>;
+  const valueColumn = table.columns.find((c) => c.key === chart.valueKey) as ResponseTable["columns"][number];
+  const labelColumn = table.columns.find((c) => c.key === chart.labelKey) as ResponseTable["columns"][number];
+  const rows = table.rows.slice(0, SLACK_TABLE_ROWS);
+  const labels = rows.map((row) => formatCell(row[chart.labelKey], labelColumn, options));
+  const values = rows.map((row) => Number(row[chart.valueKey]) || 0);
+  const max = Math.max(...values.map(Math.abs), 1);
+  const width = Math.max(...labels.map((label) => label.length));
+  const lines = rows.map((row, i) => {
+    const bar = "█".repeat(Math.max(values[i] > 0 ? 1 : 0, Math.round((Math.abs(values[i]) / max) * SLACK_BAR_WIDTH)));
+    return `${labels[i].padEnd(width)}  ${bar.padEnd(SLACK_BAR_WIDTH)}  ${formatCell(row[chart.valueKey], valueColumn, options)}`;
+  });
+  return `*${valueColumn.label} by ${labelColumn.label.toLowerCase()}*\n\`\`\`\n${lines.join("\n")}\n\`\`\``;
+}
+
+// **bold**, list items and [label](url) in Slack's mrkdwn dialect
+function toMrkdwn(text: string): string {
+  return text
+    .replace(/\*\*(.+?)\*\*/g, "*$1*")
+    .replace(/^\s*[-*]\s+/gm, "• ")
+    .replace(/\[([^\]]+)\]\((https?:\/\/[^)]+)\)/g, "<$2|$1>");
+}
+
+// ============================================================================
+// WEB
+// ============================================================================
+
+export interface WebResponse {
+  text: string; // Markdown
+  action?: string;
+  records: {
+    id: string;
+    type: string;
+    name: string;
+    url?: string;
+    fields: { label: string; value: string | number; display: string }[];
+  }[];
+  totalSize?: number;
+  totals: { label: string; value: number; display: string }[];
+  table?: {
+    columns: ResponseTable["columns"];
+    rows: { value: string | number | null; display: string }[][]; // Cells in column order
+    chart?: ResponseTable["chart"];
+  };
+  links: { label: string; url: string }[];
+  followUps: string[];
+  confirmations: { id: string; summary: string }[];
+  undo?: StructuredResponse["undo"]; // Pass undo.id to changeJournal.undo
+  choices?: StructuredResponse["choices"];
+}
+
+/**
+ * JSON for the web app: the structured response with display strings and
+ * record links filled in
+ */
+export function renderWeb(response: StructuredResponse, options: RenderOptions = {}): WebResponse {
+  return {
+    text: response.text,
+    action: response.action,
+    records: response.records.map((record) => ({
+      id: record.id,
+      type: record.type,
+      name: record.name,
+      url: recordLink(record, options),
+      fields: record.fields.map((field) => ({
+        label: field.label,
+        value: field.value,
+        display: formatValue(field, options),
+      })),
+    })),
+    totalSize: response.totalSize,
+    totals: response.totals.map((total) => ({ label: total.label, value: total.value, display: formatTotal(total) })),
+    table: response.table && {
+      columns: response.table.columns,
+      rows: response.table.rows.map((row) =>
+        response.table!.columns.map((column) => ({
+          value: row[column.key] ?? null,
+          display: formatCell(row[column.key], column, options),
+        }))
+      ),
+      chart: response.table.chart,
+    },
+    links: response.links,
+    followUps: response.followUps,
+    confirmations: response.confirmations,
+    undo: response.undo,
+    choices: response.choices,
+  };
+}
+
+// ============================================================================
+// SHARED FORMATTING
+// ============================================================================
+
+function formatValue(field: ResponseField, options: RenderOptions): string {
+  const { value, kind } = field;
+  if (typeof value === "number") {
+    if (kind === "currency") return formatCurrency(value);
+    if (kind === "percent") return `${value}%`;
+    return value.toLocaleString("en-US");
+  }
+  if (kind === "date") {
+    const date = new Date(`${value}T00:00:00Z`);
+    if (!isNaN(date.getTime())) {
+      return date.toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric", timeZone: "UTC" });
+    }
+  }
+  if (kind === "datetime") {
+    const date = new Date(value);
+    if (!isNaN(date.getTime())) {
+      return date.toLocaleString("en-US", {
+        month: "short",
+        day: "numeric",
+        year: "numeric",
+        hour: "numeric",
+        minute: "2-digit",
+        timeZone: options.timeZone || "UTC",
+      });
+    }
+  }
+  return String(value);
+}
+
+function formatCell(value: string | number | null | undefined, column: ResponseTable["columns"][number], options: RenderOptions): string {
+  if (value === null || value === undefined) return "—";
+  return formatValue({ label: column.label, value, kind: column.kind }, options);
+}
+
+function formatTotal(total: ResponseTotal): string {
+  return total.kind === "currency" ? formatCurrency(total.value) : total.value.toLocaleString("en-US");
+}
+
+function formatCurrency(amount: number): string {
+  return "$" + amount.toLocaleString("en-US", { maximumFractionDigits: 2 });
+}
+
+function recordLink(record: ResponseRecord, options: RenderOptions): string | undefined {
+  if (!options.instanceUrl) return undefined;
+  return `${options.instanceUrl.replace(/\/$/, "")}/lightning/r/${record.type}/${record.id}/view`;
+}
+
+function stripMarkdown(text: string): string {
+  return text
+    .replace(/\*\*(.+?)\*\*/g, "$1")
+    .replace(/(^|\s)[*_](\S(?:.*?\S)?)[*_](?=\s|[.,!?]|$)/gm, "$1$2")
+    .replace(/`([^`]+)`/g, "$1")
+    .replace(/^#{1,6}\s+/gm, "")
+    .replace(/^\s*[-*]\s+/gm, "• ")
+    .replace(/\[([^\]]+)\]\((https?:\/\/[^)]+)\)/g, "$1: $2");
+}
+
+// When the reply itself is empty: "Acme – 50k ($50,000, Negotiation), ..."
+function describeRecords(response: StructuredResponse, options: RenderOptions = {}): string {
+  if (response.records.length === 0) return "";
+  const names = response.records.slice(0, 3).map((record) => {
+    const [first] = record.fields;
+    return first ? `${record.name} (${formatValue(first, options)})` : record.name;
+  });
+  const total = response.totalSize ?? response.records.length;
+  const more = total > names.length ? ` and ${total - names.length} more` : "";
+  return `Found ${total}: ${names.join(", ")}${more}.`;
+}
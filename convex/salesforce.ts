@@ -1,6 +1,11 @@
 import { v } from "convex/values";
 import { action, internalMutation, internalQuery, query } from "./_generated/server";
 import { internal } from "./_generated/api";
+import { applyFilterOverrides, DASHBOARD_INDEX_SOQL, REPORT_INDEX_SOQL } from "./reports";
+import { isRetryable, parseApiUsage, parseRetryAfter, retryDelayMs, SalesforceApiError } from "./salesforceErrors";
+import { BatchResults, checkBatch, Subrequest, toCompositeSubrequest } from "./salesforceComposite";
+import { cacheRecordId, CacheKind } from "./salesforceCache";
+import { normalizeInstanceUrl } from "./salesforceOrg";
 
 // ============================================================================
 // PUBLIC QUERIES
@@ -30,6 +35,33 @@ export const getSalesforceStatus = query({
   },
 });
 
+/**
+ * API requests the user's org has made in the last 24 hours, against its limit
+ */
+export const getApiUsage = query({
+  args: { userId: v.id("users") },
+  handler: async (ctx, args) => {
+    const auth = await ctx.db
+      .query("salesforceAuth")
+      .withIndex("by_user", (q) => q.eq("userId", args.userId))
+      .first();
+    if (!auth) return null;
+
+    const usage = await ctx.db
+      .query("salesforceApiUsage")
+      .withIndex("by_instance", (q) => q.eq("instanceUrl", normalizeInstanceUrl(auth.instanceUrl)))
+      .first();
+    if (!usage) return null;
+
+    return {
+      used: usage.used,
+      limit: usage.limit,
+      percentUsed: usage.limit > 0 ? Math.round((usage.used / usage.limit) * 100) : 0,
+      updatedAt: usage.updatedAt,
+    };
+  },
+});
+
 // ============================================================================
 // SALESFORCE API HELPERS
 // ============================================================================
@@ -37,6 +69,10 @@ export const getSalesforceStatus = query({
 interface SalesforceAuth {
   accessToken: string;
   instanceUrl: string;
+  refresh?: () => Promise<{ accessToken: string; instanceUrl: string }>; // Stored OAuth connections only
+  recordUsage?: (usage: { used: number; limit: number }) => Promise<void>;
+  userId?: string; // TalkCRM user who owns the connection
+  salesforceUserId?: string; // Their Salesforce User Id, once known
 }
 
 interface GetAuthOptions {
@@ -49,13 +85,32 @@ interface OrgCredentials {
   consumerSecret: string;
 }
 
+// Refresh tokens that expire within this window before using them
+const REFRESH_BUFFER_MS = 5 * 60 * 1000; // 5 minutes
+
+// Transient failures are retried this many times before giving up
+const MAX_RETRIES = 3;
+
+// API usage is written at most this often per org from a running instance
+const USAGE_WRITE_INTERVAL_MS = 60 * 1000;
+const usageWrittenAt = new Map<string, number>();
+
+// Salesforce User Ids for connections without a row to keep them on (env
+// credentials), by access token
+const salesforceUserIds = new Map<string, string>();
+
+const SESSION_EXPIRED_MESSAGE = "Salesforce session expired. Please reconnect your Salesforce account.";
+
 async function getSalesforceAuth(ctx: any, options?: GetAuthOptions): Promise<SalesforceAuth> {
+  const recordUsage = (instanceUrl: string) => (usage: { used: number; limit: number }) =>
+    recordApiUsage(ctx, instanceUrl, usage);
+
   // First check for direct token in environment (for demo/testing)
   const envToken = process.env.SALESFORCE_ACCESS_TOKEN;
   const envInstanceUrl = process.env.SALESFORCE_INSTANCE_URL;
 
   if (envToken && envInstanceUrl) {
-    return { accessToken: envToken, instanceUrl: envInstanceUrl };
+    return { accessToken: envToken, instanceUrl: envInstanceUrl, recordUsage: recordUsage(envInstanceUrl) };
   }
 
   // Try username-password flow if credentials are set
@@ -87,7 +142,7 @@ async function getSalesforceAuth(ctx: any, options?: GetAuthOptions): Promise<Sa
     }
 
     const data = await response.json();
-    return { accessToken: data.access_token, instanceUrl: data.instance_url };
+    return { accessToken: data.access_token, instanceUrl: data.instance_url, recordUsage: recordUsage(data.instance_url) };
   }
 
   // Resolve userId from options
@@ -107,49 +162,17 @@ async function getSalesforceAuth(ctx: any, options?: GetAuthOptions): Promise<Sa
     });
 
     if (userAuth) {
-      // Check if token is expired or expiring soon (5 min buffer) and refresh if needed
-      const REFRESH_BUFFER_MS = 5 * 60 * 1000; // 5 minutes
-      if (userAuth.expiresAt < Date.now() + REFRESH_BUFFER_MS) {
-        try {
-          // Look up per-org credentials for this instance
-          let orgCreds: OrgCredentials | undefined;
-          if (userAuth.instanceUrl) {
-            const normalizedUrl = userAuth.instanceUrl.replace(/\/$/, "").replace(".lightning.force.com", ".my.salesforce.com");
-            const orgCredRecord = await ctx.runQuery(internal.orgCredentials.getByInstance, {
-              instanceUrl: normalizedUrl,
-            });
-            if (orgCredRecord) {
-              orgCreds = {
-                consumerKey: orgCredRecord.consumerKey,
-                consumerSecret: orgCredRecord.consumerSecret,
-              };
-              console.log(`Found org credentials for ${normalizedUrl}`);
-            } else {
-              console.log(`No org credentials found for ${normalizedUrl}, falling back to env vars`);
-            }
-          }
-
-          const refreshed = await refreshSalesforceToken(userAuth.refreshToken, userAuth.instanceUrl, orgCreds);
-          await ctx.runMutation(internal.salesforce.updateAuthForUser, {
-            userId,
-            ...refreshed,
-          });
-          console.log(`Refreshed Salesforce token for user ${userId}`);
-          return { accessToken: refreshed.accessToken, instanceUrl: refreshed.instanceUrl };
-        } catch (refreshError: any) {
-          // If refresh fails, clear the bad auth so user is prompted to re-connect
-          console.error(`Token refresh failed for user ${userId}:`, refreshError.message);
-          if (refreshError.message.includes("app_not_found") ||
-              refreshError.message.includes("invalid_grant") ||
-              refreshError.message.includes("expired") ||
-              refreshError.message.includes("No OAuth credentials")) {
-            await ctx.runMutation(internal.salesforce.clearAuthForUser, { userId });
-            throw new Error("Salesforce session expired. Please reconnect your Salesforce account.");
-          }
-          throw refreshError;
-        }
-      }
-      return { accessToken: userAuth.accessToken, instanceUrl: userAuth.instanceUrl };
+      const refresh = () => refreshStoredAuth(ctx, userAuth, userId);
+      const current = userAuth.expiresAt < Date.now() + REFRESH_BUFFER_MS
+        ? await refresh()
+        : { accessToken: userAuth.accessToken, instanceUrl: userAuth.instanceUrl };
+      return {
+        ...current,
+        refresh,
+        recordUsage: recordUsage(current.instanceUrl),
+        userId,
+        salesforceUserId: userAuth.salesforceUserId,
+      };
     }
   }
 
@@ -159,37 +182,71 @@ async function getSalesforceAuth(ctx: any, options?: GetAuthOptions): Promise<Sa
     throw new Error("Salesforce not connected. Please set SALESFORCE_ACCESS_TOKEN and SALESFORCE_INSTANCE_URL, or configure OAuth credentials.");
   }
 
-  // Check if token is expired or expiring soon (5 min buffer) and refresh if needed
-  const REFRESH_BUFFER_MS = 5 * 60 * 1000; // 5 minutes
-  if (auth.expiresAt < Date.now() + REFRESH_BUFFER_MS) {
-    try {
-      // Look up per-org credentials for this instance (legacy auth may also be per-org)
-      let orgCreds: OrgCredentials | undefined;
-      if (auth.instanceUrl) {
-        const normalizedUrl = auth.instanceUrl.replace(/\/$/, "").replace(".lightning.force.com", ".my.salesforce.com");
-        const orgCredRecord = await ctx.runQuery(internal.orgCredentials.getByInstance, {
-          instanceUrl: normalizedUrl,
-        });
-        if (orgCredRecord) {
-          orgCreds = {
-            consumerKey: orgCredRecord.consumerKey,
-            consumerSecret: orgCredRecord.consumerSecret,
-          };
-          console.log(`Found org credentials for legacy auth: ${normalizedUrl}`);
-        }
+  const refresh = () => refreshStoredAuth(ctx, auth);
+  const current = auth.expiresAt < Date.now() + REFRESH_BUFFER_MS
+    ? await refresh()
+    : { accessToken: auth.accessToken, instanceUrl: auth.instanceUrl };
+  return {
+    ...current,
+    refresh,
+    recordUsage: recordUsage(current.instanceUrl),
+    salesforceUserId: auth.salesforceUserId,
+  };
+}
+
+/**
+ * Refresh a stored connection's access token and save it. A user whose
+ * connection Salesforce won't refresh any more (revoked, expired, connected
+ * app gone) has it cleared so they're prompted to reconnect.
+ */
+async function refreshStoredAuth(
+  ctx: any,
+  stored: { refreshToken: string; instanceUrl: string },
+  userId?: string
+): Promise<{ accessToken: string; instanceUrl: string }> {
+  try {
+    // Look up per-org credentials for this instance (legacy auth may also be per-org)
+    let orgCreds: OrgCredentials | undefined;
+    if (stored.instanceUrl) {
+      const normalizedUrl = normalizeInstanceUrl(stored.instanceUrl);
+      const orgCredRecord = await ctx.runQuery(internal.orgCredentials.getByInstance, {
+        instanceUrl: normalizedUrl,
+      });
+      if (orgCredRecord) {
+        orgCreds = {
+          consumerKey: orgCredRecord.consumerKey,
+          consumerSecret: orgCredRecord.consumerSecret,
+        };
+        console.log(`Found org credentials for ${normalizedUrl}`);
+      } else {
+        console.log(`No org credentials found for ${normalizedUrl}, falling back to env vars`);
       }
+    }
 
-      const refreshed = await refreshSalesforceToken(auth.refreshToken, auth.instanceUrl, orgCreds);
+    const refreshed = await refreshSalesforceToken(stored.refreshToken, stored.instanceUrl, orgCreds);
+    if (userId) {
+      await ctx.runMutation(internal.salesforce.updateAuthForUser, {
+        userId,
+        ...refreshed,
+      });
+      console.log(`Refreshed Salesforce token for user ${userId}`);
+    } else {
       await ctx.runMutation(internal.salesforce.updateAuth, refreshed);
       console.log("Refreshed Salesforce token (legacy auth)");
-      return { accessToken: refreshed.accessToken, instanceUrl: refreshed.instanceUrl };
-    } catch (refreshError: any) {
+    }
+    return { accessToken: refreshed.accessToken, instanceUrl: refreshed.instanceUrl };
+  } catch (refreshError: any) {
+    if (!userId) {
       console.error("Token refresh failed (legacy auth):", refreshError.message);
-      throw new Error("Salesforce session expired. Please reconnect your Salesforce account.");
+      throw new Error(SESSION_EXPIRED_MESSAGE);
     }
+    console.error(`Token refresh failed for user ${userId}:`, refreshError.message);
+    if (refreshError instanceof SalesforceApiError && refreshError.kind === "session_expired") {
+      await ctx.runMutation(internal.salesforce.clearAuthForUser, { userId });
+      throw new Error(SESSION_EXPIRED_MESSAGE);
+    }
+    throw refreshError;
   }
-
-  return { accessToken: auth.accessToken, instanceUrl: auth.instanceUrl };
 }
 
 async function refreshSalesforceToken(
@@ -202,11 +259,11 @@ async function refreshSalesforceToken(
   const clientSecret = orgCredentials?.consumerSecret || process.env.SALESFORCE_CLIENT_SECRET;
 
   if (!clientId || !clientSecret) {
-    throw new Error(
-      `No OAuth credentials available for token refresh. ` +
-      `Instance: ${instanceUrl || 'unknown'}. ` +
-      `Please ensure org credentials are configured.`
-    );
+    // Nothing to refresh with - same outcome as Salesforce rejecting the client
+    throw new SalesforceApiError(400, JSON.stringify({
+      error: "invalid_client",
+      error_description: `No OAuth credentials available for token refresh. Instance: ${instanceUrl || "unknown"}. Please ensure org credentials are configured.`,
+    }));
   }
 
   // Use the instance's token endpoint if available, otherwise default
@@ -230,7 +287,7 @@ async function refreshSalesforceToken(
   if (!response.ok) {
     const errorText = await response.text();
     console.error(`Token refresh failed: ${response.status} - ${errorText}`);
-    throw new Error(`Failed to refresh token: ${errorText}`);
+    throw new SalesforceApiError(response.status, errorText);
   }
 
   const data = await response.json();
@@ -244,32 +301,210 @@ async function refreshSalesforceToken(
   };
 }
 
+/**
+ * Save an org's API usage from a response's Sforce-Limit-Info header,
+ * throttled so a busy action doesn't write on every request
+ */
+async function recordApiUsage(ctx: any, instanceUrl: string, usage: { used: number; limit: number }) {
+  const normalizedUrl = normalizeInstanceUrl(instanceUrl);
+  const now = Date.now();
+  if (now - (usageWrittenAt.get(normalizedUrl) ?? 0) < USAGE_WRITE_INTERVAL_MS) return;
+  usageWrittenAt.set(normalizedUrl, now);
+  try {
+    await ctx.runMutation(internal.salesforce.saveApiUsage, { instanceUrl: normalizedUrl, ...usage });
+  } catch (error: any) {
+    console.error(`Failed to record API usage for ${normalizedUrl}:`, error.message);
+  }
+}
+
+// sObject Collections take at most 200 records per request
+const COLLECTION_BATCH_SIZE = 200;
+
+/**
+ * Call the REST API. Transient failures are retried with backoff, an expired
+ * access token is refreshed and the request replayed once, and failures throw
+ * a SalesforceApiError.
+ */
 async function salesforceRequest(
   auth: SalesforceAuth,
   endpoint: string,
   options: RequestInit = {}
 ): Promise<any> {
-  const url = `${auth.instanceUrl}/services/data/v59.0${endpoint}`;
-  const response = await fetch(url, {
-    ...options,
-    headers: {
-      Authorization: `Bearer ${auth.accessToken}`,
-      "Content-Type": "application/json",
-      ...options.headers,
-    },
-  });
+  const method = options.method || "GET";
+  let retries = 0;
+  let refreshed = false;
 
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`Salesforce API error: ${response.status} - ${error}`);
+  for (;;) {
+    let response: Response;
+    try {
+      response = await fetch(`${auth.instanceUrl}/services/data/v59.0${endpoint}`, {
+        ...options,
+        headers: {
+          Authorization: `Bearer ${auth.accessToken}`,
+          "Content-Type": "application/json",
+          ...options.headers,
+        },
+      });
+    } catch (networkError) {
+      // A POST may have reached Salesforce before the connection dropped
+      if (method === "POST" || retries >= MAX_RETRIES) throw networkError;
+      await sleep(retryDelayMs(retries++));
+      continue;
+    }
+
+    const usage = parseApiUsage(response.headers.get("Sforce-Limit-Info"));
+    if (usage && auth.recordUsage) await auth.recordUsage(usage);
+
+    if (response.ok) {
+      // Handle 204 No Content
+      if (response.status === 204) {
+        return { success: true };
+      }
+      return response.json();
+    }
+
+    const error = new SalesforceApiError(
+      response.status,
+      await response.text(),
+      parseRetryAfter(response.headers.get("Retry-After"))
+    );
+    if (error.kind === "session_expired" && auth.refresh && !refreshed) {
+      // Keep the new token on auth so the action's later requests use it too
+      Object.assign(auth, await auth.refresh());
+      refreshed = true;
+      continue;
+    }
+    if (isRetryable(error, method) && retries < MAX_RETRIES) {
+      console.warn(`Salesforce ${method} ${endpoint} failed (${error.code || error.status}), retrying`);
+      await sleep(retryDelayMs(retries++, error.retryAfterMs));
+      continue;
+    }
+    throw error;
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * The connection's Salesforce User Id. Looked up once, then kept on the
+ * connection so "my ..." queries don't pay a round trip for it.
+ */
+async function getCurrentUserId(ctx: any, auth: SalesforceAuth): Promise<string> {
+  const known = auth.salesforceUserId || salesforceUserIds.get(auth.accessToken);
+  if (known) return known;
+
+  const userInfo = await salesforceRequest(auth, "/chatter/users/me");
+  auth.salesforceUserId = userInfo.id;
+  if (auth.userId) {
+    await ctx.runMutation(internal.salesforce.saveSalesforceUserId, {
+      userId: auth.userId,
+      salesforceUserId: userInfo.id,
+    });
+  } else {
+    salesforceUserIds.set(auth.accessToken, userInfo.id);
+  }
+  return userInfo.id;
+}
+
+// Stand-ins for the current user's Id in SOQL:
+// CURRENT_USER, {userId}, {currentUser}, {me}, :userId
+const USER_PLACEHOLDER = /['"]?CURRENT_USER['"]?|\{userId\}|\{currentUser\}|\{me\}|:userId/gi;
+
+/**
+ * Replace user placeholders in SOQL with the connection's Salesforce User Id
+ */
+async function withCurrentUser(ctx: any, auth: SalesforceAuth, soql: string): Promise<string> {
+  if (!soql.match(USER_PLACEHOLDER)) return soql;
+  const salesforceUserId = await getCurrentUserId(ctx, auth);
+  return soql.replace(USER_PLACEHOLDER, `'${salesforceUserId}'`);
+}
+
+/**
+ * Serve a read from the connection's cache (salesforceCache.ts), or load it
+ * and keep it. The cache is best effort - if it fails, Salesforce answers.
+ */
+async function cachedRead<T>(
+  ctx: any,
+  auth: SalesforceAuth,
+  entry: { kind: CacheKind; objectType: string; recordId?: string; request: string },
+  load: () => Promise<T>
+): Promise<T> {
+  const instanceUrl = normalizeInstanceUrl(auth.instanceUrl);
+  const key = [auth.userId || instanceUrl, entry.kind, entry.objectType, entry.request].join("|");
+  let hit: string | null = null;
+  try {
+    hit = await ctx.runQuery(internal.salesforceCache.lookup, { key });
+    await ctx.scheduler.runAfter(0, internal.salesforceCache.recordLookup, {
+      instanceUrl,
+      kind: entry.kind,
+      day: new Date().toISOString().slice(0, 10),
+      hit: hit !== null,
+    });
+  } catch (error: any) {
+    console.error("Salesforce cache lookup failed:", error.message);
+  }
+  if (hit !== null) return JSON.parse(hit);
+
+  const value = await load();
+  try {
+    await ctx.runMutation(internal.salesforceCache.store, {
+      key,
+      instanceUrl,
+      kind: entry.kind,
+      objectType: entry.objectType,
+      recordId: entry.recordId && cacheRecordId(entry.recordId),
+      value: JSON.stringify(value),
+    });
+  } catch (error: any) {
+    console.error("Salesforce cache store failed:", error.message);
+  }
+  return value;
+}
+
+/**
+ * Drop cached reads a write of ours made stale
+ */
+async function invalidateCache(ctx: any, auth: SalesforceAuth, objectType: string, recordIds: (string | undefined)[]) {
+  try {
+    await ctx.runMutation(internal.salesforceCache.invalidate, {
+      instanceUrl: normalizeInstanceUrl(auth.instanceUrl),
+      objectType,
+      recordIds: recordIds.filter((id): id is string => !!id),
+    });
+  } catch (error: any) {
+    console.error("Salesforce cache invalidation failed:", error.message);
   }
+}
+
+/**
+ * Send several REST calls as one composite request (see salesforceComposite.ts)
+ */
+async function compositeRequest(
+  ctx: any,
+  auth: SalesforceAuth,
+  subrequests: Subrequest[],
+  allOrNone: boolean
+): Promise<BatchResults> {
+  checkBatch(subrequests);
+  const response = await salesforceRequest(auth, "/composite", {
+    method: "POST",
+    body: JSON.stringify({ allOrNone, compositeRequest: subrequests.map(toCompositeSubrequest) }),
+  });
 
-  // Handle 204 No Content
-  if (response.status === 204) {
-    return { success: true };
+  const results: BatchResults = {};
+  for (const sub of response.compositeResponse || []) {
+    results[sub.referenceId] = { status: sub.httpStatusCode, body: sub.body };
   }
 
-  return response.json();
+  for (const sub of subrequests) {
+    const written = (sub.method || "GET") !== "GET" && sub.url?.match(/^\/sobjects\/(\w+)(?:\/(\w+))?/);
+    if (written && results[sub.referenceId]?.status < 300) {
+      await invalidateCache(ctx, auth, written[1], [written[2], results[sub.referenceId].body?.id]);
+    }
+  }
+  return results;
 }
 
 // ============================================================================
@@ -334,7 +569,8 @@ export const updateAuth = internalMutation({
         refreshToken: args.refreshToken,
         instanceUrl: args.instanceUrl,
         expiresAt: args.expiresAt,
-        salesforceUserId: args.salesforceUserId,
+        // Token refreshes don't pass it - keep the one saved when connecting
+        ...(args.salesforceUserId && { salesforceUserId: args.salesforceUserId }),
       });
     } else {
       // For new records, we need a userId - use a placeholder if not provided
@@ -380,7 +616,8 @@ export const updateAuthForUser = internalMutation({
         refreshToken: args.refreshToken,
         instanceUrl: args.instanceUrl,
         expiresAt: args.expiresAt,
-        salesforceUserId: args.salesforceUserId,
+        // Token refreshes don't pass it - keep the one saved when connecting
+        ...(args.salesforceUserId && { salesforceUserId: args.salesforceUserId }),
       });
     } else {
       // Create new auth for this user
@@ -396,6 +633,25 @@ export const updateAuthForUser = internalMutation({
   },
 });
 
+/**
+ * Remember a connection's Salesforce User Id (see getCurrentUserId)
+ */
+export const saveSalesforceUserId = internalMutation({
+  args: {
+    userId: v.id("users"),
+    salesforceUserId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const existing = await ctx.db
+      .query("salesforceAuth")
+      .withIndex("by_user", (q) => q.eq("userId", args.userId))
+      .first();
+    if (existing) {
+      await ctx.db.patch("salesforceAuth", existing._id, { salesforceUserId: args.salesforceUserId });
+    }
+  },
+});
+
 /**
  * Clear Salesforce auth for a user (when refresh fails or token is revoked)
  */
@@ -416,6 +672,29 @@ export const clearAuthForUser = internalMutation({
   },
 });
 
+/**
+ * Save an org's latest API usage (see recordApiUsage)
+ */
+export const saveApiUsage = internalMutation({
+  args: {
+    instanceUrl: v.string(),
+    used: v.number(),
+    limit: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const existing = await ctx.db
+      .query("salesforceApiUsage")
+      .withIndex("by_instance", (q) => q.eq("instanceUrl", args.instanceUrl))
+      .first();
+    const usage = { used: args.used, limit: args.limit, updatedAt: Date.now() };
+    if (existing) {
+      await ctx.db.patch("salesforceApiUsage", existing._id, usage);
+    } else {
+      await ctx.db.insert("salesforceApiUsage", { instanceUrl: args.instanceUrl, ...usage });
+    }
+  },
+});
+
 // ============================================================================
 // SALESFORCE ACTIONS (Called by ElevenLabs Server Tools)
 // ============================================================================
@@ -429,6 +708,7 @@ export const searchRecords = action({
     query: v.string(), // Natural language query OR raw SOQL
     objectType: v.optional(v.string()), // Account, Contact, Opportunity, etc.
     limit: v.optional(v.number()),
+    fields: v.optional(v.array(v.string())), // Text search: fields to return (default Id, Name)
     conversationId: v.optional(v.string()), // For user context
     userId: v.optional(v.string()), // Direct user ID for auth lookup
   },
@@ -447,30 +727,23 @@ export const searchRecords = action({
       const searchTerm = args.query;
       const limit = args.limit || 10;
 
-      // Use SOSL for text search
-      const soslQuery = `FIND {${searchTerm}} IN ALL FIELDS RETURNING ${obj}(Id, Name LIMIT ${limit})`;
-      const searchResult = await salesforceRequest(
-        auth,
-        `/search/?q=${encodeURIComponent(soslQuery)}`
-      );
-
-      return {
-        records: searchResult.searchRecords || [],
-        totalSize: searchResult.searchRecords?.length || 0,
-      };
+      // Use SOSL for text search - it returns the fields asked for, saving a follow-up query
+      const fields = [...new Set(["Id", ...(args.fields || ["Name"])])];
+      const soslQuery = `FIND {${searchTerm}} IN ALL FIELDS RETURNING ${obj}(${fields.join(", ")} LIMIT ${limit})`;
+      return await cachedRead(ctx, auth, { kind: "search", objectType: obj, request: soslQuery }, async () => {
+        const searchResult = await salesforceRequest(
+          auth,
+          `/search/?q=${encodeURIComponent(soslQuery)}`
+        );
+        return {
+          records: searchResult.searchRecords || [],
+          totalSize: searchResult.searchRecords?.length || 0,
+        };
+      });
     }
 
     // Replace user ID placeholders with actual Salesforce user ID
-    // Supports: CURRENT_USER, {userId}, {currentUser}, {me}, :userId
-    const userPlaceholderPattern = /['"]?CURRENT_USER['"]?|\{userId\}|\{currentUser\}|\{me\}|:userId/gi;
-    const hadUserPlaceholder = userPlaceholderPattern.test(soql);
-
-    if (hadUserPlaceholder) {
-      const userInfo = await salesforceRequest(auth, "/chatter/users/me");
-      // Reset regex lastIndex after test()
-      soql = soql.replace(/['"]?CURRENT_USER['"]?|\{userId\}|\{currentUser\}|\{me\}|:userId/gi, `'${userInfo.id}'`);
-      console.log(`Replaced user placeholder with Salesforce user ID: ${userInfo.id}`);
-    }
+    soql = await withCurrentUser(ctx, auth, soql);
 
     // Execute raw SOQL
     const result = await salesforceRequest(auth, `/query/?q=${encodeURIComponent(soql)}`);
@@ -490,6 +763,7 @@ export const getRecord = action({
     recordId: v.string(),
     objectType: v.string(),
     fields: v.optional(v.array(v.string())),
+    fresh: v.optional(v.boolean()), // Skip the cache - for undo and before-values of writes
     conversationId: v.optional(v.string()),
     userId: v.optional(v.string()),
   },
@@ -501,7 +775,11 @@ export const getRecord = action({
       endpoint += `?fields=${args.fields.join(",")}`;
     }
 
-    return await salesforceRequest(auth, endpoint);
+    if (args.fresh) return await salesforceRequest(auth, endpoint);
+    const request = `${cacheRecordId(args.recordId)}?fields=${[...(args.fields || [])].sort().join(",")}`;
+    return await cachedRead(ctx, auth, { kind: "record", objectType: args.objectType, recordId: args.recordId, request }, () =>
+      salesforceRequest(auth, endpoint)
+    );
   },
 });
 
@@ -523,6 +801,7 @@ export const createRecord = action({
       method: "POST",
       body: JSON.stringify(args.fields),
     });
+    await invalidateCache(ctx, auth, args.objectType, [result.id]);
 
     // Build the record URL for Lightning Experience
     const recordUrl = `${auth.instanceUrl}/lightning/r/${args.objectType}/${result.id}/view`;
@@ -557,6 +836,7 @@ export const updateRecord = action({
       method: "PATCH",
       body: JSON.stringify(args.fields),
     });
+    await invalidateCache(ctx, auth, args.objectType, [args.recordId]);
 
     return {
       success: true,
@@ -565,6 +845,86 @@ export const updateRecord = action({
   },
 });
 
+/**
+ * Apply the same field values to many records (sObject Collections, up to
+ * 200 per request). Records fail independently - each gets its own result.
+ * Example: "Close out all my overdue tasks" (see bulkUpdates.ts)
+ */
+export const updateRecords = action({
+  args: {
+    objectType: v.string(),
+    recordIds: v.array(v.string()),
+    fields: v.any(), // Same fields for every record
+    conversationId: v.optional(v.string()),
+    userId: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const auth = await getSalesforceAuth(ctx, { conversationId: args.conversationId, userId: args.userId });
+
+    const results: { id: string; success: boolean; error?: string }[] = [];
+    for (let i = 0; i < args.recordIds.length; i += COLLECTION_BATCH_SIZE) {
+      const batch = args.recordIds.slice(i, i + COLLECTION_BATCH_SIZE);
+      const response = await salesforceRequest(auth, "/composite/sobjects", {
+        method: "PATCH",
+        body: JSON.stringify({
+          allOrNone: false,
+          records: batch.map((id) => ({ attributes: { type: args.objectType }, id, ...args.fields })),
+        }),
+      });
+      // Results come back in request order
+      batch.forEach((id, j) => {
+        const result = response[j];
+        results.push({
+          id,
+          success: result?.success === true,
+          error: result?.success ? undefined : (result?.errors || []).map((e: any) => e.message).join("; ") || "No result",
+        });
+      });
+    }
+
+    await invalidateCache(ctx, auth, args.objectType, results.filter((r) => r.success).map((r) => r.id));
+
+    return {
+      results,
+      updated: results.filter((r) => r.success).length,
+      failed: results.filter((r) => !r.success).length,
+    };
+  },
+});
+
+/**
+ * Several reads or writes in one round trip (Composite API). Subrequests can
+ * use earlier results through references like "@{opportunity.AccountId}".
+ * Each result comes back under its referenceId; unwrap with batchBody or
+ * batchRecords (salesforceComposite.ts), which throw for failed subrequests.
+ * Example: a deal and its account, or a new contact and the task on it
+ */
+export const batchRequest = action({
+  args: {
+    requests: v.array(v.object({
+      referenceId: v.string(),
+      method: v.optional(v.union(v.literal("GET"), v.literal("POST"), v.literal("PATCH"), v.literal("DELETE"))),
+      url: v.optional(v.string()), // Relative to the API version, e.g. /sobjects/Account/001...
+      soql: v.optional(v.string()), // A query - user placeholders like CURRENT_USER are filled in
+      body: v.optional(v.any()),
+    })),
+    allOrNone: v.optional(v.boolean()), // Roll every write back if one fails
+    conversationId: v.optional(v.string()),
+    userId: v.optional(v.string()),
+  },
+  handler: async (ctx, args): Promise<BatchResults> => {
+    const auth = await getSalesforceAuth(ctx, { conversationId: args.conversationId, userId: args.userId });
+
+    const requests: Subrequest[] = [];
+    for (const request of args.requests) {
+      requests.push(request.soql !== undefined
+        ? { ...request, soql: await withCurrentUser(ctx, auth, request.soql) }
+        : request);
+    }
+    return await compositeRequest(ctx, auth, requests, args.allOrNone ?? false);
+  },
+});
+
 /**
  * Delete a record
  * Example: "Delete that duplicate contact"
@@ -582,6 +942,7 @@ export const deleteRecord = action({
     await salesforceRequest(auth, `/sobjects/${args.objectType}/${args.recordId}`, {
       method: "DELETE",
     });
+    await invalidateCache(ctx, auth, args.objectType, [args.recordId]);
 
     return {
       success: true,
@@ -601,6 +962,8 @@ export const logCall = action({
     subject: v.string(),
     description: v.optional(v.string()),
     durationMinutes: v.optional(v.number()),
+    durationSeconds: v.optional(v.number()), // Exact duration, when known (wins over durationMinutes)
+    activityDate: v.optional(v.string()), // YYYY-MM-DD in the rep's time zone (default: today in UTC)
     conversationId: v.optional(v.string()),
     userId: v.optional(v.string()),
   },
@@ -615,14 +978,16 @@ export const logCall = action({
       Status: "Completed",
       Priority: "Normal",
       TaskSubtype: "Call",
-      CallDurationInSeconds: (args.durationMinutes || 5) * 60,
-      ActivityDate: new Date().toISOString().split("T")[0],
+      CallDurationInSeconds: args.durationSeconds ?? (args.durationMinutes || 5) * 60,
+      ActivityDate: args.activityDate || new Date().toISOString().split("T")[0],
     };
 
     const result = await salesforceRequest(auth, "/sobjects/Task", {
       method: "POST",
       body: JSON.stringify(task),
     });
+    // The call changes its records' last activity too
+    await invalidateCache(ctx, auth, "Task", [result.id, args.whoId, args.whatId]);
 
     return {
       success: true,
@@ -661,12 +1026,12 @@ export const getMyTasks = action({
       whereClause += " AND ActivityDate < TODAY AND IsClosed = false";
     }
 
-    // First get current user ID
-    const userInfo = await salesforceRequest(auth, "/chatter/users/me");
+    // Cached on the connection after the first lookup
+    const salesforceUserId = await getCurrentUserId(ctx, auth);
 
     const soql = `SELECT Id, Subject, Status, Priority, ActivityDate, Who.Name, What.Name
                   FROM Task
-                  WHERE OwnerId = '${userInfo.id}' ${args.status === "open" ? "AND IsClosed = false" : ""} ${args.dueDate === "today" ? "AND ActivityDate = TODAY" : ""}
+                  WHERE OwnerId = '${salesforceUserId}' ${args.status === "open" ? "AND IsClosed = false" : ""} ${args.dueDate === "today" ? "AND ActivityDate = TODAY" : ""}
                   ORDER BY ActivityDate ASC
                   LIMIT 20`;
 
@@ -700,10 +1065,10 @@ export const getMyOpportunities = action({
   handler: async (ctx, args) => {
     const auth = await getSalesforceAuth(ctx, { conversationId: args.conversationId, userId: args.userId });
 
-    // Get current user
-    const userInfo = await salesforceRequest(auth, "/chatter/users/me");
+    // Cached on the connection after the first lookup
+    const salesforceUserId = await getCurrentUserId(ctx, auth);
 
-    let whereClause = `OwnerId = '${userInfo.id}'`;
+    let whereClause = `OwnerId = '${salesforceUserId}'`;
     if (args.stage === "open") {
       whereClause += " AND IsClosed = false";
     } else if (args.stage === "won") {
@@ -761,15 +1126,15 @@ export const getMyAccounts = action({
   handler: async (ctx, args) => {
     const auth = await getSalesforceAuth(ctx, { conversationId: args.conversationId, userId: args.userId });
 
-    // Get current Salesforce user
-    const userInfo = await salesforceRequest(auth, "/chatter/users/me");
+    // Cached on the connection after the first lookup
+    const salesforceUserId = await getCurrentUserId(ctx, auth);
 
-    let whereClause = `OwnerId = '${userInfo.id}'`;
+    let whereClause = `OwnerId = '${salesforceUserId}'`;
     if (args.industry) {
       whereClause += ` AND Industry = '${args.industry}'`;
     }
 
-    const soql = `SELECT Id, Name, Industry, AnnualRevenue, NumberOfEmployees, Website, Phone, BillingCity, BillingState
+    const soql = `SELECT Id, Name, Industry, AnnualRevenue, NumberOfEmployees, Website, Phone, BillingCity, BillingState, Owner.Name
                   FROM Account
                   WHERE ${whereClause}
                   ORDER BY Name ASC
@@ -789,8 +1154,8 @@ export const getMyAccounts = action({
         location: a.BillingCity && a.BillingState ? `${a.BillingCity}, ${a.BillingState}` : null,
       })),
       count: result.totalSize,
-      userId: userInfo.id,
-      userName: userInfo.name,
+      userId: salesforceUserId,
+      userName: result.records[0]?.Owner?.Name,
     };
   },
 });
@@ -809,10 +1174,10 @@ export const getMyLeads = action({
   handler: async (ctx, args) => {
     const auth = await getSalesforceAuth(ctx, { conversationId: args.conversationId, userId: args.userId });
 
-    // Get current Salesforce user
-    const userInfo = await salesforceRequest(auth, "/chatter/users/me");
+    // Cached on the connection after the first lookup
+    const salesforceUserId = await getCurrentUserId(ctx, auth);
 
-    let whereClause = `OwnerId = '${userInfo.id}'`;
+    let whereClause = `OwnerId = '${salesforceUserId}'`;
     if (args.status === "open") {
       whereClause += " AND IsConverted = false";
     } else if (args.status === "converted") {
@@ -855,17 +1220,104 @@ export const describeObject = action({
   },
   handler: async (ctx, args) => {
     const auth = await getSalesforceAuth(ctx, { conversationId: args.conversationId, userId: args.userId });
-    const result = await salesforceRequest(auth, `/sobjects/${args.objectType}/describe`);
+    return await cachedRead(ctx, auth, { kind: "describe", objectType: args.objectType, request: "describe" }, async () => {
+      const result = await salesforceRequest(auth, `/sobjects/${args.objectType}/describe`);
+      return {
+        name: result.name,
+        label: result.label,
+        fields: result.fields.slice(0, 50).map((f: any) => ({
+          name: f.name,
+          label: f.label,
+          type: f.type,
+          required: !f.nillable && f.createable,
+        })),
+      };
+    });
+  },
+});
+
+// ============================================================================
+// REPORTS AND DASHBOARDS (Analytics REST API)
+// ============================================================================
+
+/**
+ * Reports the user viewed recently
+ */
+export const listReports = action({
+  args: {
+    conversationId: v.optional(v.string()),
+    userId: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const auth = await getSalesforceAuth(ctx, { conversationId: args.conversationId, userId: args.userId });
+    const reports = await salesforceRequest(auth, "/analytics/reports");
+    return (reports || []).map((r: any) => ({ id: r.id, name: r.name }));
+  },
+});
 
+/**
+ * Every report and dashboard the user can see, for the report index
+ */
+export const getReportCatalog = action({
+  args: {
+    conversationId: v.optional(v.string()),
+    userId: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const auth = await getSalesforceAuth(ctx, { conversationId: args.conversationId, userId: args.userId });
+    const reports = await salesforceRequest(auth, `/query/?q=${encodeURIComponent(REPORT_INDEX_SOQL)}`);
+    const dashboards = await salesforceRequest(auth, `/query/?q=${encodeURIComponent(DASHBOARD_INDEX_SOQL)}`);
     return {
-      name: result.name,
-      label: result.label,
-      fields: result.fields.slice(0, 50).map((f: any) => ({
-        name: f.name,
-        label: f.label,
-        type: f.type,
-        required: !f.nillable && f.createable,
-      })),
+      instanceUrl: auth.instanceUrl,
+      reports: reports.records || [],
+      dashboards: dashboards.records || [],
     };
   },
 });
+
+/**
+ * Run a report synchronously (totals and groupings, no detail rows).
+ * Filter overrides apply to this run only.
+ * Example: "Run my pipeline report for EMEA"
+ */
+export const runReport = action({
+  args: {
+    reportId: v.string(),
+    filters: v.optional(v.array(v.object({
+      column: v.string(),
+      operator: v.optional(v.string()),
+      value: v.string(),
+    }))),
+    conversationId: v.optional(v.string()),
+    userId: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const auth = await getSalesforceAuth(ctx, { conversationId: args.conversationId, userId: args.userId });
+    const endpoint = `/analytics/reports/${args.reportId}?includeDetails=false`;
+
+    if (!args.filters || args.filters.length === 0) {
+      return await salesforceRequest(auth, endpoint);
+    }
+
+    const describe = await salesforceRequest(auth, `/analytics/reports/${args.reportId}/describe`);
+    return await salesforceRequest(auth, endpoint, {
+      method: "POST",
+      body: JSON.stringify({ reportMetadata: applyFilterOverrides(describe, args.filters) }),
+    });
+  },
+});
+
+/**
+ * A dashboard's component results, as last refreshed
+ */
+export const getDashboardResults = action({
+  args: {
+    dashboardId: v.string(),
+    conversationId: v.optional(v.string()),
+    userId: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const auth = await getSalesforceAuth(ctx, { conversationId: args.conversationId, userId: args.userId });
+    return await salesforceRequest(auth, `/analytics/dashboards/${args.dashboardId}`);
+  },
+});
@@ -0,0 +1,211 @@
+import { v } from "convex/values";
+import { internalMutation, internalQuery, query } from "./_generated/server";
+import { instanceUrlForUser } from "./salesforceOrg";
+
+// ============================================================================
+// SALESFORCE READ CACHE
+// Record reads, SOSL name searches and describes are kept for a short while
+// per connection, so a voice call that keeps coming back to the same deal
+// doesn't fetch it every turn. How long depends on the object: deals and
+// tasks change during the day, describes hardly ever. Writes made through
+// TalkCRM drop the org's copies of the record (and the object's searches), so
+// nobody reads back something stale that we changed ourselves. Reads that
+// must be current - undo and the before-values of a write - skip the cache.
+// ============================================================================
+
+export type CacheKind = "record" | "search" | "describe";
+
+// How long a record read stays fresh, by object type
+const RECORD_TTL_MS: Record<string, number> = {
+  Account: 10 * 60 * 1000,
+  Contact: 10 * 60 * 1000,
+  Lead: 5 * 60 * 1000,
+  Opportunity: 2 * 60 * 1000,
+  Case: 2 * 60 * 1000,
+  Task: 60 * 1000,
+  Event: 60 * 1000,
+};
+const DEFAULT_RECORD_TTL_MS = 5 * 60 * 1000;
+const SEARCH_TTL_MS = 2 * 60 * 1000;
+const DESCRIBE_TTL_MS = 60 * 60 * 1000;
+
+// Bigger results aren't worth a document
+const MAX_VALUE_CHARS = 256 * 1024;
+
+const DEFAULT_STATS_DAYS = 7;
+
+// Hit/miss counters per org, day and kind are split this many ways
+const STATS_SHARDS = 8;
+
+export function cacheTtlMs(kind: CacheKind, objectType: string): number {
+  if (kind === "describe") return DESCRIBE_TTL_MS;
+  if (kind === "search") return SEARCH_TTL_MS;
+  return RECORD_TTL_MS[objectType] ?? DEFAULT_RECORD_TTL_MS;
+}
+
+/**
+ * 15- and 18-character forms of an Id are the same record
+ */
+export function cacheRecordId(recordId: string): string {
+  return recordId.slice(0, 15);
+}
+
+/**
+ * A fresh cached value (JSON), or null. A query, so reads never conflict -
+ * the caller counts the hit or miss afterwards (recordLookup).
+ */
+export const lookup = internalQuery({
+  args: { key: v.string() },
+  handler: async (ctx, args): Promise<string | null> => {
+    const entry = await ctx.db
+      .query("salesforceCache")
+      .withIndex("by_key", (q) => q.eq("key", args.key))
+      .first();
+    return entry && entry.expiresAt > Date.now() ? entry.value : null;
+  },
+});
+
+/**
+ * Count a lookup, scheduled off the read path. Each call lands on a random
+ * shard of the day's counter.
+ */
+export const recordLookup = internalMutation({
+  args: {
+    instanceUrl: v.string(),
+    kind: v.string(),
+    day: v.string(),
+    hit: v.boolean(),
+  },
+  handler: async (ctx, args) => {
+    const shard = Math.floor(Math.random() * STATS_SHARDS);
+    const stats = await ctx.db
+      .query("salesforceCacheStats")
+      .withIndex("by_instance_day_kind_shard", (q) =>
+        q.eq("instanceUrl", args.instanceUrl).eq("day", args.day).eq("kind", args.kind).eq("shard", shard)
+      )
+      .first();
+    const counts = { hits: (stats?.hits ?? 0) + (args.hit ? 1 : 0), misses: (stats?.misses ?? 0) + (args.hit ? 0 : 1) };
+    if (stats) {
+      await ctx.db.patch("salesforceCacheStats", stats._id, counts);
+    } else {
+      await ctx.db.insert("salesforceCacheStats", {
+        instanceUrl: args.instanceUrl,
+        day: args.day,
+        kind: args.kind,
+        shard,
+        ...counts,
+      });
+    }
+  },
+});
+
+export const store = internalMutation({
+  args: {
+    key: v.string(),
+    instanceUrl: v.string(),
+    kind: v.string(),
+    objectType: v.string(),
+    recordId: v.optional(v.string()),
+    value: v.string(),
+  },
+  handler: async (ctx, args) => {
+    if (args.value.length > MAX_VALUE_CHARS) return;
+    const expiresAt = Date.now() + cacheTtlMs(args.kind as CacheKind, args.objectType);
+    const existing = await ctx.db
+      .query("salesforceCache")
+      .withIndex("by_key", (q) => q.eq("key", args.key))
+      .first();
+    if (existing) {
+      await ctx.db.patch("salesforceCache", existing._id, { value: args.value, expiresAt });
+    } else {
+      await ctx.db.insert("salesforceCache", { ...args, expiresAt });
+    }
+  },
+});
+
+/**
+ * Drop what a write made stale, for every connection in the org: the written
+ * records, and the object's searches (a new or renamed record changes them)
+ */
+export const invalidate = internalMutation({
+  args: {
+    instanceUrl: v.string(),
+    objectType: v.string(),
+    recordIds: v.array(v.string()),
+  },
+  handler: async (ctx, args) => {
+    let removed = 0;
+    for (const recordId of args.recordIds) {
+      const entries = await ctx.db
+        .query("salesforceCache")
+        .withIndex("by_record", (q) => q.eq("instanceUrl", args.instanceUrl).eq("recordId", cacheRecordId(recordId)))
+        .collect();
+      for (const entry of entries) {
+        await ctx.db.delete("salesforceCache", entry._id);
+        removed++;
+      }
+    }
+
+    const searches = await ctx.db
+      .query("salesforceCache")
+      .withIndex("by_object", (q) => q.eq("instanceUrl", args.instanceUrl).eq("objectType", args.objectType).eq("kind", "search"))
+      .collect();
+    for (const entry of searches) {
+      await ctx.db.delete("salesforceCache", entry._id);
+      removed++;
+    }
+    return removed;
+  },
+});
+
+/**
+ * Remove expired entries (cron)
+ */
+export const clearExpired = internalMutation({
+  args: {},
+  returns: v.number(),
+  handler: async (ctx) => {
+    const expired = await ctx.db
+      .query("salesforceCache")
+      .withIndex("by_expires", (q) => q.lt("expiresAt", Date.now()))
+      .take(1000);
+    for (const entry of expired) {
+      await ctx.db.delete("salesforceCache", entry._id);
+    }
+    return expired.length;
+  },
+});
+
+/**
+ * Hit rate per kind of read for the user's org, over the last few days
+ */
+export const getCacheStats = query({
+  args: {
+    userId: v.id("users"),
+    days: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const instanceUrl = await instanceUrlForUser(ctx, args.userId);
+    if (!instanceUrl) return [];
+
+    const since = new Date(Date.now() - ((args.days ?? DEFAULT_STATS_DAYS) - 1) * 24 * 60 * 60 * 1000)
+      .toISOString()
+      .slice(0, 10);
+    const rows = await ctx.db
+      .query("salesforceCacheStats")
+      .withIndex("by_instance_day_kind_shard", (q) => q.eq("instanceUrl", instanceUrl).gte("day", since))
+      .collect();
+
+    const byKind = new Map<string, { kind: string; hits: number; misses: number }>();
+    for (const row of rows) {
+      const totals = byKind.get(row.kind) || { kind: row.kind, hits: 0, misses: 0 };
+      totals.hits += row.hits;
+      totals.misses += row.misses;
+      byKind.set(row.kind, totals);
+    }
+    return [...byKind.values()].map((totals) => ({
+      ...totals,
+      hitRate: totals.hits + totals.misses > 0 ? totals.hits / (totals.hits + totals.misses) : 0,
+    }));
+  },
+});
@@ -0,0 +1,85 @@
+import { SalesforceApiError } from "./salesforceErrors";
+
+// ============================================================================
+// COMPOSITE REQUESTS
+// One round trip for several REST calls (POST /composite). Independent reads
+// run side by side; a later subrequest can use an earlier one's result
+// through a reference - "@{opportunity.AccountId}" in its URL or
+// "@{newContact.id}" in its body - so dependent writes chain without waiting
+// on each other. With allOrNone, a failure rolls the whole batch back.
+// ============================================================================
+
+export const API_PATH = "/services/data/v59.0";
+
+// Salesforce's limits for one composite request
+export const MAX_SUBREQUESTS = 25;
+export const MAX_QUERIES = 5; // Queries and sObject Collections calls
+
+export interface Subrequest {
+  referenceId: string; // Letters, digits and underscores; names the result
+  method?: "GET" | "POST" | "PATCH" | "DELETE"; // Defaults to GET
+  url?: string; // Relative to the API version, e.g. /sobjects/Account/001...
+  soql?: string; // Shorthand for a query GET
+  body?: any;
+}
+
+export interface SubrequestResult {
+  status: number;
+  body: any;
+}
+
+export type BatchResults = Record<string, SubrequestResult>;
+
+/**
+ * A subrequest as /composite takes it. Query text is URL-encoded, except for
+ * references, which Salesforce only resolves as written.
+ */
+export function toCompositeSubrequest(sub: Subrequest) {
+  if (!/^\w+$/.test(sub.referenceId)) {
+    throw new Error(`Invalid referenceId "${sub.referenceId}" - use letters, digits and underscores`);
+  }
+  const path = sub.soql !== undefined
+    ? `/query/?q=${encodeURIComponent(sub.soql).replace(/%40%7B([\w.[\]%]+?)%7D/g, (_, ref) => `@{${decodeURIComponent(ref)}}`)}`
+    : sub.url;
+  if (!path) throw new Error(`Subrequest ${sub.referenceId} needs a url or soql`);
+  return {
+    method: sub.method || "GET",
+    url: `${API_PATH}${path}`,
+    referenceId: sub.referenceId,
+    ...(sub.body !== undefined && { body: sub.body }),
+  };
+}
+
+/**
+ * Check a batch against Salesforce's limits before sending it
+ */
+export function checkBatch(subrequests: Subrequest[]): void {
+  if (subrequests.length > MAX_SUBREQUESTS) {
+    throw new Error(`A composite request takes at most ${MAX_SUBREQUESTS} subrequests, got ${subrequests.length}`);
+  }
+  const queries = subrequests.filter((s) => s.soql !== undefined || /^\/(query|composite\/sobjects)/.test(s.url || "")).length;
+  if (queries > MAX_QUERIES) {
+    throw new Error(`A composite request takes at most ${MAX_QUERIES} queries or collection calls, got ${queries}`);
+  }
+  const ids = new Set(subrequests.map((s) => s.referenceId));
+  if (ids.size !== subrequests.length) throw new Error("Subrequest referenceIds must be unique");
+}
+
+/**
+ * One subrequest's response body - throws its SalesforceApiError if it failed
+ */
+export function batchBody(results: BatchResults, referenceId: string): any {
+  const result = results[referenceId];
+  if (!result) throw new Error(`No result for subrequest ${referenceId}`);
+  if (result.status >= 400) {
+    throw new SalesforceApiError(result.status, JSON.stringify(result.body));
+  }
+  return result.body;
+}
+
+/**
+ * A query subrequest's records
+ */
+export function batchRecords(results: BatchResults, referenceId: string): any[] {
+  return batchBody(results, referenceId)?.records || [];
+}
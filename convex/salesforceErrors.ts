@@ -0,0 +1,205 @@
+// ============================================================================
+// SALESFORCE ERRORS
+// Salesforce reports failures as [{ errorCode, message, fields }] (REST) or
+// { error, error_description } (OAuth). SalesforceApiError parses either into
+// a kind callers can branch on, and explainSalesforceError turns one into a
+// sentence for the user. Errors lose their class when they cross
+// ctx.runAction, so both also work from the error's message.
+// ============================================================================
+
+export type SalesforceErrorKind =
+  | "invalid_field"
+  | "required_field_missing"
+  | "validation_rule"
+  | "request_limit"
+  | "session_expired"
+  | "not_found"
+  | "access_denied"
+  | "invalid_query"
+  | "transient"
+  | "other";
+
+export interface SalesforceErrorDetail {
+  errorCode: string;
+  message: string;
+  fields: string[];
+}
+
+const KINDS_BY_CODE: Record<string, SalesforceErrorKind> = {
+  INVALID_FIELD: "invalid_field",
+  INVALID_FIELD_FOR_INSERT_UPDATE: "invalid_field",
+  INVALID_TYPE: "invalid_field",
+  REQUIRED_FIELD_MISSING: "required_field_missing",
+  FIELD_CUSTOM_VALIDATION_EXCEPTION: "validation_rule",
+  REQUEST_LIMIT_EXCEEDED: "request_limit",
+  INVALID_SESSION_ID: "session_expired",
+  NOT_FOUND: "not_found",
+  ENTITY_IS_DELETED: "not_found",
+  INSUFFICIENT_ACCESS_OR_READONLY: "access_denied",
+  INSUFFICIENT_ACCESS_ON_CROSS_REFERENCE_ENTITY: "access_denied",
+  API_DISABLED_FOR_ORG: "access_denied",
+  MALFORMED_QUERY: "invalid_query",
+  INVALID_QUERY_FILTER_OPERATOR: "invalid_query",
+  UNABLE_TO_LOCK_ROW: "transient",
+  SERVER_UNAVAILABLE: "transient",
+  // OAuth token endpoint: the refresh token or the connected app is gone
+  invalid_grant: "session_expired",
+  invalid_client: "session_expired",
+  invalid_client_id: "session_expired",
+  app_not_found: "session_expired",
+};
+
+// Backoff between retries: 0.5s, 1s, 2s... plus jitter, never more than 8s
+const BASE_RETRY_DELAY_MS = 500;
+const MAX_RETRY_DELAY_MS = 8 * 1000;
+
+const ERROR_PREFIX = /Salesforce API error: (\d{3}) - ([\s\S]*)/;
+
+export class SalesforceApiError extends Error {
+  readonly status: number;
+  readonly kind: SalesforceErrorKind;
+  readonly code: string; // First errorCode, e.g. REQUIRED_FIELD_MISSING
+  readonly details: SalesforceErrorDetail[];
+  readonly retryAfterMs?: number; // From a Retry-After header
+
+  constructor(status: number, body: string, retryAfterMs?: number) {
+    // Same message as before typed errors - callers and logs match on it
+    super(`Salesforce API error: ${status} - ${body}`);
+    this.name = "SalesforceApiError";
+    this.status = status;
+    this.details = parseErrorBody(body);
+    this.code = this.details[0]?.errorCode || "";
+    this.kind = classify(status, this.code);
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+function parseErrorBody(body: string): SalesforceErrorDetail[] {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(body);
+  } catch {
+    // Messages carried across ctx.runAction can have a stack trace after the JSON
+    const end = Math.max(body.lastIndexOf("]"), body.lastIndexOf("}"));
+    try {
+      parsed = end > 0 ? JSON.parse(body.slice(0, end + 1)) : undefined;
+    } catch {
+      parsed = undefined;
+    }
+  }
+  if (Array.isArray(parsed)) {
+    return parsed.map((e: any) => ({
+      errorCode: String(e?.errorCode || ""),
+      message: String(e?.message || ""),
+      fields: Array.isArray(e?.fields) ? e.fields : [],
+    }));
+  }
+  if (parsed && typeof parsed.error === "string") {
+    return [{ errorCode: parsed.error, message: parsed.error_description || parsed.error, fields: [] }];
+  }
+  return body.trim() ? [{ errorCode: "", message: body.trim(), fields: [] }] : [];
+}
+
+function classify(status: number, code: string): SalesforceErrorKind {
+  if (KINDS_BY_CODE[code]) return KINDS_BY_CODE[code];
+  if (status === 401) return "session_expired";
+  if (status === 404) return "not_found";
+  if (status === 403) return "access_denied";
+  if (status === 429) return "request_limit";
+  if (status >= 500) return "transient";
+  return "other";
+}
+
+/**
+ * The SalesforceApiError behind an error - rebuilt from the message when the
+ * class didn't survive (e.g. thrown inside another action)
+ */
+export function toSalesforceError(error: unknown): SalesforceApiError | null {
+  if (error instanceof SalesforceApiError) return error;
+  const match = ERROR_PREFIX.exec((error as any)?.message || "");
+  return match ? new SalesforceApiError(Number(match[1]), match[2]) : null;
+}
+
+/**
+ * Whether a failed request is worth sending again. POSTs create records, so
+ * they're only resent when Salesforce can't have acted on them.
+ */
+export function isRetryable(error: SalesforceApiError, method: string): boolean {
+  if (error.kind === "request_limit") {
+    // The daily org limit won't lift in seconds; throttling and concurrency limits will
+    return error.status === 429 || /concurrent/i.test(error.details[0]?.message || "");
+  }
+  if (error.kind !== "transient") return false;
+  return method.toUpperCase() !== "POST" || error.status === 503 || error.code === "UNABLE_TO_LOCK_ROW";
+}
+
+export function retryDelayMs(attempt: number, retryAfterMs?: number): number {
+  if (retryAfterMs !== undefined) return Math.min(retryAfterMs, MAX_RETRY_DELAY_MS);
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** attempt + Math.random() * 250, MAX_RETRY_DELAY_MS);
+}
+
+/**
+ * Retry-After in ms - either seconds or an HTTP date
+ */
+export function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * "api-usage=25/15000" from the Sforce-Limit-Info header
+ */
+export function parseApiUsage(header: string | null): { used: number; limit: number } | null {
+  const match = header?.match(/api-usage=(\d+)\/(\d+)/);
+  return match ? { used: Number(match[1]), limit: Number(match[2]) } : null;
+}
+
+function listFields(fields: string[]): string {
+  if (fields.length <= 1) return fields.join("");
+  return `${fields.slice(0, -1).join(", ")} and ${fields[fields.length - 1]}`;
+}
+
+/**
+ * What went wrong, in words the user can act on. Undefined when the error
+ * didn't come from Salesforce.
+ */
+export function explainSalesforceError(error: unknown): string | undefined {
+  const sfError = toSalesforceError(error);
+  if (!sfError) return undefined;
+  const detail = sfError.details[0];
+  const fields = [...new Set(sfError.details.flatMap((d) => d.fields))];
+
+  switch (sfError.kind) {
+    case "invalid_field": {
+      const column = detail?.message.match(/No such column '([^']+)' on (?:entity|sobject of type) '?(\w+)/);
+      if (column) return `Salesforce doesn't have a ${column[1]} field on ${column[2]}.`;
+      if (fields.length > 0) return `Salesforce won't accept ${listFields(fields)} there.`;
+      return `Salesforce didn't accept one of those fields: ${detail?.message || sfError.code}`;
+    }
+    case "required_field_missing": {
+      const missing = fields.length > 0 ? fields : detail?.message.match(/\[([^\]]+)\]/)?.[1].split(/,\s*/) || [];
+      return missing.length > 0
+        ? `Salesforce needs ${listFields(missing)} filled in before it can save that.`
+        : "Salesforce needs more fields filled in before it can save that.";
+    }
+    case "validation_rule":
+      return `A validation rule in your Salesforce org blocked that: "${detail?.message}"`;
+    case "request_limit":
+      return "Your Salesforce org has used up its API requests for now, so I can't reach it. Try again later, or ask your Salesforce admin about the limit.";
+    case "session_expired":
+      return "Your Salesforce session has expired. Please reconnect your Salesforce account.";
+    case "not_found":
+      return "I couldn't find that record in Salesforce. It may have been deleted, or you may not have access to it.";
+    case "access_denied":
+      return "Salesforce says you don't have permission to do that.";
+    case "invalid_query":
+      return `That query didn't work in Salesforce: ${detail?.message || sfError.code}`;
+    case "transient":
+      return "Salesforce isn't responding properly right now. Please try again in a minute.";
+    case "other":
+      return detail?.message ? `Salesforce said: ${detail.message}` : undefined;
+  }
+}
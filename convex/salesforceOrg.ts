@@ -0,0 +1,23 @@
+import { QueryCtx } from "./_generated/server";
+import { Id } from "./_generated/dataModel";
+
+// ============================================================================
+// SALESFORCE ORGS
+// Per-org settings and state are keyed by the org's instance URL, normalized
+// so a Lightning URL and a trailing slash don't split one org into several.
+// ============================================================================
+
+export function normalizeInstanceUrl(instanceUrl: string): string {
+  return instanceUrl.replace(/\/$/, "").replace(".lightning.force.com", ".my.salesforce.com");
+}
+
+/**
+ * The normalized instance URL of the user's Salesforce connection, or null
+ */
+export async function instanceUrlForUser(ctx: Pick<QueryCtx, "db">, userId: Id<"users">): Promise<string | null> {
+  const auth = await ctx.db
+    .query("salesforceAuth")
+    .withIndex("by_user", (q) => q.eq("userId", userId))
+    .first();
+  return auth ? normalizeInstanceUrl(auth.instanceUrl) : null;
+}
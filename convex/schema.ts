@@ -25,6 +25,18 @@ export default defineSchema({
     lastLoginAt: v.optional(v.number()),
     // Subscription tier (for future use)
     tier: v.optional(v.union(v.literal("free"), v.literal("starter"), v.literal("pro"), v.literal("enterprise"))),
+    // Which AI-initiated Salesforce writes need confirmation (default: updates)
+    writeConfirmation: v.optional(v.union(v.literal("always"), v.literal("updates"), v.literal("never"))),
+    // Opt-in: share assistant context across channels for this many minutes (unset = per channel)
+    crossChannelWindowMinutes: v.optional(v.number()),
+    // IANA time zone for resolving "tomorrow at 3" (unset = the org's default)
+    timeZone: v.optional(v.string()),
+    // Log every voice call as a completed Task when it ends (see callLogging.ts)
+    autoLogCalls: v.optional(v.boolean()),
+    // Push the next-best-action list each morning (see recommendations.ts)
+    morningRecommendations: v.optional(v.union(v.literal("sms"), v.literal("slack"))),
+    // Text me about my deals: closed won/lost and reassignments, or every stage change too (see dealAlerts.ts)
+    dealAlertSms: v.optional(v.union(v.literal("closed"), v.literal("all"))),
   })
     .index("email", ["email"]) // Required by Convex Auth
     .index("by_phone", ["verifiedPhones"]), // Look up user by any verified phone
@@ -57,6 +69,34 @@ export default defineSchema({
     salesforceUserId: v.optional(v.string()), // Salesforce User ID for this connection
   }).index("by_user", ["userId"]),
 
+  // HubSpot OAuth tokens - users with a connection here get the HubSpot CRM adapter (see crm.ts)
+  hubspotAuth: defineTable({
+    userId: v.id("users"),
+    accessToken: v.string(),
+    refreshToken: v.string(),
+    expiresAt: v.number(),
+    portalId: v.string(), // HubSpot account ("hub") ID, for record links
+    ownerId: v.optional(v.string()), // The user's HubSpot owner ID, for "my" tasks and deals
+  }).index("by_user", ["userId"]),
+
+  // Deal pipeline stages per HubSpot account, kept for a while so deal reads
+  // and writes don't each fetch them
+  hubspotDealStages: defineTable({
+    portalId: v.string(),
+    stages: v.array(v.object({ id: v.string(), label: v.string() })), // Pipeline order
+    expiresAt: v.number(),
+  }).index("by_portal", ["portalId"]),
+
+  // Pending HubSpot OAuth states - a random nonce per connect, used once
+  hubspotOAuthStates: defineTable({
+    state: v.string(),
+    userId: v.id("users"),
+    returnUrl: v.optional(v.string()),
+    expiresAt: v.number(),
+  })
+    .index("by_state", ["state"])
+    .index("by_expires", ["expiresAt"]),
+
   // Store per-org Connected App credentials (for multi-tenant OAuth)
   orgCredentials: defineTable({
     instanceUrl: v.string(), // e.g., https://mycompany.my.salesforce.com
@@ -66,6 +106,61 @@ export default defineSchema({
     updatedAt: v.number(),
   }).index("by_instance", ["instanceUrl"]),
 
+  // Each org's daily API request usage, from the Sforce-Limit-Info response header
+  salesforceApiUsage: defineTable({
+    instanceUrl: v.string(), // Normalized org URL
+    used: v.number(), // Requests made in the last 24 hours
+    limit: v.number(), // The org's 24-hour allowance
+    updatedAt: v.number(),
+  }).index("by_instance", ["instanceUrl"]),
+
+  // Per-org polling position for deal alerts: the last SystemModstamp seen
+  dealAlertWatermarks: defineTable({
+    instanceUrl: v.string(), // Normalized org URL
+    watermark: v.string(), // ISO date-time
+    lastId: v.optional(v.string()), // Last deal read at the watermark - the cursor is (watermark, lastId)
+    lastPolledAt: v.number(),
+    lastError: v.optional(v.string()),
+    leaseUntil: v.optional(v.number()), // Set while a poll runs, so only one polls the org
+  }).index("by_instance", ["instanceUrl"]),
+
+  // Last known stage and owner of each deal a poll has seen, to tell what changed
+  dealSnapshots: defineTable({
+    instanceUrl: v.string(),
+    opportunityId: v.string(), // 15-character Id
+    stageName: v.string(),
+    ownerId: v.string(), // 15-character Id
+    ownerName: v.optional(v.string()),
+    isClosed: v.boolean(),
+    updatedAt: v.number(),
+  }).index("by_instance_opportunity", ["instanceUrl", "opportunityId"]),
+
+  // Short-lived copies of Salesforce reads (see salesforceCache.ts)
+  salesforceCache: defineTable({
+    key: v.string(), // Connection, kind and request
+    instanceUrl: v.string(), // Normalized org URL - writes invalidate org-wide
+    kind: v.string(), // "record" | "search" | "describe"
+    objectType: v.string(),
+    recordId: v.optional(v.string()), // 15-character Id, for record reads
+    value: v.string(), // JSON
+    expiresAt: v.number(),
+  })
+    .index("by_key", ["key"])
+    .index("by_record", ["instanceUrl", "recordId"])
+    .index("by_object", ["instanceUrl", "objectType", "kind"])
+    .index("by_expires", ["expiresAt"]),
+
+  // Cache hits and misses per org, day and kind of read - spread over a few
+  // shards so concurrent reads don't all write one document
+  salesforceCacheStats: defineTable({
+    instanceUrl: v.string(),
+    day: v.string(), // YYYY-MM-DD (UTC)
+    kind: v.string(),
+    shard: v.number(),
+    hits: v.number(),
+    misses: v.number(),
+  }).index("by_instance_day_kind_shard", ["instanceUrl", "day", "kind", "shard"]),
+
   // Store org metadata (available objects, custom fields, etc.) for AI context
   orgMetadata: defineTable({
     instanceUrl: v.string(), // e.g., https://mycompany.my.salesforce.com
@@ -74,6 +169,15 @@ export default defineSchema({
       name: v.string(),      // API name: Account, Contact, Opportunity, etc.
       label: v.string(),     // Human label: Account, Contact, Opportunity
       queryable: v.boolean(), // Can be queried via SOQL
+      // Field describes, used to validate AI-generated SOQL
+      fields: v.optional(v.array(v.object({
+        name: v.string(),
+        label: v.string(),
+        type: v.string(),
+        picklistValues: v.optional(v.array(v.string())),
+        referenceTo: v.optional(v.string()),
+        relationshipName: v.optional(v.string()),
+      }))),
     })),
     // Custom objects in this org (ending in __c) with rich metadata
     customObjects: v.array(v.object({
@@ -104,10 +208,113 @@ export default defineSchema({
     // Last time metadata was synced
     lastSyncedAt: v.number(),
     // Sync status
+    // Org-wide calendar settings from the Organization record
+    organization: v.optional(v.object({
+      timeZone: v.optional(v.string()), // TimeZoneSidKey, e.g. "America/Los_Angeles"
+      fiscalYearStartMonth: v.optional(v.number()), // 1-12
+    })),
     syncStatus: v.union(v.literal("pending"), v.literal("syncing"), v.literal("complete"), v.literal("error")),
     syncError: v.optional(v.string()),
   }).index("by_instance", ["instanceUrl"]),
 
+  // Per-org LLM overrides (provider/model/tuning) for each AI feature
+  llmConfigs: defineTable({
+    instanceUrl: v.string(), // Normalized org URL, like orgMetadata
+    feature: v.string(),     // "assistant", "sessionSummary", "coachingChat", "callExtraction", "recommendations", or "*" for all
+    provider: v.optional(v.union(v.literal("anthropic"), v.literal("openai"), v.literal("stub"))),
+    model: v.optional(v.string()),
+    temperature: v.optional(v.number()),
+    maxTokens: v.optional(v.number()),
+    updatedAt: v.number(),
+  }).index("by_instance_feature", ["instanceUrl", "feature"]),
+
+  // Per-org next-best-action rules - unset settings use the defaults in recommendations.ts
+  recommendationRules: defineTable({
+    instanceUrl: v.string(), // Normalized org URL, like orgMetadata
+    staleStageDays: v.optional(v.number()),
+    noActivityDays: v.optional(v.number()),
+    newLeadDays: v.optional(v.number()),
+    hotLeadRatings: v.optional(v.array(v.string())),
+    disabled: v.optional(v.array(v.union(
+      v.literal("past_close_date"),
+      v.literal("overdue_task"),
+      v.literal("hot_lead"),
+      v.literal("no_activity"),
+      v.literal("stale_stage")
+    ))),
+    weights: v.optional(v.record(v.string(), v.number())), // Score multiplier per kind
+    llmRerank: v.optional(v.boolean()),
+    updatedAt: v.number(),
+  }).index("by_instance", ["instanceUrl"]),
+
+  // Per-org PII redaction: what's tokenized before model calls and masked in storage
+  redactionPolicies: defineTable({
+    instanceUrl: v.string(), // Normalized org URL, like orgMetadata
+    llmKinds: v.optional(v.array(v.union(v.literal("card"), v.literal("ssn"), v.literal("bank"), v.literal("email"), v.literal("phone")))),
+    storageKinds: v.optional(v.array(v.union(v.literal("card"), v.literal("ssn"), v.literal("bank"), v.literal("email"), v.literal("phone")))),
+    updatedAt: v.number(),
+  }).index("by_instance", ["instanceUrl"]),
+
+  // Per-org cap on records one assistant bulk update may change
+  bulkUpdateLimits: defineTable({
+    instanceUrl: v.string(), // Normalized org URL, like orgMetadata
+    maxRecords: v.number(),
+    updatedAt: v.number(),
+  }).index("by_instance", ["instanceUrl"]),
+
+  // Custom-object prompt fragments for the assistant, rebuilt after each metadata sync
+  orgPromptContexts: defineTable({
+    instanceUrl: v.string(), // Normalized org URL, like orgMetadata
+    version: v.number(),     // Bumped only when the rendered text changes
+    contentHash: v.string(),
+    fragments: v.array(v.object({
+      object: v.string(),    // API name
+      label: v.string(),
+      text: v.string(),      // Rendered description for the prompt
+      keywords: v.array(v.string()), // Matched against the user's message
+      tokens: v.number(),
+    })),
+    totalTokens: v.number(),
+    builtAt: v.number(),
+  }).index("by_instance", ["instanceUrl"]),
+
+  // Report and dashboard names per org, for fuzzy lookup by the assistant
+  reportIndexes: defineTable({
+    instanceUrl: v.string(), // Normalized org URL, like orgMetadata
+    entries: v.array(v.object({
+      id: v.string(),
+      name: v.string(),
+      kind: v.union(v.literal("report"), v.literal("dashboard")),
+      folder: v.optional(v.string()),
+      format: v.optional(v.string()),
+      lastViewedAt: v.optional(v.number()),
+    })),
+    builtAt: v.number(),
+  }).index("by_instance", ["instanceUrl"]),
+
+  // Token usage and latency per assistant turn - compares prompt strategies
+  llmMetrics: defineTable({
+    userId: v.optional(v.id("users")),
+    feature: v.string(),
+    provider: v.string(),
+    model: v.string(),
+    channel: v.optional(v.string()),
+    inputTokens: v.number(),
+    outputTokens: v.number(),
+    cacheReadTokens: v.number(),
+    cacheWriteTokens: v.number(),
+    latencyMs: v.number(),   // Time spent waiting on the model
+    rounds: v.number(),      // Model round trips
+    orgContextMode: v.string(), // "none" | "full" | "selected" | "legacy"
+    orgContextTokens: v.number(),
+    objectsSent: v.number(),
+    objectsTotal: v.number(),
+    promptVersion: v.optional(v.number()),
+    timestamp: v.number(),
+  })
+    .index("by_timestamp", ["timestamp"])
+    .index("by_user", ["userId", "timestamp"]),
+
   // ============================================================================
   // CONVERSATIONS (Now linked to users)
   // ============================================================================
@@ -150,6 +357,13 @@ export default defineSchema({
     sentiment: v.optional(v.string()), // positive, negative, neutral
     // Turn count
     turnCount: v.optional(v.number()),
+    // Automatic call logging (callLogging.ts) - set once the call is handled
+    callLog: v.optional(v.object({
+      status: v.union(v.literal("logging"), v.literal("logged"), v.literal("skipped"), v.literal("failed")),
+      taskId: v.optional(v.string()),
+      reason: v.optional(v.string()), // Why it was skipped or failed
+      updatedAt: v.number(),
+    })),
   })
     .index("by_conversation_id", ["conversationId"])
     .index("by_elevenlabs_id", ["elevenlabsConversationId"])
@@ -200,6 +414,7 @@ export default defineSchema({
     recordName: v.optional(v.string()), // Record name for display
     recordType: v.optional(v.string()), // Account, Contact, Opportunity, etc.
     conversationId: v.optional(v.string()),
+    userId: v.optional(v.id("users")), // Only in this user's feed (e.g. their deal alerts)
     timestamp: v.number(),
     expiresAt: v.number(), // Auto-cleanup old activities
   }).index("by_timestamp", ["timestamp"])
@@ -300,11 +515,14 @@ export default defineSchema({
       v.literal("web"),      // Web chat interface
       v.literal("voice"),    // Voice call (links to conversation)
       v.literal("sms"),      // SMS (links to textConversation)
+      v.literal("slack"),    // Slack commands, mentions and DMs
       v.literal("api")       // Direct API access
     ),
     // Link to source conversation if applicable
     sourceConversationId: v.optional(v.string()), // voice conversationId
     sourceTextConversationId: v.optional(v.id("textConversations")),
+    // Cross-channel session - turns from any channel continue it (channel = where it started)
+    shared: v.optional(v.boolean()),
     // Session state
     status: v.union(v.literal("active"), v.literal("completed"), v.literal("expired")),
     // Context summary - compressed context for long sessions
@@ -320,6 +538,12 @@ export default defineSchema({
         salesforceUserId: v.string(),
         userName: v.string(),
       })),
+      // Last read result, so another channel can pick up "those deals"
+      lastResult: v.optional(v.object({
+        summary: v.string(),
+        channel: v.string(),
+        timestamp: v.number(),
+      })),
     })),
     // Timestamps
     createdAt: v.number(),
@@ -341,6 +565,14 @@ export default defineSchema({
     role: v.union(v.literal("user"), v.literal("assistant"), v.literal("system")),
     content: v.string(),
     timestamp: v.number(),
+    // Channel this turn came from (sessions can span channels)
+    channel: v.optional(v.union(
+      v.literal("web"),
+      v.literal("voice"),
+      v.literal("sms"),
+      v.literal("slack"),
+      v.literal("api")
+    )),
     // Token tracking for context management
     tokenCount: v.optional(v.number()),
     // Tool/action metadata
@@ -363,6 +595,144 @@ export default defineSchema({
     .index("by_user", ["userId"])
     .index("by_timestamp", ["timestamp"]),
 
+  // ============================================================================
+  // PENDING ACTIONS (AI writes awaiting user confirmation)
+  // ============================================================================
+
+  // Staged create/update/log_call operations - kept after resolution for audit
+  pendingActions: defineTable({
+    userId: v.id("users"),
+    channel: v.union(
+      v.literal("voice"),
+      v.literal("sms"),
+      v.literal("slack"),
+      v.literal("web"),
+      v.literal("api")
+    ),
+    operation: v.union(v.literal("create"), v.literal("update"), v.literal("log_call"), v.literal("bulk_update")),
+    objectType: v.string(),
+    recordId: v.optional(v.string()),
+    recordName: v.optional(v.string()),
+    targets: v.optional(v.array(v.object({ id: v.string(), name: v.string() }))), // bulk_update: the previewed set
+    fields: v.any(), // Exact payload sent to Salesforce on confirmation
+    changes: v.array(v.object({
+      field: v.string(),
+      label: v.string(),
+      before: v.optional(v.string()),
+      after: v.string(),
+    })),
+    summary: v.string(), // "Stage: Qualification → Negotiation on Acme – 50k"
+    userMessage: v.optional(v.string()), // What the user said
+    status: v.union(
+      v.literal("pending"),
+      v.literal("confirmed"),
+      v.literal("executed"),
+      v.literal("failed"),
+      v.literal("cancelled"),
+      v.literal("expired")
+    ),
+    resolvedVia: v.optional(v.string()), // Channel, "superseded" or "expiry"
+    sessionId: v.optional(v.id("agentSessions")), // Where it was staged - confirmed writes are journaled against it
+    result: v.optional(v.any()),
+    error: v.optional(v.string()),
+    createdAt: v.number(),
+    expiresAt: v.number(),
+    resolvedAt: v.optional(v.number()),
+  })
+    .index("by_user", ["userId"])
+    .index("by_user_status", ["userId", "status"])
+    .index("by_status_expires", ["status", "expiresAt"]),
+
+  // Before/after snapshots of the assistant's Salesforce writes, for undo
+  changeJournal: defineTable({
+    userId: v.id("users"),
+    channel: v.union(
+      v.literal("voice"),
+      v.literal("sms"),
+      v.literal("slack"),
+      v.literal("web"),
+      v.literal("api")
+    ),
+    sessionId: v.optional(v.id("agentSessions")),
+    pendingActionId: v.optional(v.id("pendingActions")), // When the write was confirmed first
+    operation: v.union(v.literal("create"), v.literal("update"), v.literal("log_call")),
+    objectType: v.string(),
+    recordId: v.string(), // The updated record, or the one created
+    recordName: v.optional(v.string()),
+    before: v.optional(v.any()), // Field → prior value (updates only)
+    after: v.any(), // Field → value as Salesforce stored it
+    summary: v.string(),
+    status: v.union(v.literal("applied"), v.literal("undoing"), v.literal("undone")),
+    undoneVia: v.optional(v.string()), // Channel
+    undoneAt: v.optional(v.number()),
+    undoForced: v.optional(v.boolean()), // Overwrote someone else's later edit
+    undoError: v.optional(v.string()), // Last failed undo attempt
+    createdAt: v.number(),
+  })
+    .index("by_user_created", ["userId", "createdAt"]),
+
+  // ============================================================================
+  // RECORD DISAMBIGUATION
+  // ============================================================================
+
+  // "Which Acme did you mean?" questions - resolved rows double as session memory
+  disambiguations: defineTable({
+    userId: v.id("users"),
+    channel: v.union(
+      v.literal("voice"),
+      v.literal("sms"),
+      v.literal("slack"),
+      v.literal("web"),
+      v.literal("api")
+    ),
+    objectType: v.string(),
+    term: v.string(), // Normalized search term (lowercase)
+    searchTerm: v.string(), // As the user said it
+    question: v.string(), // "Acme Corp in Denver or Acme Labs in Austin?"
+    options: v.array(v.object({
+      recordId: v.string(),
+      name: v.string(),
+      detail: v.optional(v.string()), // Distinguishing detail, e.g. "in Denver"
+    })),
+    userMessage: v.string(), // Original request, re-run once answered
+    status: v.union(v.literal("open"), v.literal("resolved"), v.literal("expired")),
+    chosenRecordId: v.optional(v.string()),
+    createdAt: v.number(),
+    expiresAt: v.number(),
+    resolvedAt: v.optional(v.number()),
+  })
+    .index("by_user_status", ["userId", "status"])
+    .index("by_user_term", ["userId", "objectType", "term"]),
+
+  // Learned per-user preferences: which record a name usually means
+  recordPreferences: defineTable({
+    userId: v.id("users"),
+    objectType: v.string(),
+    term: v.string(), // Normalized search term
+    recordId: v.string(),
+    recordName: v.string(),
+    streak: v.number(), // Consecutive times this record was picked
+    timesChosen: v.number(),
+    lastChosenAt: v.number(),
+  }).index("by_user_term", ["userId", "objectType", "term"]),
+
+  // Other names for records: nicknames, phonetic spellings, transcription errors
+  recordAliases: defineTable({
+    instanceUrl: v.string(), // Normalized org URL, like orgMetadata
+    userId: v.optional(v.id("users")), // Unset for aliases shared across the org
+    alias: v.string(), // Normalized ("big blue")
+    phonetic: v.string(), // Sound-alike key of the alias
+    objectType: v.string(),
+    recordId: v.string(),
+    recordName: v.string(),
+    kind: v.union(v.literal("nickname"), v.literal("phonetic"), v.literal("transcription")),
+    source: v.union(v.literal("learned"), v.literal("web"), v.literal("slack")),
+    createdBy: v.id("users"),
+    createdAt: v.number(),
+  })
+    .index("by_instance_alias", ["instanceUrl", "alias"])
+    .index("by_instance_phonetic", ["instanceUrl", "phonetic"]),
+
   // ============================================================================
   // SLACK INTEGRATION
   // ============================================================================
@@ -1,6 +1,7 @@
 import { v } from "convex/values";
 import { action, internalAction } from "./_generated/server";
 import { api, internal } from "./_generated/api";
+import { renderSms } from "./responseRenderers";
 
 // ============================================================================
 // SENDBLUE SMS ACTIONS (Replaces Twilio for SMS verification)
@@ -304,6 +305,7 @@ export const processIncomingText = internalAction({
     messageContent: v.string(),
     messageHandle: v.string(),
     mediaUrl: v.optional(v.string()),
+    service: v.optional(v.union(v.literal("iMessage"), v.literal("SMS"))), // How the user texted us
   },
   returns: v.object({
     success: v.boolean(),
@@ -340,52 +342,41 @@ export const processIncomingText = internalAction({
         fromNumber: args.sendblueNumber,
       }).catch(() => {}); // Ignore errors - typing indicator is nice-to-have
 
-      // 4. Get recent conversation context (last 10 messages)
-      const recentMessages = await ctx.runQuery(internal.textMessages.getRecentMessages, {
-        conversationId: conversation._id,
-        limit: 10,
-      });
-
-      // 5. Build conversation history for Claude
-      const conversationHistory = recentMessages.map((msg: { direction: string; content: string }) => ({
-        role: msg.direction === "inbound" ? "user" : "assistant",
-        content: msg.content,
-      }));
-
-      // 6. Call AI to process the message (reuse existing Salesforce AI)
+      // 4. Call AI to process the message - conversation history comes from the
+      // user's SMS agent session, linked to this text thread
       const aiResult = await ctx.runAction(api.ai.askSalesforce, {
         userMessage: args.messageContent,
-        conversationHistory: conversationHistory as any,
         userId: args.userId, // Pass userId for Salesforce auth lookup
+        channel: "sms",
+        sourceTextConversationId: conversation._id,
       });
 
-      // 7. Build response - append record link for create actions (text agent only)
-      let responseContent = aiResult.response;
-      if (aiResult.action === "create" && aiResult.recordUrl) {
-        responseContent += `\n\nView in Salesforce: ${aiResult.recordUrl}`;
-      }
+      // 5. Render for the service - plain text, split to fit, record link and
+      // confirmation prompt included
+      const messages = renderSms(aiResult.structured, { service: args.service });
 
-      // 8. Send AI response via SendBlue
-      const sendResult = await ctx.runAction(api.sendblue.sendMessage, {
-        to: args.userPhone,
-        content: responseContent,
-        fromNumber: args.sendblueNumber,
-      });
+      // 6-7. Send each part via SendBlue and log it
+      for (const content of messages) {
+        const sendResult = await ctx.runAction(api.sendblue.sendMessage, {
+          to: args.userPhone,
+          content,
+          fromNumber: args.sendblueNumber,
+        });
 
-      // 8. Log the outgoing message
-      await ctx.runMutation(internal.textMessages.logMessage, {
-        conversationId: conversation._id,
-        userId: args.userId,
-        direction: "outbound",
-        content: responseContent,
-        messageHandle: sendResult.messageHandle,
-        status: sendResult.success ? "sent" : "failed",
-        service: (sendResult.service || undefined) as "iMessage" | "SMS" | undefined,
-        aiProcessed: true,
-        salesforceAction: aiResult.action,
-      });
+        await ctx.runMutation(internal.textMessages.logMessage, {
+          conversationId: conversation._id,
+          userId: args.userId,
+          direction: "outbound",
+          content,
+          messageHandle: sendResult.messageHandle,
+          status: sendResult.success ? "sent" : "failed",
+          service: (sendResult.service || undefined) as "iMessage" | "SMS" | undefined,
+          aiProcessed: true,
+          salesforceAction: aiResult.action,
+        });
+      }
 
-      // 9. Log activity for dashboard
+      // 8. Log activity for dashboard
       await ctx.runMutation(internal.activities.logActivityInternal, {
         type: "success",
         message: `Processed text: "${args.messageContent.slice(0, 30)}${args.messageContent.length > 30 ? "..." : ""}"`,
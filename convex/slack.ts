@@ -10,6 +10,8 @@ import {
 import { internal, api } from "./_generated/api";
 import { Id } from "./_generated/dataModel";
 import { Block } from "./slackBlocks";
+import { maskPii } from "./redaction";
+import { loadRedactionPolicy } from "./redactionPolicy";
 
 // ============================================================================
 // SLACK API HELPERS
@@ -454,6 +456,7 @@ export const logMessage = internalMutation({
     slackUserId: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
+    const { storage } = await loadRedactionPolicy(ctx, args.userId);
     return await ctx.db.insert("slackMessages", {
       userId: args.userId,
       installationId: args.installationId,
@@ -462,7 +465,7 @@ export const logMessage = internalMutation({
       threadTs: args.threadTs,
       direction: args.direction,
       messageType: args.messageType,
-      content: args.content,
+      content: args.content && maskPii(args.content, storage),
       salesforceRecordId: args.salesforceRecordId,
       salesforceRecordType: args.salesforceRecordType,
       slackUserId: args.slackUserId,
@@ -685,6 +688,7 @@ export const respondToCommand = internalAction({
     text: v.string(),
     blocks: v.optional(v.array(v.any())),
     responseType: v.optional(v.union(v.literal("in_channel"), v.literal("ephemeral"))),
+    replaceOriginal: v.optional(v.boolean()), // For interactive messages (button clicks)
   },
   handler: async (ctx, args): Promise<{ ok: boolean; status: number }> => {
     const body: Record<string, any> = {
@@ -692,6 +696,10 @@ export const respondToCommand = internalAction({
       response_type: args.responseType || "ephemeral",
     };
 
+    if (args.replaceOriginal) {
+      body.replace_original = true;
+    }
+
     if (args.blocks) {
       body.blocks = args.blocks;
     }
@@ -775,14 +783,29 @@ export const notifyDealChange = internalAction({
     changeType: v.union(
       v.literal("closed_won"),
       v.literal("closed_lost"),
-      v.literal("stage_change")
+      v.literal("stage_change"),
+      v.literal("reassigned")
     ),
     previousStage: v.optional(v.string()),
+    previousOwnerName: v.optional(v.string()),
     recordUrl: v.optional(v.string()),
   },
   handler: async (ctx, args): Promise<{ sent: boolean; reason?: string; messageTs?: string }> => {
     const { buildDealAlertBlocks } = await import("./slackBlocks");
 
+    // The deal alerts channel can opt out of closed deals or stage changes (both on by default)
+    const channelMapping = await ctx.runQuery(internal.slack.getChannelByPurpose, {
+      userId: args.userId,
+      purpose: "deal_alerts",
+    });
+    const closed = args.changeType === "closed_won" || args.changeType === "closed_lost";
+    if (channelMapping && closed && channelMapping.notifyOnDealClosed === false) {
+      return { sent: false, reason: "closed_deals_muted" };
+    }
+    if (channelMapping && args.changeType === "stage_change" && channelMapping.notifyOnDealStageChange === false) {
+      return { sent: false, reason: "stage_changes_muted" };
+    }
+
     const blocks = buildDealAlertBlocks(
       args.dealName,
       args.accountName,
@@ -791,7 +814,8 @@ export const notifyDealChange = internalAction({
       args.ownerName,
       args.changeType,
       args.previousStage,
-      args.recordUrl
+      args.recordUrl,
+      args.previousOwnerName
     );
 
     let text: string;
@@ -805,6 +829,9 @@ export const notifyDealChange = internalAction({
       case "stage_change":
         text = `📈 ${args.dealName} moved to ${args.stage}`;
         break;
+      case "reassigned":
+        text = `👤 ${args.dealName} is now owned by ${args.ownerName}`;
+        break;
     }
 
     return await ctx.runAction(internal.slack.sendNotification, {
@@ -528,9 +528,10 @@ export function buildDealAlertBlocks(
   amount: number,
   stage: string,
   ownerName: string,
-  changeType: "closed_won" | "closed_lost" | "stage_change",
+  changeType: "closed_won" | "closed_lost" | "stage_change" | "reassigned",
   previousStage?: string,
-  recordUrl?: string
+  recordUrl?: string,
+  previousOwnerName?: string
 ): Block[] {
   let headerText: string;
   let headerEmoji: string;
@@ -548,6 +549,10 @@ export function buildDealAlertBlocks(
       headerEmoji = "📈";
       headerText = "Deal Stage Changed";
       break;
+    case "reassigned":
+      headerEmoji = "👤";
+      headerText = "Deal Reassigned";
+      break;
   }
 
   const blocks: Block[] = [
@@ -562,6 +567,8 @@ export function buildDealAlertBlocks(
 
   if (changeType === "stage_change" && previousStage) {
     blocks.push(section(`Stage: ${previousStage} → *${stage}*`));
+  } else if (changeType === "reassigned" && previousOwnerName) {
+    blocks.push(section(`Owner: ${previousOwnerName} → *${ownerName}*`));
   } else {
     blocks.push(section(`*Stage:* ${stage}`));
   }
@@ -597,6 +604,9 @@ export function buildHelpBlocks(): Block[] {
     section(
       "`/crm log <record> <note>`\nLog a note to a Salesforce record\n_Example: `/crm log Acme Discussed pricing`_"
     ),
+    section(
+      "`/crm alias <nickname> = <record>`\nTeach TalkCRM what you call a record (`--org` shares it, `/crm alias` lists them)\n_Example: `/crm alias Big Blue = IBM`_"
+    ),
     divider(),
     section("*AI-Powered Queries:*\nMention @TalkCRM with any question about your CRM data.\n_Example: @TalkCRM What deals are closing this month?_"),
     context(["Powered by TalkCRM • Need help? Contact support@talkcrm.com"]),
@@ -13,9 +13,12 @@ import {
   context,
   actions,
   button,
-  divider,
   header,
 } from "./slackBlocks";
+import { renderSlack } from "./responseRenderers";
+import { normalizeAlias } from "./aliases";
+import { crmFor } from "./crm";
+import { explainSalesforceError } from "./salesforceErrors";
 
 // ============================================================================
 // SLACK SLASH COMMAND HANDLERS
@@ -118,6 +121,11 @@ export const handleSlashCommand = internalAction({
           await handleLog(ctx, installation, cmdArgs, args.responseUrl);
           break;
 
+        case "alias":
+        case "aliases":
+          await handleAlias(ctx, installation, cmdArgs, args.responseUrl);
+          break;
+
         case "help":
         case "":
           console.log("Calling handleHelp with responseUrl:", args.responseUrl);
@@ -137,10 +145,11 @@ export const handleSlashCommand = internalAction({
       }
     } catch (error: any) {
       console.error("Slash command error:", error);
+      const message = explainSalesforceError(error) || error.message;
       await ctx.runAction(internal.slack.respondToCommand, {
         responseUrl: args.responseUrl,
-        text: `Error: ${error.message}`,
-        blocks: buildErrorBlocks(error.message, "Try /crm help for available commands."),
+        text: `Error: ${message}`,
+        blocks: buildErrorBlocks(message, "Try /crm help for available commands."),
       });
     }
   },
@@ -174,22 +183,21 @@ async function handleSearch(
     blocks: buildThinkingBlocks(`Searching for "${query}"`),
   });
 
-  // Perform search using Salesforce
-  const searchResults = await ctx.runAction(api.salesforce.searchRecords, {
-    query,
-    limit: 5,
-    userId: installation.userId,
-  });
+  // Search the user's CRM
+  const crm = await crmFor(ctx, { userId: installation.userId });
+  const searchResults = await crm.search(query, { limit: 5 });
 
-  // Get Salesforce auth for record URLs
+  // Get Salesforce auth for record URLs (HubSpot records go without links)
   let instanceUrl: string | undefined;
-  try {
-    const sfStatus = await ctx.runQuery(api.salesforce.getSalesforceStatus, {
-      userId: installation.userId,
-    });
-    instanceUrl = sfStatus.instanceUrl;
-  } catch (e) {
-    console.log("Could not get Salesforce instance URL");
+  if (crm.name === "salesforce") {
+    try {
+      const sfStatus = await ctx.runQuery(api.salesforce.getSalesforceStatus, {
+        userId: installation.userId,
+      });
+      instanceUrl = sfStatus.instanceUrl;
+    } catch (e) {
+      console.log("Could not get Salesforce instance URL");
+    }
   }
 
   // Build and send results
@@ -241,21 +249,20 @@ async function handlePipeline(
   }
 
   // Fetch opportunities
-  const oppResults = await ctx.runAction(api.salesforce.getMyOpportunities, {
-    stage,
-    closeDate,
-    userId: installation.userId,
-  });
+  const crm = await crmFor(ctx, { userId: installation.userId });
+  const oppResults = await crm.myPipeline({ stage, closeDate });
 
   // Get Salesforce instance URL
   let instanceUrl: string | undefined;
-  try {
-    const sfStatus = await ctx.runQuery(api.salesforce.getSalesforceStatus, {
-      userId: installation.userId,
-    });
-    instanceUrl = sfStatus.instanceUrl;
-  } catch (e) {
-    console.log("Could not get Salesforce instance URL");
+  if (crm.name === "salesforce") {
+    try {
+      const sfStatus = await ctx.runQuery(api.salesforce.getSalesforceStatus, {
+        userId: installation.userId,
+      });
+      instanceUrl = sfStatus.instanceUrl;
+    } catch (e) {
+      console.log("Could not get Salesforce instance URL");
+    }
   }
 
   // Build and send response
@@ -312,21 +319,20 @@ async function handleTasks(
   }
 
   // Fetch tasks
-  const taskResults = await ctx.runAction(api.salesforce.getMyTasks, {
-    status,
-    dueDate,
-    userId: installation.userId,
-  });
+  const crm = await crmFor(ctx, { userId: installation.userId });
+  const taskResults = await crm.myTasks({ status, dueDate });
 
   // Get Salesforce instance URL
   let instanceUrl: string | undefined;
-  try {
-    const sfStatus = await ctx.runQuery(api.salesforce.getSalesforceStatus, {
-      userId: installation.userId,
-    });
-    instanceUrl = sfStatus.instanceUrl;
-  } catch (e) {
-    console.log("Could not get Salesforce instance URL");
+  if (crm.name === "salesforce") {
+    try {
+      const sfStatus = await ctx.runQuery(api.salesforce.getSalesforceStatus, {
+        userId: installation.userId,
+      });
+      instanceUrl = sfStatus.instanceUrl;
+    } catch (e) {
+      console.log("Could not get Salesforce instance URL");
+    }
   }
 
   // Build and send response
@@ -374,11 +380,8 @@ async function handleLog(
   });
 
   // Search for the record first
-  const searchResults = await ctx.runAction(api.salesforce.searchRecords, {
-    query: recordSearch,
-    limit: 1,
-    userId: installation.userId,
-  });
+  const crm = await crmFor(ctx, { userId: installation.userId });
+  const searchResults = await crm.search(recordSearch, { limit: 1 });
 
   if (!searchResults.records || searchResults.records.length === 0) {
     await ctx.runAction(internal.slack.respondToCommand, {
@@ -406,28 +409,30 @@ async function handleLog(
   }
 
   // Log the call/activity
-  const logResult = await ctx.runAction(api.salesforce.logCall, {
+  const logResult = await crm.logActivity({
     subject: `Note from Slack`,
     description: note,
     whoId,
     whatId,
-    userId: installation.userId,
+    whatType: whatId ? recordType : undefined,
   });
 
   // Get Salesforce instance URL
   let instanceUrl: string | undefined;
-  try {
-    const sfStatus = await ctx.runQuery(api.salesforce.getSalesforceStatus, {
-      userId: installation.userId,
-    });
-    instanceUrl = sfStatus.instanceUrl;
-  } catch (e) {
-    console.log("Could not get Salesforce instance URL");
+  if (crm.name === "salesforce") {
+    try {
+      const sfStatus = await ctx.runQuery(api.salesforce.getSalesforceStatus, {
+        userId: installation.userId,
+      });
+      instanceUrl = sfStatus.instanceUrl;
+    } catch (e) {
+      console.log("Could not get Salesforce instance URL");
+    }
   }
 
-  const recordUrl = instanceUrl
+  const recordUrl = logResult.recordUrl || (instanceUrl
     ? `${instanceUrl}/lightning/r/Task/${logResult.taskId}/view`
-    : undefined;
+    : undefined);
 
   // Send success response
   await ctx.runAction(internal.slack.respondToCommand, {
@@ -439,13 +444,88 @@ async function handleLog(
       section(`📝 ${note}`),
       context([`Task ID: ${logResult.taskId}`]),
       ...(recordUrl
-        ? [actions([button("View in Salesforce", "view_task", logResult.taskId, { url: recordUrl })])]
+        ? [actions([button(`View in ${crm.label}`, "view_task", logResult.taskId, { url: recordUrl })])]
         : []),
     ],
     responseType: "in_channel" as const,
   });
 }
 
+/**
+ * Handle /crm alias [list | <nickname> = <record> [--org] | remove <nickname>]
+ */
+async function handleAlias(
+  ctx: any,
+  installation: any,
+  args: string,
+  responseUrl: string
+) {
+  const removeMatch = args.match(/^(?:remove|delete|rm)\s+(.+)$/i);
+  const addMatch = args.match(/^(.+?)\s*=\s*(.+?)(\s+--org)?$/i);
+
+  if (removeMatch) {
+    const wanted = normalizeAlias(removeMatch[1]);
+    const aliases = await ctx.runQuery(api.aliases.listAliases, { userId: installation.userId });
+    const alias = aliases.find((a: any) => a.alias === wanted);
+    if (!alias) {
+      throw new Error(`No alias "${removeMatch[1]}"`);
+    }
+    await ctx.runMutation(api.aliases.removeAlias, { userId: installation.userId, aliasId: alias._id });
+    await ctx.runAction(internal.slack.respondToCommand, {
+      responseUrl,
+      text: `Removed alias "${alias.alias}"`,
+      blocks: [section(`🗑️ "${alias.alias}" no longer means *${alias.recordName}*`)],
+    });
+    return;
+  }
+
+  if (addMatch) {
+    const [, nickname, recordName, orgFlag] = addMatch;
+    const record = await ctx.runAction(api.aliases.addAliasByName, {
+      userId: installation.userId,
+      alias: nickname,
+      recordName,
+      orgWide: Boolean(orgFlag),
+      source: "slack" as const,
+    });
+    await ctx.runAction(internal.slack.respondToCommand, {
+      responseUrl,
+      text: `"${nickname}" now means ${record.recordName}`,
+      blocks: [
+        section(`✅ "${normalizeAlias(nickname)}" now means *${record.recordName}* (${record.objectType})`),
+        context([orgFlag ? "Shared with everyone in your org" : "Only for you • add --org to share it"]),
+      ],
+    });
+    return;
+  }
+
+  if (args && !/^list$/i.test(args)) {
+    await ctx.runAction(internal.slack.respondToCommand, {
+      responseUrl,
+      text: "Format: /crm alias <nickname> = <record name>",
+      blocks: buildErrorBlocks(
+        "Couldn't read that alias",
+        "Format: /crm alias <nickname> = <record name> [--org] • /crm alias remove <nickname>"
+      ),
+    });
+    return;
+  }
+
+  const aliases = await ctx.runQuery(api.aliases.listAliases, { userId: installation.userId });
+  const lines = aliases
+    .sort((a: any, b: any) => a.alias.localeCompare(b.alias))
+    .map((a: any) => `• "${a.alias}" → *${a.recordName}* (${a.objectType})${a.orgWide ? " · org" : ""}`);
+  await ctx.runAction(internal.slack.respondToCommand, {
+    responseUrl,
+    text: `You have ${aliases.length} aliases`,
+    blocks: [
+      header("📖 Aliases"),
+      section(lines.length > 0 ? lines.join("\n") : "No aliases yet."),
+      context(["Add one with /crm alias <nickname> = <record name>"]),
+    ],
+  });
+}
+
 /**
  * Handle /crm help
  */
@@ -478,6 +558,7 @@ export const handleAIQuery = internalAction({
     responseUrl: v.optional(v.string()),
     channelId: v.optional(v.string()),
     threadTs: v.optional(v.string()),
+    isDirectMessage: v.optional(v.boolean()), // Only DMs join a cross-channel session
   },
   handler: async (ctx, args) => {
     // Get user ID from installation if not provided
@@ -529,6 +610,8 @@ export const handleAIQuery = internalAction({
     const aiResult = await ctx.runAction(api.ai.askSalesforce, {
       userMessage: args.query,
       userId: userId,
+      channel: "slack",
+      shareAcrossChannels: args.isDirectMessage === true,
     });
 
     // Get Salesforce instance URL for any record links
@@ -542,14 +625,14 @@ export const handleAIQuery = internalAction({
       console.log("Could not get Salesforce instance URL");
     }
 
-    // Build response blocks based on the AI result
-    const blocks = buildAIResponseBlocks(aiResult, instanceUrl);
+    // Records, totals, links and buttons from the structured reply
+    const { text, blocks } = renderSlack(aiResult.structured, { instanceUrl });
 
     // Send response
     if (args.responseUrl) {
       await ctx.runAction(internal.slack.respondToCommand, {
         responseUrl: args.responseUrl,
-        text: aiResult.response,
+        text,
         blocks,
         responseType: "in_channel" as const,
       });
@@ -557,7 +640,7 @@ export const handleAIQuery = internalAction({
       await ctx.runAction(internal.slack.sendMessage, {
         installationId: installation._id,
         channelId: args.channelId,
-        text: aiResult.response,
+        text,
         blocks,
         threadTs: args.threadTs,
       });
@@ -576,6 +659,7 @@ export const handleAppMention = internalAction({
     text: v.string(),        // Full message text
     ts: v.string(),          // Message timestamp
     threadTs: v.optional(v.string()),
+    isDirectMessage: v.optional(v.boolean()),
   },
   handler: async (ctx, args) => {
     // Get installation
@@ -608,94 +692,7 @@ export const handleAppMention = internalAction({
       query,
       channelId: args.channelId,
       threadTs: args.threadTs || args.ts,
+      isDirectMessage: args.isDirectMessage,
     });
   },
 });
-
-/**
- * Build response blocks from AI result
- */
-function buildAIResponseBlocks(aiResult: any, instanceUrl?: string): any[] {
-  const blocks: any[] = [];
-
-  // Main response text
-  blocks.push(section(aiResult.response));
-
-  // If there's data, format it based on action type
-  if (aiResult.data) {
-    blocks.push(divider());
-
-    switch (aiResult.action) {
-      case "search":
-        if (aiResult.data.records?.length > 0) {
-          for (const record of aiResult.data.records.slice(0, 3)) {
-            const recordType = record.attributes?.type || "Record";
-            const recordUrl = instanceUrl
-              ? `${instanceUrl}/lightning/r/${recordType}/${record.Id}/view`
-              : undefined;
-
-            blocks.push(
-              section(
-                `• *${record.Name || record.Subject}* (${recordType})`,
-                recordUrl ? button("View", `view_${record.Id}`, record.Id, { url: recordUrl }) : undefined
-              )
-            );
-          }
-        }
-        break;
-
-      case "query":
-        if (aiResult.data.opportunities?.length > 0) {
-          // Pipeline data
-          const opps = aiResult.data.opportunities.slice(0, 3);
-          for (const opp of opps) {
-            const amount = opp.amount ? `$${opp.amount.toLocaleString()}` : "N/A";
-            blocks.push(section(`• *${opp.name}* - ${amount} (${opp.stage})`));
-          }
-        } else if (aiResult.data.tasks?.length > 0) {
-          // Tasks data
-          const tasks = aiResult.data.tasks.slice(0, 3);
-          for (const task of tasks) {
-            blocks.push(section(`• ${task.subject} (Due: ${task.dueDate || "No date"})`));
-          }
-        } else if (aiResult.data.leads?.length > 0) {
-          // Leads data
-          const leads = aiResult.data.leads.slice(0, 3);
-          for (const lead of leads) {
-            blocks.push(section(`• *${lead.name}* from ${lead.company || "Unknown"}`));
-          }
-        } else if (aiResult.data.records?.length > 0) {
-          // Generic records
-          for (const record of aiResult.data.records.slice(0, 3)) {
-            blocks.push(section(`• *${record.Name || record.Subject || "Record"}*`));
-          }
-        }
-        break;
-
-      case "create":
-        if (aiResult.recordUrl) {
-          blocks.push(
-            actions([
-              button("View in Salesforce", "view_created", aiResult.data?.id, {
-                url: aiResult.recordUrl,
-                style: "primary",
-              }),
-            ])
-          );
-        }
-        break;
-
-      case "update":
-        blocks.push(context(["Record updated successfully"]));
-        break;
-    }
-  }
-
-  // Add follow-up suggestion if present
-  if (aiResult.followUp) {
-    blocks.push(divider());
-    blocks.push(context([`💡 ${aiResult.followUp}`]));
-  }
-
-  return blocks;
-}
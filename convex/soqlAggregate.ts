@@ -0,0 +1,370 @@
+import { SoqlFieldInfo, SoqlSchema } from "./soqlValidator";
+
+// ============================================================================
+// AGGREGATE QUERIES
+// "How much did I close last quarter", "average deal size by stage": the model
+// fills in an AggregateSpec, we build the aggregate SOQL (COUNT, SUM, AVG,
+// GROUP BY, HAVING), check it makes sense for the field types, and summarize
+// the AggregateResult rows as a sentence plus a small table.
+// ============================================================================
+
+export type AggregateFunction = "COUNT" | "COUNT_DISTINCT" | "SUM" | "AVG" | "MIN" | "MAX";
+
+export type DateGrouping =
+  | "CALENDAR_YEAR"
+  | "CALENDAR_QUARTER"
+  | "CALENDAR_MONTH"
+  | "FISCAL_YEAR"
+  | "FISCAL_QUARTER"
+  | "WEEK_IN_YEAR"
+  | "DAY_ONLY";
+
+export const AGGREGATE_FUNCTIONS: AggregateFunction[] = ["COUNT", "COUNT_DISTINCT", "SUM", "AVG", "MIN", "MAX"];
+export const DATE_GROUPINGS: DateGrouping[] = [
+  "CALENDAR_YEAR", "CALENDAR_QUARTER", "CALENDAR_MONTH", "FISCAL_YEAR", "FISCAL_QUARTER", "WEEK_IN_YEAR", "DAY_ONLY",
+];
+
+export interface AggregateSpec {
+  objectType: string;
+  metrics: { fn: AggregateFunction; field?: string }[]; // COUNT without a field counts records
+  groupBy?: { field: string; dateFunction?: DateGrouping }[];
+  where?: string; // SOQL condition without the WHERE keyword
+  having?: string; // Condition on an aggregate, e.g. SUM(Amount) > 100000
+  order?: "asc" | "desc"; // By the first metric (date groups sort chronologically)
+  limit?: number;
+}
+
+export interface AggregateColumn {
+  key: string; // Key in each result row
+  label: string;
+  kind: "text" | "number" | "currency" | "percent" | "date";
+  group: boolean; // A GROUP BY column rather than a metric
+  dateFunction?: DateGrouping;
+}
+
+export interface AggregateQuery {
+  soql: string;
+  objectType: string;
+  columns: AggregateColumn[];
+}
+
+export interface AggregateSummary {
+  sentence: string;
+  columns: AggregateColumn[];
+  rows: Record<string, string | number | null>[];
+}
+
+const NUMERIC_TYPES = new Set(["currency", "double", "int", "integer", "long", "percent"]);
+const ORDERED_TYPES = new Set([...NUMERIC_TYPES, "date", "datetime", "time", "string", "picklist"]);
+const UNGROUPABLE_TYPES = new Set(["textarea", "longtextarea", "richtextarea", "encryptedstring", "location", "address"]);
+const DATE_TYPES = new Set(["date", "datetime"]);
+
+const MAX_METRICS = 5;
+const MAX_GROUPS = 3; // Salesforce's limit for GROUP BY
+const DEFAULT_GROUP_LIMIT = 20;
+const MAX_GROUP_LIMIT = 200;
+const SENTENCE_GROUPS = 5;
+
+const METRIC_LABELS: Record<AggregateFunction, string> = {
+  COUNT: "Count",
+  COUNT_DISTINCT: "Distinct",
+  SUM: "Total",
+  AVG: "Average",
+  MIN: "Lowest",
+  MAX: "Highest",
+};
+
+const MONTHS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+// ============================================================================
+// BUILD
+// ============================================================================
+
+/**
+ * Turn a spec into aggregate SOQL. Throws on specs Salesforce would reject
+ * (SUM of a picklist, grouping by a long text area) with a message the model
+ * can act on. Field names are checked afterwards by validateSoql.
+ */
+export function buildAggregateQuery(spec: AggregateSpec, schema?: SoqlSchema): AggregateQuery {
+  if (!spec.objectType) throw new Error("objectType is required");
+  if (!Array.isArray(spec.metrics) || spec.metrics.length === 0) {
+    throw new Error("At least one metric is required, e.g. { fn: \"COUNT\" } or { fn: \"SUM\", field: \"Amount\" }");
+  }
+  if (spec.metrics.length > MAX_METRICS) throw new Error(`At most ${MAX_METRICS} metrics per query`);
+  const groups = spec.groupBy || [];
+  if (groups.length > MAX_GROUPS) throw new Error(`Salesforce groups by at most ${MAX_GROUPS} fields`);
+
+  const object = schema?.[spec.objectType.toLowerCase()];
+  const errors: string[] = [];
+  const columns: AggregateColumn[] = [];
+  const select: string[] = [];
+  const groupBy: string[] = [];
+
+  groups.forEach((group, i) => {
+    if (!group.field) {
+      errors.push("Every groupBy entry needs a field");
+      return;
+    }
+    const info = object && findField(group.field, object, schema);
+    if (group.dateFunction) {
+      if (!DATE_GROUPINGS.includes(group.dateFunction)) {
+        errors.push(`Unknown date grouping ${group.dateFunction}. Use one of ${DATE_GROUPINGS.join(", ")}`);
+        return;
+      }
+      if (info && !DATE_TYPES.has(info.type)) {
+        errors.push(`${group.dateFunction} needs a date field - ${group.field} is ${info.type}`);
+        return;
+      }
+      const key = `group${i + 1}`;
+      const expression = `${group.dateFunction}(${group.field})`;
+      select.push(`${expression} ${key}`);
+      groupBy.push(expression);
+      columns.push({
+        key,
+        label: dateGroupingLabel(group.dateFunction),
+        kind: group.dateFunction === "DAY_ONLY" ? "date" : "text",
+        group: true,
+        dateFunction: group.dateFunction,
+      });
+      return;
+    }
+    if (info && UNGROUPABLE_TYPES.has(info.type)) {
+      errors.push(`Can't group by ${group.field} - ${info.type} fields aren't groupable`);
+      return;
+    }
+    // AggregateResult keys plain fields by their last path segment
+    const key = group.field.split(".").pop() as string;
+    if (columns.some((c) => c.key === key)) {
+      errors.push(`Can't group by two fields named ${key}`);
+      return;
+    }
+    select.push(group.field);
+    groupBy.push(group.field);
+    columns.push({ key, label: info?.label || fieldLabel(group.field), kind: "text", group: true });
+  });
+
+  spec.metrics.forEach((metric, i) => {
+    const fn = String(metric.fn || "").toUpperCase() as AggregateFunction;
+    if (!AGGREGATE_FUNCTIONS.includes(fn)) {
+      errors.push(`Unknown aggregate ${metric.fn}. Use one of ${AGGREGATE_FUNCTIONS.join(", ")}`);
+      return;
+    }
+    if (fn !== "COUNT" && !metric.field) {
+      errors.push(`${fn} needs a field`);
+      return;
+    }
+    const field = metric.field || "Id";
+    const info = object && metric.field ? findField(metric.field, object, schema) : undefined;
+    if (info && (fn === "SUM" || fn === "AVG") && !NUMERIC_TYPES.has(info.type)) {
+      errors.push(`${fn} needs a number field - ${metric.field} is ${info.type}`);
+      return;
+    }
+    if (info && (fn === "MIN" || fn === "MAX") && !ORDERED_TYPES.has(info.type)) {
+      errors.push(`${fn} can't be used on ${metric.field} (${info.type})`);
+      return;
+    }
+
+    const key = `metric${i + 1}`;
+    select.push(`${fn}(${field}) ${key}`);
+    columns.push({
+      key,
+      label: fn === "COUNT" && !metric.field
+        ? "Count"
+        : `${METRIC_LABELS[fn]} ${info?.label || fieldLabel(field)}`,
+      kind: metricKind(fn, field, info),
+      group: false,
+    });
+  });
+
+  if (errors.length > 0) throw new Error(errors.join(". "));
+
+  let soql = `SELECT ${select.join(", ")} FROM ${spec.objectType}`;
+  if (spec.where?.trim()) soql += ` WHERE ${spec.where.trim().replace(/^WHERE\s+/i, "")}`;
+  if (groupBy.length > 0) soql += ` GROUP BY ${groupBy.join(", ")}`;
+  if (spec.having?.trim()) {
+    if (groupBy.length === 0) throw new Error("HAVING needs a groupBy");
+    soql += ` HAVING ${spec.having.trim().replace(/^HAVING\s+/i, "")}`;
+  }
+  if (groupBy.length > 0) {
+    // Months and quarters read best in order; otherwise biggest first
+    const firstMetric = select[groups.length].replace(/\s+\w+$/, "");
+    const orderBy = groups[0].dateFunction
+      ? `${groupBy[0]} ASC`
+      : `${firstMetric} ${spec.order === "asc" ? "ASC" : "DESC"}`;
+    const limit = Math.min(Math.max(1, Math.floor(spec.limit || DEFAULT_GROUP_LIMIT)), MAX_GROUP_LIMIT);
+    soql += ` ORDER BY ${orderBy} LIMIT ${limit}`;
+  }
+
+  return { soql, objectType: spec.objectType, columns };
+}
+
+function findField(path: string, object: { fields: SoqlFieldInfo[] }, schema?: SoqlSchema): SoqlFieldInfo | undefined {
+  const parts = path.split(".");
+  let current: { fields: SoqlFieldInfo[] } | undefined = object;
+  for (let i = 0; i < parts.length - 1 && current; i++) {
+    const relationship: SoqlFieldInfo | undefined = current.fields.find((f) => f.relationshipName?.toLowerCase() === parts[i].toLowerCase());
+    current = relationship?.referenceTo ? schema?.[relationship.referenceTo.toLowerCase()] : undefined;
+  }
+  const last = parts[parts.length - 1].toLowerCase();
+  return current?.fields.find((f) => f.name.toLowerCase() === last);
+}
+
+function metricKind(fn: AggregateFunction, field: string, info?: SoqlFieldInfo): AggregateColumn["kind"] {
+  if (fn === "COUNT" || fn === "COUNT_DISTINCT") return "number";
+  const type = info?.type;
+  if (type === "currency" || (!type && /Amount|Revenue|Price|Value/i.test(field))) return "currency";
+  if (type === "percent" || (!type && /Probability|Percent/i.test(field))) return "percent";
+  if (type && DATE_TYPES.has(type)) return "date";
+  return "number";
+}
+
+function dateGroupingLabel(fn: DateGrouping): string {
+  switch (fn) {
+    case "CALENDAR_YEAR": return "Year";
+    case "CALENDAR_QUARTER": return "Quarter";
+    case "CALENDAR_MONTH": return "Month";
+    case "FISCAL_YEAR": return "Fiscal year";
+    case "FISCAL_QUARTER": return "Fiscal quarter";
+    case "WEEK_IN_YEAR": return "Week";
+    case "DAY_ONLY": return "Day";
+  }
+}
+
+function fieldLabel(path: string): string {
+  // "StageName" → "Stage name", "Account.Industry" → "Account industry"
+  const words = path.replace(/__[cr]\b/g, "").replace(/[._]/g, " ").replace(/([a-z])([A-Z])/g, "$1 $2");
+  return words.charAt(0) + words.slice(1).toLowerCase();
+}
+
+// ============================================================================
+// RAW AGGREGATE SOQL (run_soql)
+// ============================================================================
+
+/**
+ * Whether a query's SELECT list aggregates (COUNT, SUM, ... or GROUP BY)
+ */
+export function isAggregateSoql(soql: string): boolean {
+  const selectList = soql.match(/^\s*SELECT\s+([\s\S]+?)\s+FROM\s/i)?.[1] || "";
+  if (/\(\s*SELECT\s/i.test(selectList)) return false;
+  return /\b(COUNT|COUNT_DISTINCT|SUM|AVG|MIN|MAX)\s*\(/i.test(selectList) || /\bGROUP\s+BY\b/i.test(soql);
+}
+
+/**
+ * Columns for AggregateResult rows from hand-written SOQL - keys come back as
+ * aliases, field names, or expr0, expr1...
+ */
+export function inferAggregateColumns(records: Record<string, any>[]): AggregateColumn[] {
+  const keys = [...new Set(records.flatMap((r) => Object.keys(r)))].filter((k) => k !== "attributes");
+  return keys.map((key) => {
+    const values = records.map((r) => r[key]).filter((value) => value !== null && value !== undefined);
+    const numeric = values.length > 0 && values.every((value) => typeof value === "number");
+    const expr = key.match(/^expr(\d+)$/);
+    return {
+      key,
+      label: expr ? `Result ${Number(expr[1]) + 1}` : fieldLabel(key),
+      kind: !numeric ? "text" : /Amount|Revenue|Price|Value|Total|Sum/i.test(key) ? "currency" : "number",
+      group: !numeric,
+    };
+  });
+}
+
+// ============================================================================
+// SUMMARIZE
+// ============================================================================
+
+/**
+ * Rows plus a one-sentence answer, e.g. "Average Amount by Stage: Negotiation
+ * $120,000, Qualification $50,000."
+ */
+export function summarizeAggregate(
+  result: { records: Record<string, any>[]; totalSize: number },
+  query: { objectType: string; columns: AggregateColumn[] }
+): AggregateSummary {
+  const { columns } = query;
+  const records = result.records || [];
+  const groups = columns.filter((c) => c.group);
+  const metrics = columns.filter((c) => !c.group);
+  const noun = objectNoun(query.objectType);
+
+  // SELECT COUNT() FROM ... returns no rows, just totalSize
+  if (columns.length === 0 || (records.length === 0 && metrics.length === 0)) {
+    return {
+      sentence: `${result.totalSize} ${result.totalSize === 1 ? noun.one : noun.many} match.`,
+      columns: [{ key: "count", label: "Count", kind: "number", group: false }],
+      rows: [{ count: result.totalSize }],
+    };
+  }
+
+  const rows = records.map((record) =>
+    Object.fromEntries(columns.map((column) => [column.key, cellValue(record[column.key], column)]))
+  );
+
+  if (rows.length === 0) {
+    return { sentence: `No ${noun.many} match.`, columns, rows };
+  }
+
+  if (groups.length === 0) {
+    const row = rows[0];
+    const count = metrics.find((m) => m.label === "Count");
+    const phrases = metrics
+      .filter((m) => m !== count)
+      .map((m) => `the ${lowerFirst(m.label)} is ${formatAggregateValue(row[m.key], m)}`);
+    const countValue = count ? Number(row[count.key] ?? 0) : undefined;
+    const lead = countValue !== undefined ? `${formatAggregateValue(countValue, count as AggregateColumn)} ${countValue === 1 ? noun.one : noun.many} match` : "";
+    const sentence = lead && phrases.length
+      ? `${lead}; ${phrases.join(" and ")}.`
+      : lead
+        ? `${lead}.`
+        : `${upperFirst(phrases.join(" and "))}.`;
+    return { sentence, columns, rows };
+  }
+
+  const [primary, ...others] = metrics;
+  const items = rows.slice(0, SENTENCE_GROUPS).map((row) => {
+    const label = groups.map((g) => formatAggregateValue(row[g.key], g)).join(" / ");
+    const extra = others
+      .map((m) => (m.label === "Count"
+        ? `${formatAggregateValue(row[m.key], m)} ${Number(row[m.key]) === 1 ? noun.one : noun.many}`
+        : `${lowerFirst(m.label)} ${formatAggregateValue(row[m.key], m)}`))
+      .join(", ");
+    return `${label} ${formatAggregateValue(row[primary.key], primary)}${extra ? ` (${extra})` : ""}`;
+  });
+  const more = rows.length > SENTENCE_GROUPS ? `, and ${rows.length - SENTENCE_GROUPS} more` : "";
+  const sentence = `${primary.label} by ${groups.map((g) => lowerFirst(g.label)).join(" and ")}: ${items.join(", ")}${more}.`;
+  return { sentence, columns, rows };
+}
+
+function cellValue(value: any, column: AggregateColumn): string | number | null {
+  if (value === null || value === undefined) return null;
+  if (column.dateFunction === "CALENDAR_QUARTER" || column.dateFunction === "FISCAL_QUARTER") return `Q${value}`;
+  if (column.dateFunction === "CALENDAR_MONTH") return MONTHS[Number(value) - 1] || value;
+  if (column.dateFunction === "WEEK_IN_YEAR") return `Week ${value}`;
+  return value;
+}
+
+/**
+ * Display form of a cell ("$120,000", "12.5%", "(none)" for an empty group)
+ */
+export function formatAggregateValue(value: string | number | null, column: AggregateColumn): string {
+  if (value === null || value === undefined) return column.group ? "(none)" : "0";
+  if (typeof value !== "number") return String(value);
+  if (column.kind === "currency") {
+    return "$" + value.toLocaleString("en-US", { maximumFractionDigits: Math.abs(value) >= 100 ? 0 : 2 });
+  }
+  if (column.kind === "percent") return `${Number(value.toFixed(1))}%`;
+  return value.toLocaleString("en-US", { maximumFractionDigits: 2 });
+}
+
+function objectNoun(objectType: string): { one: string; many: string } {
+  const one = objectType.replace(/__c$/, "").replace(/^[a-z0-9]+__/, "").replace(/_/g, " ");
+  const many = /[^aeiou]y$/i.test(one) ? `${one.slice(0, -1)}ies` : /(s|x|ch|sh)$/i.test(one) ? `${one}es` : `${one}s`;
+  return { one, many };
+}
+
+function lowerFirst(text: string): string {
+  return text.charAt(0).toLowerCase() + text.slice(1);
+}
+
+function upperFirst(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
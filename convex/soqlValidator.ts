@@ -0,0 +1,574 @@
+// ============================================================================
+// SOQL VALIDATION & AUTO-REPAIR
+// Checks model-generated SOQL against synced org metadata before it reaches
+// Salesforce: objects, fields, relationship paths, picklist and date literals.
+// Safe mistakes are repaired in place; anything else becomes a precise error
+// the assistant can hand back to Claude.
+// ============================================================================
+
+export interface SoqlFieldInfo {
+  name: string;
+  label?: string;
+  type: string;
+  picklistValues?: string[];
+  referenceTo?: string;
+  relationshipName?: string;
+}
+
+export interface SoqlObjectSchema {
+  name: string;
+  fields: SoqlFieldInfo[];
+}
+
+// Keyed by lowercase object API name
+export type SoqlSchema = Record<string, SoqlObjectSchema>;
+
+export interface SoqlValidationResult {
+  valid: boolean;
+  soql: string;        // Repaired query (same as input when nothing changed)
+  repairs: string[];   // Human-readable description of each automatic fix
+  errors: string[];    // Problems that could not be fixed automatically
+}
+
+// Fields every sObject has, even when the metadata sync filtered them out -
+// anything else has to come from the object's describe
+const SYSTEM_FIELDS: SoqlFieldInfo[] = [
+  { name: "Id", type: "id" },
+  { name: "CreatedDate", type: "datetime" },
+  { name: "CreatedById", type: "reference", referenceTo: "User", relationshipName: "CreatedBy" },
+  { name: "LastModifiedDate", type: "datetime" },
+  { name: "SystemModstamp", type: "datetime" },
+  { name: "IsDeleted", type: "boolean" },
+];
+
+// Relationships that can point at several object types - we can't check what follows them
+const POLYMORPHIC_RELATIONSHIPS = ["who", "what", "owner", "parent"];
+
+const DATE_LITERALS = [
+  "YESTERDAY", "TODAY", "TOMORROW",
+  "LAST_WEEK", "THIS_WEEK", "NEXT_WEEK",
+  "LAST_MONTH", "THIS_MONTH", "NEXT_MONTH",
+  "LAST_90_DAYS", "NEXT_90_DAYS",
+  "THIS_QUARTER", "LAST_QUARTER", "NEXT_QUARTER",
+  "THIS_YEAR", "LAST_YEAR", "NEXT_YEAR",
+  "THIS_FISCAL_QUARTER", "LAST_FISCAL_QUARTER", "NEXT_FISCAL_QUARTER",
+  "THIS_FISCAL_YEAR", "LAST_FISCAL_YEAR", "NEXT_FISCAL_YEAR",
+];
+
+const DATE_N_LITERALS = [
+  "LAST_N_DAYS", "NEXT_N_DAYS", "N_DAYS_AGO",
+  "LAST_N_WEEKS", "NEXT_N_WEEKS", "N_WEEKS_AGO",
+  "LAST_N_MONTHS", "NEXT_N_MONTHS", "N_MONTHS_AGO",
+  "LAST_N_QUARTERS", "NEXT_N_QUARTERS", "N_QUARTERS_AGO",
+  "LAST_N_YEARS", "NEXT_N_YEARS", "N_YEARS_AGO",
+  "LAST_N_FISCAL_QUARTERS", "NEXT_N_FISCAL_QUARTERS", "N_FISCAL_QUARTERS_AGO",
+  "LAST_N_FISCAL_YEARS", "NEXT_N_FISCAL_YEARS", "N_FISCAL_YEARS_AGO",
+];
+
+const KEYWORDS = new Set([
+  "SELECT", "FROM", "WHERE", "AND", "OR", "NOT", "IN", "LIKE", "INCLUDES", "EXCLUDES",
+  "GROUP", "BY", "HAVING", "ORDER", "ASC", "DESC", "NULLS", "FIRST", "LAST", "LIMIT",
+  "OFFSET", "NULL", "TRUE", "FALSE", "WITH", "FOR", "VIEW", "REFERENCE", "UPDATE",
+  "ROLLUP", "CUBE", "USING", "SCOPE", "TYPEOF", "WHEN", "THEN", "ELSE", "END",
+]);
+
+const COMPARISON_OPERATORS = new Set(["=", "!=", "<>", "<", ">", "<=", ">="]);
+
+// Placeholders searchRecords swaps for the running user's Salesforce Id
+const USER_PLACEHOLDERS = /^(CURRENT_USER|:userId|\{userId\}|\{currentUser\}|\{me\})$/i;
+
+// ============================================================================
+// SCHEMA
+// ============================================================================
+
+/**
+ * Build a validation schema from an orgMetadata document (or the
+ * getAvailableObjects result). Objects whose fields were never described are
+ * left out, so queries against them pass through unchecked.
+ */
+export function buildSoqlSchema(metadata: {
+  standardObjects?: Array<{ name: string; fields?: Array<SoqlFieldInfo | string> }>;
+  customObjects?: Array<{ name: string; keyFields?: Array<SoqlFieldInfo | string> }>;
+}): SoqlSchema {
+  const schema: SoqlSchema = {};
+  const add = (name: string, fields?: Array<SoqlFieldInfo | string>) => {
+    // Old-format metadata only has field names - not enough to validate against
+    if (!fields || fields.length === 0 || fields.some((f) => typeof f === "string")) return;
+    const byName = new Map<string, SoqlFieldInfo>();
+    for (const field of [...SYSTEM_FIELDS, ...(fields as SoqlFieldInfo[])]) {
+      byName.set(field.name.toLowerCase(), field);
+    }
+    schema[name.toLowerCase()] = { name, fields: [...byName.values()] };
+  };
+  for (const obj of metadata.standardObjects || []) add(obj.name, obj.fields);
+  for (const obj of metadata.customObjects || []) add(obj.name, obj.keyFields);
+  return schema;
+}
+
+// ============================================================================
+// TOKENIZER
+// ============================================================================
+
+interface Token {
+  type: "ident" | "string" | "number" | "op" | "punct" | "placeholder";
+  value: string;
+  start: number;
+  end: number;
+}
+
+function tokenize(soql: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < soql.length) {
+    const ch = soql[i];
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+    const start = i;
+    if (ch === "'") {
+      i++;
+      while (i < soql.length && soql[i] !== "'") {
+        if (soql[i] === "\\") i++;
+        i++;
+      }
+      i++;
+      tokens.push({ type: "string", value: soql.slice(start + 1, i - 1), start, end: i });
+    } else if (ch === "{") {
+      while (i < soql.length && soql[i] !== "}") i++;
+      i++;
+      tokens.push({ type: "placeholder", value: soql.slice(start, i), start, end: i });
+    } else if (/[0-9-]/.test(ch) && /[0-9]/.test(soql[i + 1] ?? ch)) {
+      // Numbers, dates (2024-01-31) and datetimes (2024-01-31T00:00:00Z)
+      i++;
+      while (i < soql.length && /[0-9.:TZ+-]/.test(soql[i])) i++;
+      tokens.push({ type: "number", value: soql.slice(start, i), start, end: i });
+    } else if (/[A-Za-z_:]/.test(ch)) {
+      i++;
+      while (i < soql.length && /[A-Za-z0-9_.]/.test(soql[i])) i++;
+      // Date literals with a parameter, e.g. LAST_N_DAYS:7
+      if (soql[i] === ":" && /[0-9]/.test(soql[i + 1] ?? "")) {
+        i++;
+        while (i < soql.length && /[0-9]/.test(soql[i])) i++;
+      }
+      const value = soql.slice(start, i);
+      tokens.push({ type: USER_PLACEHOLDERS.test(value) ? "placeholder" : "ident", value, start, end: i });
+    } else if (/[<>!=]/.test(ch)) {
+      i++;
+      if (/[=>]/.test(soql[i] ?? "")) i++;
+      tokens.push({ type: "op", value: soql.slice(start, i), start, end: i });
+    } else {
+      i++;
+      tokens.push({ type: "punct", value: ch, start, end: i });
+    }
+  }
+  return tokens;
+}
+
+// ============================================================================
+// VALIDATOR
+// ============================================================================
+
+interface Replacement {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/**
+ * Validate (and where safe, repair) a SOQL query against the org schema
+ */
+export function validateSoql(soql: string, schema: SoqlSchema): SoqlValidationResult {
+  const repairs: string[] = [];
+  const errors: string[] = [];
+  const replacements: Replacement[] = [];
+  const tokens = tokenize(soql.trim());
+  const text = soql.trim();
+
+  const upper = (t?: Token) => (t && t.type === "ident" ? t.value.toUpperCase() : "");
+
+  if (upper(tokens[0]) !== "SELECT") {
+    return { valid: false, soql: text, repairs, errors: ["Query must start with SELECT"] };
+  }
+
+  // Locate the top-level FROM
+  let depth = 0;
+  let fromIndex = -1;
+  for (let i = 1; i < tokens.length; i++) {
+    if (tokens[i].value === "(") depth++;
+    else if (tokens[i].value === ")") depth--;
+    else if (depth === 0 && upper(tokens[i]) === "FROM") {
+      fromIndex = i;
+      break;
+    }
+  }
+  const objectToken = tokens[fromIndex + 1];
+  if (fromIndex === -1 || !objectToken || objectToken.type !== "ident") {
+    return { valid: false, soql: text, repairs, errors: ["Query is missing a FROM clause"] };
+  }
+
+  // Resolve the object
+  let object = schema[objectToken.value.toLowerCase()];
+  if (object && object.name !== objectToken.value) {
+    replacements.push({ start: objectToken.start, end: objectToken.end, text: object.name });
+    repairs.push(`Object ${objectToken.value} → ${object.name}`);
+  }
+  if (!object && objectToken.value.toLowerCase().endsWith("__c")) {
+    const suggestion = closestName(objectToken.value, Object.values(schema).map((o) => o.name));
+    if (suggestion) {
+      object = schema[suggestion.toLowerCase()];
+      replacements.push({ start: objectToken.start, end: objectToken.end, text: suggestion });
+      repairs.push(`Object ${objectToken.value} → ${suggestion}`);
+    } else {
+      const customNames = Object.values(schema).map((o) => o.name).filter((n) => n.endsWith("__c"));
+      errors.push(
+        `Object ${objectToken.value} does not exist in this org.` +
+        (customNames.length > 0 ? ` Custom objects: ${customNames.slice(0, 10).join(", ")}` : "")
+      );
+    }
+  }
+
+  // Standard objects we never described can't be checked any further
+  if (!object) {
+    return finish(text, replacements, repairs, errors);
+  }
+
+  const checkPath = (token: Token): SoqlFieldInfo | undefined => {
+    const result = resolvePath(token.value, object, schema);
+    if (result.error) {
+      errors.push(result.error);
+    } else if (result.repaired && result.repaired !== token.value) {
+      replacements.push({ start: token.start, end: token.end, text: result.repaired });
+      repairs.push(`Field ${token.value} → ${result.repaired}`);
+    }
+    return result.field;
+  };
+
+  // SELECT list - skip child subqueries, check function arguments
+  depth = 0;
+  for (let i = 1; i < fromIndex; i++) {
+    const t = tokens[i];
+    if (t.value === "(") {
+      if (upper(tokens[i + 1]) === "SELECT") {
+        i = skipParens(tokens, i);
+        continue;
+      }
+      depth++;
+      continue;
+    }
+    if (t.value === ")") {
+      depth--;
+      continue;
+    }
+    if (t.type !== "ident" || KEYWORDS.has(t.value.toUpperCase())) continue;
+    if (tokens[i + 1]?.value === "(") continue; // Function name (COUNT, SUM, toLabel...)
+    // Aggregate alias: SUM(Amount) total
+    if (depth === 0 && tokens[i - 1]?.value === ")") continue;
+    checkPath(t);
+  }
+
+  // Remaining clauses
+  let clause = "";
+  for (let i = fromIndex + 2; i < tokens.length; i++) {
+    const t = tokens[i];
+    const word = upper(t);
+    if (["WHERE", "HAVING", "LIMIT", "OFFSET", "WITH", "FOR"].includes(word)) {
+      clause = word;
+      continue;
+    }
+    if ((word === "GROUP" || word === "ORDER") && upper(tokens[i + 1]) === "BY") {
+      clause = word;
+      i++;
+      continue;
+    }
+    if (clause === "" || clause === "LIMIT" || clause === "OFFSET" || clause === "WITH" || clause === "FOR") continue;
+    // Semi-join subqueries run against another object
+    if (t.value === "(" && upper(tokens[i + 1]) === "SELECT") {
+      i = skipParens(tokens, i);
+      continue;
+    }
+    if (t.type !== "ident" || KEYWORDS.has(word)) continue;
+
+    // Function call - check its field argument, not the function name
+    if (tokens[i + 1]?.value === "(") continue;
+
+    if (clause === "GROUP" || clause === "ORDER") {
+      checkPath(t);
+      continue;
+    }
+
+    // WHERE / HAVING: an identifier is a field when an operator follows it
+    // (possibly after the closing paren of a function like CALENDAR_YEAR(CloseDate))
+    let opIndex = i + 1;
+    const insideFunction = tokens[i - 1]?.value === "(" && tokens[i - 2]?.type === "ident" && tokens[i + 1]?.value === ")";
+    if (insideFunction) opIndex = i + 2;
+    const op = tokens[opIndex];
+    const opWord = upper(op);
+    const isOperator = op && (
+      (op.type === "op" && COMPARISON_OPERATORS.has(op.value)) ||
+      ["IN", "LIKE", "INCLUDES", "EXCLUDES"].includes(opWord) ||
+      (opWord === "NOT" && upper(tokens[opIndex + 1]) === "IN")
+    );
+    if (!isOperator) continue;
+
+    const field = checkPath(t);
+    // Literals compared against a function result (CALENDAR_YEAR(...) = 2024) aren't field-typed
+    if (!field || insideFunction) continue;
+
+    const valueStart = opWord === "NOT" ? opIndex + 2 : opIndex + 1;
+    const valueTokens = collectValues(tokens, valueStart);
+    for (const valueToken of valueTokens) {
+      checkValue(valueToken, field, opWord === "LIKE", replacements, repairs, errors);
+    }
+  }
+
+  return finish(text, replacements, repairs, errors);
+}
+
+/**
+ * Resolve a (possibly dotted) field path against an object, repairing safe mistakes
+ */
+function resolvePath(
+  path: string,
+  object: SoqlObjectSchema,
+  schema: SoqlSchema
+): { field?: SoqlFieldInfo; repaired?: string; error?: string } {
+  const segments = path.split(".");
+  const fixed: string[] = [];
+  let current: SoqlObjectSchema | undefined = object;
+
+  // Relationship hops before the leaf field
+  for (let s = 0; s < segments.length - 1; s++) {
+    const seg = segments[s];
+    if (!current) {
+      fixed.push(...segments.slice(s));
+      return { repaired: fixed.join(".") };
+    }
+    if (POLYMORPHIC_RELATIONSHIPS.includes(seg.toLowerCase())) {
+      fixed.push(...segments.slice(s));
+      return { repaired: fixed.join(".") };
+    }
+    const lookup: SoqlFieldInfo | undefined =
+      current.fields.find((f) => f.relationshipName?.toLowerCase() === seg.toLowerCase()) ||
+      // X__c.Name → X__r.Name, AccountId.Name → Account.Name
+      current.fields.find((f) => f.name.toLowerCase() === seg.toLowerCase() && f.relationshipName);
+    if (!lookup || !lookup.relationshipName) {
+      const relationships = current.fields.filter((f) => f.relationshipName).map((f) => f.relationshipName);
+      return {
+        error: `${current.name} has no relationship named ${seg}.` +
+          (relationships.length > 0 ? ` Relationships: ${relationships.slice(0, 10).join(", ")}` : ""),
+      };
+    }
+    fixed.push(lookup.relationshipName);
+    current = lookup.referenceTo ? schema[lookup.referenceTo.toLowerCase()] : undefined;
+  }
+
+  const leaf = segments[segments.length - 1];
+  if (!current) {
+    fixed.push(leaf);
+    return { repaired: fixed.join(".") };
+  }
+
+  const match = findField(leaf, current);
+  if (!match) {
+    const suggestions = suggestFields(leaf, current);
+    return {
+      error: `No field ${leaf} on ${current.name}.` +
+        (suggestions.length > 0 ? ` Did you mean: ${suggestions.join(", ")}?` : ""),
+    };
+  }
+  fixed.push(match.name);
+  return { field: match, repaired: fixed.join(".") };
+}
+
+/**
+ * Find a field by name, accepting case differences, a missing __c suffix,
+ * the field label, or a small typo with a single unambiguous candidate
+ */
+function findField(name: string, object: SoqlObjectSchema): SoqlFieldInfo | undefined {
+  const lower = name.toLowerCase();
+  const squash = (s: string) => s.toLowerCase().replace(/[\s_]/g, "");
+
+  const exact = object.fields.find((f) => f.name.toLowerCase() === lower);
+  if (exact) return exact;
+
+  const withSuffix = object.fields.find((f) => f.name.toLowerCase() === `${lower}__c`);
+  if (withSuffix) return withSuffix;
+
+  const byLabel = object.fields.filter((f) => f.label && squash(f.label) === squash(name.replace(/__c$/i, "")));
+  if (byLabel.length === 1) return byLabel[0];
+
+  const closest = closestName(name, object.fields.map((f) => f.name));
+  return closest ? object.fields.find((f) => f.name === closest) : undefined;
+}
+
+/**
+ * Fields sharing a word with the unknown name - for error messages
+ */
+function suggestFields(name: string, object: SoqlObjectSchema): string[] {
+  const words = name
+    .replace(/__c$/i, "")
+    .split(/[_\s]|(?=[A-Z])/)
+    .map((w) => w.toLowerCase())
+    .filter((w) => w.length > 2);
+  return object.fields
+    .filter((f) => words.some((w) => f.name.toLowerCase().includes(w) || f.label?.toLowerCase().includes(w)))
+    .map((f) => f.name)
+    .slice(0, 5);
+}
+
+/**
+ * Check one literal against the field it is compared with
+ */
+function checkValue(
+  token: Token,
+  field: SoqlFieldInfo,
+  isLike: boolean,
+  replacements: Replacement[],
+  repairs: string[],
+  errors: string[]
+) {
+  const type = field.type.toLowerCase();
+
+  if ((type === "picklist" || type === "multipicklist") && token.type === "string" && !isLike) {
+    const values = field.picklistValues || [];
+    if (values.length === 0 || values.includes(token.value)) return;
+    // Only a difference in case is safe to fix - 'Closed' could mean Won or Lost
+    const match = values.find((p) => p.toLowerCase() === token.value.toLowerCase());
+    if (match) {
+      replacements.push({ start: token.start, end: token.end, text: `'${match.replace(/'/g, "\\'")}'` });
+      repairs.push(`${field.name} value '${token.value}' → '${match}'`);
+    } else {
+      errors.push(`'${token.value}' is not a valid ${field.name} value. Valid values: ${values.join(", ")}`);
+    }
+    return;
+  }
+
+  if (type === "date" || type === "datetime") {
+    if (token.type === "ident") {
+      const literal = normalizeDateLiteral(token.value);
+      if (!literal) {
+        errors.push(`${token.value} is not a SOQL date literal. Use e.g. TODAY, THIS_QUARTER, LAST_N_DAYS:7`);
+      } else if (literal !== token.value) {
+        replacements.push({ start: token.start, end: token.end, text: literal });
+        repairs.push(`Date literal ${token.value} → ${literal}`);
+      }
+      return;
+    }
+    // Dates must not be quoted, and datetime fields need a full timestamp
+    const raw = token.value;
+    if (/^\d{4}-\d{2}-\d{2}$/.test(raw)) {
+      const fixedValue = type === "datetime" ? `${raw}T00:00:00Z` : raw;
+      if (token.type === "string" || fixedValue !== raw) {
+        replacements.push({ start: token.start, end: token.end, text: fixedValue });
+        repairs.push(`${field.name} value ${token.type === "string" ? `'${raw}'` : raw} → ${fixedValue}`);
+      }
+      return;
+    }
+    if (/^\d{4}-\d{2}-\d{2}T/.test(raw)) {
+      const fixedValue = type === "date" ? raw.slice(0, 10) : raw;
+      if (token.type === "string" || fixedValue !== raw) {
+        replacements.push({ start: token.start, end: token.end, text: fixedValue });
+        repairs.push(`${field.name} value ${raw} → ${fixedValue}`);
+      }
+      return;
+    }
+    if (token.type === "string") {
+      errors.push(`${field.name} is a ${type} field; '${raw}' is not a date. Use YYYY-MM-DD or a date literal like TODAY`);
+    }
+  }
+}
+
+/**
+ * Normalize a date literal, repairing common model mistakes
+ * (lowercase, LAST_7_DAYS → LAST_N_DAYS:7). Returns null if unrecognised.
+ */
+function normalizeDateLiteral(value: string): string | null {
+  const v = value.toUpperCase();
+  if (DATE_LITERALS.includes(v)) return v;
+
+  const param = v.match(/^([A-Z_]+):(\d+)$/);
+  if (param && DATE_N_LITERALS.includes(param[1])) return v;
+
+  // LAST_7_DAYS, NEXT_30_DAYS, 3_MONTHS_AGO
+  const inline = v.match(/^(LAST|NEXT)_(\d+)_(DAYS|WEEKS|MONTHS|QUARTERS|YEARS)$/);
+  if (inline) return `${inline[1]}_N_${inline[3]}:${inline[2]}`;
+  const ago = v.match(/^(\d+)_(DAYS|WEEKS|MONTHS|QUARTERS|YEARS)_AGO$/);
+  if (ago) return `N_${ago[2]}_AGO:${ago[1]}`;
+
+  return null;
+}
+
+/**
+ * Values following an operator: a single token or a parenthesised list
+ */
+function collectValues(tokens: Token[], index: number): Token[] {
+  const first = tokens[index];
+  if (!first) return [];
+  if (first.value !== "(") return isLiteral(first) ? [first] : [];
+  // Semi-join subquery - nothing to check here
+  if (tokens[index + 1]?.type === "ident" && tokens[index + 1].value.toUpperCase() === "SELECT") return [];
+  const values: Token[] = [];
+  for (let i = index + 1; i < tokens.length && tokens[i].value !== ")"; i++) {
+    if (isLiteral(tokens[i])) values.push(tokens[i]);
+  }
+  return values;
+}
+
+function isLiteral(token: Token): boolean {
+  if (token.type === "string" || token.type === "number") return true;
+  return token.type === "ident" && !KEYWORDS.has(token.value.toUpperCase());
+}
+
+function skipParens(tokens: Token[], index: number): number {
+  let depth = 0;
+  for (let i = index; i < tokens.length; i++) {
+    if (tokens[i].value === "(") depth++;
+    else if (tokens[i].value === ")" && --depth === 0) return i;
+  }
+  return tokens.length;
+}
+
+/**
+ * Closest candidate within a small edit distance, if exactly one qualifies
+ */
+function closestName(name: string, candidates: string[]): string | undefined {
+  const lower = name.toLowerCase();
+  const exact = candidates.find((c) => c.toLowerCase() === lower);
+  if (exact) return exact;
+  if (name.length < 5) return undefined;
+  const scored = candidates
+    .map((c) => ({ c, d: editDistance(lower, c.toLowerCase()) }))
+    .filter((s) => s.d <= 2)
+    .sort((a, b) => a.d - b.d);
+  if (scored.length === 0) return undefined;
+  if (scored.length > 1 && scored[1].d === scored[0].d) return undefined;
+  return scored[0].c;
+}
+
+function editDistance(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    let prev = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const tmp = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, prev + (a[i - 1] === b[j - 1] ? 0 : 1));
+      prev = tmp;
+    }
+  }
+  return row[b.length];
+}
+
+function finish(
+  soql: string,
+  replacements: Replacement[],
+  repairs: string[],
+  errors: string[]
+): SoqlValidationResult {
+  let repaired = soql;
+  for (const r of [...replacements].sort((a, b) => b.start - a.start)) {
+    repaired = repaired.slice(0, r.start) + r.text + repaired.slice(r.end);
+  }
+  return { valid: errors.length === 0, soql: repaired, repairs, errors };
+}
@@ -1,6 +1,8 @@
 import { v } from "convex/values";
 import { query, mutation, internalQuery, internalMutation } from "./_generated/server";
 import { Doc, Id } from "./_generated/dataModel";
+import { maskPii } from "./redaction";
+import { loadRedactionPolicy } from "./redactionPolicy";
 
 // ============================================================================
 // TEXT MESSAGE QUERIES AND MUTATIONS
@@ -69,13 +71,14 @@ export const logMessage = internalMutation({
   },
   handler: async (ctx, args) => {
     const now = Date.now();
+    const { storage } = await loadRedactionPolicy(ctx, args.userId);
 
     // Insert the message
     const messageId = await ctx.db.insert("textMessages", {
       conversationId: args.conversationId,
       userId: args.userId,
       direction: args.direction,
-      content: args.content,
+      content: maskPii(args.content, storage),
       mediaUrl: args.mediaUrl,
       timestamp: now,
       messageHandle: args.messageHandle,
@@ -4,8 +4,10 @@ import {
   mutation,
   internalMutation,
   internalQuery,
+  QueryCtx,
 } from "./_generated/server";
 import { Doc, Id } from "./_generated/dataModel";
+import { isValidTimeZone } from "./dateResolver";
 
 // ============================================================================
 // PHONE NUMBER UTILITIES
@@ -108,28 +110,42 @@ export const getUser = query({
   },
 });
 
+/**
+ * The signed-in caller's user ID, or null - for checking a userId argument
+ * against who is actually calling
+ */
+export async function getAuthenticatedUserId(ctx: QueryCtx): Promise<Id<"users"> | null> {
+  // Get the authenticated user's identity from Convex Auth
+  const identity = await ctx.auth.getUserIdentity();
+  if (!identity?.subject) return null;
+
+  // Convex Auth subject format is "userId|sessionId"
+  const parts = identity.subject.split("|");
+  if (parts.length !== 2) return null;
+  return ctx.db.normalizeId("users", parts[0]);
+}
+
+/**
+ * Throw unless the signed-in caller is userId - for public mutations that
+ * change what a whole org (or a user's CRM connection) does
+ */
+export async function requireAuthenticatedUser(ctx: QueryCtx, userId: Id<"users">): Promise<void> {
+  if ((await getAuthenticatedUserId(ctx)) !== userId) {
+    throw new Error("Not authorized to change these settings");
+  }
+}
+
 /**
  * Get current user's profile - uses Convex Auth identity
  */
 export const getCurrentUser = query({
   args: {},
   handler: async (ctx) => {
-    // Get the authenticated user's identity from Convex Auth
-    const identity = await ctx.auth.getUserIdentity();
-    if (!identity) return null;
-
-    // Convex Auth subject format is "userId|sessionId"
-    const subject = identity.subject;
-    if (!subject) return null;
-
-    // Parse the subject to extract the user ID (first part)
-    const parts = subject.split("|");
-    if (parts.length !== 2) return null;
-
-    const userId = parts[0];
+    const userId = await getAuthenticatedUserId(ctx);
+    if (!userId) return null;
 
     // Get user directly by ID
-    const user = await ctx.db.get(userId as Id<"users">);
+    const user = await ctx.db.get(userId);
     if (!user) return null;
 
     // Return user data in expected format
@@ -268,6 +284,141 @@ export const removePhoneFromUser = mutation({
   },
 });
 
+/**
+ * Set which AI-initiated Salesforce writes need confirmation
+ * always = every create/update/log, updates = only updates, never = write immediately
+ */
+export const setWriteConfirmation = mutation({
+  args: {
+    userId: v.id("users"),
+    mode: v.union(v.literal("always"), v.literal("updates"), v.literal("never")),
+  },
+  handler: async (ctx, args) => {
+    const user = await ctx.db.get("users", args.userId);
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    await ctx.db.patch("users", args.userId, { writeConfirmation: args.mode });
+
+    return { success: true };
+  },
+});
+
+/**
+ * Opt in to (or out of) cross-channel continuity - voice, SMS, Slack DM and
+ * web turns within the window share one assistant session
+ * Omit windowMinutes to turn it off
+ */
+export const setCrossChannelContinuity = mutation({
+  args: {
+    userId: v.id("users"),
+    windowMinutes: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const user = await ctx.db.get("users", args.userId);
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    if (args.windowMinutes !== undefined && (args.windowMinutes < 1 || args.windowMinutes > 24 * 60)) {
+      throw new Error("Window must be between 1 minute and 24 hours");
+    }
+
+    await ctx.db.patch("users", args.userId, { crossChannelWindowMinutes: args.windowMinutes });
+
+    return { success: true };
+  },
+});
+
+/**
+ * Turn automatic call logging on or off - when on, every voice call is
+ * logged to Salesforce as a completed Task as soon as it ends
+ */
+export const setAutoLogCalls = mutation({
+  args: {
+    userId: v.id("users"),
+    enabled: v.boolean(),
+  },
+  handler: async (ctx, args) => {
+    const user = await ctx.db.get("users", args.userId);
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    await ctx.db.patch("users", args.userId, { autoLogCalls: args.enabled });
+
+    return { success: true };
+  },
+});
+
+/**
+ * Have the next-best-action list sent each morning by text or Slack
+ * Omit channel to stop it
+ */
+export const setMorningRecommendations = mutation({
+  args: {
+    userId: v.id("users"),
+    channel: v.optional(v.union(v.literal("sms"), v.literal("slack"))),
+  },
+  handler: async (ctx, args) => {
+    const user = await ctx.db.get("users", args.userId);
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    await ctx.db.patch("users", args.userId, { morningRecommendations: args.channel });
+
+    return { success: true };
+  },
+});
+
+/**
+ * Text the user when their deals close or change hands ("closed"), or on
+ * every stage change too ("all"). Omit level to stop.
+ */
+export const setDealAlertSms = mutation({
+  args: {
+    userId: v.id("users"),
+    level: v.optional(v.union(v.literal("closed"), v.literal("all"))),
+  },
+  handler: async (ctx, args) => {
+    const user = await ctx.db.get("users", args.userId);
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    await ctx.db.patch("users", args.userId, { dealAlertSms: args.level });
+
+    return { success: true };
+  },
+});
+
+/**
+ * Set the user's time zone (IANA name, e.g. "America/Chicago") for resolving
+ * dates like "tomorrow at 3". Omit timeZone to fall back to the org's.
+ */
+export const setTimeZone = mutation({
+  args: {
+    userId: v.id("users"),
+    timeZone: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const user = await ctx.db.get("users", args.userId);
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    if (args.timeZone !== undefined && !isValidTimeZone(args.timeZone)) {
+      throw new Error(`Unknown time zone: ${args.timeZone}`);
+    }
+
+    await ctx.db.patch("users", args.userId, { timeZone: args.timeZone });
+
+    return { success: true };
+  },
+});
+
 /**
  * Update user's last login timestamp
  */
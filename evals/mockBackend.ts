@@ -0,0 +1,504 @@
+import { getFunctionName } from "convex/server";
+import { buildOrgPromptFragments } from "../convex/orgPromptContext";
+import { DEFAULT_REDACTED_KINDS } from "../convex/redaction";
+import { normalizeAlias, phoneticKey } from "../convex/aliases";
+import { DEFAULT_RECOMMENDATION_RULES } from "../convex/recommendations";
+import { EVAL_USER_ID } from "./orgs";
+import type { CallRecord, EvalCase, OrgFixture } from "./types";
+
+// ============================================================================
+// MOCK BACKEND
+// Stands in for the Convex ctx and the Salesforce REST API. Every call the
+// assistant makes is logged by function name ("salesforce:searchRecords").
+// ============================================================================
+
+const INSTANCE_URL = "https://eval.my.salesforce.com";
+const EVAL_USER = "users_eval";
+const EVAL_SESSION = "agentSessions_eval";
+
+// Calls that write to Salesforce
+export const WRITE_CALLS = new Set([
+  "salesforce:createRecord",
+  "salesforce:updateRecord",
+  "salesforce:updateRecords",
+  "salesforce:logCall",
+  "salesforce:deleteRecord",
+]);
+
+type Handler = (args: Record<string, any>) => any;
+
+/**
+ * Build a ctx whose runQuery / runMutation / runAction are served by mocks.
+ * Records are copied so writes in one case never leak into the next.
+ */
+export function createMockBackend(evalCase: EvalCase, org: OrgFixture) {
+  const calls: CallRecord[] = [];
+  const records: OrgFixture["records"] = structuredClone(org.records);
+  let nextId = 1;
+  // Change journal, seeded with the case's earlier writes
+  const journal: Record<string, any>[] = (evalCase.changes || []).map((change, i) => ({
+    _id: `changeJournal_seed${i}`,
+    userId: EVAL_USER,
+    status: "applied",
+    createdAt: Date.now(),
+    ...structuredClone(change),
+  }));
+
+  const findById = (id: string) => {
+    // Exact Ids first - the fixtures' fake Ids share their 15-character prefixes
+    for (const exact of [true, false]) {
+      for (const [objectType, list] of Object.entries(records)) {
+        const record = list.find((r) => (exact ? r.Id === id : r.Id.slice(0, 15) === id.slice(0, 15)));
+        if (record) return { objectType, record };
+      }
+    }
+    return null;
+  };
+
+  const reportResult = (id: string) => {
+    const result = org.reports?.results[id];
+    if (!result) {
+      throw new Error(`Salesforce API error: 404 - [{"errorCode":"NOT_FOUND","message":"The requested resource does not exist"}]`);
+    }
+    return result;
+  };
+
+  const handlers: Record<string, Handler> = {
+    // --- Sessions, confirmation and disambiguation state ---
+    "agentSessions:getOrCreateSession": () => ({ _id: EVAL_SESSION, userId: EVAL_USER, channel: evalCase.channel || "api" }),
+    "agentSessions:getAssistantContext": () => ({
+      userId: EVAL_USER,
+      shared: false,
+      recentRecords: evalCase.recentRecords || [],
+      messages: (evalCase.history || []).map((m, i) => ({
+        _id: `agentMessages_${i}`,
+        sessionId: EVAL_SESSION,
+        role: m.role,
+        content: m.content,
+        channel: evalCase.channel || "api",
+        timestamp: i,
+      })),
+    }),
+    "agentSessions:recordTurn": () => null,
+    "pendingActions:getOpenActions": () => [],
+    "pendingActions:stage": (args) => ({ pendingActionId: `pendingActions_${nextId++}`, summary: args.summary }),
+    "pendingActions:cancelActions": () => null,
+    "pendingActions:executeActions": () => [],
+    "changeJournal:record": (args) => {
+      const entry = { _id: `changeJournal_${nextId++}`, ...args, status: "applied", createdAt: Date.now() };
+      journal.push(entry);
+      return entry._id;
+    },
+    "changeJournal:getEntry": (args) => journal.find((e) => e._id === args.journalId) || null,
+    "changeJournal:getLatestUndoable": () => [...journal].reverse().find((e) => e.status === "applied") || null,
+    "changeJournal:claimUndo": (args) => {
+      const entry = journal.find((e) => e._id === args.journalId && e.status === "applied");
+      if (!entry) return null;
+      entry.status = "undoing";
+      return entry;
+    },
+    "changeJournal:finishUndo": (args) => {
+      const entry = journal.find((e) => e._id === args.journalId);
+      if (entry) entry.status = args.success ? "undone" : "applied";
+      return null;
+    },
+    "bulkUpdates:getLimitForUser": () => evalCase.bulkUpdateLimit ?? 200,
+    "recommendations:getRulesForUser": () => DEFAULT_RECOMMENDATION_RULES,
+    "disambiguation:getOpenQuestions": () => [],
+    "disambiguation:getSessionChoice": () => null,
+    "disambiguation:getPreference": () => null,
+    "disambiguation:openQuestion": () => `disambiguations_${nextId++}`,
+    "disambiguation:choose": () => null,
+    "disambiguation:correct": () => null,
+    "aliases:lookup": (args) => {
+      const alias = normalizeAlias(args.term);
+      const visible = (evalCase.aliases || []).filter((a) => !args.objectType || a.objectType === args.objectType);
+      const match = visible.find((a) => normalizeAlias(a.alias) === alias)
+        || visible.find((a) => phoneticKey(a.alias) === phoneticKey(alias));
+      return match ? { aliasId: "recordAliases_eval", ...match, match: "exact" } : null;
+    },
+    "crm:getConnection": () => "salesforce",
+    "users:getUser": () => ({ _id: EVAL_USER, writeConfirmation: evalCase.confirmationMode, timeZone: evalCase.timeZone }),
+    "orgMetadata:getAvailableObjects": () => org.metadata,
+    "orgPromptContext:getForUser": () => {
+      // As stored by the post-sync rebuild
+      const { fragments, contentHash } = buildOrgPromptFragments(org.metadata.customObjects);
+      return fragments.length ? { instanceUrl: INSTANCE_URL, version: 1, contentHash, fragments } : null;
+    },
+    "llmConfig:getTenantConfig": () => null,
+    "redactionPolicy:getForUser": () => ({ llm: evalCase.redact ?? DEFAULT_REDACTED_KINDS, storage: DEFAULT_REDACTED_KINDS }),
+    "llmMetrics:record": () => null,
+    // No stored index - the assistant rebuilds it from the catalog
+    "reports:getForUser": () => null,
+    "reports:save": () => null,
+
+    // --- Salesforce ---
+    "salesforce:searchRecords": (args) => {
+      if (args.query.toUpperCase().startsWith("SELECT")) {
+        return runSoql(args.query, records);
+      }
+      // SOSL: name search, returns Id and Name unless fields are asked for
+      const objectType = args.objectType || "Account";
+      const term = args.query.toLowerCase();
+      const matches = (records[objectType] || [])
+        .filter((r) => Object.values(r).some((value) => typeof value === "string" && value.toLowerCase().includes(term)))
+        .slice(0, args.limit || 10)
+        .map((r) => ({ attributes: { type: objectType }, ...(args.fields ? r : { Id: r.Id, Name: r.Name }) }));
+      return { records: matches, totalSize: matches.length };
+    },
+    "salesforce:getRecord": (args) => {
+      const found = findById(args.recordId);
+      if (!found) {
+        throw new Error(`Salesforce API error: 404 - [{"errorCode":"NOT_FOUND","message":"The requested resource does not exist"}]`);
+      }
+      const fields: string[] | undefined = args.fields;
+      if (!fields?.length) return { attributes: { type: found.objectType }, ...found.record };
+      return Object.fromEntries([["Id", found.record.Id], ...fields.map((f) => [f, readPath(found.record, f) ?? null])]);
+    },
+    "salesforce:createRecord": (args) => {
+      const prefix = (records[args.objectType]?.[0]?.Id || "a00").slice(0, 3);
+      const id = `${prefix}EVALNEW${String(nextId++).padStart(6, "0")}`;
+      (records[args.objectType] ||= []).push({ Id: id, OwnerId: EVAL_USER_ID, ...args.fields });
+      return {
+        success: true,
+        id,
+        recordUrl: `${INSTANCE_URL}/lightning/r/${args.objectType}/${id}/view`,
+        instanceUrl: INSTANCE_URL,
+        objectType: args.objectType,
+        message: `Created new ${args.objectType} with ID ${id}`,
+      };
+    },
+    "salesforce:updateRecord": (args) => {
+      const found = findById(args.recordId);
+      if (!found) {
+        throw new Error(`Salesforce API error: 404 - [{"errorCode":"NOT_FOUND","message":"The requested resource does not exist"}]`);
+      }
+      Object.assign(found.record, args.fields);
+      return { success: true, message: `Updated ${args.objectType} ${args.recordId}` };
+    },
+    "salesforce:updateRecords": (args) => {
+      const results = args.recordIds.map((id: string) => {
+        const found = findById(id);
+        if (found) Object.assign(found.record, args.fields);
+        return found ? { id, success: true } : { id, success: false, error: "The requested resource does not exist" };
+      });
+      return { results, updated: results.filter((r: any) => r.success).length, failed: results.filter((r: any) => !r.success).length };
+    },
+    "salesforce:deleteRecord": (args) => {
+      const found = findById(args.recordId);
+      if (!found) {
+        throw new Error(`Salesforce API error: 404 - [{"errorCode":"NOT_FOUND","message":"The requested resource does not exist"}]`);
+      }
+      records[found.objectType] = records[found.objectType].filter((r) => r !== found.record);
+      return { success: true, message: `Deleted ${args.objectType} ${args.recordId}` };
+    },
+    "salesforce:logCall": () => {
+      const id = `00TEVALNEW${String(nextId++).padStart(6, "0")}`;
+      return { success: true, taskId: id, message: `Logged call activity with ID ${id}` };
+    },
+    "salesforce:getMyTasks": () => {
+      const tasks = (records.Task || []).filter((t) => t.Status !== "Completed");
+      return {
+        tasks: tasks.map((t) => ({
+          id: t.Id,
+          subject: t.Subject,
+          status: t.Status,
+          priority: t.Priority,
+          dueDate: t.ActivityDate,
+          relatedTo: t.What?.Name || t.Who?.Name || "None",
+        })),
+        count: tasks.length,
+      };
+    },
+    "salesforce:getMyOpportunities": () => {
+      const opportunities = (records.Opportunity || []).filter((o) => !o.IsClosed);
+      const totalAmount = opportunities.reduce((sum, o) => sum + (o.Amount || 0), 0);
+      return {
+        opportunities: opportunities.map((o) => ({
+          id: o.Id,
+          name: o.Name,
+          amount: o.Amount,
+          stage: o.StageName,
+          closeDate: o.CloseDate,
+          accountName: o.Account?.Name,
+          probability: o.Probability,
+        })),
+        count: opportunities.length,
+        totalAmount,
+        summary: `You have ${opportunities.length} opportunities totaling $${totalAmount.toLocaleString()}`,
+      };
+    },
+    // Composite: queries and record GETs, with @{ref.path} references to earlier results
+    "salesforce:batchRequest": (args) => {
+      const results: Record<string, { status: number; body: any }> = {};
+      const resolve = (text: string) =>
+        text.replace(/@\{(\w+)\.([\w.]+)\}/g, (_, ref, path) => String(readPath(results[ref]?.body || {}, path) ?? ""));
+      for (const request of args.requests) {
+        try {
+          if (request.soql !== undefined) {
+            results[request.referenceId] = { status: 200, body: runSoql(resolve(request.soql), records) };
+            continue;
+          }
+          const get = resolve(request.url || "").match(/^\/sobjects\/(\w+)\/(\w+)(?:\?fields=([\w.,]+))?$/);
+          if ((request.method || "GET") !== "GET" || !get) throw new Error(`Unsupported subrequest: ${request.method} ${request.url}`);
+          const body = handlers["salesforce:getRecord"]({ objectType: get[1], recordId: get[2], fields: get[3]?.split(",") });
+          results[request.referenceId] = { status: 200, body };
+        } catch (error: any) {
+          if (error.message.startsWith("Unsupported")) throw error;
+          results[request.referenceId] = { status: 404, body: [{ errorCode: "NOT_FOUND", message: error.message }] };
+        }
+      }
+      return results;
+    },
+    "salesforce:getReportCatalog": () => ({
+      instanceUrl: INSTANCE_URL,
+      reports: org.reports?.catalog.reports || [],
+      dashboards: org.reports?.catalog.dashboards || [],
+    }),
+    "salesforce:listReports": () =>
+      (org.reports?.catalog.reports || []).filter((r) => r.LastViewedDate).map((r) => ({ id: r.Id, name: r.Name })),
+    "salesforce:runReport": (args) => reportResult(args.reportId),
+    "salesforce:getDashboardResults": (args) => reportResult(args.dashboardId),
+    "salesforce:getMyAccounts": () => {
+      const accounts = records.Account || [];
+      return {
+        accounts: accounts.map((a) => ({
+          id: a.Id,
+          name: a.Name,
+          industry: a.Industry,
+          annualRevenue: a.AnnualRevenue,
+          employees: a.NumberOfEmployees,
+          website: a.Website,
+          phone: a.Phone,
+          location: a.BillingCity && a.BillingState ? `${a.BillingCity}, ${a.BillingState}` : null,
+        })),
+        count: accounts.length,
+        userId: EVAL_USER_ID,
+        userName: "Eval User",
+      };
+    },
+    "salesforce:getMyLeads": () => {
+      const leads = records.Lead || [];
+      return {
+        leads: leads.map((l) => ({
+          id: l.Id,
+          name: l.Name,
+          company: l.Company,
+          email: l.Email,
+          phone: l.Phone,
+          status: l.Status,
+          source: l.LeadSource,
+          createdDate: l.CreatedDate,
+        })),
+        count: leads.length,
+        summary: `You have ${leads.length} lead${leads.length !== 1 ? "s" : ""}`,
+      };
+    },
+  };
+
+  const run = async (ref: any, args: Record<string, any> = {}) => {
+    const fn = getFunctionName(ref);
+    calls.push({ fn, args });
+    const handler = handlers[fn];
+    if (!handler) {
+      throw new Error(`Eval backend has no mock for ${fn}`);
+    }
+    return handler(args);
+  };
+
+  const ctx = {
+    runQuery: run,
+    runMutation: run,
+    runAction: run,
+    scheduler: { runAfter: async () => null, runAt: async () => null },
+  };
+
+  return { ctx, calls, records, userId: EVAL_USER };
+}
+
+// ============================================================================
+// SOQL
+// Enough of SOQL for the assistant's queries: SELECT ... FROM ... WHERE (AND-ed
+// comparisons, LIKE, IN) ORDER BY ... LIMIT n. Conditions it can't evaluate
+// (date literals, functions, OR groups) are treated as true.
+// ============================================================================
+
+function runSoql(rawSoql: string, records: OrgFixture["records"]) {
+  // Same placeholder substitution as salesforce.searchRecords
+  const soql = rawSoql.replace(/['"]?CURRENT_USER['"]?|\{userId\}|\{currentUser\}|\{me\}|:userId/gi, `'${EVAL_USER_ID}'`);
+
+  const match = soql.match(/^SELECT\s+([\s\S]+?)\s+FROM\s+(\w+)([\s\S]*)$/i);
+  if (!match) {
+    throw new Error(`Salesforce API error: 400 - [{"errorCode":"MALFORMED_QUERY","message":"unexpected token"}]`);
+  }
+  const [, selectList, objectType, rest] = match;
+  const source = records[objectType];
+  if (!source) {
+    throw new Error(`Salesforce API error: 400 - [{"errorCode":"INVALID_TYPE","message":"sObject type '${objectType}' is not supported."}]`);
+  }
+
+  const limitMatch = rest.match(/\bLIMIT\s+(\d+)/i);
+  const orderMatch = rest.match(/\bORDER\s+BY\s+([\w.]+)(?:\s+(ASC|DESC))?/i);
+  const whereMatch = rest.match(/\bWHERE\s+([\s\S]+?)(?=\s+ORDER\s+BY|\s+GROUP\s+BY|\s+LIMIT|$)/i);
+
+  let rows = source.filter((record) => !whereMatch || matchesWhere(record, whereMatch[1]));
+  const groupMatch = rest.match(/\bGROUP\s+BY\s+([\s\S]+?)(?=\s+HAVING|\s+ORDER\s+BY|\s+LIMIT|$)/i);
+  if (groupMatch || /\b(COUNT|COUNT_DISTINCT|SUM|AVG|MIN|MAX)\(\s*[\w.]+\s*\)/i.test(selectList)) {
+    return runAggregate(selectList, groupMatch?.[1], rest, rows);
+  }
+  if (orderMatch) {
+    const [, path, direction] = orderMatch;
+    const sign = direction?.toUpperCase() === "DESC" ? -1 : 1;
+    rows = [...rows].sort((a, b) => compare(readPath(a, path), readPath(b, path)) * sign);
+  }
+  if (limitMatch) rows = rows.slice(0, Number(limitMatch[1]));
+
+  if (/^\s*COUNT\(\s*\)\s*$/i.test(selectList)) {
+    return { records: [], totalSize: rows.length };
+  }
+  return {
+    records: rows.map((record) => ({ attributes: { type: objectType }, ...record })),
+    totalSize: rows.length,
+  };
+}
+
+// Aggregate SOQL: AggregateResult rows keyed by alias, exprN or field name.
+// HAVING is not evaluated; date functions group on the raw value's prefix.
+function runAggregate(selectList: string, groupList: string | undefined, rest: string, rows: Record<string, any>[]) {
+  const groupKeys = (groupList || "").split(",").map((g) => g.trim()).filter(Boolean);
+  const groupValue = (record: Record<string, any>, expression: string) => {
+    const dateFn = expression.match(/^(\w+)\(\s*([\w.]+)\s*\)$/);
+    if (!dateFn) return readPath(record, expression);
+    const value = String(readPath(record, dateFn[2]) ?? "");
+    if (/^CALENDAR_YEAR$/i.test(dateFn[1])) return Number(value.slice(0, 4));
+    if (/^CALENDAR_MONTH$/i.test(dateFn[1])) return Number(value.slice(5, 7));
+    if (/^CALENDAR_QUARTER$/i.test(dateFn[1])) return Math.ceil(Number(value.slice(5, 7)) / 3);
+    return value.slice(0, 10);
+  };
+
+  const buckets = new Map<string, Record<string, any>[]>();
+  for (const record of rows) {
+    const key = JSON.stringify(groupKeys.map((g) => groupValue(record, g) ?? null));
+    buckets.set(key, [...(buckets.get(key) || []), record]);
+  }
+  if (groupKeys.length === 0 && buckets.size === 0) buckets.set("[]", []);
+
+  let expr = 0;
+  const columns = selectList.split(",").map((item) => {
+    const [, expression, alias] = item.trim().match(/^(.+?)(?:\s+(\w+))?$/) as RegExpMatchArray;
+    const fn = expression.match(/^(COUNT|COUNT_DISTINCT|SUM|AVG|MIN|MAX)\(\s*([\w.]*)\s*\)$/i);
+    const key = alias || (fn || /\(/.test(expression) ? `expr${expr++}` : expression.split(".").pop() as string);
+    return { expression, key, fn: fn?.[1].toUpperCase(), field: fn?.[2] };
+  });
+
+  const results = [...buckets.values()].map((bucket) => {
+    const row: Record<string, any> = { attributes: { type: "AggregateResult" } };
+    for (const column of columns) {
+      if (!column.fn) {
+        row[column.key] = bucket.length ? groupValue(bucket[0], column.expression) ?? null : null;
+        continue;
+      }
+      const values = column.field ? bucket.map((r) => readPath(r, column.field as string)).filter((v) => v != null) : bucket;
+      const numbers = values.map(Number);
+      switch (column.fn) {
+        case "COUNT": row[column.key] = values.length; break;
+        case "COUNT_DISTINCT": row[column.key] = new Set(values).size; break;
+        case "SUM": row[column.key] = numbers.length ? numbers.reduce((a, b) => a + b, 0) : null; break;
+        case "AVG": row[column.key] = numbers.length ? numbers.reduce((a, b) => a + b, 0) / numbers.length : null; break;
+        case "MIN": row[column.key] = values.length ? [...values].sort(compare)[0] : null; break;
+        case "MAX": row[column.key] = values.length ? [...values].sort(compare).pop() : null; break;
+      }
+    }
+    return row;
+  });
+
+  // ORDER BY an aggregate or group expression, as written in the SELECT list
+  const orderMatch = rest.match(/\bORDER\s+BY\s+(\w+\(\s*[\w.]*\s*\)|[\w.]+)(?:\s+(ASC|DESC))?/i);
+  const normalize = (e: string) => e.replace(/\s+/g, "").toLowerCase();
+  const orderColumn = orderMatch && columns.find((c) => normalize(c.expression) === normalize(orderMatch[1]));
+  if (orderMatch && orderColumn) {
+    const sign = orderMatch[2]?.toUpperCase() === "DESC" ? -1 : 1;
+    results.sort((a, b) => compare(a[orderColumn.key], b[orderColumn.key]) * sign);
+  }
+  const limitMatch = rest.match(/\bLIMIT\s+(\d+)/i);
+  const limited = limitMatch ? results.slice(0, Number(limitMatch[1])) : results;
+  return { records: limited, totalSize: limited.length };
+}
+
+function matchesWhere(record: Record<string, any>, where: string): boolean {
+  if (/\bOR\b/i.test(where)) return true;
+  return where.split(/\s+AND\s+/i).every((condition) => matchesCondition(record, condition.trim().replace(/^\(|\)$/g, "")));
+}
+
+function matchesCondition(record: Record<string, any>, condition: string): boolean {
+  const inMatch = condition.match(/^([\w.]+)\s+(NOT\s+)?IN\s*\(([^)]*)\)$/i);
+  if (inMatch) {
+    const values = inMatch[3].split(",").map((v) => parseLiteral(v.trim()));
+    const value = readPath(record, inMatch[1]);
+    const found = values.some((v) => looseEquals(value, v));
+    return inMatch[2] ? !found : found;
+  }
+
+  const comparison = condition.match(/^([\w.]+)\s*(=|!=|<>|<=|>=|<|>|\bLIKE\b)\s*(.+)$/i);
+  if (!comparison) return true;
+  const [, path, op, rawValue] = comparison;
+  // Date literals (TODAY, THIS_QUARTER, LAST_N_DAYS:30) aren't evaluated
+  if (/^[A-Z_]+(:\d+)?$/.test(rawValue.trim()) && !/^(NULL|TRUE|FALSE)$/i.test(rawValue.trim())) return true;
+
+  const expected = parseLiteral(rawValue.trim());
+  const actual = readPath(record, path);
+  switch (op.toUpperCase()) {
+    case "=":
+      return looseEquals(actual, expected);
+    case "!=":
+    case "<>":
+      return !looseEquals(actual, expected);
+    case "LIKE": {
+      const pattern = String(expected).replace(/[.*+?^${}()|[\]\\]/g, "\\$&").replace(/%/g, ".*").replace(/_/g, ".");
+      return new RegExp(`^${pattern}$`, "i").test(String(actual ?? ""));
+    }
+    default:
+      return compareOp(compare(actual, expected), op);
+  }
+}
+
+// Salesforce compares strings case-insensitively and Ids in 15 or 18 characters
+function looseEquals(actual: any, expected: any): boolean {
+  if (typeof actual === "string" && typeof expected === "string") {
+    const isId = (s: string) => /^[a-zA-Z0-9]{15}([a-zA-Z0-9]{3})?$/.test(s);
+    if (isId(actual) && isId(expected)) return actual.slice(0, 15) === expected.slice(0, 15);
+    return actual.toLowerCase() === expected.toLowerCase();
+  }
+  return (actual ?? null) === expected;
+}
+
+function compareOp(result: number, op: string): boolean {
+  switch (op) {
+    case "<": return result < 0;
+    case ">": return result > 0;
+    case "<=": return result <= 0;
+    case ">=": return result >= 0;
+    default: return true;
+  }
+}
+
+function parseLiteral(raw: string): any {
+  if (/^'.*'$/.test(raw) || /^".*"$/.test(raw)) return raw.slice(1, -1).replace(/\\'/g, "'");
+  if (/^null$/i.test(raw)) return null;
+  if (/^true$/i.test(raw)) return true;
+  if (/^false$/i.test(raw)) return false;
+  if (/^-?\d+(\.\d+)?$/.test(raw)) return Number(raw);
+  return raw;
+}
+
+function compare(a: any, b: any): number {
+  if (a === b) return 0;
+  if (a === undefined || a === null) return -1;
+  if (b === undefined || b === null) return 1;
+  return a < b ? -1 : 1;
+}
+
+// "Account.Name" → record.Account.Name
+function readPath(record: Record<string, any>, path: string): any {
+  return path.split(".").reduce<any>((value, key) => (value == null ? undefined : value[key]), record);
+}
@@ -0,0 +1,246 @@
+import type { OrgFixture } from "./types";
+
+// ============================================================================
+// ORG FIXTURES
+// Synced metadata (what orgMetadata.getAvailableObjects returns) plus the
+// records the mocked Salesforce serves. Every record is owned by EVAL_USER_ID.
+// ============================================================================
+
+export const EVAL_USER_ID = "005EVAL0000000001";
+
+const field = (name: string, label: string, type: string, extra: Record<string, any> = {}) => ({
+  name,
+  label,
+  type,
+  ...extra,
+});
+
+const STANDARD_OBJECTS = [
+  {
+    name: "Account",
+    label: "Account",
+    queryable: true,
+    fields: [
+      field("Name", "Account Name", "string"),
+      field("OwnerId", "Owner ID", "reference", { referenceTo: "User", relationshipName: "Owner" }),
+      field("Type", "Account Type", "picklist", { picklistValues: ["Prospect", "Customer - Direct", "Partner"] }),
+      field("Industry", "Industry", "picklist", { picklistValues: ["Technology", "Manufacturing", "Retail"] }),
+      field("AnnualRevenue", "Annual Revenue", "currency"),
+      field("Phone", "Phone", "phone"),
+      field("Website", "Website", "url"),
+      field("BillingCity", "Billing City", "string"),
+      field("BillingState", "Billing State", "string"),
+      field("NumberOfEmployees", "Employees", "int"),
+    ],
+  },
+  {
+    name: "Contact",
+    label: "Contact",
+    queryable: true,
+    fields: [
+      field("Name", "Full Name", "string"),
+      field("OwnerId", "Owner ID", "reference", { referenceTo: "User", relationshipName: "Owner" }),
+      field("FirstName", "First Name", "string"),
+      field("LastName", "Last Name", "string"),
+      field("Email", "Email", "email"),
+      field("Phone", "Phone", "phone"),
+      field("Title", "Title", "string"),
+      field("AccountId", "Account ID", "reference", { referenceTo: "Account", relationshipName: "Account" }),
+    ],
+  },
+  {
+    name: "Opportunity",
+    label: "Opportunity",
+    queryable: true,
+    fields: [
+      field("Name", "Name", "string"),
+      field("OwnerId", "Owner ID", "reference", { referenceTo: "User", relationshipName: "Owner" }),
+      field("Amount", "Amount", "currency"),
+      field("StageName", "Stage", "picklist", {
+        picklistValues: ["Prospecting", "Qualification", "Proposal", "Negotiation", "Closed Won", "Closed Lost"],
+      }),
+      field("CloseDate", "Close Date", "date"),
+      field("Probability", "Probability (%)", "percent"),
+      field("IsClosed", "Closed", "boolean"),
+      field("NextStep", "Next Step", "string"),
+      field("AccountId", "Account ID", "reference", { referenceTo: "Account", relationshipName: "Account" }),
+    ],
+  },
+  {
+    name: "Lead",
+    label: "Lead",
+    queryable: true,
+    fields: [
+      field("Name", "Full Name", "string"),
+      field("OwnerId", "Owner ID", "reference", { referenceTo: "User", relationshipName: "Owner" }),
+      field("FirstName", "First Name", "string"),
+      field("LastName", "Last Name", "string"),
+      field("Company", "Company", "string"),
+      field("Email", "Email", "email"),
+      field("Phone", "Phone", "phone"),
+      field("Status", "Lead Status", "picklist", { picklistValues: ["Open", "Working", "Qualified", "Unqualified"] }),
+      field("LeadSource", "Lead Source", "picklist", { picklistValues: ["Web", "Referral", "Event"] }),
+    ],
+  },
+  {
+    name: "Case",
+    label: "Case",
+    queryable: true,
+    fields: [
+      field("OwnerId", "Owner ID", "reference", { referenceTo: "User", relationshipName: "Owner" }),
+      field("Subject", "Subject", "string"),
+      field("Description", "Description", "textarea"),
+      field("Status", "Status", "picklist", { picklistValues: ["New", "Working", "Escalated", "Closed"] }),
+      field("Priority", "Priority", "picklist", { picklistValues: ["High", "Medium", "Low"] }),
+      field("AccountId", "Account ID", "reference", { referenceTo: "Account", relationshipName: "Account" }),
+    ],
+  },
+  {
+    name: "Task",
+    label: "Task",
+    queryable: true,
+    fields: [
+      field("OwnerId", "Owner ID", "reference", { referenceTo: "User", relationshipName: "Owner" }),
+      field("Subject", "Subject", "string"),
+      field("Status", "Status", "picklist", { picklistValues: ["Not Started", "In Progress", "Completed"] }),
+      field("Priority", "Priority", "picklist", { picklistValues: ["High", "Normal", "Low"] }),
+      field("ActivityDate", "Due Date", "date"),
+      field("WhoId", "Name ID", "reference", { referenceTo: "Contact", relationshipName: "Who" }),
+      field("WhatId", "Related To ID", "reference", { referenceTo: "Account", relationshipName: "What" }),
+    ],
+  },
+];
+
+const owned = (record: Record<string, any>) => ({ OwnerId: EVAL_USER_ID, ...record });
+
+const STANDARD_RECORDS: OrgFixture["records"] = {
+  Account: [
+    owned({ Id: "001EVAL000000001", Name: "Acme Corp", Industry: "Manufacturing", BillingCity: "Denver", BillingState: "CO", Type: "Customer - Direct" }),
+    owned({ Id: "001EVAL000000002", Name: "Acme Labs", Industry: "Technology", BillingCity: "Austin", BillingState: "TX", Type: "Prospect" }),
+    owned({ Id: "001EVAL000000003", Name: "Globex", Industry: "Retail", BillingCity: "Chicago", BillingState: "IL", Type: "Customer - Direct" }),
+  ],
+  Contact: [
+    owned({ Id: "003EVAL000000001", Name: "John Smith", FirstName: "John", LastName: "Smith", Email: "john@acme.example", Title: "VP Operations", AccountId: "001EVAL000000001", Account: { Name: "Acme Corp" } }),
+    owned({ Id: "003EVAL000000002", Name: "Sarah Chen", FirstName: "Sarah", LastName: "Chen", Email: "sarah@globex.example", Title: "CFO", AccountId: "001EVAL000000003", Account: { Name: "Globex" } }),
+  ],
+  Opportunity: [
+    owned({ Id: "006EVAL000000001", Name: "Acme – 50k", Amount: 50000, StageName: "Qualification", CloseDate: "2026-12-15", Probability: 20, IsClosed: false, AccountId: "001EVAL000000001", Account: { Name: "Acme Corp" } }),
+    owned({ Id: "006EVAL000000002", Name: "Globex Renewal", Amount: 120000, StageName: "Negotiation", CloseDate: "2026-11-30", Probability: 70, IsClosed: false, AccountId: "001EVAL000000003", Account: { Name: "Globex" } }),
+    owned({ Id: "006EVAL000000003", Name: "Acme Labs Pilot", Amount: 15000, StageName: "Closed Won", CloseDate: "2026-09-01", Probability: 100, IsClosed: true, AccountId: "001EVAL000000002", Account: { Name: "Acme Labs" } }),
+  ],
+  Lead: [
+    owned({ Id: "00QEVAL000000001", Name: "Maria Lopez", FirstName: "Maria", LastName: "Lopez", Company: "Initech", Status: "Open", LeadSource: "Web", CreatedDate: "2026-10-10T15:00:00.000+0000" }),
+    owned({ Id: "00QEVAL000000002", Name: "Tom Baker", FirstName: "Tom", LastName: "Baker", Company: "Hooli", Status: "Working", LeadSource: "Referral", CreatedDate: "2026-10-01T15:00:00.000+0000" }),
+  ],
+  Case: [
+    owned({ Id: "500EVAL000000001", Subject: "Login issue", Status: "New", Priority: "High", AccountId: "001EVAL000000003" }),
+  ],
+  Task: [
+    owned({ Id: "00TEVAL000000001", Subject: "Send Globex pricing", Status: "Not Started", Priority: "High", ActivityDate: "2026-10-20", What: { Name: "Globex" } }),
+    owned({ Id: "00TEVAL000000002", Subject: "Call John Smith", Status: "In Progress", Priority: "Normal", ActivityDate: "2026-10-22", Who: { Name: "John Smith" } }),
+  ],
+};
+
+// Saved reports (Report / Dashboard SOQL rows) and Analytics API results by Id
+const STANDARD_REPORTS: NonNullable<OrgFixture["reports"]> = {
+  catalog: {
+    reports: [
+      { Id: "00OEVAL000000001", Name: "Pipeline by Stage", FolderName: "Sales Reports", Format: "SUMMARY", LastViewedDate: "2026-10-15T16:00:00.000+0000" },
+      { Id: "00OEVAL000000002", Name: "Pipeline by Rep", FolderName: "Sales Reports", Format: "SUMMARY", LastViewedDate: null },
+      { Id: "00OEVAL000000003", Name: "Closed Won This Quarter", FolderName: "Sales Reports", Format: "TABULAR", LastViewedDate: null },
+    ],
+    dashboards: [
+      { Id: "01ZEVAL000000001", Title: "Sales Leadership", FolderName: "Company Dashboards", LastViewedDate: null },
+    ],
+  },
+  results: {
+    "00OEVAL000000001": {
+      attributes: { reportId: "00OEVAL000000001", reportName: "Pipeline by Stage" },
+      reportMetadata: {
+        name: "Pipeline by Stage",
+        reportFormat: "SUMMARY",
+        aggregates: ["s!AMOUNT", "RowCount"],
+        groupingsDown: [{ name: "STAGE_NAME", sortOrder: "Asc", dateGranularity: "None" }],
+        reportFilters: [],
+      },
+      reportExtendedMetadata: {
+        aggregateColumnInfo: {
+          "s!AMOUNT": { label: "Sum of Amount", dataType: "currency" },
+          RowCount: { label: "Record Count", dataType: "int" },
+        },
+        groupingColumnInfo: { STAGE_NAME: { label: "Stage", dataType: "picklist" } },
+      },
+      groupingsDown: {
+        groupings: [
+          { key: "0", label: "Qualification", value: "Qualification", groupings: [] },
+          { key: "1", label: "Negotiation", value: "Negotiation", groupings: [] },
+          { key: "2", label: "Closed Won", value: "Closed Won", groupings: [] },
+        ],
+      },
+      factMap: {
+        "0!T": { aggregates: [{ label: "$50,000.00", value: 50000 }, { label: "1", value: 1 }] },
+        "1!T": { aggregates: [{ label: "$120,000.00", value: 120000 }, { label: "1", value: 1 }] },
+        "2!T": { aggregates: [{ label: "$15,000.00", value: 15000 }, { label: "1", value: 1 }] },
+        "T!T": { aggregates: [{ label: "$185,000.00", value: 185000 }, { label: "3", value: 3 }] },
+      },
+      hasDetailRows: false,
+      allData: true,
+    },
+  },
+};
+
+export const ORGS: Record<string, OrgFixture> = {
+  // Standard objects only
+  standard: {
+    metadata: { standardObjects: STANDARD_OBJECTS, customObjects: [] },
+    records: STANDARD_RECORDS,
+    reports: STANDARD_REPORTS,
+  },
+
+  // Adds an SMS integration package and a custom invoice object
+  custom: {
+    metadata: {
+      standardObjects: STANDARD_OBJECTS,
+      customObjects: [
+        {
+          name: "sendblue__Conversation__c",
+          label: "Conversation",
+          queryable: true,
+          description: "SMS conversations synced from Sendblue",
+          keyFields: [
+            field("Name", "Conversation Name", "string"),
+            field("OwnerId", "Owner ID", "reference", { referenceTo: "User", relationshipName: "Owner" }),
+            field("sendblue__Contact_Number__c", "Contact Number", "phone"),
+            field("sendblue__Lead__c", "Lead", "reference", { referenceTo: "Lead", relationshipName: "sendblue__Lead__r" }),
+            field("sendblue__Last_Message__c", "Last Message", "textarea"),
+          ],
+        },
+        {
+          name: "Invoice__c",
+          label: "Invoice",
+          queryable: true,
+          keyFields: [
+            field("Name", "Invoice Name", "string"),
+            field("OwnerId", "Owner ID", "reference", { referenceTo: "User", relationshipName: "Owner" }),
+            field("Payment_Amount__c", "Payment Amount", "currency"),
+            field("Due_Date__c", "Due Date", "date"),
+            field("Status__c", "Status", "picklist", { picklistValues: ["Draft", "Sent", "Paid", "Overdue"] }),
+            field("Account__c", "Account", "reference", { referenceTo: "Account", relationshipName: "Account__r" }),
+          ],
+        },
+      ],
+    },
+    records: {
+      ...STANDARD_RECORDS,
+      sendblue__Conversation__c: [
+        owned({ Id: "a01EVAL000000001", Name: "CONV-0001", sendblue__Contact_Number__c: "+18185881911", sendblue__Lead__c: "00QEVAL000000001", sendblue__Lead__r: { Name: "Maria Lopez", Company: "Initech" } }),
+        owned({ Id: "a01EVAL000000002", Name: "CONV-0002", sendblue__Contact_Number__c: "+14155550100", sendblue__Lead__c: null }),
+      ],
+      Invoice__c: [
+        owned({ Id: "a02EVAL000000001", Name: "INV-1001", Payment_Amount__c: 12000, Status__c: "Overdue", Due_Date__c: "2026-09-30", Account__c: "001EVAL000000003", Account__r: { Name: "Globex" } }),
+        owned({ Id: "a02EVAL000000002", Name: "INV-1002", Payment_Amount__c: 4000, Status__c: "Paid", Due_Date__c: "2026-10-05", Account__c: "001EVAL000000001", Account__r: { Name: "Acme Corp" } }),
+      ],
+    },
+    reports: STANDARD_REPORTS,
+  },
+};
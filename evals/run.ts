@@ -0,0 +1,179 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import path from "node:path";
+import { runAssistant, type AssistantMetrics } from "../convex/ai";
+import { resolveLLM } from "../convex/llm";
+import { createMockBackend } from "./mockBackend";
+import { ORGS } from "./orgs";
+import { diffReports, scoreCase } from "./score";
+import type { CaseResult, EvalCase, EvalReport } from "./types";
+
+// ============================================================================
+// ASSISTANT EVAL RUNNER
+// npm run eval [-- --provider stub|anthropic|openai] [--only <id>] [--verbose]
+//
+// Runs every corpus case through the real assistant (prompt, agent loop,
+// SOQL validation, executeIntent) against a mocked Salesforce, scores it,
+// writes evals/results/<provider>.json and diffs it against the previous run.
+// The stub provider (the default) replays each case's script, so it needs no
+// network; a live model runs only with --provider.
+// ============================================================================
+
+const EVAL_DIR = path.join(process.cwd(), "evals");
+const RESULTS_DIR = path.join(EVAL_DIR, "results");
+
+function parseArgs(argv: string[]) {
+  const options: { provider?: string; only?: string; verbose: boolean } = { verbose: false };
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === "--provider") options.provider = argv[++i];
+    else if (argv[i] === "--only") options.only = argv[++i];
+    else if (argv[i] === "--verbose") options.verbose = true;
+  }
+  return options;
+}
+
+async function runCase(evalCase: EvalCase, provider: string, verbose: boolean): Promise<CaseResult> {
+  const started = Date.now();
+  const org = ORGS[evalCase.org || "standard"];
+  if (!org) {
+    return { id: evalCase.id, score: 0, passed: false, checks: [{ name: "org fixture exists", passed: false, detail: evalCase.org }], durationMs: 0 };
+  }
+  if (provider === "stub") {
+    if (!evalCase.script) {
+      return { id: evalCase.id, score: 0, passed: false, skipped: "no script for the stub provider", checks: [], durationMs: 0 };
+    }
+    // One fixture per case, matching whatever the user said
+    process.env.LLM_STUB_FIXTURES = JSON.stringify([
+      { feature: "assistant", match: "/[\\s\\S]*/", responses: evalCase.script },
+    ]);
+  }
+
+  const backend = createMockBackend(evalCase, org);
+  const errors: string[] = [];
+  const original = { log: console.log, warn: console.warn, error: console.error };
+  if (!verbose) {
+    console.log = () => {};
+    console.warn = () => {};
+  }
+  console.error = (...args: any[]) => {
+    errors.push(args.map((a) => (a instanceof Error ? a.message : typeof a === "string" ? a : JSON.stringify(a))).join(" "));
+    if (verbose) original.error(...args);
+  };
+
+  try {
+    const result = await runAssistant(backend.ctx as any, {
+      userMessage: evalCase.utterance,
+      userId: backend.userId as any,
+      channel: evalCase.channel,
+    });
+    const checks = scoreCase(evalCase, result, backend.calls);
+    const passedCount = checks.filter((c) => c.passed).length;
+    return {
+      id: evalCase.id,
+      score: checks.length ? passedCount / checks.length : 1,
+      passed: passedCount === checks.length,
+      checks,
+      durationMs: Date.now() - started,
+      response: result.response,
+      calls: backend.calls,
+      errors: errors.length ? errors : undefined,
+      metrics: result.metrics,
+    };
+  } catch (error: any) {
+    return {
+      id: evalCase.id,
+      score: 0,
+      passed: false,
+      checks: [{ name: "ran without throwing", passed: false, detail: error.message }],
+      durationMs: Date.now() - started,
+      calls: backend.calls,
+      errors: errors.length ? errors : undefined,
+    };
+  } finally {
+    Object.assign(console, original);
+  }
+}
+
+// Everything the model read, cached or not
+function inputTokens(metrics: AssistantMetrics): number {
+  return metrics.inputTokens + metrics.cacheReadTokens + metrics.cacheWriteTokens;
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+  // Live models only when asked for - an API key in the environment isn't enough
+  const provider = options.provider || "stub";
+  process.env.LLM_PROVIDER = provider;
+
+  let model: string;
+  try {
+    ({ settings: { model } } = await resolveLLM({}, "assistant"));
+  } catch (error: any) {
+    console.error(`Can't run evals with provider "${provider}": ${error.message}`);
+    process.exit(2);
+  }
+
+  const corpus: EvalCase[] = JSON.parse(readFileSync(path.join(EVAL_DIR, "corpus.json"), "utf8"));
+  const cases = options.only ? corpus.filter((c) => c.id.includes(options.only!)) : corpus;
+  console.log(`Running ${cases.length} eval case${cases.length === 1 ? "" : "s"} with ${provider} (${model})\n`);
+
+  const results: CaseResult[] = [];
+  for (const evalCase of cases) {
+    const result = await runCase(evalCase, provider, options.verbose);
+    results.push(result);
+
+    if (result.skipped) {
+      console.log(`  -  ${result.id}  skipped (${result.skipped})`);
+      continue;
+    }
+    const tokens = result.metrics ? `  ${inputTokens(result.metrics)} in / ${result.metrics.outputTokens} out` : "";
+    console.log(`  ${result.passed ? "✓" : "✗"}  ${result.id}  ${Math.round(result.score * 100)}%  ${result.durationMs}ms${tokens}`);
+    for (const check of result.checks.filter((c) => !c.passed)) {
+      console.log(`       ✗ ${check.name}${check.detail ? `\n         ${check.detail}` : ""}`);
+    }
+  }
+
+  const ran = results.filter((r) => !r.skipped);
+  const report: EvalReport = {
+    runAt: new Date().toISOString(),
+    provider,
+    model,
+    totals: {
+      cases: ran.length,
+      passed: ran.filter((r) => r.passed).length,
+      skipped: results.length - ran.length,
+      score: ran.length ? ran.reduce((sum, r) => sum + r.score, 0) / ran.length : 0,
+      inputTokens: ran.reduce((sum, r) => sum + (r.metrics ? inputTokens(r.metrics) : 0), 0),
+      outputTokens: ran.reduce((sum, r) => sum + (r.metrics?.outputTokens || 0), 0),
+      modelLatencyMs: ran.reduce((sum, r) => sum + (r.metrics?.latencyMs || 0), 0),
+    },
+    cases: results,
+  };
+
+  console.log(`\n${report.totals.passed}/${report.totals.cases} passed, score ${(report.totals.score * 100).toFixed(1)}%${report.totals.skipped ? `, ${report.totals.skipped} skipped` : ""}`);
+  console.log(`${report.totals.inputTokens} input / ${report.totals.outputTokens} output tokens, ${report.totals.modelLatencyMs}ms waiting on the model`);
+
+  // Compare with the last full run for this provider
+  const reportPath = path.join(RESULTS_DIR, `${provider}.json`);
+  if (!options.only) {
+    if (existsSync(reportPath)) {
+      const previous: EvalReport = JSON.parse(readFileSync(reportPath, "utf8"));
+      const diff = diffReports(previous, report);
+      console.log(`\nSince ${previous.runAt} (${previous.model}): ${(diff.scoreBefore * 100).toFixed(1)}% → ${(diff.scoreAfter * 100).toFixed(1)}%`);
+      for (const r of diff.regressions) console.log(`  ▼ ${r.id}  ${Math.round(r.before * 100)}% → ${Math.round(r.after * 100)}%`);
+      for (const r of diff.improvements) console.log(`  ▲ ${r.id}  ${Math.round(r.before * 100)}% → ${Math.round(r.after * 100)}%`);
+      if (diff.added.length) console.log(`  new: ${diff.added.join(", ")}`);
+      if (diff.removed.length) console.log(`  removed: ${diff.removed.join(", ")}`);
+      if (!diff.regressions.length && !diff.improvements.length) console.log("  no score changes");
+      if (previous.totals.inputTokens !== undefined) {
+        console.log(`  input tokens ${previous.totals.inputTokens} → ${report.totals.inputTokens}, model latency ${previous.totals.modelLatencyMs}ms → ${report.totals.modelLatencyMs}ms`);
+      }
+    }
+    mkdirSync(RESULTS_DIR, { recursive: true });
+    writeFileSync(reportPath, JSON.stringify(report, null, 2));
+    console.log(`\nReport written to ${path.relative(process.cwd(), reportPath)}`);
+  }
+
+  process.exit(report.totals.passed === report.totals.cases ? 0 : 1);
+}
+
+void main();
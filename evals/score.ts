@@ -0,0 +1,169 @@
+import { toolInputToIntent, type AssistantResult, type ParsedIntent } from "../convex/ai";
+import { WRITE_CALLS } from "./mockBackend";
+import type { CallRecord, CaseResult, EvalCase, EvalReport, Expected } from "./types";
+
+// ============================================================================
+// SCORING
+// Each expectation is one check; a case's score is the fraction that passed.
+// ============================================================================
+
+type Check = CaseResult["checks"][number];
+
+export function scoreCase(evalCase: EvalCase, result: AssistantResult, calls: CallRecord[]): Check[] {
+  const { expect } = evalCase;
+  const checks: Check[] = [];
+
+  const intents = (result.steps || [])
+    .map((step) => toolInputToIntent(step.tool, step.input || {}))
+    .filter((intent): intent is ParsedIntent => intent !== null);
+  if (expect.intents) {
+    checks.push(...matchInOrder("intent", expect.intents, intents));
+  }
+
+  if (expect.soql) {
+    // What actually reached Salesforce, after validation/repair - alone or in a composite batch
+    const queries = calls
+      .flatMap((call) => {
+        if (call.fn === "salesforce:searchRecords") return [call.args.query];
+        if (call.fn === "salesforce:batchRequest") return call.args.requests.map((r: { soql?: string }) => r.soql);
+        return [];
+      })
+      .filter((query): query is string => typeof query === "string" && /^\s*SELECT\b/i.test(query))
+      .map(normalizeWhitespace);
+    for (const shape of expect.soql) {
+      const name = `soql FROM ${shape.from}${shape.includes?.length ? ` with ${shape.includes.join(", ")}` : ""}`;
+      const hit = queries.find((query) =>
+        new RegExp(`\\bFROM\\s+${shape.from}\\b`, "i").test(query)
+        && (shape.includes || []).every((part) => soqlContains(query, part))
+        && !(shape.excludes || []).some((part) => soqlContains(query, part))
+      );
+      checks.push({
+        name,
+        passed: !!hit,
+        detail: hit ? undefined : queries.length ? `got: ${queries.join(" | ")}` : "no SOQL was run",
+      });
+    }
+  }
+
+  if (expect.calls) {
+    checks.push(...matchInOrder("call", expect.calls, calls));
+  }
+
+  if (expect.noWrites) {
+    const writes = calls.filter((call) => WRITE_CALLS.has(call.fn));
+    checks.push({
+      name: "no writes",
+      passed: writes.length === 0,
+      detail: writes.length ? `wrote via ${writes.map((w) => w.fn).join(", ")}` : undefined,
+    });
+  }
+
+  if (expect.action) {
+    checks.push({
+      name: `action ${expect.action}`,
+      passed: result.action === expect.action,
+      detail: result.action === expect.action ? undefined : `got: ${result.action ?? "(none)"}`,
+    });
+  }
+
+  const response = result.response.toLowerCase();
+  for (const text of expect.response?.includes || []) {
+    checks.push({ name: `response includes "${text}"`, passed: response.includes(text.toLowerCase()), detail: result.response });
+  }
+  for (const text of expect.response?.excludes || []) {
+    checks.push({ name: `response excludes "${text}"`, passed: !response.includes(text.toLowerCase()), detail: result.response });
+  }
+
+  // Only keep the detail on failures
+  return checks.map((check) => (check.passed ? { name: check.name, passed: true } : check));
+}
+
+/**
+ * Each expected item must match an actual item after the previous match
+ * (extra actual items are fine)
+ */
+function matchInOrder(kind: string, expected: Record<string, any>[], actual: Record<string, any>[]): Check[] {
+  let cursor = 0;
+  return expected.map((item) => {
+    const index = actual.findIndex((candidate, i) => i >= cursor && matches(item, candidate));
+    const name = `${kind} ${describe(item)}`;
+    if (index === -1) {
+      return { name, passed: false, detail: `got: ${actual.slice(cursor).map(describe).join(" → ") || "(nothing)"}` };
+    }
+    cursor = index + 1;
+    return { name, passed: true };
+  });
+}
+
+/**
+ * Loose structural match - see Expected
+ */
+export function matches(expected: Expected | undefined, actual: any): boolean {
+  if (expected === undefined) return true;
+  if (expected === null) return actual === null || actual === undefined;
+  if (typeof expected === "string") {
+    if (actual === undefined || actual === null) return false;
+    const regex = expected.match(/^\/(.+)\/([a-z]*)$/s);
+    if (regex) return new RegExp(regex[1], regex[2]).test(String(actual));
+    return String(actual).toLowerCase() === expected.toLowerCase();
+  }
+  if (typeof expected !== "object") return actual === expected;
+  if (Array.isArray(expected)) {
+    return Array.isArray(actual) && expected.every((item, i) => matches(item, actual[i]));
+  }
+  if (!actual || typeof actual !== "object") return false;
+  return Object.entries(expected).every(([key, value]) => matches(value, actual[key]));
+}
+
+function describe(item: Record<string, any>): string {
+  const text = JSON.stringify(item);
+  return text.length > 160 ? `${text.slice(0, 157)}...` : text;
+}
+
+function normalizeWhitespace(soql: string): string {
+  return soql.replace(/\s+/g, " ").trim();
+}
+
+// Plain strings match case-insensitively; use "/regex/" when case matters (picklist values)
+function soqlContains(query: string, part: string): boolean {
+  const regex = part.match(/^\/(.+)\/([a-z]*)$/s);
+  if (regex) return new RegExp(regex[1], regex[2]).test(query);
+  return query.toLowerCase().includes(normalizeWhitespace(part).toLowerCase());
+}
+
+// ============================================================================
+// REPORT DIFF
+// ============================================================================
+
+export interface ReportDiff {
+  regressions: { id: string; before: number; after: number }[];
+  improvements: { id: string; before: number; after: number }[];
+  added: string[];
+  removed: string[];
+  scoreBefore: number;
+  scoreAfter: number;
+}
+
+export function diffReports(previous: EvalReport, current: EvalReport): ReportDiff {
+  const before = new Map(previous.cases.filter((c) => !c.skipped).map((c) => [c.id, c.score]));
+  const after = new Map(current.cases.filter((c) => !c.skipped).map((c) => [c.id, c.score]));
+  const diff: ReportDiff = {
+    regressions: [],
+    improvements: [],
+    added: [],
+    removed: [],
+    scoreBefore: previous.totals.score,
+    scoreAfter: current.totals.score,
+  };
+
+  for (const [id, score] of after) {
+    const old = before.get(id);
+    if (old === undefined) diff.added.push(id);
+    else if (score < old) diff.regressions.push({ id, before: old, after: score });
+    else if (score > old) diff.improvements.push({ id, before: old, after: score });
+  }
+  for (const id of before.keys()) {
+    if (!after.has(id)) diff.removed.push(id);
+  }
+  return diff;
+}
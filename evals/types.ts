@@ -0,0 +1,100 @@
+import type { AssistantMetrics, ParsedIntent } from "../convex/ai";
+import type { SessionRecord } from "../convex/agentSessions";
+import type { ConfirmationMode } from "../convex/pendingActions";
+import type { StubResponse } from "../convex/llmStub";
+import type { PiiKind } from "../convex/redaction";
+
+// ============================================================================
+// EVAL TYPES
+// ============================================================================
+
+/**
+ * Expected values match loosely: strings compare case-insensitively, a
+ * "/regex/flags" string is tested as a regex, objects match on the keys given.
+ */
+export type Expected = string | number | boolean | null | Expected[] | { [key: string]: Expected };
+
+export interface EvalCase {
+  id: string;
+  description?: string;
+  org?: string; // Org fixture name (default "standard")
+  channel?: "voice" | "sms" | "slack" | "web" | "api";
+  confirmationMode?: ConfirmationMode; // Default: the production default
+  bulkUpdateLimit?: number; // Org's cap on records per bulk update (default 200)
+  timeZone?: string; // User's IANA time zone (default: the org's, then UTC)
+  redact?: PiiKind[]; // Org redaction policy for model calls (default: DEFAULT_REDACTED_KINDS)
+  aliases?: { alias: string; objectType: string; recordId: string; recordName: string }[]; // The user's record aliases
+  // The assistant's earlier writes in the session, oldest first (see changeJournal.ts)
+  changes?: {
+    operation: "create" | "update" | "log_call";
+    objectType: string;
+    recordId: string;
+    recordName?: string;
+    before?: Record<string, any>;
+    after: Record<string, any>;
+    summary: string;
+  }[];
+  history?: { role: "user" | "assistant"; content: string }[]; // Earlier turns in the session
+  recentRecords?: SessionRecord[]; // Session memory, most recent first
+  utterance: string;
+  // What the model does, one entry per round trip - replayed by the stub
+  // provider so the case also runs offline
+  script?: StubResponse[];
+  expect: {
+    // Intents the agent should produce, in order (extra intents are allowed)
+    intents?: Partial<Record<keyof ParsedIntent, Expected>>[];
+    // SOQL sent to Salesforce, after validation/repair
+    soql?: { from: string; includes?: string[]; excludes?: string[] }[]; // "/regex/" parts are case-sensitive
+    // Backend calls ("salesforce:updateRecord", "pendingActions:stage", ...), in order
+    calls?: { fn: string; args?: { [key: string]: Expected } }[];
+    noWrites?: boolean; // No create/update/logCall may reach Salesforce
+    action?: string; // AssistantResult.action
+    response?: { includes?: string[]; excludes?: string[] };
+  };
+}
+
+export interface OrgFixture {
+  metadata: {
+    standardObjects: any[];
+    customObjects: any[];
+  };
+  records: Record<string, Record<string, any>[]>; // Object API name → records
+  reports?: {
+    catalog: { reports: Record<string, any>[]; dashboards: Record<string, any>[] };
+    results: Record<string, any>; // Report or dashboard Id → Analytics API result
+  };
+}
+
+export interface CallRecord {
+  fn: string;
+  args: Record<string, any>;
+}
+
+export interface CaseResult {
+  id: string;
+  score: number; // Passed checks / total checks
+  passed: boolean;
+  skipped?: string; // Why the case didn't run
+  checks: { name: string; passed: boolean; detail?: string }[];
+  durationMs: number;
+  response?: string;
+  calls?: CallRecord[];
+  errors?: string[]; // console.error output while the case ran
+  metrics?: AssistantMetrics; // Tokens and model latency (the stub estimates tokens)
+}
+
+export interface EvalReport {
+  runAt: string;
+  provider: string;
+  model: string;
+  totals: {
+    cases: number;
+    passed: number;
+    skipped: number;
+    score: number;
+    inputTokens?: number; // Uncached + cached input over all cases
+    outputTokens?: number;
+    modelLatencyMs?: number;
+  };
+  cases: CaseResult[];
+}